@@ -12,16 +12,22 @@ process.on('unhandledRejection', (reason) => {
   process.exit(1);
 });
 
+import { startServer } from './server.js';
+import { getTransportMode } from './utils/server-config.js';
+
+const transport = getTransportMode();
+
 // Exit when our parent (Claude Code/Desktop) closes the stdio pipe so we
 // don't accumulate zombie Node processes after parent crashes / restarts.
 // Without this we've seen multi-week-old MCP servers piling up and
-// hammering the bridge endlessly.
-process.stdin.on('end', () => process.exit(0));
-process.stdin.on('error', () => process.exit(1));
-
-import { startServer } from './server.js';
+// hammering the bridge endlessly. In HTTP mode stdin is irrelevant (the
+// server is typically started detached), so the process lives until killed.
+if (transport === 'stdio') {
+  process.stdin.on('end', () => process.exit(0));
+  process.stdin.on('error', () => process.exit(1));
+}
 
-startServer().catch((error) => {
+startServer({ transport }).catch((error) => {
   console.error('[noteplan-mcp] Failed to start server:', error);
   process.exit(1);
 });
@@ -1,13 +1,17 @@
-// Path helpers for the per-note `_attachments` sibling folder NotePlan uses
-// to store images and other files referenced by a note. Lives in the
-// noteplan/ layer so both the tools/attachments.ts API surface and
-// file-writer.ts (move/rename/delete) can share the conventions instead
-// of duplicating them.
+// Path and link helpers for the per-note `_attachments` sibling folder
+// NotePlan uses to store images and other files referenced by a note. Lives
+// in the noteplan/ layer so the tools/attachments.ts API surface, the vault
+// importer and file-writer.ts (move/rename/delete) can share the conventions
+// instead of duplicating them.
 
 import * as path from 'path';
 
 export const ATTACHMENT_SUFFIX = '_attachments';
 
+const IMAGE_EXTENSIONS = new Set([
+  'jpg', 'jpeg', 'png', 'gif', 'bmp', 'tiff', 'tif', 'webp', 'heic', 'heif',
+]);
+
 /**
  * Get the note base name (filename without extension) that the
  * `_attachments` folder name is derived from. Mirrors NotePlan's
@@ -28,3 +32,53 @@ export function getAttachmentsAbsolutePath(absoluteNotePath: string): string {
   const noteName = getNoteBaseName(absoluteNotePath);
   return path.join(noteDir, `${noteName}${ATTACHMENT_SUFFIX}`);
 }
+
+/**
+ * Sanitize filename by removing markdown-conflicting characters.
+ * Mirrors FileAttachments.cleanImageNameFromMarkdownConflicts()
+ */
+export function cleanFilename(name: string): string {
+  return name.replace(/[()[\]!]/g, '');
+}
+
+/**
+ * Get the relative markdown link path for an attachment.
+ * Mirrors: url.pathComponents.suffix(2).joined(separator: "/")
+ * Returns: "noteName_attachments/filename.png"
+ */
+export function getRelativeAttachmentPath(noteFilename: string, attachmentFilename: string): string {
+  const noteName = getNoteBaseName(noteFilename);
+  return `${noteName}${ATTACHMENT_SUFFIX}/${attachmentFilename}`;
+}
+
+/**
+ * Percent-encode special characters in paths for markdown links.
+ * Mirrors: FileAttachments.encoded()
+ */
+function encodePath(filePath: string): string {
+  return filePath
+    .replace(/%/g, '%25')
+    .replace(/\(/g, '%28')
+    .replace(/\)/g, '%29')
+    .replace(/ /g, '%20');
+}
+
+/**
+ * Check if a file is an image based on extension.
+ */
+export function isImageFile(filename: string): boolean {
+  const ext = path.extname(filename).toLowerCase().replace('.', '');
+  return IMAGE_EXTENSIONS.has(ext);
+}
+
+/**
+ * Generate the markdown link for an attachment.
+ * Images: ![image](relativePath)
+ * Files:  ![file](relativePath)
+ */
+export function toMarkdownLink(noteFilename: string, attachmentFilename: string): string {
+  const relativePath = getRelativeAttachmentPath(noteFilename, attachmentFilename);
+  const encoded = encodePath(relativePath);
+  const alt = isImageFile(attachmentFilename) ? 'image' : 'file';
+  return `![${alt}](${encoded})`;
+}
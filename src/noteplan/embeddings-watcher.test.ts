@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('./unified-store.js', () => ({
+  listNotes: vi.fn(async () => []),
+  invalidateListingCaches: vi.fn(),
+}));
+vi.mock('./file-reader.js', () => ({
+  getAllNotePlanPaths: vi.fn(() => []),
+}));
+vi.mock('./embeddings.js', async () => {
+  const actual = await vi.importActual<typeof import('./embeddings.js')>('./embeddings.js');
+  return {
+    EmbeddingsHttpError: actual.EmbeddingsHttpError,
+    ensureEmbeddingsApiConfigured: vi.fn(() => ({ ok: true })),
+    getEmbeddingsConfig: vi.fn(() => ({
+      enabled: true,
+      autoSync: true,
+      autoSyncDebounceMs: 10_000,
+      autoSyncPollMs: 120_000,
+    })),
+    syncEmbeddings: vi.fn(),
+  };
+});
+
+import { EmbeddingsHttpError, syncEmbeddings } from './embeddings.js';
+import {
+  getEmbeddingsWatcherStatus,
+  isWatchedNoteFile,
+  queueEmbeddingsSync,
+  startEmbeddingsWatcher,
+  stopEmbeddingsWatcher,
+} from './embeddings-watcher.js';
+
+const syncResult = (overrides: Record<string, unknown> = {}) => ({
+  success: true,
+  scannedNotes: 3,
+  indexedNotes: 1,
+  indexedChunks: 2,
+  reusedChunks: 4,
+  prunedNotes: 0,
+  hasMore: false,
+  ...overrides,
+});
+
+describe('embeddings watcher', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(syncEmbeddings).mockReset();
+  });
+
+  afterEach(() => {
+    stopEmbeddingsWatcher();
+    vi.useRealTimers();
+  });
+
+  it('only reacts to note files', () => {
+    expect(isWatchedNoteFile('Notes/Projects/Plan.md')).toBe(true);
+    expect(isWatchedNoteFile('Calendar/2026/20260317.txt')).toBe(true);
+    expect(isWatchedNoteFile('Notes/.Plan.md.swp')).toBe(false);
+    expect(isWatchedNoteFile('Caches/search.db')).toBe(false);
+  });
+
+  it('debounces changes into one sync and pages through the notes', async () => {
+    vi.mocked(syncEmbeddings)
+      .mockResolvedValueOnce(syncResult({ hasMore: true }) as any)
+      .mockResolvedValueOnce(syncResult() as any);
+
+    expect(startEmbeddingsWatcher({ debounceMs: 1000, pollMs: 60_000 })).toBe(true);
+    queueEmbeddingsSync('Notes/A.md');
+    await vi.advanceTimersByTimeAsync(500);
+    queueEmbeddingsSync('Notes/B.md');
+    expect(getEmbeddingsWatcherStatus()).toMatchObject({ state: 'pending', pendingChanges: 3 });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(syncEmbeddings).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(syncEmbeddings).mock.calls[1][0]).toMatchObject({ offset: 3 });
+    expect(getEmbeddingsWatcherStatus()).toMatchObject({
+      state: 'idle',
+      runs: 1,
+      lastError: null,
+      lastSync: { scannedNotes: 6, indexedChunks: 4, reusedChunks: 8 },
+    });
+  });
+
+  it('backs off after a rate limit and retries', async () => {
+    vi.mocked(syncEmbeddings)
+      .mockRejectedValueOnce(new EmbeddingsHttpError('Embeddings request failed (429): slow down', 429, 45_000))
+      .mockResolvedValueOnce(syncResult() as any);
+
+    startEmbeddingsWatcher({ debounceMs: 1000, pollMs: 60_000 });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(getEmbeddingsWatcherStatus()).toMatchObject({
+      state: 'backoff',
+      consecutiveFailures: 1,
+      lastError: 'Embeddings request failed (429): slow down',
+    });
+
+    // Changes during the backoff don't cut it short
+    queueEmbeddingsSync('Notes/A.md');
+    await vi.advanceTimersByTimeAsync(44_000);
+    expect(syncEmbeddings).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(syncEmbeddings).toHaveBeenCalledTimes(2);
+    expect(getEmbeddingsWatcherStatus()).toMatchObject({ state: 'idle', consecutiveFailures: 0 });
+  });
+});
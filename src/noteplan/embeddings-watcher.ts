@@ -0,0 +1,260 @@
+// Background embeddings sync (opt-in: NOTEPLAN_EMBEDDINGS_AUTO_SYNC=true).
+//
+// Watches the NotePlan storage folders for note file changes and polls space
+// notes' modification times (they live in NotePlan's database, not in
+// files). Changes are debounced into one sync run; syncEmbeddings skips notes
+// whose content hash is unchanged and re-embeds only the chunks whose text
+// changed. When the provider rate-limits or fails, runs back off
+// exponentially (honouring Retry-After). State is reported through
+// noteplan_embeddings status.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as store from './unified-store.js';
+import { getAllNotePlanPaths } from './file-reader.js';
+import {
+  EmbeddingsHttpError,
+  ensureEmbeddingsApiConfigured,
+  getEmbeddingsConfig,
+  syncEmbeddings,
+} from './embeddings.js';
+
+export type EmbeddingsWatcherState = 'stopped' | 'idle' | 'pending' | 'syncing' | 'backoff';
+
+type SyncSummary = {
+  finishedAt: string;
+  durationMs: number;
+  scannedNotes: number;
+  indexedNotes: number;
+  indexedChunks: number;
+  reusedChunks: number;
+  prunedNotes: number;
+};
+
+const PAGE_SIZE = 5000;
+const BACKOFF_BASE_MS = 30_000;
+const BACKOFF_MAX_MS = 15 * 60_000;
+const NOTE_FILE_PATTERN = /^(Notes|Calendar)\/.+\.(md|txt)$/;
+
+let state: EmbeddingsWatcherState = 'stopped';
+let watchers: fs.FSWatcher[] = [];
+let watchedPaths: string[] = [];
+let debounceTimer: NodeJS.Timeout | null = null;
+let pollTimer: NodeJS.Timeout | null = null;
+let debounceMs = 0;
+let pendingReasons = new Set<string>();
+let rerunRequested = false;
+let consecutiveFailures = 0;
+let nextRunAt: Date | null = null;
+let lastError: string | null = null;
+let lastSync: SyncSummary | null = null;
+let spaceSignature: string | null = null;
+let runCount = 0;
+
+/** Whether a path reported by fs.watch (relative to a storage root) is a note file. */
+export function isWatchedNoteFile(relativePath: string): boolean {
+  const normalized = relativePath.replace(/\\/g, '/');
+  if (normalized.split('/').some((part) => part.startsWith('.'))) return false;
+  return NOTE_FILE_PATTERN.test(normalized);
+}
+
+/** stopEmbeddingsWatcher may run while a sync is awaiting the provider. */
+function wasStopped(): boolean {
+  return state === 'stopped';
+}
+
+function schedule(delayMs: number): void {
+  if (debounceTimer) clearTimeout(debounceTimer);
+  nextRunAt = new Date(Date.now() + delayMs);
+  debounceTimer = setTimeout(() => {
+    debounceTimer = null;
+    void runSync();
+  }, delayMs);
+  debounceTimer.unref?.();
+}
+
+/**
+ * Ask for a background sync. Calls within the debounce window collapse into
+ * one run; a change during a run queues one more run after it. While backing
+ * off, the retry keeps its time.
+ */
+export function queueEmbeddingsSync(reason: string): void {
+  if (state === 'stopped') return;
+  pendingReasons.add(reason);
+  if (state === 'syncing') {
+    rerunRequested = true;
+    return;
+  }
+  if (state === 'backoff') return;
+  state = 'pending';
+  schedule(debounceMs);
+}
+
+function backoffDelay(error: unknown): number {
+  const exponential = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (consecutiveFailures - 1));
+  if (error instanceof EmbeddingsHttpError && error.retryAfterMs !== null) {
+    return Math.min(BACKOFF_MAX_MS, Math.max(error.retryAfterMs, BACKOFF_BASE_MS));
+  }
+  return exponential;
+}
+
+async function runSync(): Promise<void> {
+  if (state === 'stopped') return;
+  state = 'syncing';
+  nextRunAt = null;
+  rerunRequested = false;
+  pendingReasons = new Set();
+  const startedAt = Date.now();
+  runCount += 1;
+
+  try {
+    const apiCheck = ensureEmbeddingsApiConfigured();
+    if (!apiCheck.ok) throw new Error(apiCheck.error);
+
+    // Note files changed behind the store's back
+    store.invalidateListingCaches();
+    const summary: SyncSummary = {
+      finishedAt: '',
+      durationMs: 0,
+      scannedNotes: 0,
+      indexedNotes: 0,
+      indexedChunks: 0,
+      reusedChunks: 0,
+      prunedNotes: 0,
+    };
+    let offset = 0;
+    for (;;) {
+      const result = await syncEmbeddings({ offset, limit: PAGE_SIZE, pruneMissing: true });
+      if (!result.success) throw new Error(result.error ?? 'Embeddings sync failed');
+      const scanned = result.scannedNotes ?? 0;
+      summary.scannedNotes += scanned;
+      summary.indexedNotes += result.indexedNotes ?? 0;
+      summary.indexedChunks += result.indexedChunks ?? 0;
+      summary.reusedChunks += result.reusedChunks ?? 0;
+      summary.prunedNotes += result.prunedNotes ?? 0;
+      if (!result.hasMore || scanned === 0 || wasStopped()) break;
+      offset += scanned;
+    }
+
+    summary.finishedAt = new Date().toISOString();
+    summary.durationMs = Date.now() - startedAt;
+    lastSync = summary;
+    lastError = null;
+    consecutiveFailures = 0;
+    if (wasStopped()) return;
+    state = 'idle';
+    if (rerunRequested) {
+      state = 'pending';
+      schedule(debounceMs);
+    }
+  } catch (error) {
+    if (wasStopped()) return;
+    consecutiveFailures += 1;
+    lastError = error instanceof Error ? error.message : String(error);
+    console.error(`[noteplan-mcp] Background embeddings sync failed (attempt ${consecutiveFailures}): ${lastError}`);
+    state = 'backoff';
+    pendingReasons.add('retry');
+    schedule(backoffDelay(error));
+  }
+}
+
+/** Space notes have no files to watch; compare their count and newest modification time. */
+async function pollSpaceNotes(): Promise<void> {
+  if (state === 'stopped') return;
+  try {
+    const spaceNotes = (await store.listNotes()).filter((note) => note.source === 'space');
+    const newest = spaceNotes.reduce((max, note) => Math.max(max, note.modifiedAt?.getTime() ?? 0), 0);
+    const signature = `${spaceNotes.length}:${newest}`;
+    if (spaceSignature !== null && signature !== spaceSignature) {
+      queueEmbeddingsSync('space notes changed');
+    }
+    spaceSignature = signature;
+  } catch (error) {
+    console.error('[noteplan-mcp] Failed to poll space notes for embeddings sync:', error);
+  }
+}
+
+function watchStoragePath(root: string): fs.FSWatcher | null {
+  try {
+    const watcher = fs.watch(root, { recursive: true, persistent: false }, (_event, filename) => {
+      if (!filename) return;
+      const relative = filename.toString();
+      if (isWatchedNoteFile(relative)) {
+        queueEmbeddingsSync(path.join(root, relative));
+      }
+    });
+    watcher.on('error', (error) => {
+      console.error(`[noteplan-mcp] Embeddings watcher error for ${root}:`, error);
+    });
+    return watcher;
+  } catch (error) {
+    console.error(`[noteplan-mcp] Cannot watch ${root} for embeddings sync:`, error);
+    return null;
+  }
+}
+
+/**
+ * Start watching and run an initial catch-up sync. Returns false when auto
+ * sync is off or embeddings aren't usable. Options override the env config.
+ */
+export function startEmbeddingsWatcher(options: { debounceMs?: number; pollMs?: number } = {}): boolean {
+  const config = getEmbeddingsConfig();
+  if (state !== 'stopped' || !config.enabled || !config.autoSync) return false;
+
+  debounceMs = options.debounceMs ?? config.autoSyncDebounceMs;
+  const pollMs = options.pollMs ?? config.autoSyncPollMs;
+  state = 'idle';
+  watchedPaths = [];
+  for (const root of getAllNotePlanPaths()) {
+    const watcher = watchStoragePath(root);
+    if (watcher) {
+      watchers.push(watcher);
+      watchedPaths.push(root);
+    }
+  }
+
+  void pollSpaceNotes();
+  pollTimer = setInterval(() => void pollSpaceNotes(), pollMs);
+  pollTimer.unref?.();
+
+  queueEmbeddingsSync('startup');
+  console.error(
+    `[noteplan-mcp] Background embeddings sync watching ${watchedPaths.length} path(s), debounce ${debounceMs}ms`
+  );
+  return true;
+}
+
+export function stopEmbeddingsWatcher(): void {
+  for (const watcher of watchers) watcher.close();
+  watchers = [];
+  watchedPaths = [];
+  if (debounceTimer) clearTimeout(debounceTimer);
+  if (pollTimer) clearInterval(pollTimer);
+  debounceTimer = null;
+  pollTimer = null;
+  state = 'stopped';
+  pendingReasons = new Set();
+  rerunRequested = false;
+  consecutiveFailures = 0;
+  nextRunAt = null;
+  lastError = null;
+  lastSync = null;
+  spaceSignature = null;
+  runCount = 0;
+}
+
+export function getEmbeddingsWatcherStatus() {
+  const config = getEmbeddingsConfig();
+  return {
+    enabled: config.autoSync,
+    state,
+    watchedPaths,
+    debounceMs: state === 'stopped' ? config.autoSyncDebounceMs : debounceMs,
+    pendingChanges: pendingReasons.size,
+    nextRunAt: nextRunAt?.toISOString() ?? null,
+    runs: runCount,
+    consecutiveFailures,
+    lastError,
+    lastSync,
+  };
+}
@@ -5,8 +5,25 @@ import { createHash } from 'crypto';
 import * as store from './unified-store.js';
 import { Note, NoteType } from './types.js';
 import { isSqliteAvailable, SqliteDatabase } from './sqlite-loader.js';
-
-export type EmbeddingsProvider = 'openai' | 'mistral' | 'custom';
+import { embedLocally, resolveLocalModelDir } from './local-embeddings.js';
+import { chunkNoteByHeadings, NoteChunk } from './note-chunker.js';
+import {
+  IvfIndex,
+  IVF_MIN_VECTORS,
+  VectorFormat,
+  addToIvfIndex,
+  deleteIvfIndex,
+  ivfCandidates,
+  ivfNeedsRetraining,
+  packVector,
+  readIvfIndex,
+  removeFromIvfIndex,
+  trainIvfIndex,
+  unpackVector,
+  writeIvfIndex,
+} from './vector-index.js';
+
+export type EmbeddingsProvider = 'openai' | 'mistral' | 'custom' | 'local';
 export type EmbeddingsSource = 'local' | 'space';
 
 export type EmbeddingsConfig = {
@@ -15,14 +32,41 @@ export type EmbeddingsConfig = {
   apiKey: string;
   model: string;
   baseUrl: string;
+  /** Directory holding on-disk models for the `local` provider */
+  modelPath: string;
   dbPath: string;
+  /** ANN index file, stored next to the database */
+  indexPath: string;
+  /** How chunk vectors are packed into blobs */
+  vectorFormat: VectorFormat;
   chunkChars: number;
   chunkOverlap: number;
   previewChars: number;
   defaultBatchSize: number;
   defaultMaxChunksPerNote: number;
+  /** Background sync on note changes (see embeddings-watcher.ts) */
+  autoSync: boolean;
+  autoSyncDebounceMs: number;
+  autoSyncPollMs: number;
 };
 
+/** Embeddings API answered with a non-2xx status. */
+export class EmbeddingsHttpError extends Error {
+  readonly status: number;
+  /** From a Retry-After header, when the provider sent one */
+  readonly retryAfterMs: number | null;
+  constructor(message: string, status: number, retryAfterMs: number | null) {
+    super(message);
+    this.name = 'EmbeddingsHttpError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+  /** Rate limits and server errors are worth retrying later. */
+  get isRetryable(): boolean {
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
 type EmbeddingApiData = {
   embedding: number[];
   index: number;
@@ -35,14 +79,22 @@ type EmbeddingApiResponse = {
 type IndexedNoteRow = {
   note_key: string;
   content_hash: string;
+  other_model_chunks: number;
+  unranged_chunks: number;
 };
 
 type EmbeddingChunkRow = {
+  id: number;
   note_key: string;
   chunk_index: number;
   chunk_text: string;
   chunk_preview: string;
+  start_line: number | null;
+  end_line: number | null;
+  heading_path: string | null;
   embedding_json: string;
+  embedding: Uint8Array | null;
+  embedding_scale: number | null;
   note_id: string;
   filename: string;
   title: string;
@@ -79,6 +131,8 @@ export type EmbeddingsSearchParams = {
   includeText?: boolean;
   previewChars?: number;
   maxChunks?: number;
+  /** Skip the ANN index and scan every chunk */
+  exact?: boolean;
 };
 
 function parseBoolean(value: string | undefined, defaultValue: boolean): boolean {
@@ -95,18 +149,25 @@ function parseBoundedInt(value: string | undefined, defaultValue: number, min: n
   return Math.min(max, Math.max(min, Math.floor(numeric)));
 }
 
+// Chunk IDs per `IN (...)` query, well under SQLite's bound-parameter limit
+const ID_BATCH_SIZE = 500;
+
 let cachedConfig: EmbeddingsConfig | null = null;
 let db: SqliteDatabase | null = null;
 let dbPathForConnection: string | null = null;
+let vectorIndex: IvfIndex | null = null;
+let vectorIndexPath: string | null = null;
 
 function getDefaultModel(provider: EmbeddingsProvider): string {
   if (provider === 'mistral') return 'mistral-embed';
+  if (provider === 'local') return 'Xenova/all-MiniLM-L6-v2';
   return 'text-embedding-3-small';
 }
 
 function getDefaultBaseUrl(provider: EmbeddingsProvider): string {
   if (provider === 'mistral') return 'https://api.mistral.ai';
   if (provider === 'custom') return 'http://localhost:11434';
+  if (provider === 'local') return '';
   return 'https://api.openai.com';
 }
 
@@ -122,6 +183,14 @@ function resolveEmbeddingsDbPath(): string {
   return path.join(os.homedir(), '.noteplan-mcp', 'embeddings.db');
 }
 
+function resolveLocalModelPath(): string {
+  const customPath = process.env.NOTEPLAN_EMBEDDINGS_MODEL_PATH?.trim();
+  if (customPath) {
+    return path.resolve(customPath);
+  }
+  return path.join(os.homedir(), '.noteplan-mcp', 'models');
+}
+
 export function getEmbeddingsConfig(): EmbeddingsConfig {
   if (cachedConfig) return cachedConfig;
 
@@ -133,20 +202,28 @@ export function getEmbeddingsConfig(): EmbeddingsConfig {
       ? 'mistral'
       : providerRaw === 'custom'
         ? 'custom'
-        : 'openai';
+        : providerRaw === 'local'
+          ? 'local'
+          : 'openai';
 
   const model = (process.env.NOTEPLAN_EMBEDDINGS_MODEL || getDefaultModel(provider)).trim();
   const baseUrl = normalizeBaseUrl(
     process.env.NOTEPLAN_EMBEDDINGS_BASE_URL || getDefaultBaseUrl(provider)
   );
 
+  const dbPath = resolveEmbeddingsDbPath();
+  const vectorFormatRaw = (process.env.NOTEPLAN_EMBEDDINGS_VECTOR_FORMAT || 'float32').trim().toLowerCase();
+
   cachedConfig = {
     enabled,
     provider,
     apiKey: (process.env.NOTEPLAN_EMBEDDINGS_API_KEY || '').trim(),
     model,
     baseUrl,
-    dbPath: resolveEmbeddingsDbPath(),
+    modelPath: resolveLocalModelPath(),
+    dbPath,
+    indexPath: path.join(path.dirname(dbPath), `${path.basename(dbPath, path.extname(dbPath))}.ivf.json`),
+    vectorFormat: vectorFormatRaw === 'int8' ? 'int8' : 'float32',
     chunkChars: parseBoundedInt(process.env.NOTEPLAN_EMBEDDINGS_CHUNK_CHARS, 1200, 300, 4000),
     chunkOverlap: parseBoundedInt(process.env.NOTEPLAN_EMBEDDINGS_CHUNK_OVERLAP, 200, 0, 1000),
     previewChars: parseBoundedInt(process.env.NOTEPLAN_EMBEDDINGS_PREVIEW_CHARS, 220, 60, 1000),
@@ -157,6 +234,19 @@ export function getEmbeddingsConfig(): EmbeddingsConfig {
       1,
       400
     ),
+    autoSync: parseBoolean(process.env.NOTEPLAN_EMBEDDINGS_AUTO_SYNC, false),
+    autoSyncDebounceMs: parseBoundedInt(
+      process.env.NOTEPLAN_EMBEDDINGS_AUTO_SYNC_DEBOUNCE_MS,
+      10_000,
+      1000,
+      600_000
+    ),
+    autoSyncPollMs: parseBoundedInt(
+      process.env.NOTEPLAN_EMBEDDINGS_AUTO_SYNC_POLL_MS,
+      120_000,
+      10_000,
+      3_600_000
+    ),
   };
 
   return cachedConfig;
@@ -181,6 +271,11 @@ export function ensureEmbeddingsApiConfigured(): { ok: true } | { ok: false; err
     };
   }
 
+  if (config.provider === 'local') {
+    const modelDir = resolveLocalModelDir(config.modelPath, config.model);
+    return modelDir.ok ? { ok: true } : { ok: false, error: modelDir.error };
+  }
+
   if ((config.provider === 'openai' || config.provider === 'mistral') && !config.apiKey) {
     return {
       ok: false,
@@ -243,8 +338,14 @@ function openEmbeddingsDb(): SqliteDatabase {
       chunk_text TEXT NOT NULL,
       chunk_preview TEXT NOT NULL,
       chunk_hash TEXT NOT NULL,
-      embedding_json TEXT NOT NULL,
+      start_line INTEGER,
+      end_line INTEGER,
+      heading_path TEXT,
+      embedding_json TEXT NOT NULL DEFAULT '',
+      embedding BLOB,
+      embedding_scale REAL,
       dim INTEGER NOT NULL,
+      model TEXT,
       created_at TEXT NOT NULL,
       UNIQUE(note_key, chunk_index),
       FOREIGN KEY(note_key) REFERENCES notes(note_key) ON DELETE CASCADE
@@ -257,9 +358,185 @@ function openEmbeddingsDb(): SqliteDatabase {
     CREATE INDEX IF NOT EXISTS idx_notes_updated_at ON notes(updated_at);
   `);
 
+  migrateChunkModelColumn(db);
+  migrateChunkEmbeddingBlobs(db);
+  migrateChunkLineColumns(db);
+
   return db;
 }
 
+/**
+ * Chunks from the character-window chunker have no line range or heading
+ * path. Add the columns; sync re-chunks those notes (see unranged_chunks).
+ */
+function migrateChunkLineColumns(database: SqliteDatabase): void {
+  const columns = database.prepare('PRAGMA table_info(chunks)').all() as { name: string }[];
+  if (columns.some((column) => column.name === 'start_line')) return;
+  database.exec('ALTER TABLE chunks ADD COLUMN start_line INTEGER');
+  database.exec('ALTER TABLE chunks ADD COLUMN end_line INTEGER');
+  database.exec('ALTER TABLE chunks ADD COLUMN heading_path TEXT');
+}
+
+function parseHeadingPath(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Vectors used to be stored as JSON text in `embedding_json`. Add the blob
+ * columns and pack existing vectors as float32, clearing the JSON copy.
+ */
+function migrateChunkEmbeddingBlobs(database: SqliteDatabase): void {
+  const columns = database.prepare('PRAGMA table_info(chunks)').all() as { name: string }[];
+  if (!columns.some((column) => column.name === 'embedding')) {
+    database.exec('ALTER TABLE chunks ADD COLUMN embedding BLOB');
+    database.exec('ALTER TABLE chunks ADD COLUMN embedding_scale REAL');
+  }
+
+  const legacyRows = database
+    .prepare("SELECT id, embedding_json FROM chunks WHERE embedding IS NULL AND embedding_json <> ''")
+    .all() as { id: number; embedding_json: string }[];
+  if (legacyRows.length === 0) return;
+
+  const packRow = database.prepare(
+    "UPDATE chunks SET embedding = ?, embedding_scale = NULL, embedding_json = '' WHERE id = ?"
+  );
+  const migrate = database.transaction((rows: { id: number; embedding_json: string }[]) => {
+    for (const row of rows) {
+      let vector: number[];
+      try {
+        vector = JSON.parse(row.embedding_json) as number[];
+      } catch {
+        vector = [];
+      }
+      packRow.run(packVector(vector, 'float32').blob, row.id);
+    }
+  });
+  migrate(legacyRows);
+}
+
+function readChunkVector(row: Pick<EmbeddingChunkRow, 'embedding' | 'embedding_scale' | 'embedding_json'>): ArrayLike<number> {
+  if (row.embedding && row.embedding.length > 0) {
+    return unpackVector(row.embedding, row.embedding_scale);
+  }
+  try {
+    return JSON.parse(row.embedding_json) as number[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Indexes built before per-chunk models were recorded have no `model`
+ * column. Add it and attribute the existing chunks to the provider/model of
+ * the last sync, which is the only model those chunks can have come from.
+ */
+function migrateChunkModelColumn(database: SqliteDatabase): void {
+  const columns = database.prepare('PRAGMA table_info(chunks)').all() as { name: string }[];
+  if (columns.some((column) => column.name === 'model')) return;
+
+  database.exec('ALTER TABLE chunks ADD COLUMN model TEXT');
+  const rows = database
+    .prepare("SELECT key, value FROM metadata WHERE key IN ('lastSyncProvider', 'lastSyncModel')")
+    .all() as { key: string; value: string }[];
+  const provider = rows.find((row) => row.key === 'lastSyncProvider')?.value;
+  const model = rows.find((row) => row.key === 'lastSyncModel')?.value;
+  if (provider && model) {
+    database
+      .prepare('UPDATE chunks SET model = ? WHERE model IS NULL')
+      .run(toModelKey(provider, model));
+  }
+}
+
+/** Per-chunk model identity; provider is part of it since names can overlap across APIs. */
+function toModelKey(provider: string, model: string): string {
+  return `${provider}:${model}`;
+}
+
+function currentModelKey(config: EmbeddingsConfig): string {
+  return toModelKey(config.provider, config.model);
+}
+
+/** Model identity stored alongside vectors embedded with the current config. */
+export function getEmbeddingsModelKey(): string {
+  return currentModelKey(getEmbeddingsConfig());
+}
+
+/** The persisted ANN index, when there is one for the current model. */
+function loadVectorIndex(config: EmbeddingsConfig): IvfIndex | null {
+  if (vectorIndexPath !== config.indexPath) {
+    vectorIndex = readIvfIndex(config.indexPath);
+    vectorIndexPath = config.indexPath;
+  }
+  return vectorIndex && vectorIndex.modelKey === currentModelKey(config) ? vectorIndex : null;
+}
+
+function countModelChunks(database: SqliteDatabase, modelKey: string, dim?: number): number {
+  const row = (dim === undefined
+    ? database.prepare('SELECT COUNT(*) as count FROM chunks WHERE model = ?').get(modelKey)
+    : database.prepare('SELECT COUNT(*) as count FROM chunks WHERE model = ? AND dim = ?').get(modelKey, dim)) as {
+    count: number;
+  };
+  return row.count;
+}
+
+/**
+ * Retrain the ANN index from every chunk of the current model. Small
+ * indexes are scanned exhaustively instead, so below IVF_MIN_VECTORS chunks
+ * the index file is removed.
+ */
+function rebuildVectorIndex(database: SqliteDatabase, config: EmbeddingsConfig): IvfIndex | null {
+  const modelKey = currentModelKey(config);
+  vectorIndexPath = config.indexPath;
+  vectorIndex = null;
+  if (countModelChunks(database, modelKey) >= IVF_MIN_VECTORS) {
+    const rows = database
+      .prepare('SELECT id, embedding, embedding_scale, embedding_json FROM chunks WHERE model = ?')
+      .all(modelKey) as Pick<EmbeddingChunkRow, 'id' | 'embedding' | 'embedding_scale' | 'embedding_json'>[];
+    vectorIndex = trainIvfIndex(
+      rows.map((row) => ({ id: row.id, vector: readChunkVector(row) })).filter((entry) => entry.vector.length > 0),
+      modelKey
+    );
+  }
+  if (vectorIndex) {
+    writeIvfIndex(config.indexPath, vectorIndex);
+  } else {
+    deleteIvfIndex(config.indexPath);
+  }
+  return vectorIndex;
+}
+
+/**
+ * After chunks changed: persist the incrementally updated index, or rebuild
+ * it when it is missing, out of step with the chunks table, or has grown
+ * well past the data its centroids were trained on.
+ */
+function persistVectorIndex(database: SqliteDatabase, config: EmbeddingsConfig): void {
+  const index = loadVectorIndex(config);
+  const modelKey = currentModelKey(config);
+  if (!index) {
+    if (countModelChunks(database, modelKey) >= IVF_MIN_VECTORS || fs.existsSync(config.indexPath)) {
+      rebuildVectorIndex(database, config);
+    }
+    return;
+  }
+  const indexedChunks = countModelChunks(database, modelKey, index.dim);
+  if (
+    indexedChunks < IVF_MIN_VECTORS ||
+    index.assignments.size !== indexedChunks ||
+    ivfNeedsRetraining(index)
+  ) {
+    rebuildVectorIndex(database, config);
+    return;
+  }
+  writeIvfIndex(config.indexPath, index);
+}
+
 function setMetadata(key: string, value: string): void {
   const database = openEmbeddingsDb();
   database
@@ -303,45 +580,14 @@ function buildPreview(text: string, maxChars: number): string {
   return `${collapsed.slice(0, Math.max(0, maxChars - 1))}…`;
 }
 
-function chunkContent(
-  content: string,
-  chunkChars: number,
-  chunkOverlap: number,
-  maxChunks: number
-): string[] {
-  const normalized = content.replace(/\r\n/g, '\n').trim();
-  if (!normalized) return [];
-
-  const effectiveOverlap = Math.min(Math.max(0, chunkOverlap), Math.max(0, chunkChars - 1));
-  const step = Math.max(1, chunkChars - effectiveOverlap);
-  const chunks: string[] = [];
-
-  let start = 0;
-  while (start < normalized.length && chunks.length < maxChunks) {
-    let end = Math.min(normalized.length, start + chunkChars);
-    if (end < normalized.length) {
-      const breakAt = normalized.lastIndexOf('\n', end);
-      if (breakAt > start + Math.floor(chunkChars * 0.6)) {
-        end = breakAt;
-      }
-    }
-
-    const chunk = normalized.slice(start, end).trim();
-    if (chunk.length > 0) {
-      chunks.push(chunk);
-    }
-
-    if (end >= normalized.length) break;
-    start = Math.max(start + 1, end - effectiveOverlap);
-  }
-
-  return chunks;
-}
-
 export async function fetchEmbeddings(texts: string[]): Promise<number[][]> {
   if (texts.length === 0) return [];
 
   const config = getEmbeddingsConfig();
+  if (config.provider === 'local') {
+    return embedLocally(texts, config.modelPath, config.model);
+  }
+
   const endpoint = buildEmbeddingsEndpoint(config.baseUrl);
 
   const headers: Record<string, string> = {
@@ -363,7 +609,11 @@ export async function fetchEmbeddings(texts: string[]): Promise<number[][]> {
   if (!response.ok) {
     const body = await response.text();
     const excerpt = body.slice(0, 320);
-    throw new Error(`Embeddings request failed (${response.status}): ${excerpt}`);
+    throw new EmbeddingsHttpError(
+      `Embeddings request failed (${response.status}): ${excerpt}`,
+      response.status,
+      parseRetryAfter(response.headers.get('retry-after'))
+    );
   }
 
   const json = (await response.json()) as EmbeddingApiResponse;
@@ -380,17 +630,51 @@ export async function fetchEmbeddings(texts: string[]): Promise<number[][]> {
   return sorted.map((item) => item.embedding);
 }
 
+/** Retry-After is either delay-seconds or an HTTP date. */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isFinite(date) ? Math.max(0, date - Date.now()) : null;
+}
+
+const BATCH_RETRIES = 3;
+const BATCH_RETRY_BASE_MS = 1000;
+const BATCH_RETRY_MAX_MS = 30_000;
+
+/**
+ * A batch that hits a rate limit or server error is retried a few times,
+ * waiting for Retry-After or an exponential backoff. Longer outages
+ * surface as the EmbeddingsHttpError for the caller to back off on.
+ */
+async function fetchEmbeddingsWithRetry(texts: string[]): Promise<number[][]> {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await fetchEmbeddings(texts);
+    } catch (error) {
+      if (!(error instanceof EmbeddingsHttpError) || !error.isRetryable || attempt >= BATCH_RETRIES) {
+        throw error;
+      }
+      // A long Retry-After is the caller's to wait out, not this request's
+      if (error.retryAfterMs !== null && error.retryAfterMs > BATCH_RETRY_MAX_MS) throw error;
+      const delay = error.retryAfterMs ?? BATCH_RETRY_BASE_MS * 2 ** attempt;
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
 async function embedInBatches(texts: string[], batchSize: number): Promise<number[][]> {
   const vectors: number[][] = [];
   for (let i = 0; i < texts.length; i += batchSize) {
     const batch = texts.slice(i, i + batchSize);
-    const batchVectors = await fetchEmbeddings(batch);
+    const batchVectors = await fetchEmbeddingsWithRetry(batch);
     vectors.push(...batchVectors);
   }
   return vectors;
 }
 
-export function cosineSimilarity(a: number[], b: number[]): number {
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
   if (a.length === 0 || b.length === 0 || a.length !== b.length) return 0;
 
   let dot = 0;
@@ -436,6 +720,39 @@ function getScopeWhere(scope: EmbeddingsScope): { whereSql: string; params: unkn
   };
 }
 
+/** Chunk counts per embedding model in scope; NULL models come from an unmigrated index. */
+function getIndexedModels(database: SqliteDatabase, scope: EmbeddingsScope): Array<{ model: string | null; chunkCount: number }> {
+  const scopeWhere = getScopeWhere(scope);
+  const rows = database
+    .prepare(
+      `
+      SELECT c.model as model, COUNT(*) as count
+      FROM chunks c
+      JOIN notes n ON n.note_key = c.note_key
+      ${scopeWhere.whereSql ? scopeWhere.whereSql.replace(/space_id/g, 'n.space_id') : ''}
+      GROUP BY c.model
+      ORDER BY count DESC
+    `
+    )
+    .all(...scopeWhere.params) as { model: string | null; count: number }[];
+  return rows.map((row) => ({ model: row.model, chunkCount: row.count }));
+}
+
+function describeVectorIndex(config: EmbeddingsConfig) {
+  const index = loadVectorIndex(config);
+  if (!index) {
+    return { type: 'none', path: config.indexPath, minChunks: IVF_MIN_VECTORS };
+  }
+  return {
+    type: 'ivf',
+    path: config.indexPath,
+    lists: index.centroids.length,
+    indexedChunks: index.assignments.size,
+    trainedChunks: index.trainedSize,
+    trainedAt: index.trainedAt,
+  };
+}
+
 export function getEmbeddingsStatus(scope: EmbeddingsScope = {}) {
   const config = getEmbeddingsConfig();
   const apiCheck = ensureEmbeddingsApiConfigured();
@@ -479,6 +796,20 @@ export function getEmbeddingsStatus(scope: EmbeddingsScope = {}) {
     .prepare(`SELECT MAX(updated_at) as lastUpdatedAt FROM notes ${scopeWhere.whereSql}`)
     .get(...scopeWhere.params) as { lastUpdatedAt: string | null };
 
+  const modelKey = currentModelKey(config);
+  const indexedModels = getIndexedModels(database, scope);
+  const mixedModels = indexedModels.length > 1;
+  const otherModelChunks = indexedModels
+    .filter((entry) => entry.model !== modelKey)
+    .reduce((sum, entry) => sum + entry.chunkCount, 0);
+  const warnings: string[] = [];
+  if (!apiCheck.ok) warnings.push(apiCheck.error);
+  if (otherModelChunks > 0) {
+    warnings.push(
+      `${otherModelChunks} chunk(s) were embedded with a different model than ${modelKey} and are skipped by search. Run sync to re-embed them.`
+    );
+  }
+
   return {
     success: true,
     enabled: true,
@@ -486,6 +817,7 @@ export function getEmbeddingsStatus(scope: EmbeddingsScope = {}) {
     provider: config.provider,
     model: config.model,
     baseUrl: config.baseUrl,
+    ...(config.provider === 'local' ? { modelPath: config.modelPath } : {}),
     dbPath: config.dbPath,
     hasApiKey: config.apiKey.length > 0,
     chunkChars: config.chunkChars,
@@ -495,11 +827,15 @@ export function getEmbeddingsStatus(scope: EmbeddingsScope = {}) {
     chunkCount: chunkCountRow.count,
     lastSyncAt: getMetadata('lastSyncAt'),
     lastIndexedUpdateAt: lastUpdatedRow.lastUpdatedAt,
-    ...(apiCheck.ok
-      ? {}
-      : {
-          warning: apiCheck.error,
-        }),
+    indexedModels,
+    mixedModels,
+    vectorFormat: config.vectorFormat,
+    annIndex: describeVectorIndex(config),
+    ...(warnings.length > 0
+      ? {
+          warning: warnings.join(' '),
+        }
+      : {}),
   };
 }
 
@@ -559,6 +895,9 @@ export function resetEmbeddings(scope: EmbeddingsScope = {}): {
   });
   tx();
 
+  // Drops the index file after a full reset; retrains on what a scoped reset leaves
+  rebuildVectorIndex(database, getEmbeddingsConfig());
+
   if (!scope.space) {
     setMetadata('lastSyncAt', '');
   }
@@ -569,7 +908,17 @@ export function resetEmbeddings(scope: EmbeddingsScope = {}): {
   };
 }
 
-export async function syncEmbeddings(params: EmbeddingsSyncParams = {}) {
+// Syncs run one at a time: background and explicit runs share the
+// connection and the ANN index
+let syncQueue: Promise<unknown> = Promise.resolve();
+
+export function syncEmbeddings(params: EmbeddingsSyncParams = {}): ReturnType<typeof runSyncEmbeddings> {
+  const run = syncQueue.then(() => runSyncEmbeddings(params));
+  syncQueue = run.catch(() => undefined);
+  return run;
+}
+
+async function runSyncEmbeddings(params: EmbeddingsSyncParams) {
   const apiCheck = ensureEmbeddingsApiConfigured();
   if (!apiCheck.ok) {
     return {
@@ -604,14 +953,41 @@ export async function syncEmbeddings(params: EmbeddingsSyncParams = {}) {
   const queryFiltered = filterNotesByQuery(filteredByType, params.noteQuery);
   const pagedNotes = queryFiltered.slice(requestedOffset, requestedOffset + requestedLimit);
 
-  const existingRows = database.prepare('SELECT note_key, content_hash FROM notes').all() as IndexedNoteRow[];
+  const modelKey = currentModelKey(config);
+  const existingRows = database
+    .prepare(
+      `
+      SELECT
+        n.note_key,
+        n.content_hash,
+        (
+          SELECT COUNT(*) FROM chunks c
+          WHERE c.note_key = n.note_key AND (c.model IS NULL OR c.model <> ?)
+        ) as other_model_chunks,
+        (
+          SELECT COUNT(*) FROM chunks c
+          WHERE c.note_key = n.note_key AND c.start_line IS NULL
+        ) as unranged_chunks
+      FROM notes n
+    `
+    )
+    .all(modelKey) as IndexedNoteRow[];
   const existingByKey = new Map(existingRows.map((row) => [row.note_key, row.content_hash]));
+  const otherModelKeys = new Set(
+    existingRows.filter((row) => row.other_model_chunks > 0).map((row) => row.note_key)
+  );
+  const unrangedKeys = new Set(
+    existingRows.filter((row) => row.unranged_chunks > 0).map((row) => row.note_key)
+  );
 
   let indexedNotes = 0;
   let unchangedNotes = 0;
   let addedNotes = 0;
   let updatedNotes = 0;
   let indexedChunks = 0;
+  let reembeddedForModel = 0;
+  let rechunkedNotes = 0;
+  let reusedChunks = 0;
   const warnings: string[] = [];
 
   const upsertNote = database.prepare(`
@@ -635,20 +1011,40 @@ export async function syncEmbeddings(params: EmbeddingsSyncParams = {}) {
 
   const deleteChunksByNoteKey = database.prepare('DELETE FROM chunks WHERE note_key = ?');
 
+  const selectChunkIdsByNoteKey = database.prepare('SELECT id FROM chunks WHERE note_key = ?');
+  const selectChunkVectorsByNoteKey = database.prepare(
+    'SELECT chunk_hash, embedding, embedding_scale, embedding_json FROM chunks WHERE note_key = ? AND model = ?'
+  );
+  const reusableVectors = (noteKey: string): Map<string, number[]> =>
+    new Map(
+      (
+        selectChunkVectorsByNoteKey.all(noteKey, modelKey) as Array<
+          Pick<EmbeddingChunkRow, 'embedding' | 'embedding_scale' | 'embedding_json'> & { chunk_hash: string }
+        >
+      ).map((row) => [row.chunk_hash, Array.from(readChunkVector(row))])
+    );
+
   const insertChunk = database.prepare(`
     INSERT INTO chunks (
-      note_key, chunk_index, chunk_text, chunk_preview, chunk_hash, embedding_json, dim, created_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      note_key, chunk_index, chunk_text, chunk_preview, chunk_hash, start_line, end_line, heading_path,
+      embedding_json, embedding, embedding_scale, dim, model, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, '', ?, ?, ?, ?, ?)
   `);
 
+  // Kept in step with the chunks table as notes are re-embedded
+  const index = loadVectorIndex(config);
+  let chunksChanged = false;
+
   const writeNoteTransaction = database.transaction((payload: {
     note: Note;
     noteKey: string;
     contentHash: string;
-    chunks: string[];
+    chunks: NoteChunk[];
     embeddings: number[][];
   }) => {
+    const removedIds = (selectChunkIdsByNoteKey.all(payload.noteKey) as { id: number }[]).map((row) => row.id);
     deleteChunksByNoteKey.run(payload.noteKey);
+    const added: Array<{ id: number; vector: number[] }> = [];
 
     const timestamp = nowIso();
     upsertNote.run(
@@ -667,40 +1063,65 @@ export async function syncEmbeddings(params: EmbeddingsSyncParams = {}) {
     );
 
     for (let i = 0; i < payload.chunks.length; i += 1) {
-      const chunkText = payload.chunks[i];
+      const chunk = payload.chunks[i];
       const vector = payload.embeddings[i] || [];
-      insertChunk.run(
+      const packed = packVector(vector, config.vectorFormat);
+      const inserted = insertChunk.run(
         payload.noteKey,
         i,
-        chunkText,
-        buildPreview(chunkText, config.previewChars),
-        computeHash(chunkText),
-        JSON.stringify(vector),
+        chunk.text,
+        buildPreview(chunk.text, config.previewChars),
+        computeHash(chunk.text),
+        chunk.startLine,
+        chunk.endLine,
+        JSON.stringify(chunk.headingPath),
+        packed.blob,
+        packed.scale,
         vector.length,
+        modelKey,
         timestamp
       );
+      added.push({ id: Number(inserted.lastInsertRowid), vector });
     }
+
+    return { removedIds, added };
   });
 
+  const writeNote = (payload: Parameters<typeof writeNoteTransaction>[0]) => {
+    const { removedIds, added } = writeNoteTransaction(payload);
+    chunksChanged = chunksChanged || removedIds.length > 0 || added.length > 0;
+    if (!index) return;
+    removeFromIvfIndex(index, removedIds);
+    for (const { id, vector } of added) addToIvfIndex(index, id, vector);
+  };
+
   for (const note of pagedNotes) {
     const noteKey = toNoteKey(note);
     const contentHash = computeHash(note.content);
     const existingHash = existingByKey.get(noteKey);
 
-    if (!params.forceReembed && existingHash === contentHash) {
+    // Chunks from another model can't be compared with this model's query vectors
+    const modelChanged = otherModelKeys.has(noteKey);
+    // Indexed before chunks carried line ranges
+    const needsRechunk = unrangedKeys.has(noteKey);
+    if (!params.forceReembed && existingHash === contentHash && !modelChanged && !needsRechunk) {
       unchangedNotes += 1;
       continue;
     }
+    if (existingHash === contentHash && modelChanged) {
+      reembeddedForModel += 1;
+    } else if (existingHash === contentHash && needsRechunk) {
+      rechunkedNotes += 1;
+    }
 
-    const chunks = chunkContent(
-      note.content,
-      config.chunkChars,
-      config.chunkOverlap,
-      maxChunksPerNote
-    );
+    const chunks = chunkNoteByHeadings(note.content, {
+      chunkChars: config.chunkChars,
+      chunkOverlap: config.chunkOverlap,
+      maxChunks: maxChunksPerNote,
+    });
 
     if (chunks.length === 0) {
-      writeNoteTransaction({
+      writeNote({
         note,
         noteKey,
         contentHash,
@@ -708,21 +1129,27 @@ export async function syncEmbeddings(params: EmbeddingsSyncParams = {}) {
         embeddings: [],
       });
     } else {
-      const vectors = await embedInBatches(chunks, batchSize);
-      if (vectors.length !== chunks.length) {
+      // Only chunks whose text changed need the provider; the rest keep their vectors
+      const reusable = params.forceReembed ? new Map<string, number[]>() : reusableVectors(noteKey);
+      const missing = chunks.filter((chunk) => !reusable.has(computeHash(chunk.text)));
+      const fetched = await embedInBatches(missing.map((chunk) => chunk.text), batchSize);
+      if (fetched.length !== missing.length) {
         throw new Error(
-          `Embedding mismatch for ${note.filename}: ${chunks.length} chunks but ${vectors.length} vectors`
+          `Embedding mismatch for ${note.filename}: ${missing.length} chunks but ${fetched.length} vectors`
         );
       }
+      let fetchedIndex = 0;
+      const vectors = chunks.map((chunk) => reusable.get(computeHash(chunk.text)) ?? fetched[fetchedIndex++]);
 
-      writeNoteTransaction({
+      writeNote({
         note,
         noteKey,
         contentHash,
         chunks,
         embeddings: vectors,
       });
-      indexedChunks += chunks.length;
+      indexedChunks += missing.length;
+      reusedChunks += chunks.length - missing.length;
     }
 
     indexedNotes += 1;
@@ -763,23 +1190,28 @@ export async function syncEmbeddings(params: EmbeddingsSyncParams = {}) {
 
     if (staleKeys.length > 0) {
       const deleteStale = database.transaction((keys: string[]) => {
-        const selectChunkCount = database.prepare('SELECT COUNT(*) as count FROM chunks WHERE note_key = ?');
         const deleteChunks = database.prepare('DELETE FROM chunks WHERE note_key = ?');
         const deleteNote = database.prepare('DELETE FROM notes WHERE note_key = ?');
 
         for (const noteKey of keys) {
-          const chunkRow = selectChunkCount.get(noteKey) as { count: number };
-          prunedChunks += chunkRow.count;
+          const chunkIds = (selectChunkIdsByNoteKey.all(noteKey) as { id: number }[]).map((row) => row.id);
+          prunedChunks += chunkIds.length;
           prunedNotes += 1;
           deleteChunks.run(noteKey);
           deleteNote.run(noteKey);
+          if (index) removeFromIvfIndex(index, chunkIds);
         }
       });
 
       deleteStale(staleKeys);
+      chunksChanged = chunksChanged || prunedChunks > 0;
     }
   }
 
+  if (chunksChanged || (!index && countModelChunks(database, modelKey) >= IVF_MIN_VECTORS)) {
+    persistVectorIndex(database, config);
+  }
+
   setMetadata('lastSyncAt', nowIso());
   setMetadata('lastSyncProvider', config.provider);
   setMetadata('lastSyncModel', config.model);
@@ -796,6 +1228,9 @@ export async function syncEmbeddings(params: EmbeddingsSyncParams = {}) {
     addedNotes,
     updatedNotes,
     indexedChunks,
+    reusedChunks,
+    reembeddedForModel,
+    rechunkedNotes,
     prunedNotes,
     prunedChunks,
     offset: requestedOffset,
@@ -856,17 +1291,36 @@ export async function searchEmbeddings(params: EmbeddingsSearchParams) {
     whereParams.push(...params.types);
   }
 
-  const whereSql = whereParts.length > 0 ? `WHERE ${whereParts.join(' AND ')}` : '';
-
-  const rows = database
+  // Vectors from different models live in different spaces, so only this model's chunks are scored
+  const modelKey = currentModelKey(config);
+  const otherModelRow = database
     .prepare(
       `
+      SELECT COUNT(*) as count
+      FROM chunks c
+      JOIN notes n ON n.note_key = c.note_key
+      WHERE ${[...whereParts, 'c.model <> ?'].join(' AND ')}
+    `
+    )
+    .get(...whereParams, modelKey) as { count: number };
+
+  whereParts.push('(c.model = ? OR c.model IS NULL)');
+  whereParams.push(modelKey);
+  const whereSql = whereParts.length > 0 ? `WHERE ${whereParts.join(' AND ')}` : '';
+
+  const selectSql = `
       SELECT
+        c.id,
         c.note_key,
         c.chunk_index,
         c.chunk_text,
         c.chunk_preview,
+        c.start_line,
+        c.end_line,
+        c.heading_path,
         c.embedding_json,
+        c.embedding,
+        c.embedding_scale,
         n.note_id,
         n.filename,
         n.title,
@@ -876,29 +1330,54 @@ export async function searchEmbeddings(params: EmbeddingsSearchParams) {
         n.type,
         n.modified_at
       FROM chunks c
-      JOIN notes n ON n.note_key = c.note_key
+      JOIN notes n ON n.note_key = c.note_key`;
+
+  const rank = (rows: EmbeddingChunkRow[]) =>
+    rows
+      .map((row) => ({ row, score: cosineSimilarity(queryVector, readChunkVector(row)) }))
+      .filter((entry) => Number.isFinite(entry.score) && entry.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+  // Approximate search: only score chunks in the index lists nearest to the
+  // query. When that finds too few matches (e.g. narrow filters) the scan
+  // runs too and both candidate sets are ranked together, so a scan capped
+  // at maxChunks can't drop ANN hits from older notes.
+  let strategy: 'ann' | 'exhaustive' = 'exhaustive';
+  let scannedChunks = 0;
+  let scored: Array<{ row: EmbeddingChunkRow; score: number }> = [];
+  let candidateRows: EmbeddingChunkRow[] = [];
+  const index = params.exact === true ? null : loadVectorIndex(config);
+  if (index) {
+    const candidateIds = ivfCandidates(index, queryVector);
+    for (let i = 0; i < candidateIds.length; i += ID_BATCH_SIZE) {
+      const batch = candidateIds.slice(i, i + ID_BATCH_SIZE);
+      candidateRows.push(
+        ...(database
+          .prepare(`${selectSql}\n      WHERE ${[...whereParts, `c.id IN (${batch.map(() => '?').join(',')})`].join(' AND ')}`)
+          .all(...whereParams, ...batch) as EmbeddingChunkRow[])
+      );
+    }
+    scored = rank(candidateRows);
+    scannedChunks = candidateRows.length;
+    if (scored.length >= limit) strategy = 'ann';
+  }
+
+  if (strategy === 'exhaustive') {
+    const rows = database
+      .prepare(
+        `${selectSql}
       ${whereSql}
       ORDER BY n.updated_at DESC, c.note_key ASC, c.chunk_index ASC
       LIMIT ?
     `
-    )
-    .all(...whereParams, maxChunks) as EmbeddingChunkRow[];
-
-  const scored = rows
-    .map((row) => {
-      let chunkVector: number[];
-      try {
-        chunkVector = JSON.parse(row.embedding_json) as number[];
-      } catch {
-        chunkVector = [];
-      }
-
-      const score = cosineSimilarity(queryVector, chunkVector);
-      return { row, score };
-    })
-    .filter((entry) => Number.isFinite(entry.score) && entry.score >= minScore)
-    .sort((a, b) => b.score - a.score)
-    .slice(0, limit);
+      )
+      .all(...whereParams, maxChunks) as EmbeddingChunkRow[];
+    const seen = new Set(candidateRows.map((row) => row.id));
+    const merged = [...candidateRows, ...rows.filter((row) => !seen.has(row.id))];
+    scored = rank(merged);
+    scannedChunks = merged.length;
+  }
 
   return {
     success: true,
@@ -907,7 +1386,14 @@ export async function searchEmbeddings(params: EmbeddingsSearchParams) {
     model: config.model,
     includeText,
     minScore,
-    scannedChunks: rows.length,
+    searchStrategy: strategy,
+    scannedChunks,
+    skippedOtherModelChunks: otherModelRow.count,
+    ...(otherModelRow.count > 0
+      ? {
+          warning: `${otherModelRow.count} chunk(s) were embedded with a different model and were not searched. Run sync to re-embed them with ${modelKey}.`,
+        }
+      : {}),
     count: scored.length,
     matches: scored.map((entry) => ({
       score: Number(entry.score.toFixed(4)),
@@ -923,6 +1409,9 @@ export async function searchEmbeddings(params: EmbeddingsSearchParams) {
       },
       chunk: {
         index: entry.row.chunk_index,
+        startLine: entry.row.start_line,
+        endLine: entry.row.end_line,
+        headingPath: parseHeadingPath(entry.row.heading_path),
         preview: buildPreview(entry.row.chunk_preview, previewChars),
         ...(includeText ? { text: entry.row.chunk_text } : {}),
       },
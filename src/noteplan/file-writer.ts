@@ -322,31 +322,33 @@ function resolveExplicitFilename(filename: string, defaultExt: string): string {
  * calendar-note creation.
  */
 async function assertNoteDoesNotExistAtPath(filePath: string): Promise<void> {
+  const existing = await findExistingNotePath(filePath);
+  if (existing) {
+    throw new Error(`Note already exists: ${existing}`);
+  }
+}
+
+/**
+ * The note already stored at `filePath` under either `.md` or `.txt`
+ * (relative path), or null when the name is free.
+ */
+export async function findExistingNotePath(filePath: string): Promise<string | null> {
   const fullPath = path.join(getNotePlanPath(), filePath);
   const ext = path.extname(filePath);
   const altExt = ext === '.txt' ? '.md' : '.txt';
   const altRelative = `${filePath.slice(0, -ext.length)}${altExt}`;
   const altFullPath = `${fullPath.slice(0, -ext.length)}${altExt}`;
 
-  if (await pathExists(fullPath)) {
-    throw new Error(`Note already exists: ${filePath}`);
-  }
-  if (await pathExists(altFullPath)) {
-    throw new Error(`Note already exists: ${altRelative}`);
-  }
+  if (await pathExists(fullPath)) return filePath;
+  if (await pathExists(altFullPath)) return altRelative;
+  return null;
 }
 
 /**
- * Create a new project note. When `filename` is provided it overrides
- * the title-derived basename — callers can keep the on-disk name (e.g.
- * `_context.md`) decoupled from the human-readable title.
+ * Relative path a new project note would be written to, before any
+ * collision check.
  */
-export async function createProjectNote(
-  title: string,
-  content: string = '',
-  folder?: string,
-  filename?: string,
-): Promise<string> {
+export function buildProjectNotePath(title: string, folder?: string, filename?: string): string {
   // Strip an optional `Notes/` prefix OR a bare `Notes` (the root-only
   // case). Without the `(\/|$)` branch, `folder = "Notes"` slipped past
   // and produced `Notes/Notes/<title>` on disk.
@@ -356,7 +358,21 @@ export async function createProjectNote(
   const fileBasename = filename
     ? resolveExplicitFilename(filename, defaultExt)
     : `${sanitizeFilename(title)}${defaultExt}`;
-  const filePath = path.join(folderPath, fileBasename);
+  return path.join(folderPath, fileBasename);
+}
+
+/**
+ * Create a new project note. When `filename` is provided it overrides
+ * the title-derived basename — callers can keep the on-disk name (e.g.
+ * `_context.md`) decoupled from the human-readable title.
+ */
+export async function createProjectNote(
+  title: string,
+  content: string = '',
+  folder?: string,
+  filename?: string,
+): Promise<string> {
+  const filePath = buildProjectNotePath(title, folder, filename);
 
   assertFolderAllowed(filePath, 'create note in');
   await assertNoteDoesNotExistAtPath(filePath);
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('./preferences.js', () => ({
+  getTaskMarkerConfigCached: vi.fn(() => ({
+    isAsteriskTodo: true,
+    isDashTodo: false,
+    defaultTodoCharacter: '*',
+    todoCharacter: '*',
+    useCheckbox: true,
+  })),
+  getTaskPrefix: vi.fn(() => '* [ ] '),
+  getFirstDayOfWeekCached: vi.fn(() => 1),
+}));
+
+import { evaluateFilter, parseFilterDefinition, resolveTimeframeRange } from './filter-engine.js';
+import type { Note } from './types.js';
+
+function note(filename: string, content: string, extra: Partial<Note> = {}): Note {
+  return {
+    id: filename,
+    title: filename.split('/').pop()!.replace(/\.md$/, ''),
+    filename,
+    content,
+    type: filename.startsWith('Calendar/') ? 'calendar' : 'note',
+    source: 'local',
+    ...extra,
+  };
+}
+
+function items(values: Record<string, string>) {
+  return Object.entries(values).map(([param, value]) => ({ param, value, display: true }));
+}
+
+// Wednesday 2026-03-18; weeks start on Monday
+const now = new Date(2026, 2, 18, 9, 30);
+const options = { now, firstDayOfWeek: 1 };
+
+const notes = [
+  note('Notes/Work/Plan.md', [
+    '# Plan',
+    '## Launch',
+    '* [ ] Write launch post >2026-03-19',
+    '* [x] Book venue >2026-03-16',
+    '+ [ ] Pack banner',
+    '## Later',
+    '* [ ] Write retro',
+    'Plain text about launch',
+  ].join('\n')),
+  note('Notes/@Archive/Old.md', '# Old\n* [ ] Archived launch task'),
+  note('Calendar/20260317.md', '* [ ] Call printer\n* [-] Write newsletter'),
+  note('Calendar/2026-W12.md', '* [ ] Weekly launch review', { date: '2026-W12' }),
+  note('Team/Roadmap', '# Roadmap\n* [ ] Team launch task', { source: 'space', spaceId: 'space-1' }),
+];
+
+describe('parseFilterDefinition', () => {
+  it('reads flags, dates and teamspaces from plist items', () => {
+    const definition = parseFilterDefinition(items({
+      fp_open: 'true',
+      fp_done: 'false',
+      fp_checklist: 'true',
+      fp_timeframe: 'fptf_custom',
+      fp_startDate: '2026-03-01 00:00:00',
+      fp_teamspaces: 'space-1$$::$$space-2',
+      fp_event: 'true',
+    }));
+    expect(definition.taskStatuses).toEqual(['open']);
+    expect(definition.checklistStatuses).toEqual(['open']);
+    expect(definition.customStart).toBe('20260301');
+    expect(definition.customEnd).toBeNull();
+    expect(definition.teamspaces).toEqual(['space-1', 'space-2']);
+    expect(definition.unsupportedParams).toEqual(['fp_event']);
+  });
+
+  it('assumes open tasks when no status flag is set', () => {
+    const definition = parseFilterDefinition(items({ fp_keyword: 'x' }));
+    expect(definition.taskStatuses).toEqual(['open']);
+    expect(definition.defaultedStatuses).toBe(true);
+  });
+});
+
+describe('resolveTimeframeRange', () => {
+  it('resolves weeks, months and relative ranges around today', () => {
+    const range = (timeframe: string) => resolveTimeframeRange({ timeframe, customStart: null, customEnd: null }, now, 1);
+    expect(range('fptf_thisWeek')).toEqual({ start: '20260316', end: '20260322' });
+    expect(range('fptf_lastMonth')).toEqual({ start: '20260201', end: '20260228' });
+    expect(range('fptf_future')).toEqual({ start: '20260319', end: null });
+    expect(range('fptf_allTime')).toBeNull();
+  });
+});
+
+describe('evaluateFilter', () => {
+  const run = (values: Record<string, string>) => evaluateFilter(parseFilterDefinition(items(values)), notes, options);
+
+  it('matches open tasks dated this week by schedule or calendar note', () => {
+    const matches = run({ fp_open: 'true', fp_timeframe: 'fptf_thisWeek' });
+    expect(matches.map((m) => [m.file, m.content, m.date])).toEqual([
+      ['Calendar/2026-W12.md', 'Weekly launch review', '2026-03-16'],
+      ['Calendar/20260317.md', 'Call printer', '2026-03-17'],
+      ['Notes/Work/Plan.md', 'Write launch post >2026-03-19', '2026-03-19'],
+    ]);
+  });
+
+  it('applies keyword, underHeading, excludeArchive and teamspaces', () => {
+    const matches = run({
+      fp_open: 'true',
+      fp_checklist: 'true',
+      fp_keyword: 'LAUNCH',
+      fp_excludeArchive: 'true',
+      fp_excludeTeamspaces: 'true',
+    });
+    expect(matches.map((m) => m.content)).toEqual([
+      'Weekly launch review',
+      'Write launch post >2026-03-19',
+    ]);
+    expect(matches[1]).toMatchObject({ heading: 'Launch', matchStart: 6, matchEnd: 12, line: 3 });
+
+    const underLaunch = run({ fp_open: 'true', fp_checklist: 'true', fp_underHeading: 'launch' });
+    expect(underLaunch.map((m) => m.content)).toEqual(['Write launch post >2026-03-19', 'Pack banner']);
+  });
+
+  it('restricts note kinds and statuses', () => {
+    const projectOnly = run({ fp_canceled: 'true', fp_done: 'true', fp_noteItem: 'true' });
+    expect(projectOnly.map((m) => m.content)).toEqual(['Book venue >2026-03-16']);
+
+    const spaceOnly = run({ fp_open: 'true', fp_keyword: 'team', fp_teamspaces: 'space-1' });
+    expect(spaceOnly).toHaveLength(1);
+    expect(spaceOnly[0]).toMatchObject({ source: 'space', spaceId: 'space-1' });
+
+    const noStatus = run({ fp_noStatus: 'true', fp_keyword: 'plain' });
+    expect(noStatus.map((m) => m.paragraphType)).toEqual(['text']);
+  });
+});
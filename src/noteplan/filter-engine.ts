@@ -0,0 +1,363 @@
+// Local evaluation of saved NotePlan filters.
+//
+// NotePlan executes filters itself (through the bridge) when it is running.
+// This engine interprets the same plist items over notes read from disk so
+// filters keep working headless. It covers the task-view rules — status and
+// checklist flags, timeframe, keyword, filename, underHeading, note kinds,
+// excludeArchive and teamspaces. Calendar events and reminders only exist
+// inside NotePlan and are reported as unsupported.
+//
+// Pure evaluator over Note[] — callers own the listing.
+
+import { Note, ParagraphType, TaskStatus } from './types.js';
+import { FilterItemRecord, parseFilterItemValue } from './filter-store.js';
+import { extractScheduledDate, parseAllParagraphLines, parseParagraphLine } from './markdown-parser.js';
+import { extractDateFromFilename, formatDateString, getCalendarNoteType, getStartOfWeekDate } from '../utils/date-utils.js';
+
+export interface FilterDefinition {
+  taskStatuses: TaskStatus[];
+  checklistStatuses: TaskStatus[];
+  includeNoStatus: boolean;
+  timeframe: string | null;
+  customStart: string | null; // YYYYMMDD
+  customEnd: string | null;   // YYYYMMDD
+  keyword: string;
+  filename: string;
+  underHeading: string;
+  noteItem: boolean | undefined;
+  datedNoteItem: boolean | undefined;
+  calendarItem: boolean | undefined;
+  showWeekly: boolean | undefined;
+  showMonthly: boolean | undefined;
+  excludeArchive: boolean;
+  excludeTeamspaces: boolean;
+  teamspaces: string[];
+  /** Status flags were absent, so open tasks are assumed */
+  defaultedStatuses: boolean;
+  /** Params that are set but can't be evaluated without NotePlan */
+  unsupportedParams: string[];
+}
+
+export interface LocalFilterMatch {
+  file: string;
+  noteTitle: string;
+  noteType: Note['type'];
+  source: Note['source'];
+  spaceId?: string;
+  lineIndex: number;
+  line: number;
+  content: string;
+  paragraphType: ParagraphType;
+  status?: TaskStatus;
+  date?: string;     // YYYY-MM-DD the timeframe was matched on
+  heading?: string;
+  matchStart: number;
+  matchEnd: number;
+}
+
+export interface DateRange {
+  start: string | null; // YYYYMMDD, null = open
+  end: string | null;
+}
+
+const TASK_STATUS_PARAMS: Array<[string, TaskStatus]> = [
+  ['fp_open', 'open'],
+  ['fp_done', 'done'],
+  ['fp_scheduled', 'scheduled'],
+  ['fp_canceled', 'cancelled'],
+];
+
+const CHECKLIST_STATUS_PARAMS: Array<[string, TaskStatus]> = [
+  ['fp_checklist', 'open'],
+  ['fp_checklistDone', 'done'],
+  ['fp_checklistScheduled', 'scheduled'],
+  ['fp_checklistCancelled', 'cancelled'],
+];
+
+const APP_ONLY_PARAMS = ['fp_event', 'fp_reminder', 'fp_listReminders', 'fp_showTimeBlockedEvents'];
+
+/** Non-task lines included by fp_noStatus (structure lines never match) */
+const NO_STATUS_TYPES = new Set<ParagraphType>(['text', 'bullet', 'quote']);
+
+/** Custom dates are stored as `yyyy-MM-dd HH:mm:ss`; only the day matters. */
+function toDateKey(value: string): string | null {
+  const match = value.trim().match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  return match ? `${match[1]}${match[2]}${match[3]}` : null;
+}
+
+export function parseFilterDefinition(items: FilterItemRecord[]): FilterDefinition {
+  const values = new Map<string, unknown>();
+  for (const item of items) {
+    values.set(item.param, parseFilterItemValue(item.param, item.value));
+  }
+  const flag = (param: string): boolean | undefined => {
+    const value = values.get(param);
+    return typeof value === 'boolean' ? value : undefined;
+  };
+  const text = (param: string): string => {
+    const value = values.get(param);
+    return typeof value === 'string' ? value.trim() : '';
+  };
+
+  let taskStatuses = TASK_STATUS_PARAMS.filter(([param]) => flag(param) === true).map(([, status]) => status);
+  const checklistStatuses = CHECKLIST_STATUS_PARAMS.filter(([param]) => flag(param) === true).map(([, status]) => status);
+  const includeNoStatus = flag('fp_noStatus') === true;
+  const defaultedStatuses = taskStatuses.length === 0 && checklistStatuses.length === 0 && !includeNoStatus;
+  if (defaultedStatuses) taskStatuses = ['open'];
+
+  const teamspaces = values.get('fp_teamspaces');
+  return {
+    taskStatuses,
+    checklistStatuses,
+    includeNoStatus,
+    timeframe: text('fp_timeframe') || null,
+    customStart: toDateKey(text('fp_startDate')),
+    customEnd: toDateKey(text('fp_endDate')),
+    keyword: text('fp_keyword'),
+    filename: text('fp_filename'),
+    underHeading: text('fp_underHeading'),
+    noteItem: flag('fp_noteItem'),
+    datedNoteItem: flag('fp_datedNoteItem'),
+    calendarItem: flag('fp_calendarItem'),
+    showWeekly: flag('fp_showWeekly'),
+    showMonthly: flag('fp_showMonthly'),
+    excludeArchive: flag('fp_excludeArchive') === true,
+    excludeTeamspaces: flag('fp_excludeTeamspaces') === true,
+    teamspaces: Array.isArray(teamspaces) ? teamspaces : [],
+    defaultedStatuses,
+    unsupportedParams: APP_ONLY_PARAMS.filter((param) => flag(param) === true),
+  };
+}
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+/**
+ * Day range for a timeframe key, relative to `now`. Returns null for all
+ * time. `fptf_allTimeCappedPast` keeps the last 12 months plus the future.
+ */
+export function resolveTimeframeRange(
+  definition: Pick<FilterDefinition, 'timeframe' | 'customStart' | 'customEnd'>,
+  now: Date,
+  firstDayOfWeek: number
+): DateRange | null {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const key = (date: Date) => formatDateString(date);
+  const range = (start: Date | null, end: Date | null): DateRange => ({
+    start: start ? key(start) : null,
+    end: end ? key(end) : null,
+  });
+  const week = (offset: number) => {
+    const start = addDays(getStartOfWeekDate(today, firstDayOfWeek), offset * 7);
+    return range(start, addDays(start, 6));
+  };
+  const month = (offset: number) =>
+    range(
+      new Date(today.getFullYear(), today.getMonth() + offset, 1),
+      new Date(today.getFullYear(), today.getMonth() + offset + 1, 0)
+    );
+  const year = (offset: number) =>
+    range(new Date(today.getFullYear() + offset, 0, 1), new Date(today.getFullYear() + offset, 11, 31));
+
+  switch (definition.timeframe) {
+    case null:
+    case 'fptf_allTime':
+      return null;
+    case 'fptf_allTimeCappedPast':
+      return range(new Date(today.getFullYear() - 1, today.getMonth(), today.getDate()), null);
+    case 'fptf_rolling30Days':
+      return range(addDays(today, -29), today);
+    case 'fptf_today':
+      return range(today, today);
+    case 'fptf_pastAndToday':
+      return range(null, today);
+    case 'fptf_past':
+      return range(null, addDays(today, -1));
+    case 'fptf_future':
+      return range(addDays(today, 1), null);
+    case 'fptf_lastWeek':
+      return week(-1);
+    case 'fptf_thisWeek':
+      return week(0);
+    case 'fptf_nextWeek':
+      return week(1);
+    case 'fptf_lastMonth':
+      return month(-1);
+    case 'fptf_thisMonth':
+      return month(0);
+    case 'fptf_nextMonth':
+      return month(1);
+    case 'fptf_lastYear':
+      return year(-1);
+    case 'fptf_thisYear':
+      return year(0);
+    case 'fptf_nextYear':
+      return year(1);
+    case 'fptf_custom':
+      return { start: definition.customStart, end: definition.customEnd };
+    default:
+      throw new Error(`Unsupported filter timeframe: ${definition.timeframe}`);
+  }
+}
+
+/** Day range a calendar note covers (a single day for daily notes). */
+export function calendarNoteRange(note: Note, firstDayOfWeek: number): DateRange | null {
+  if (note.type !== 'calendar') return null;
+  const token = note.date ?? extractDateFromFilename(note.filename.split('/').pop() ?? '');
+  if (!token) return null;
+  return periodicTokenRange(token, firstDayOfWeek);
+}
+
+/**
+ * Day range of a calendar date token: YYYYMMDD, YYYY-Www, YYYY-MM, YYYY-Qn
+ * or YYYY. Null for anything else.
+ */
+export function periodicTokenRange(token: string, firstDayOfWeek: number): DateRange | null {
+  const key = (date: Date) => formatDateString(date);
+
+  if (/^\d{8}$/.test(token)) return { start: token, end: token };
+  const weekly = token.match(/^(\d{4})-W(\d{2})$/);
+  if (weekly) {
+    // Week 1 contains January 1 (same rule as getWeekWithFirstDay)
+    const week1Start = getStartOfWeekDate(new Date(Number(weekly[1]), 0, 1), firstDayOfWeek);
+    const start = addDays(week1Start, (Number(weekly[2]) - 1) * 7);
+    return { start: key(start), end: key(addDays(start, 6)) };
+  }
+  const monthly = token.match(/^(\d{4})-(\d{2})$/);
+  if (monthly) {
+    const [year, month] = [Number(monthly[1]), Number(monthly[2]) - 1];
+    return { start: key(new Date(year, month, 1)), end: key(new Date(year, month + 1, 0)) };
+  }
+  const quarterly = token.match(/^(\d{4})-Q([1-4])$/);
+  if (quarterly) {
+    const [year, firstMonth] = [Number(quarterly[1]), (Number(quarterly[2]) - 1) * 3];
+    return { start: key(new Date(year, firstMonth, 1)), end: key(new Date(year, firstMonth + 3, 0)) };
+  }
+  if (/^\d{4}$/.test(token)) return { start: `${token}0101`, end: `${token}1231` };
+  return null;
+}
+
+function overlaps(a: DateRange, b: DateRange): boolean {
+  return (b.end === null || a.start === null || a.start <= b.end) && (b.start === null || a.end === null || a.end >= b.start);
+}
+
+function isArchived(note: Note): boolean {
+  return /(^|\/)@Archive(\/|$)/.test(note.filename);
+}
+
+/** Whether a note's items can appear in the filter at all. */
+function isNoteInScope(note: Note, definition: FilterDefinition): boolean {
+  if (note.type === 'trash' || /(^|\/)@Templates(\/|$)/.test(note.filename)) return false;
+  if (definition.excludeArchive && isArchived(note)) return false;
+  if (note.source === 'space') {
+    if (definition.excludeTeamspaces) return false;
+    if (definition.teamspaces.length > 0 && !definition.teamspaces.includes(note.spaceId ?? '')) return false;
+  }
+  if (definition.filename) {
+    const needle = definition.filename.toLowerCase();
+    if (!note.filename.toLowerCase().includes(needle) && !note.title.toLowerCase().includes(needle)) return false;
+  }
+
+  // Note kinds: when none of the three flags is set, every kind is included
+  const kindFlags = [definition.noteItem, definition.datedNoteItem, definition.calendarItem];
+  if (kindFlags.some((value) => value !== undefined)) {
+    const allowed = note.type === 'calendar'
+      ? definition.datedNoteItem === true || definition.calendarItem === true
+      : definition.noteItem === true;
+    if (!allowed) return false;
+  }
+
+  if (note.type === 'calendar') {
+    // Longer periodic notes (monthly, quarterly, yearly) follow fp_showMonthly
+    const kind = getCalendarNoteType(note.filename);
+    if (kind === 'weekly' && definition.showWeekly === false) return false;
+    if (kind && kind !== 'daily' && kind !== 'weekly' && definition.showMonthly === false) return false;
+  }
+  return true;
+}
+
+function statusMatches(type: ParagraphType, status: TaskStatus | undefined, definition: FilterDefinition): boolean {
+  if (type === 'task') return definition.taskStatuses.includes(status ?? 'open');
+  if (type === 'checklist') return definition.checklistStatuses.includes(status ?? 'open');
+  return definition.includeNoStatus && NO_STATUS_TYPES.has(type);
+}
+
+function toIsoDay(key: string): string {
+  return `${key.slice(0, 4)}-${key.slice(4, 6)}-${key.slice(6, 8)}`;
+}
+
+/**
+ * Evaluate a parsed filter over notes. Items are dated by their `>YYYY-MM-DD`
+ * schedule, else by the calendar note they live in; undated items only match
+ * when the filter has no timeframe. Results are sorted by date (undated
+ * last), then file and line.
+ */
+export function evaluateFilter(
+  definition: FilterDefinition,
+  notes: Note[],
+  options: { now: Date; firstDayOfWeek: number }
+): LocalFilterMatch[] {
+  const timeframe = resolveTimeframeRange(definition, options.now, options.firstDayOfWeek);
+  const keyword = definition.keyword.toLowerCase();
+  const underHeading = definition.underHeading.toLowerCase();
+  const matches: LocalFilterMatch[] = [];
+
+  for (const note of notes) {
+    if (!isNoteInScope(note, definition)) continue;
+    const period = calendarNoteRange(note, options.firstDayOfWeek);
+
+    const lines = note.content.split('\n');
+    const paragraphs = parseAllParagraphLines(lines);
+    if (note.type === 'calendar' && paragraphs[0]?.type === 'title') {
+      // Calendar notes have no title line; their first line is content
+      paragraphs[0] = parseParagraphLine(lines[0], 0, false);
+    }
+    let heading: string | undefined;
+    for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+      const paragraph = paragraphs[lineIndex];
+      if (paragraph.type === 'heading') {
+        heading = lines[lineIndex].trim().replace(/^#+\s*/, '');
+        continue;
+      }
+      if (!statusMatches(paragraph.type, paragraph.taskStatus, definition)) continue;
+      if (underHeading && !(heading ?? '').toLowerCase().includes(underHeading)) continue;
+
+      const content = lines[lineIndex].trim().replace(/^[*+\-]\s*(\[.\]\s*)?/, '');
+      const matchStart = keyword ? content.toLowerCase().indexOf(keyword) : 0;
+      if (matchStart < 0) continue;
+
+      const scheduled = extractScheduledDate(content);
+      const itemRange = scheduled ? { start: scheduled.replace(/-/g, ''), end: scheduled.replace(/-/g, '') } : period;
+      if (timeframe && (!itemRange || !overlaps(itemRange, timeframe))) continue;
+
+      matches.push({
+        file: note.filename,
+        noteTitle: note.title,
+        noteType: note.type,
+        source: note.source,
+        ...(note.spaceId && { spaceId: note.spaceId }),
+        lineIndex,
+        line: lineIndex + 1,
+        content,
+        paragraphType: paragraph.type,
+        ...(paragraph.taskStatus && { status: paragraph.taskStatus }),
+        ...(itemRange?.start && { date: toIsoDay(itemRange.start) }),
+        ...(heading && { heading }),
+        matchStart,
+        matchEnd: keyword ? matchStart + keyword.length : content.length,
+      });
+    }
+  }
+
+  return matches.sort((a, b) => {
+    if (a.date !== b.date) {
+      if (!a.date) return 1;
+      if (!b.date) return -1;
+      return a.date.localeCompare(b.date);
+    }
+    return a.file.localeCompare(b.file) || a.lineIndex - b.lineIndex;
+  });
+}
@@ -67,6 +67,45 @@ function normalizeFilterItem(input: {
   };
 }
 
+const BOOLEAN_FILTER_PARAMS = new Set([
+  'fp_open',
+  'fp_done',
+  'fp_scheduled',
+  'fp_canceled',
+  'fp_event',
+  'fp_reminder',
+  'fp_noStatus',
+  'fp_noteItem',
+  'fp_datedNoteItem',
+  'fp_calendarItem',
+  'fp_sortPastFuture',
+  'fp_showMonthly',
+  'fp_showWeekly',
+  'fp_showTimeBlockedEvents',
+  'fp_hidePastEvents',
+  'fp_listReminders',
+  'fp_checklist',
+  'fp_checklistDone',
+  'fp_checklistScheduled',
+  'fp_checklistCancelled',
+  'fp_excludeArchive',
+  'fp_excludeTeamspaces',
+]);
+
+/** Decode a stored plist value: booleans as `true`/`false`, teamspaces joined with `$$::$$`. */
+export function parseFilterItemValue(param: string, value: string): unknown {
+  if (BOOLEAN_FILTER_PARAMS.has(param)) {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+  }
+
+  if (param === 'fp_teamspaces') {
+    return value.length > 0 ? value.split('$$::$$').filter((entry) => entry.length > 0) : [];
+  }
+
+  return value;
+}
+
 function getFiltersPath(): string {
   return path.join(getNotePlanPath(), 'Filters');
 }
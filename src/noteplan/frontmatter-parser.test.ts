@@ -7,6 +7,8 @@ import {
   setFrontmatterProperty,
   removeFrontmatterProperty,
   deleteLines,
+  findInsertionLineIndex,
+  applyLineEdits,
 } from './frontmatter-parser.js';
 
 /**
@@ -1095,3 +1097,81 @@ describe('insertContentAtPosition – broken frontmatter with thematic break (Is
     expect(resultLines[4]).toBe('# Content');
   });
 });
+
+describe('findInsertionLineIndex', () => {
+  const note = ['---', 'title: T', '---', '# T', '## Tasks', '* one', '', '## Notes', 'text'].join('\n');
+
+  it('resolves start to the line after frontmatter', () => {
+    expect(findInsertionLineIndex(note, { position: 'start' })).toBe(3);
+  });
+
+  it('resolves in-section before trailing blank lines of the section', () => {
+    expect(findInsertionLineIndex(note, { position: 'in-section', heading: 'Tasks' })).toBe(6);
+  });
+
+  it('resolves end without heading to the line count', () => {
+    expect(findInsertionLineIndex(note, { position: 'end' })).toBe(9);
+  });
+
+  it('agrees with insertContentAtPosition', () => {
+    const index = findInsertionLineIndex(note, { position: 'after-heading', heading: 'Notes' });
+    const inserted = lines(insertContentAtPosition(note, 'NEW', { position: 'after-heading', heading: 'Notes' }));
+    expect(inserted[index]).toBe('NEW');
+  });
+
+  it('throws for a missing heading', () => {
+    expect(() => findInsertionLineIndex(note, { position: 'after-heading', heading: 'Nope' })).toThrow(
+      /Heading "Nope" not found/
+    );
+  });
+});
+
+describe('applyLineEdits', () => {
+  const original = ['a', 'b', 'c', 'd', 'e'].join('\n');
+
+  it('addresses every edit against the original line numbers', () => {
+    const result = applyLineEdits(original, [
+      { start: 0, deleteCount: 0, lines: ['x', 'y'] }, // insert before a
+      { start: 1, deleteCount: 1, lines: ['B'] }, // edit b
+      { start: 3, deleteCount: 2, lines: [] }, // delete d-e
+    ]);
+    expect(lines(result)).toEqual(['x', 'y', 'a', 'B', 'c']);
+  });
+
+  it('keeps batch order for inserts at the same index, before a range starting there', () => {
+    const result = applyLineEdits(original, [
+      { start: 2, deleteCount: 1, lines: ['C'] },
+      { start: 2, deleteCount: 0, lines: ['first'] },
+      { start: 2, deleteCount: 0, lines: ['second'] },
+    ]);
+    expect(lines(result)).toEqual(['a', 'b', 'first', 'second', 'C', 'd', 'e']);
+  });
+
+  it('inserts at the end of the note', () => {
+    expect(lines(applyLineEdits(original, [{ start: 5, deleteCount: 0, lines: ['f'] }]))).toEqual([
+      'a', 'b', 'c', 'd', 'e', 'f',
+    ]);
+  });
+
+  it('rejects overlapping ranges', () => {
+    expect(() =>
+      applyLineEdits(original, [
+        { start: 1, deleteCount: 2, lines: [] },
+        { start: 2, deleteCount: 1, lines: ['X'] },
+      ])
+    ).toThrow('Edits 1 and 2 overlap at line 3');
+  });
+
+  it('rejects inserts inside a replaced range', () => {
+    expect(() =>
+      applyLineEdits(original, [
+        { start: 1, deleteCount: 3, lines: [] },
+        { start: 2, deleteCount: 0, lines: ['X'] },
+      ])
+    ).toThrow('Edit 2 inserts inside lines replaced by edit 1');
+  });
+
+  it('rejects ranges past the end of the note', () => {
+    expect(() => applyLineEdits(original, [{ start: 4, deleteCount: 2, lines: [] }])).toThrow(/out of range/);
+  });
+});
@@ -239,32 +239,21 @@ export function removeFrontmatterProperty(content: string, key: string): string
 }
 
 /**
- * Insert content at a specified position
+ * Resolve the 0-based line index where insertContentAtPosition splices new
+ * lines for a given position. The index may exceed the line count for
+ * at-line inserts past the end of the note (the caller pads with blanks).
+ * `end` without a heading resolves to the line count.
  */
-export function insertContentAtPosition(
-  content: string,
-  newContent: string,
-  options: InsertOptions
-): string {
+export function findInsertionLineIndex(content: string, options: InsertOptions): number {
   const { position, heading, line } = options;
   const lines = content.split('\n');
 
-  // Split newContent into individual lines so splice inserts one element per
-  // line.  Strip a single trailing newline first — trailing \n in the content
-  // string is almost never intentional and would otherwise create an extra
-  // blank line after join('\n').  Callers who need an explicit blank line
-  // should insert content="" separately.
-  const newLines = newContent.replace(/\n$/, '').split('\n');
-
   switch (position) {
     case 'start': {
-      // When heading is provided, delegate to after-heading so that
+      // When heading is provided, behave like after-heading so that
       // position="start" + heading="X" inserts right after the heading.
       if (heading) {
-        return insertContentAtPosition(content, newContent, {
-          position: 'after-heading',
-          heading,
-        });
+        return findInsertionLineIndex(content, { position: 'after-heading', heading });
       }
 
       // Insert after frontmatter if present.
@@ -273,66 +262,30 @@ export function insertContentAtPosition(
       // This prevents a thematic break (---) in the note body from being
       // mistaken for the frontmatter closing delimiter.
       const parsed = parseNoteContent(content);
-      let insertIndex = 0;
       if (parsed.hasFrontmatter && lines[0]?.trim() === '---') {
         for (let i = 1; i < lines.length; i++) {
           if (lines[i]?.trim() === '---') {
-            insertIndex = i + 1;
-            break;
+            return i + 1;
           }
         }
       }
-      lines.splice(insertIndex, 0, ...newLines);
-      break;
+      return 0;
     }
 
     case 'end': {
-      // When heading is provided, delegate to in-section so that
+      // When heading is provided, behave like in-section so that
       // position="end" + heading="X" appends at the end of that section.
       if (heading) {
-        return insertContentAtPosition(content, newContent, {
-          position: 'in-section',
-          heading,
-        });
-      }
-
-      // Append at end — use original newContent (no trailing-\n strip)
-      // because appending doesn't go through splice+join.
-      if (content.endsWith('\n')) {
-        return content + newContent;
+        return findInsertionLineIndex(content, { position: 'in-section', heading });
       }
-      return content + '\n' + newContent;
+      return lines.length;
     }
 
     case 'after-heading': {
       if (!heading) {
         throw new Error('Heading is required for after-heading position');
       }
-      const targetHeading = normalizeHeadingForMatch(heading);
-      const headingIndex = lines.findIndex((lineValue) => {
-        const lineHeading = extractSectionBoundaryText(lineValue);
-        if (!lineHeading) return false;
-        return normalizeHeadingForMatch(lineHeading) === targetHeading;
-      });
-
-      if (headingIndex === -1) {
-        const availableHeadings = lines
-          .map((lineValue) => extractSectionBoundaryText(lineValue))
-          .filter((value): value is string => Boolean(value))
-          .slice(0, 15);
-        if (availableHeadings.length > 0) {
-          throw new Error(
-            `Heading "${heading}" not found. Available headings include: ${availableHeadings.join(
-              ' | '
-            )}`
-          );
-        }
-        throw new Error(`Heading "${heading}" not found`);
-      }
-
-      // Insert after the heading
-      lines.splice(headingIndex + 1, 0, ...newLines);
-      break;
+      return findSectionHeadingIndex(lines, heading) + 1;
     }
 
     case 'at-line': {
@@ -340,40 +293,14 @@ export function insertContentAtPosition(
         throw new Error('Valid line number is required for at-line position');
       }
       // Line numbers are absolute (1-indexed), matching get_notes/getParagraphs
-      const lineIndex = Number(line) - 1;
-      // Ensure we have enough lines
-      while (lines.length <= lineIndex) {
-        lines.push('');
-      }
-      lines.splice(lineIndex, 0, ...newLines);
-      break;
+      return Number(line) - 1;
     }
 
     case 'in-section': {
       if (!heading) {
         throw new Error('Heading is required for in-section position');
       }
-      const targetSectionHeading = normalizeHeadingForMatch(heading);
-      const sectionHeadingIndex = lines.findIndex((lineValue) => {
-        const lineHeading = extractSectionBoundaryText(lineValue);
-        if (!lineHeading) return false;
-        return normalizeHeadingForMatch(lineHeading) === targetSectionHeading;
-      });
-
-      if (sectionHeadingIndex === -1) {
-        const availableSectionHeadings = lines
-          .map((lineValue) => extractSectionBoundaryText(lineValue))
-          .filter((value): value is string => Boolean(value))
-          .slice(0, 15);
-        if (availableSectionHeadings.length > 0) {
-          throw new Error(
-            `Heading "${heading}" not found. Available headings include: ${availableSectionHeadings.join(
-              ' | '
-            )}`
-          );
-        }
-        throw new Error(`Heading "${heading}" not found`);
-      }
+      const sectionHeadingIndex = findSectionHeadingIndex(lines, heading);
 
       // Find end of section: next heading/section marker or end of file
       let sectionEndIndex = lines.length;
@@ -389,14 +316,48 @@ export function insertContentAtPosition(
       while (insertIndex > sectionHeadingIndex + 1 && lines[insertIndex - 1].trim() === '') {
         insertIndex--;
       }
-
-      lines.splice(insertIndex, 0, ...newLines);
-      break;
+      return insertIndex;
     }
 
     default:
       throw new Error(`Unknown position: ${position}`);
   }
+}
+
+/**
+ * Insert content at a specified position
+ */
+export function insertContentAtPosition(
+  content: string,
+  newContent: string,
+  options: InsertOptions
+): string {
+  // Append at end — use original newContent (no trailing-\n strip)
+  // because appending doesn't go through splice+join.
+  if (options.position === 'end' && !options.heading) {
+    if (content.endsWith('\n')) {
+      return content + newContent;
+    }
+    return content + '\n' + newContent;
+  }
+
+  const insertIndex = findInsertionLineIndex(content, options);
+  const lines = content.split('\n');
+
+  // Split newContent into individual lines so splice inserts one element per
+  // line.  Strip a single trailing newline first — trailing \n in the content
+  // string is almost never intentional and would otherwise create an extra
+  // blank line after join('\n').  Callers who need an explicit blank line
+  // should insert content="" separately.
+  const newLines = newContent.replace(/\n$/, '').split('\n');
+
+  // Ensure we have enough lines for at-line inserts past the end
+  if (options.position === 'at-line') {
+    while (lines.length <= insertIndex) {
+      lines.push('');
+    }
+  }
+  lines.splice(insertIndex, 0, ...newLines);
 
   return lines.join('\n');
 }
@@ -427,6 +388,88 @@ export function deleteLines(content: string, startLine: number, endLine: number)
   return lines.join('\n');
 }
 
+/**
+ * One edit in a batch, addressed against the original content: replace
+ * `deleteCount` lines starting at 0-based `start` with `lines`.
+ * A deleteCount of 0 inserts before line `start`.
+ */
+export interface LineEdit {
+  start: number;
+  deleteCount: number;
+  lines: string[];
+}
+
+/**
+ * Apply edits that were all addressed against the same original content,
+ * so one edit never shifts the line numbers another relies on. Insertions
+ * at the same index keep their array order and land before a range that
+ * starts there. Overlapping ranges, and insertions inside a replaced range,
+ * are rejected. Errors name edits by 1-based position in `edits`.
+ */
+export function applyLineEdits(content: string, edits: LineEdit[]): string {
+  const lines = content.split('\n');
+  const indexed = edits.map((edit, order) => ({ ...edit, order }));
+
+  for (const edit of indexed) {
+    if (edit.start < 0 || edit.start + edit.deleteCount > lines.length) {
+      throw new Error(
+        `Edit ${edit.order + 1} is out of range (note has ${lines.length} lines)`
+      );
+    }
+  }
+
+  const ranges = indexed
+    .filter((edit) => edit.deleteCount > 0)
+    .sort((a, b) => a.start - b.start || a.order - b.order);
+  for (let i = 1; i < ranges.length; i++) {
+    const previous = ranges[i - 1];
+    if (ranges[i].start < previous.start + previous.deleteCount) {
+      throw new Error(
+        `Edits ${previous.order + 1} and ${ranges[i].order + 1} overlap at line ${ranges[i].start + 1}`
+      );
+    }
+  }
+
+  const inserts = indexed.filter((edit) => edit.deleteCount === 0);
+  for (const insert of inserts) {
+    const container = ranges.find(
+      (range) => insert.start > range.start && insert.start < range.start + range.deleteCount
+    );
+    if (container) {
+      throw new Error(
+        `Edit ${insert.order + 1} inserts inside lines replaced by edit ${container.order + 1}`
+      );
+    }
+  }
+
+  const insertsAt = new Map<number, string[][]>();
+  for (const insert of inserts) {
+    const list = insertsAt.get(insert.start) ?? [];
+    list.push(insert.lines);
+    insertsAt.set(insert.start, list);
+  }
+  const rangeAt = new Map(ranges.map((range) => [range.start, range]));
+
+  const result: string[] = [];
+  let index = 0;
+  while (index <= lines.length) {
+    for (const inserted of insertsAt.get(index) ?? []) {
+      result.push(...inserted);
+    }
+    if (index === lines.length) break;
+    const range = rangeAt.get(index);
+    if (range) {
+      result.push(...range.lines);
+      index += range.deleteCount;
+    } else {
+      result.push(lines[index]);
+      index++;
+    }
+  }
+
+  return result.join('\n');
+}
+
 function extractAtxHeadingText(line: string): string | null {
   const match = line.match(/^\s{0,3}(#{1,6})\s*(.*?)\s*#*\s*$/);
   if (!match) return null;
@@ -457,3 +500,26 @@ function normalizeHeadingForMatch(value: string): string {
   normalized = normalized.replace(/\s+/g, ' ').trim();
   return normalized.toLowerCase();
 }
+
+function findSectionHeadingIndex(lines: string[], heading: string): number {
+  const targetHeading = normalizeHeadingForMatch(heading);
+  const headingIndex = lines.findIndex((lineValue) => {
+    const lineHeading = extractSectionBoundaryText(lineValue);
+    if (!lineHeading) return false;
+    return normalizeHeadingForMatch(lineHeading) === targetHeading;
+  });
+
+  if (headingIndex === -1) {
+    const availableHeadings = lines
+      .map((lineValue) => extractSectionBoundaryText(lineValue))
+      .filter((value): value is string => Boolean(value))
+      .slice(0, 15);
+    if (availableHeadings.length > 0) {
+      throw new Error(
+        `Heading "${heading}" not found. Available headings include: ${availableHeadings.join(' | ')}`
+      );
+    }
+    throw new Error(`Heading "${heading}" not found`);
+  }
+  return headingIndex;
+}
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  __setHistoryDirForTests,
+  getHistoryEntry,
+  hashContent,
+  listHistoryEntries,
+  markHistoryEntryUndone,
+  recordHistory,
+} from './history.js';
+
+describe('history journal', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'noteplan-history-'));
+    __setHistoryDirForTests(dir);
+  });
+
+  afterEach(() => {
+    __setHistoryDirForTests(null);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends entries and lists them newest first', () => {
+    const first = recordHistory({
+      operation: 'update_note',
+      summary: 'Updated Notes/A.md',
+      before: { kind: 'note', source: 'local', path: 'Notes/A.md', content: 'old' },
+      after: { kind: 'note', source: 'local', path: 'Notes/A.md', contentHash: hashContent('new') },
+    });
+    const second = recordHistory({
+      operation: 'move_note',
+      summary: 'Moved Notes/A.md to Notes/B/A.md',
+      before: { kind: 'note', source: 'local', path: 'Notes/A.md' },
+      after: { kind: 'note', source: 'local', path: 'Notes/B/A.md' },
+    });
+
+    expect(first?.id).toMatch(/^h_/);
+    expect(listHistoryEntries().map((e) => e.id)).toEqual([second!.id, first!.id]);
+    expect(getHistoryEntry(first!.id)?.before?.content).toBe('old');
+  });
+
+  it('marks entries undone', () => {
+    const entry = recordHistory({
+      operation: 'create_folder',
+      summary: 'Created folder Projects',
+      before: null,
+      after: { kind: 'folder', source: 'local', path: 'Projects' },
+    })!;
+    markHistoryEntryUndone(entry.id);
+    expect(getHistoryEntry(entry.id)?.undoneAt).toBeTruthy();
+  });
+
+  it('skips torn lines instead of discarding the journal', () => {
+    const entry = recordHistory({
+      operation: 'create_note',
+      summary: 'Created Notes/A.md',
+      before: null,
+      after: { kind: 'note', source: 'local', path: 'Notes/A.md' },
+    })!;
+    fs.appendFileSync(path.join(dir, 'history.jsonl'), '{"id":"h_trunc');
+    expect(listHistoryEntries().map((e) => e.id)).toEqual([entry.id]);
+  });
+
+  it('returns null instead of throwing when the journal cannot be written', () => {
+    const blocker = path.join(dir, 'not-a-dir');
+    fs.writeFileSync(blocker, '');
+    __setHistoryDirForTests(blocker);
+    expect(
+      recordHistory({ operation: 'create_note', summary: 'x', before: null, after: null })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+// Persistent undo journal for note and folder writes.
+//
+// Every mutating unified-store call appends one entry to
+// ~/.noteplan-mcp/history.jsonl describing where the note/folder was and
+// what it contained before the write, and where it ended up afterwards.
+// unified-store.undoHistoryEntry replays the inverse; this module only owns
+// the file format. The journal is best-effort: failing to record never fails
+// the write it describes.
+
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import crypto from 'crypto';
+
+export type HistoryOperation =
+  | 'create_note'
+  | 'update_note'
+  | 'delete_note'
+  | 'move_note'
+  | 'restore_note'
+  | 'rename_note'
+  | 'create_folder'
+  | 'move_folder'
+  | 'delete_folder'
+  | 'rename_folder';
+
+/** Where a note or folder lives (and, for notes on the `before` side, what it contained). */
+export interface HistoryState {
+  kind: 'note' | 'folder';
+  source: 'local' | 'space';
+  /** Local: path relative to the NotePlan root (notes) or Notes/ (folders). Space: filename or folder path. */
+  path: string;
+  /** Space note or folder ID */
+  id?: string;
+  spaceId?: string;
+  /** Space parent folder ID */
+  parentId?: string | null;
+  title?: string;
+  content?: string;
+  /** sha256 of the content after the write — undo refuses to clobber later edits */
+  contentHash?: string;
+}
+
+export interface HistoryEntry {
+  id: string;
+  timestamp: string;
+  operation: HistoryOperation;
+  summary: string;
+  before: HistoryState | null;
+  after: HistoryState | null;
+  undoneAt?: string;
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'timestamp' | 'undoneAt'>;
+
+// Oldest entries are dropped past this point; content snapshots make each
+// entry roughly the size of the note it touched.
+const MAX_HISTORY_ENTRIES = 500;
+const COMPACT_SLACK = 50;
+
+let cachedEntryCount: number | null = null;
+
+let historyDir = path.join(os.homedir(), '.noteplan-mcp');
+
+function historyFilePath(): string {
+  return path.join(historyDir, 'history.jsonl');
+}
+
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+function generateId(): string {
+  return `h_${Date.now()}_${crypto.randomBytes(3).toString('hex')}`;
+}
+
+function readEntries(): HistoryEntry[] {
+  let data: string;
+  try {
+    data = fs.readFileSync(historyFilePath(), 'utf-8');
+  } catch {
+    return [];
+  }
+  const entries: HistoryEntry[] = [];
+  for (const line of data.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const parsed = JSON.parse(line);
+      if (parsed && typeof parsed.id === 'string' && typeof parsed.operation === 'string') {
+        entries.push(parsed as HistoryEntry);
+      }
+    } catch {
+      // Skip a torn line (e.g. process killed mid-append) rather than losing the journal
+    }
+  }
+  return entries;
+}
+
+function writeEntries(entries: HistoryEntry[]): void {
+  fs.mkdirSync(historyDir, { recursive: true });
+  const body = entries.map((entry) => JSON.stringify(entry)).join('\n');
+  fs.writeFileSync(historyFilePath(), body ? `${body}\n` : '', 'utf-8');
+  cachedEntryCount = entries.length;
+}
+
+export function recordHistory(entry: NewHistoryEntry): HistoryEntry | null {
+  const full: HistoryEntry = {
+    id: generateId(),
+    timestamp: new Date().toISOString(),
+    ...entry,
+  };
+  try {
+    fs.mkdirSync(historyDir, { recursive: true });
+    fs.appendFileSync(historyFilePath(), `${JSON.stringify(full)}\n`, 'utf-8');
+    cachedEntryCount = (cachedEntryCount ?? readEntries().length - 1) + 1;
+    // Compact in batches so a write doesn't re-read the whole journal each time
+    if (cachedEntryCount > MAX_HISTORY_ENTRIES + COMPACT_SLACK) {
+      const entries = readEntries();
+      writeEntries(entries.slice(Math.max(0, entries.length - MAX_HISTORY_ENTRIES)));
+    }
+    return full;
+  } catch (error) {
+    console.error('[noteplan-mcp] Failed to record history entry:', error);
+    return null;
+  }
+}
+
+/** All entries, newest first. */
+export function listHistoryEntries(): HistoryEntry[] {
+  return readEntries().reverse();
+}
+
+export function getHistoryEntry(id: string): HistoryEntry | null {
+  return readEntries().find((entry) => entry.id === id) ?? null;
+}
+
+export function markHistoryEntryUndone(id: string): void {
+  const entries = readEntries();
+  const entry = entries.find((e) => e.id === id);
+  if (!entry) return;
+  entry.undoneAt = new Date().toISOString();
+  writeEntries(entries);
+}
+
+export function __setHistoryDirForTests(dir: string | null): void {
+  historyDir = dir ?? path.join(os.homedir(), '.noteplan-mcp');
+  cachedEntryCount = null;
+}
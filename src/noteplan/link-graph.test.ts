@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { buildLinkGraph, extractBlockIds, normalizeLinkTarget, rewriteWikiLinkTargets } from './link-graph.js';
+import type { Note } from './types.js';
+
+function note(partial: Partial<Note> & { id: string; content: string }): Note {
+  return {
+    title: partial.content.split('\n')[0].replace(/^#+\s*/, ''),
+    filename: partial.id,
+    type: 'note',
+    source: 'local',
+    ...partial,
+  };
+}
+
+describe('normalizeLinkTarget', () => {
+  it('ignores case and surrounding/repeated whitespace', () => {
+    expect(normalizeLinkTarget('  Project   Alpha ')).toBe('project alpha');
+  });
+});
+
+describe('extractBlockIds', () => {
+  it('finds trailing ^ids only', () => {
+    expect([...extractBlockIds('* task ^abc123\nnot ^an id here\n^solo')]).toEqual(['abc123', 'solo']);
+  });
+});
+
+describe('buildLinkGraph', () => {
+  const alpha = note({ id: 'Notes/Alpha.md', content: '# Alpha\n## Next\n* task ^blk001\nSee [[Beta]]' });
+  const beta = note({ id: 'Notes/Beta.md', content: '# Beta\n[[alpha#Next]] [[Alpha^blk001]]\n[[Alpha#Missing]] [[Alpha^nope]]' });
+  const lonely = note({ id: 'Notes/Lonely.md', content: '# Lonely\n[[Ghost]]' });
+  const daily = note({ id: 'Calendar/20250115.md', title: '20250115', type: 'calendar', date: '20250115', content: 'Met about [[Beta]]' });
+  const dateLinker = note({ id: 'Notes/Dates.md', content: '# Dates\n[[2025-01-15]] [[2025-01-16]]' });
+  const trashed = note({ id: '@Trash/Old.md', type: 'trash', content: '# Old\n[[Alpha]]' });
+
+  const graph = buildLinkGraph([alpha, beta, lonely, daily, dateLinker, trashed]);
+
+  it('resolves links by case-insensitive title', () => {
+    const fromBeta = graph.outgoing.get(beta.id)!;
+    expect(fromBeta[0].targetId).toBe(alpha.id);
+    expect(fromBeta[0].status).toBe('ok');
+  });
+
+  it('validates headings and block ids', () => {
+    expect(graph.outgoing.get(beta.id)!.map((l) => l.status)).toEqual([
+      'ok', 'ok', 'missing_heading', 'missing_block',
+    ]);
+  });
+
+  it('records unresolved notes as missing_note', () => {
+    const [ghost] = graph.outgoing.get(lonely.id)!;
+    expect(ghost.targetId).toBeNull();
+    expect(ghost.status).toBe('missing_note');
+  });
+
+  it('resolves periodic targets to calendar notes', () => {
+    const [existing, missing] = graph.outgoing.get(dateLinker.id)!;
+    expect(existing.targetId).toBe(daily.id);
+    expect(missing.status).toBe('missing_calendar_note');
+  });
+
+  it('indexes incoming links and skips trashed notes', () => {
+    const incomingAlpha = graph.incoming.get(alpha.id)!.map((l) => l.sourceId);
+    expect(incomingAlpha.every((id) => id === beta.id)).toBe(true);
+    expect(graph.nodes.has(trashed.id)).toBe(false);
+    expect(graph.incoming.get(beta.id)!.map((l) => l.sourceId).sort()).toEqual([alpha.id, daily.id].sort());
+  });
+});
+
+describe('rewriteWikiLinkTargets', () => {
+  it('retargets plain, heading, block, aliased and embedded links', () => {
+    const content = [
+      '# Notes',
+      'See [[Old Name]] and [[old name#Intro|the intro]]',
+      '![[Old Name^blk1]] next to [[Other]]',
+    ].join('\n');
+    const result = rewriteWikiLinkTargets(content, 'Old Name', 'New Name');
+    expect(result.content).toBe([
+      '# Notes',
+      'See [[New Name]] and [[New Name#Intro|the intro]]',
+      '![[New Name^blk1]] next to [[Other]]',
+    ].join('\n'));
+    expect(result.changes.map((c) => [c.lineIndex, c.linkCount])).toEqual([[1, 2], [2, 1]]);
+    expect(result.changes[0].before).toBe('See [[Old Name]] and [[old name#Intro|the intro]]');
+  });
+
+  it('rewrites only the links accepted by include', () => {
+    const content = '[[Old Name]] and [[Old Name#Intro]]\n[[Old Name]]';
+    const result = rewriteWikiLinkTargets(content, 'Old Name', 'New Name', (link) => link.lineIndex === 0 && link.column > 0);
+    expect(result.content).toBe('[[Old Name]] and [[New Name#Intro]]\n[[Old Name]]');
+    expect(result.changes).toMatchObject([{ lineIndex: 0, linkCount: 1, columns: [17] }]);
+  });
+
+  it('leaves code and unrelated links untouched', () => {
+    const content = '```\n[[Old Name]]\n```\n`[[Old Name]]` [[Old Names]]';
+    const result = rewriteWikiLinkTargets(content, 'Old Name', 'New Name');
+    expect(result.content).toBe(content);
+    expect(result.changes).toEqual([]);
+  });
+});
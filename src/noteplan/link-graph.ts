@@ -0,0 +1,239 @@
+// Wiki-link graph: which notes link to which, and which links are broken.
+//
+// Pure builder over Note[] — callers (unified-store.getLinkGraph) own the
+// listing and caching. Links resolve by note title (case- and Unicode-
+// normalization-insensitive); periodic targets like [[2025-01-15]] or
+// [[2025-W03]] resolve to the matching calendar note.
+
+import * as path from 'path';
+import { Note, NoteSource, NoteType, WikiLink } from './types.js';
+import { extractBlockId, extractHeadings, extractWikiLinks } from './markdown-parser.js';
+import { extractDateFromFilename, normalizePeriodicTitle } from '../utils/date-utils.js';
+
+export type LinkStatus = 'ok' | 'missing_note' | 'missing_heading' | 'missing_block' | 'missing_calendar_note';
+
+export interface LinkGraphNode {
+  id: string;
+  title: string;
+  filename: string;
+  type: NoteType;
+  source: NoteSource;
+  spaceId?: string;
+  folder?: string;
+  date?: string;
+  modifiedAt?: Date;
+}
+
+export interface ResolvedLink {
+  sourceId: string;
+  targetId: string | null;
+  status: LinkStatus;
+  link: WikiLink;
+  lineContent: string;
+}
+
+export interface WikiLinkLineChange {
+  lineIndex: number;
+  before: string;
+  after: string;
+  linkCount: number;
+  /** Start columns (in `before`) of the rewritten links. */
+  columns: number[];
+}
+
+export interface LinkGraph {
+  builtAt: Date;
+  nodes: Map<string, LinkGraphNode>;
+  outgoing: Map<string, ResolvedLink[]>;
+  incoming: Map<string, ResolvedLink[]>;
+}
+
+/** Normalize a title or link target for comparison. */
+export function normalizeLinkTarget(value: string): string {
+  return value.normalize('NFC').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/** Calendar-note date key (YYYYMMDD, YYYY-Www, …). Space calendar notes don't
+ *  carry `date`, so fall back to the filename. */
+function calendarDateKey(note: Note): string | null {
+  if (note.type !== 'calendar') return null;
+  if (note.date) return note.date;
+  return extractDateFromFilename(path.basename(note.filename));
+}
+
+/** Block IDs (`^abc123`) defined at the end of lines in a note. */
+export function extractBlockIds(content: string): Set<string> {
+  const ids = new Set<string>();
+  for (const line of content.split('\n')) {
+    const id = extractBlockId(line);
+    if (id) ids.add(id);
+  }
+  return ids;
+}
+
+function pickTarget(candidates: Note[], source: Note): Note {
+  if (candidates.length === 1) return candidates[0];
+  // Prefer a note from the same space (or the local vault), then project notes
+  const sameScope = candidates.filter((c) => c.source === source.source && c.spaceId === source.spaceId);
+  const pool = sameScope.length > 0 ? sameScope : candidates;
+  return pool.find((c) => c.type === 'note') ?? pool[0];
+}
+
+export function buildLinkGraph(notes: Note[]): LinkGraph {
+  const live = notes.filter((n) => n.type !== 'trash');
+  const nodes = new Map<string, LinkGraphNode>();
+  const byTitle = new Map<string, Note[]>();
+  const byDate = new Map<string, Note[]>();
+
+  for (const note of live) {
+    nodes.set(note.id, {
+      id: note.id,
+      title: note.title,
+      filename: note.filename,
+      type: note.type,
+      source: note.source,
+      spaceId: note.spaceId,
+      folder: note.folder,
+      date: calendarDateKey(note) ?? undefined,
+      modifiedAt: note.modifiedAt,
+    });
+    const titleKey = normalizeLinkTarget(note.title);
+    if (note.type === 'note' && titleKey) {
+      const list = byTitle.get(titleKey) ?? [];
+      list.push(note);
+      byTitle.set(titleKey, list);
+    }
+    const dateKey = calendarDateKey(note);
+    if (dateKey) {
+      const list = byDate.get(dateKey) ?? [];
+      list.push(note);
+      byDate.set(dateKey, list);
+    }
+  }
+
+  // Headings / block IDs are only computed for notes that are actually
+  // targeted with #heading or ^block, so a plain graph stays cheap.
+  const headingCache = new Map<string, Set<string>>();
+  const blockCache = new Map<string, Set<string>>();
+  const headingsOf = (note: Note): Set<string> => {
+    let set = headingCache.get(note.id);
+    if (!set) {
+      set = new Set(extractHeadings(note.content).map((h) => normalizeLinkTarget(h.text)));
+      headingCache.set(note.id, set);
+    }
+    return set;
+  };
+  const blocksOf = (note: Note): Set<string> => {
+    let set = blockCache.get(note.id);
+    if (!set) {
+      set = extractBlockIds(note.content);
+      blockCache.set(note.id, set);
+    }
+    return set;
+  };
+
+  const outgoing = new Map<string, ResolvedLink[]>();
+  const incoming = new Map<string, ResolvedLink[]>();
+
+  for (const note of live) {
+    const links = extractWikiLinks(note.content);
+    if (links.length === 0) continue;
+    const lines = note.content.split('\n');
+    const resolvedLinks: ResolvedLink[] = [];
+
+    for (const link of links) {
+      let target: Note | null = null;
+      let status: LinkStatus = 'ok';
+
+      const titleMatches = byTitle.get(normalizeLinkTarget(link.target));
+      if (titleMatches && titleMatches.length > 0) {
+        target = pickTarget(titleMatches, note);
+      } else {
+        const periodic = normalizePeriodicTitle(link.target);
+        if (periodic) {
+          const dateMatches = byDate.get(periodic);
+          if (dateMatches && dateMatches.length > 0) {
+            target = pickTarget(dateMatches, note);
+          } else {
+            status = 'missing_calendar_note';
+          }
+        } else {
+          status = 'missing_note';
+        }
+      }
+
+      if (target && link.heading && !headingsOf(target).has(normalizeLinkTarget(link.heading))) {
+        status = 'missing_heading';
+      } else if (target && link.blockId && !blocksOf(target).has(link.blockId)) {
+        status = 'missing_block';
+      }
+
+      const resolved: ResolvedLink = {
+        sourceId: note.id,
+        targetId: target?.id ?? null,
+        status,
+        link,
+        lineContent: lines[link.lineIndex] ?? '',
+      };
+      resolvedLinks.push(resolved);
+      if (target) {
+        const list = incoming.get(target.id) ?? [];
+        list.push(resolved);
+        incoming.set(target.id, list);
+      }
+    }
+
+    outgoing.set(note.id, resolvedLinks);
+  }
+
+  return { builtAt: new Date(), nodes, outgoing, incoming };
+}
+
+/**
+ * Point every `[[fromTitle…]]` link in `content` at `toTitle`, keeping the
+ * `#heading`, `^block`, `|alias` and embed parts as written. Links inside
+ * code are left alone (same rules as extractWikiLinks). Pass `include` to
+ * rewrite only some of them — e.g. the ones that resolved to the renamed
+ * note rather than to another note with the same title.
+ */
+export function rewriteWikiLinkTargets(
+  content: string,
+  fromTitle: string,
+  toTitle: string,
+  include?: (link: WikiLink) => boolean
+): { content: string; changes: WikiLinkLineChange[] } {
+  const fromKey = normalizeLinkTarget(fromTitle);
+  const matching = extractWikiLinks(content).filter(
+    (link) => normalizeLinkTarget(link.target) === fromKey && (!include || include(link))
+  );
+  if (matching.length === 0) return { content, changes: [] };
+
+  const lines = content.split('\n');
+  const byLine = new Map<number, WikiLink[]>();
+  for (const link of matching) {
+    const list = byLine.get(link.lineIndex) ?? [];
+    list.push(link);
+    byLine.set(link.lineIndex, list);
+  }
+
+  const changes: WikiLinkLineChange[] = [];
+  for (const [lineIndex, links] of byLine) {
+    const before = lines[lineIndex];
+    let after = before;
+    // Right to left so earlier columns stay valid
+    for (const link of [...links].sort((a, b) => b.column - a.column)) {
+      const prefix = link.raw.match(/^!?\[\[[^\[\]|#^\n]*/)![0];
+      const opener = link.embed ? '![[' : '[[';
+      const replacement = `${opener}${toTitle}${link.raw.slice(prefix.length)}`;
+      after = after.slice(0, link.column) + replacement + after.slice(link.column + link.raw.length);
+    }
+    if (after !== before) {
+      lines[lineIndex] = after;
+      const columns = links.map((link) => link.column).sort((a, b) => a - b);
+      changes.push({ lineIndex, before, after, linkCount: links.length, columns });
+    }
+  }
+
+  changes.sort((a, b) => a.lineIndex - b.lineIndex);
+  return { content: lines.join('\n'), changes };
+}
@@ -0,0 +1,34 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { embedLocally, resolveLocalModelDir } from './local-embeddings.js';
+
+describe('local embeddings', () => {
+  let modelPath: string;
+  const model = 'Xenova/all-MiniLM-L6-v2';
+
+  beforeEach(() => {
+    modelPath = fs.mkdtempSync(path.join(os.tmpdir(), 'noteplan-models-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(modelPath, { recursive: true, force: true });
+  });
+
+  it('requires the model config and ONNX files on disk', () => {
+    const missing = resolveLocalModelDir(modelPath, model);
+    expect(missing.ok).toBe(false);
+    if (!missing.ok) expect(missing.error).toContain('Local embeddings model not found');
+
+    const dir = path.join(modelPath, model);
+    fs.mkdirSync(path.join(dir, 'onnx'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'config.json'), '{}');
+    expect(resolveLocalModelDir(modelPath, model)).toEqual({ ok: true, dir });
+  });
+
+  it('fails with a clear error instead of downloading a missing model', async () => {
+    await expect(embedLocally(['hello'], modelPath, model)).rejects.toThrow('Local embeddings model not found');
+    await expect(embedLocally([], modelPath, model)).resolves.toEqual([]);
+  });
+});
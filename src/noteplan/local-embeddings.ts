@@ -0,0 +1,112 @@
+// In-process sentence embeddings for the `local` embeddings provider.
+//
+// Runs an ONNX sentence-embedding model (e.g. all-MiniLM-L6-v2) on CPU via
+// transformers.js, loading the model files from disk only — remote model
+// downloads are disabled, so notes never leave the machine and sync works
+// offline. transformers.js is an optional peer dependency: it is imported
+// lazily, the first time the local provider embeds something.
+//
+// Model layout (the Hugging Face repo layout transformers.js expects):
+//   <modelPath>/<model>/config.json, tokenizer.json, onnx/model.onnx
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const TRANSFORMERS_MODULE = '@huggingface/transformers';
+
+type FeatureExtractionOutput = { tolist(): number[][] };
+type FeatureExtractionPipeline = (
+  texts: string[],
+  options: { pooling: 'mean'; normalize: boolean }
+) => Promise<FeatureExtractionOutput>;
+
+type TransformersModule = {
+  env: {
+    allowRemoteModels: boolean;
+    allowLocalModels: boolean;
+    localModelPath: string;
+  };
+  pipeline: (
+    task: 'feature-extraction',
+    model: string,
+    options?: Record<string, unknown>
+  ) => Promise<FeatureExtractionPipeline>;
+};
+
+let extractor: FeatureExtractionPipeline | null = null;
+let extractorKey: string | null = null;
+let loading: Promise<FeatureExtractionPipeline> | null = null;
+
+/** Directory holding the model's files, or an error explaining what is missing. */
+export function resolveLocalModelDir(
+  modelPath: string,
+  model: string
+): { ok: true; dir: string } | { ok: false; error: string } {
+  const dir = path.join(modelPath, model);
+  if (!fs.existsSync(path.join(dir, 'config.json')) || !fs.existsSync(path.join(dir, 'onnx'))) {
+    return {
+      ok: false,
+      error:
+        `Local embeddings model not found at ${dir}. Download the model repository ` +
+        `(config.json, tokenizer.json and onnx/model.onnx) there, or set ` +
+        `NOTEPLAN_EMBEDDINGS_MODEL_PATH / NOTEPLAN_EMBEDDINGS_MODEL.`,
+    };
+  }
+  return { ok: true, dir };
+}
+
+async function loadTransformers(): Promise<TransformersModule> {
+  try {
+    return (await import(TRANSFORMERS_MODULE)) as TransformersModule;
+  } catch {
+    throw new Error(
+      `The local embeddings provider needs ${TRANSFORMERS_MODULE}. ` +
+        `Install it next to the MCP server (npm install ${TRANSFORMERS_MODULE}).`
+    );
+  }
+}
+
+async function getExtractor(modelPath: string, model: string): Promise<FeatureExtractionPipeline> {
+  const key = `${modelPath}\u0000${model}`;
+  if (extractor && extractorKey === key) return extractor;
+  if (loading && extractorKey === key) return loading;
+
+  const modelDir = resolveLocalModelDir(modelPath, model);
+  if (!modelDir.ok) throw new Error(modelDir.error);
+
+  extractorKey = key;
+  extractor = null;
+  loading = (async () => {
+    const transformers = await loadTransformers();
+    transformers.env.allowRemoteModels = false;
+    transformers.env.allowLocalModels = true;
+    transformers.env.localModelPath = modelPath;
+    return transformers.pipeline('feature-extraction', model, { dtype: 'fp32' });
+  })();
+
+  try {
+    extractor = await loading;
+    return extractor;
+  } catch (error) {
+    extractorKey = null;
+    throw error;
+  } finally {
+    loading = null;
+  }
+}
+
+/**
+ * Embed texts with the on-disk model: mean-pooled, L2-normalized vectors.
+ */
+export async function embedLocally(texts: string[], modelPath: string, model: string): Promise<number[][]> {
+  if (texts.length === 0) return [];
+  const pipe = await getExtractor(modelPath, model);
+  const output = await pipe(texts, { pooling: 'mean', normalize: true });
+  const vectors = output.tolist();
+  if (vectors.length !== texts.length) {
+    throw new Error(
+      `Local embeddings mismatch: expected ${texts.length} vectors, got ${vectors.length}`
+    );
+  }
+  return vectors;
+}
@@ -19,6 +19,8 @@ import {
   extractTagsFromContent,
   extractScheduledDate,
   extractPriority,
+  extractBlockId,
+  extractBlockedBy,
   extractTitle,
   updateTaskStatus,
   updateTaskContent,
@@ -28,6 +30,8 @@ import {
   buildParagraphLine,
   stripRawMarkers,
   filterTasksByStatus,
+  extractWikiLinks,
+  parseWikiLinkText,
 } from './markdown-parser.js';
 
 import { getTaskMarkerConfigCached } from './preferences.js';
@@ -219,6 +223,30 @@ describe('extractPriority', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// extractBlockId / extractBlockedBy
+// ---------------------------------------------------------------------------
+describe('extractBlockId', () => {
+  it('extracts a trailing ^id', () => {
+    expect(extractBlockId('Draft spec ^spec1')).toBe('spec1');
+  });
+
+  it('ignores carets that do not end the line', () => {
+    expect(extractBlockId('2^10 is 1024')).toBeUndefined();
+    expect(extractBlockId('Ship @blocked-by(^spec1)')).toBeUndefined();
+  });
+});
+
+describe('extractBlockedBy', () => {
+  it('collects IDs from one or more @blocked-by attributes', () => {
+    expect(extractBlockedBy('Ship @blocked-by(^spec1, ^review) @blocked-by(qa) ^ship')).toEqual(['spec1', 'review', 'qa']);
+  });
+
+  it('returns an empty list without dependencies', () => {
+    expect(extractBlockedBy('Ship it @blocked')).toEqual([]);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // extractTitle
 // ---------------------------------------------------------------------------
@@ -394,6 +422,13 @@ describe('parseTaskLine', () => {
     expect(task!.scheduledDate).toBe('2024-01-15');
     expect(task!.priority).toBe(2);
   });
+
+  it('extracts block ID and @blocked-by dependencies', () => {
+    const task = parseTaskLine('* [ ] Ship @blocked-by(^spec1) ^ship', 0);
+    expect(task!.blockId).toBe('ship');
+    expect(task!.blockedBy).toEqual(['spec1']);
+    expect(task!.mentions).toContain('@blocked-by');
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -1213,3 +1248,50 @@ describe('updateTaskContent – frontmatter line number regression', () => {
     expect(lines[2]).toBe('---');
   });
 });
+
+// ---------------------------------------------------------------------------
+// extractWikiLinks
+// ---------------------------------------------------------------------------
+describe('extractWikiLinks', () => {
+  it('extracts plain links with line and column', () => {
+    const links = extractWikiLinks('# Title\nSee [[Project Alpha]] for details');
+    expect(links).toEqual([
+      { raw: '[[Project Alpha]]', target: 'Project Alpha', embed: false, lineIndex: 1, column: 4 },
+    ]);
+  });
+
+  it('parses heading, block id and alias suffixes', () => {
+    const links = extractWikiLinks('[[Alpha#Next Steps]] [[Beta^a1b2c3]] [[Gamma|the gamma note]] [[Delta#Intro|intro]]');
+    expect(links.map((l) => [l.target, l.heading, l.blockId, l.alias])).toEqual([
+      ['Alpha', 'Next Steps', undefined, undefined],
+      ['Beta', undefined, 'a1b2c3', undefined],
+      ['Gamma', undefined, undefined, 'the gamma note'],
+      ['Delta', 'Intro', undefined, 'intro'],
+    ]);
+  });
+
+  it('marks embeds', () => {
+    const [link] = extractWikiLinks('![[Diagram]]');
+    expect(link.embed).toBe(true);
+    expect(link.raw).toBe('![[Diagram]]');
+  });
+
+  it('ignores links in code fences and inline code', () => {
+    const content = ['```', '[[Inside Fence]]', '```', 'Use `[[Not A Link]]` but [[Real]]'].join('\n');
+    expect(extractWikiLinks(content).map((l) => l.target)).toEqual(['Real']);
+  });
+
+  it('skips links with an empty target', () => {
+    expect(extractWikiLinks('[[#Heading only]] [[ ]]')).toEqual([]);
+  });
+});
+
+describe('parseWikiLinkText', () => {
+  it('parses the inner text of a link', () => {
+    expect(parseWikiLinkText('Title#Heading|Alias')).toEqual({ target: 'Title', heading: 'Heading', alias: 'Alias' });
+  });
+
+  it('returns null for an empty target', () => {
+    expect(parseWikiLinkText('#Heading')).toBeNull();
+  });
+});
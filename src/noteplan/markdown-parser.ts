@@ -1,6 +1,6 @@
 // NotePlan Markdown Parser
 
-import { Task, TaskStatus, TASK_STATUS_MAP, STATUS_TO_MARKER, ParagraphType, ParagraphMetadata } from './types.js';
+import { Task, TaskStatus, TASK_STATUS_MAP, STATUS_TO_MARKER, ParagraphType, ParagraphMetadata, WikiLink } from './types.js';
 import { getTaskPrefix, getTaskMarkerConfigCached } from './preferences.js';
 import { insertContentAtPosition, parseNoteContent } from './frontmatter-parser.js';
 
@@ -48,6 +48,8 @@ export function parseTaskLine(line: string, lineIndex: number): Task | null {
       mentions: extractMentions(content),
       scheduledDate: extractScheduledDate(content),
       priority: extractPriority(content),
+      blockId: extractBlockId(content),
+      blockedBy: extractBlockedBy(content),
     };
   }
 
@@ -74,6 +76,8 @@ export function parseTaskLine(line: string, lineIndex: number): Task | null {
         mentions: extractMentions(content),
         scheduledDate: extractScheduledDate(content),
         priority: extractPriority(content),
+        blockId: extractBlockId(content),
+        blockedBy: extractBlockedBy(content),
       };
     }
   }
@@ -204,6 +208,80 @@ export function extractTagsFromContent(content: string): string[] {
   return expanded.filter((tag) => !isExcludedTag(tag));
 }
 
+// ---------------------------------------------------------------------------
+// Wiki-link extraction
+// ---------------------------------------------------------------------------
+
+//  Optional ! for embeds, then [[target(#heading|^blockid)?(|alias)?]].
+//  The target may not contain brackets, | # or ^ — those start the suffixes.
+const WIKI_LINK_PATTERN = /(!?)\[\[([^\[\]|#^\n]*)(?:#([^\[\]|^\n]*))?(?:\^([^\[\]|\n]*))?(?:\|([^\[\]\n]*))?\]\]/g;
+
+/**
+ * Parse the inner part of one wiki-link (`Title#Heading|alias`) into its
+ * components. Returns null when the target is empty (e.g. `[[#Heading]]`).
+ */
+export function parseWikiLinkText(inner: string): Omit<WikiLink, 'raw' | 'embed' | 'lineIndex' | 'column'> | null {
+  WIKI_LINK_PATTERN.lastIndex = 0;
+  const match = WIKI_LINK_PATTERN.exec(`[[${inner}]]`);
+  WIKI_LINK_PATTERN.lastIndex = 0;
+  if (!match) return null;
+  const target = match[2].trim();
+  if (!target) return null;
+  const heading = match[3]?.trim();
+  const blockId = match[4]?.trim();
+  const alias = match[5]?.trim();
+  return {
+    target,
+    ...(heading && { heading }),
+    ...(blockId && { blockId }),
+    ...(alias && { alias }),
+  };
+}
+
+/**
+ * Extract every `[[wiki-link]]` from note content with its line position.
+ * Links inside fenced code blocks and inline code spans are ignored, like
+ * NotePlan's own link detection.
+ */
+export function extractWikiLinks(content: string): WikiLink[] {
+  const lines = content.split('\n');
+  const links: WikiLink[] = [];
+  let isInCodeFence = false;
+
+  for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+    const line = lines[lineIndex];
+    if (isCodeFenceLine(line)) {
+      isInCodeFence = !isInCodeFence;
+      continue;
+    }
+    if (isInCodeFence || !line.includes('[[')) continue;
+
+    // Blank out inline code spans (keeping offsets stable) so `[[x]]` in code is skipped
+    const searchable = line.replace(/`[^`\n]+`/g, (code) => ' '.repeat(code.length));
+    WIKI_LINK_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = WIKI_LINK_PATTERN.exec(searchable)) !== null) {
+      const target = match[2].trim();
+      if (!target) continue;
+      const heading = match[3]?.trim();
+      const blockId = match[4]?.trim();
+      const alias = match[5]?.trim();
+      links.push({
+        raw: line.slice(match.index, match.index + match[0].length),
+        target,
+        ...(heading && { heading }),
+        ...(blockId && { blockId }),
+        ...(alias && { alias }),
+        embed: match[1] === '!',
+        lineIndex,
+        column: match.index,
+      });
+    }
+  }
+
+  return links;
+}
+
 /**
  * Extract scheduled date from content (>YYYY-MM-DD pattern)
  */
@@ -221,6 +299,30 @@ export function extractPriority(content: string): number | undefined {
   return match[1].length;
 }
 
+/**
+ * Extract the block ID (`^abc123`) that ends a line, without the caret.
+ * Same convention as NotePlan's synced lines and `[[Note^abc123]]` links.
+ */
+export function extractBlockId(content: string): string | undefined {
+  const match = content.match(/(?:^|\s)\^([A-Za-z0-9-]+)\s*$/);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Extract the block IDs a task waits on from `@blocked-by(^abc123, ^def456)`.
+ * The caret is optional; repeated attributes are merged.
+ */
+export function extractBlockedBy(content: string): string[] {
+  const ids = new Set<string>();
+  for (const match of content.matchAll(/@blocked-by\(([^)]*)\)/gi)) {
+    for (const part of match[1].split(/[\s,]+/)) {
+      const id = part.replace(/^\^/, '');
+      if (/^[A-Za-z0-9-]+$/.test(id)) ids.add(id);
+    }
+  }
+  return Array.from(ids);
+}
+
 /**
  * Extract title from note content.
  * If the note has frontmatter, check for a `title` property first,
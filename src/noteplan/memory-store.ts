@@ -0,0 +1,282 @@
+// SQLite store for noteplan_memory.
+//
+// Memories live in ~/.noteplan-mcp/memories.db (NOTEPLAN_MEMORY_DB_PATH).
+// Writes are persisted as statements through the sqlite3 CLI (see
+// sqlite-loader.ts), so several server instances can save at once without
+// rewriting each other's rows. The in-memory copy is reloaded whenever the
+// file changes on disk. The legacy ~/.noteplan-mcp/memories.json is imported
+// on first open (wherever the database lives) and renamed to
+// memories.json.migrated.
+//
+// Memory embeddings share the notes embeddings config; vectors are stored per
+// row with the model key and content hash they were computed from, so edits
+// and model switches simply make them stale.
+
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import crypto from 'crypto';
+import { isSqliteAvailable, SqliteDatabase } from './sqlite-loader.js';
+import { packVector, unpackVector, VectorFormat } from './vector-index.js';
+
+export interface Memory {
+  id: string;
+  content: string;
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+type MemoryRow = {
+  id: string;
+  content: string;
+  tags: string;
+  created_at: string;
+  updated_at: string;
+};
+
+type MemoryVectorRow = MemoryRow & {
+  embedding: Uint8Array | null;
+  embedding_scale: number | null;
+  embedding_model: string | null;
+  embedding_hash: string | null;
+};
+
+let db: SqliteDatabase | null = null;
+let dbPathForConnection: string | null = null;
+// mtime/size of the file as last loaded; null forces a reload on next access
+let loadedStat: string | null = null;
+
+export function resolveMemoryDbPath(): string {
+  const customPath = process.env.NOTEPLAN_MEMORY_DB_PATH?.trim();
+  if (customPath) {
+    return path.resolve(customPath);
+  }
+  return path.join(os.homedir(), '.noteplan-mcp', 'memories.db');
+}
+
+function statKey(filePath: string): string | null {
+  try {
+    const stat = fs.statSync(filePath);
+    return `${stat.mtimeMs}:${stat.size}`;
+  } catch {
+    return null;
+  }
+}
+
+export function memoryContentHash(content: string): string {
+  return crypto.createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+function toMemory(row: MemoryRow): Memory {
+  let tags: string[] = [];
+  try {
+    const parsed = JSON.parse(row.tags);
+    if (Array.isArray(parsed)) tags = parsed.filter((t): t is string => typeof t === 'string');
+  } catch {
+    // Treat unreadable tags as none rather than hiding the memory
+  }
+  return {
+    id: row.id,
+    content: row.content,
+    tags,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function openMemoryDb(): SqliteDatabase {
+  const dbPath = resolveMemoryDbPath();
+  if (db && dbPathForConnection === dbPath && loadedStat !== null && loadedStat === statKey(dbPath)) {
+    return db;
+  }
+
+  if (db) {
+    db.close();
+    db = null;
+    dbPathForConnection = null;
+  }
+
+  if (!isSqliteAvailable()) {
+    throw new Error('sql.js is not initialized — cannot open memory database');
+  }
+
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  const isNew = !fs.existsSync(dbPath);
+  db = new SqliteDatabase(dbPath);
+  dbPathForConnection = dbPath;
+
+  if (isNew || !db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'memories'").get()) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS memories (
+        id TEXT PRIMARY KEY,
+        content TEXT NOT NULL,
+        tags TEXT NOT NULL DEFAULT '[]',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        embedding BLOB,
+        embedding_scale REAL,
+        embedding_model TEXT,
+        embedding_hash TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_memories_created_at ON memories(created_at);
+    `);
+  }
+
+  importLegacyJson(db, path.join(os.homedir(), '.noteplan-mcp', 'memories.json'));
+  loadedStat = statKey(dbPath);
+  return db;
+}
+
+/** One-time import of the memories.json store used before the database. */
+function importLegacyJson(database: SqliteDatabase, legacyPath: string): void {
+  if (!fs.existsSync(legacyPath)) return;
+
+  let legacy: unknown[] = [];
+  try {
+    const parsed = JSON.parse(fs.readFileSync(legacyPath, 'utf-8'));
+    if (parsed && typeof parsed === 'object' && Array.isArray(parsed.memories)) {
+      legacy = parsed.memories;
+    }
+  } catch (error) {
+    console.error('[noteplan-mcp] Could not read legacy memories.json (left in place):', error);
+    return;
+  }
+
+  const insert = database.prepare(
+    'INSERT OR IGNORE INTO memories (id, content, tags, created_at, updated_at) VALUES (?, ?, ?, ?, ?)'
+  );
+  for (const item of legacy) {
+    const m = item as Partial<Memory>;
+    if (typeof m.id !== 'string' || typeof m.content !== 'string') continue;
+    const createdAt = typeof m.createdAt === 'string' ? m.createdAt : new Date().toISOString();
+    insert.run(
+      m.id,
+      m.content,
+      JSON.stringify(Array.isArray(m.tags) ? m.tags : []),
+      createdAt,
+      typeof m.updatedAt === 'string' ? m.updatedAt : createdAt
+    );
+  }
+
+  try {
+    fs.renameSync(legacyPath, `${legacyPath}.migrated`);
+  } catch {
+    // Another instance migrated it first; INSERT OR IGNORE kept this run harmless
+  }
+}
+
+/** Run a write and make the next access reload, picking up other instances' writes too. */
+function write(sql: string, ...params: unknown[]): number {
+  const database = openMemoryDb();
+  try {
+    return database.prepare(sql).run(...params).changes;
+  } finally {
+    loadedStat = null;
+  }
+}
+
+/** All memories, oldest first. */
+export function listAllMemories(): Memory[] {
+  const rows = openMemoryDb()
+    .prepare('SELECT id, content, tags, created_at, updated_at FROM memories ORDER BY created_at ASC, id ASC')
+    .all() as MemoryRow[];
+  return rows.map(toMemory);
+}
+
+export function getMemory(id: string): Memory | null {
+  const row = openMemoryDb()
+    .prepare('SELECT id, content, tags, created_at, updated_at FROM memories WHERE id = ?')
+    .get(id) as MemoryRow | undefined;
+  return row ? toMemory(row) : null;
+}
+
+export function countMemories(): number {
+  const row = openMemoryDb().prepare('SELECT COUNT(*) AS count FROM memories').get() as { count: number };
+  return Number(row.count);
+}
+
+export function insertMemory(memory: Memory): void {
+  write(
+    'INSERT INTO memories (id, content, tags, created_at, updated_at) VALUES (?, ?, ?, ?, ?)',
+    memory.id,
+    memory.content,
+    JSON.stringify(memory.tags),
+    memory.createdAt,
+    memory.updatedAt
+  );
+}
+
+/** Returns false when the memory no longer exists. */
+export function updateMemoryRow(memory: Memory): boolean {
+  return (
+    write(
+      'UPDATE memories SET content = ?, tags = ?, updated_at = ? WHERE id = ?',
+      memory.content,
+      JSON.stringify(memory.tags),
+      memory.updatedAt,
+      memory.id
+    ) > 0
+  );
+}
+
+/** Returns false when the memory did not exist. */
+export function deleteMemoryRow(id: string): boolean {
+  return write('DELETE FROM memories WHERE id = ?', id) > 0;
+}
+
+/**
+ * Every memory with its stored vector, or null where there is none for
+ * `modelKey` or the content changed since it was embedded.
+ */
+export function listMemoriesWithVectors(modelKey: string): Array<{ memory: Memory; vector: Float32Array | null }> {
+  const rows = openMemoryDb()
+    .prepare(
+      `SELECT id, content, tags, created_at, updated_at, embedding, embedding_scale, embedding_model, embedding_hash
+       FROM memories ORDER BY created_at ASC, id ASC`
+    )
+    .all() as MemoryVectorRow[];
+  return rows.map((row) => {
+    const fresh =
+      row.embedding instanceof Uint8Array &&
+      row.embedding_model === modelKey &&
+      row.embedding_hash === memoryContentHash(row.content);
+    return {
+      memory: toMemory(row),
+      vector: fresh ? unpackVector(row.embedding as Uint8Array, row.embedding_scale) : null,
+    };
+  });
+}
+
+/**
+ * Store vectors for memories as of `content`, in one write; a memory edited
+ * in the meantime keeps its stale hash.
+ */
+export function setMemoryEmbeddings(
+  entries: Array<{ id: string; content: string; vector: ArrayLike<number> }>,
+  modelKey: string,
+  format: VectorFormat
+): void {
+  if (entries.length === 0) return;
+  const statements = entries.map(({ id, content, vector }) => {
+    const { blob, scale } = packVector(vector, format);
+    return {
+      sql: 'UPDATE memories SET embedding = ?, embedding_scale = ?, embedding_model = ?, embedding_hash = ? WHERE id = ? AND content = ?',
+      params: [blob, scale, modelKey, memoryContentHash(content), id, content],
+    };
+  });
+  const database = openMemoryDb();
+  try {
+    database.runBatch(statements);
+  } finally {
+    loadedStat = null;
+  }
+}
+
+export function __resetMemoryStoreForTests(): void {
+  if (db) db.close();
+  db = null;
+  dbPathForConnection = null;
+  loadedStat = null;
+}
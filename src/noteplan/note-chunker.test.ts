@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('./preferences.js', () => ({
+  getTaskMarkerConfigCached: vi.fn(() => ({
+    isAsteriskTodo: true,
+    isDashTodo: false,
+    defaultTodoCharacter: '*',
+    todoCharacter: '*',
+    useCheckbox: true,
+  })),
+  getTaskPrefix: vi.fn(() => '* [ ] '),
+}));
+
+import { chunkNoteByHeadings } from './note-chunker.js';
+
+const note = [
+  '---', //                          line 1
+  'title: Plan', //                  line 2
+  '---', //                          line 3
+  '# Plan', //                       line 4
+  'Goals for the quarter.', //       line 5
+  '', //                             line 6
+  '## Next', //                      line 7
+  '### Build', //                    line 8
+  '* [ ] Ship the importer', //      line 9
+  '\t* [ ] Write the parser', //     line 10
+  '\t* [ ] Add tests', //            line 11
+  '', //                             line 12
+  '## Later', //                     line 13
+  '* [ ] Plan the retro', //         line 14
+].join('\n');
+
+describe('chunkNoteByHeadings', () => {
+  it('splits on headings, records line ranges and prefixes the heading path', () => {
+    const chunks = chunkNoteByHeadings(note, { chunkChars: 1200, maxChunks: 10 });
+
+    expect(chunks.map(({ headingPath, startLine, endLine }) => ({ headingPath, startLine, endLine }))).toEqual([
+      { headingPath: ['Plan'], startLine: 4, endLine: 5 },
+      { headingPath: ['Plan', 'Next', 'Build'], startLine: 8, endLine: 11 },
+      { headingPath: ['Plan', 'Later'], startLine: 13, endLine: 14 },
+    ]);
+    expect(chunks[0].text).toBe('# Plan\nGoals for the quarter.');
+    expect(chunks[1].text).toBe(
+      'Plan > Next\n\n### Build\n* [ ] Ship the importer\n\t* [ ] Write the parser\n\t* [ ] Add tests'
+    );
+    // Line ranges address the raw note, frontmatter included
+    const lines = note.split('\n');
+    expect(lines.slice(chunks[2].startLine - 1, chunks[2].endLine)).toEqual(['## Later', '* [ ] Plan the retro']);
+  });
+
+  it('breaks long sections between lines and keeps a task with its sub-items', () => {
+    const content = [
+      '# Tasks',
+      '* [ ] First task with a fairly long description',
+      '* [ ] Second task that has children',
+      '\t* [ ] Child one of the second task',
+      '\t* [ ] Child two of the second task',
+      '* [ ] Third task to round it out',
+    ].join('\n');
+    const chunks = chunkNoteByHeadings(content, { chunkChars: 100, maxChunks: 10 });
+
+    expect(chunks.map(({ startLine, endLine }) => [startLine, endLine])).toEqual([
+      [1, 2],
+      [3, 5],
+      [6, 6],
+    ]);
+    // Continuation chunks carry the full heading path as context
+    expect(chunks[1].text.startsWith('Tasks\n\n* [ ] Second task')).toBe(true);
+  });
+
+  it('repeats trailing lines as overlap and respects maxChunks', () => {
+    const content = ['## Log', 'alpha line', 'beta line', 'gamma line', 'delta line'].join('\n');
+    const chunks = chunkNoteByHeadings(content, { chunkChars: 30, chunkOverlap: 12, maxChunks: 10 });
+    expect(chunks.map(({ startLine, endLine }) => [startLine, endLine])).toEqual([
+      [1, 3],
+      [3, 4],
+      [4, 5],
+    ]);
+
+    expect(chunkNoteByHeadings(content, { chunkChars: 30, maxChunks: 1 })).toHaveLength(1);
+    expect(chunkNoteByHeadings('---\ntitle: Empty\n---\n', { chunkChars: 300, maxChunks: 5 })).toEqual([]);
+  });
+});
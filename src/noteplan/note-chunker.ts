@@ -0,0 +1,169 @@
+// Heading-aware chunking for the embeddings index.
+//
+// Notes are split into sections at heading boundaries, then each section's
+// lines are packed into chunks of up to `chunkChars`. Chunks only ever break
+// between lines, and a task/checklist line stays together with its indented
+// children. Every chunk records the heading path it sits under (prepended to
+// the embedded text as context) and the 1-indexed, inclusive line range it
+// covers in the raw note, which can be passed straight to
+// noteplan_edit_content as startLine/endLine.
+
+import { getFrontmatterLineCount } from './frontmatter-parser.js';
+import { parseAllParagraphLines } from './markdown-parser.js';
+
+export type NoteChunk = {
+  /** Text sent to the embeddings provider: heading context + chunk lines */
+  text: string;
+  headingPath: string[];
+  /** 1-indexed, inclusive */
+  startLine: number;
+  endLine: number;
+};
+
+export type ChunkNoteOptions = {
+  chunkChars: number;
+  /** Characters of trailing whole lines repeated at the start of the next chunk in a section */
+  chunkOverlap?: number;
+  maxChunks: number;
+};
+
+/** Lines that must stay in the same chunk. `start`/`end` are 0-based line indexes. */
+type Unit = { start: number; end: number; chars: number };
+
+type Section = {
+  headingPath: string[];
+  /** Line index of the section's own heading; -1 for text before the first heading */
+  headingLine: number;
+  units: Unit[];
+  hasBody: boolean;
+};
+
+function headingText(line: string): string {
+  return line.replace(/^#{1,6}\s+/, '').trim();
+}
+
+/**
+ * Group body lines into sections and unsplittable units. Frontmatter lines
+ * are never chunked (edits can't target them).
+ */
+function buildSections(lines: string[], firstLine: number): Section[] {
+  const meta = parseAllParagraphLines(lines.slice(firstLine));
+  const sections: Section[] = [];
+  const stack: Array<{ level: number; text: string }> = [];
+  let current: Section = { headingPath: [], headingLine: -1, units: [], hasBody: false };
+
+  for (let offset = 0; offset < meta.length; offset += 1) {
+    const lineIndex = firstLine + offset;
+    const paragraph = meta[offset];
+    const line = lines[lineIndex];
+
+    if ((paragraph.type === 'heading' || paragraph.type === 'title') && /^#{1,6}\s/.test(line)) {
+      sections.push(current);
+      const level = paragraph.headingLevel ?? 1;
+      while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+      stack.push({ level, text: headingText(line) });
+      current = {
+        headingPath: stack.map((entry) => entry.text),
+        headingLine: lineIndex,
+        units: [{ start: lineIndex, end: lineIndex, chars: line.length + 1 }],
+        hasBody: false,
+      };
+      continue;
+    }
+
+    if (paragraph.type !== 'empty') current.hasBody = true;
+
+    // Indented lines under a task/checklist belong to it
+    const previous = current.units[current.units.length - 1];
+    const parentOffset = previous ? previous.start - firstLine : -1;
+    const parent = parentOffset >= 0 ? meta[parentOffset] : undefined;
+    if (
+      previous &&
+      parent &&
+      (parent.type === 'task' || parent.type === 'checklist') &&
+      paragraph.type !== 'empty' &&
+      paragraph.indentLevel > parent.indentLevel &&
+      previous.end === lineIndex - 1
+    ) {
+      previous.end = lineIndex;
+      previous.chars += line.length + 1;
+      continue;
+    }
+
+    current.units.push({ start: lineIndex, end: lineIndex, chars: line.length + 1 });
+  }
+  sections.push(current);
+  return sections;
+}
+
+/** Drop blank lines at either end of a unit range. */
+function trimRange(lines: string[], start: number, end: number): { start: number; end: number } | null {
+  while (start <= end && lines[start].trim() === '') start += 1;
+  while (end >= start && lines[end].trim() === '') end -= 1;
+  return start <= end ? { start, end } : null;
+}
+
+/**
+ * Split a note into heading-aware chunks. A heading with no text of its own
+ * is only emitted when it has no subsections (their chunks carry it in
+ * their heading path).
+ */
+export function chunkNoteByHeadings(content: string, options: ChunkNoteOptions): NoteChunk[] {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  const sections = buildSections(lines, getFrontmatterLineCount(content));
+  const overlap = Math.max(0, Math.min(options.chunkOverlap ?? 0, options.chunkChars - 1));
+  const chunks: NoteChunk[] = [];
+
+  const emit = (section: Section, units: Unit[]): void => {
+    if (units.length === 0 || chunks.length >= options.maxChunks) return;
+    const range = trimRange(lines, units[0].start, units[units.length - 1].end);
+    if (!range) return;
+    const body = lines.slice(range.start, range.end + 1).join('\n');
+    // The section's own heading is already in the text when the chunk starts with it
+    const context = range.start === section.headingLine ? section.headingPath.slice(0, -1) : section.headingPath;
+    chunks.push({
+      text: context.length > 0 ? `${context.join(' > ')}\n\n${body}` : body,
+      headingPath: section.headingPath,
+      startLine: range.start + 1,
+      endLine: range.end + 1,
+    });
+  };
+
+  sections.forEach((section, sectionIndex) => {
+    if (!section.hasBody) {
+      const next = sections[sectionIndex + 1];
+      const hasSubsections = next !== undefined && next.headingPath.length > section.headingPath.length;
+      if (section.headingLine < 0 || hasSubsections) return;
+    }
+
+    let pending: Unit[] = [];
+    let pendingChars = 0;
+    let freshChars = 0;
+    for (const unit of section.units) {
+      if (freshChars > 0 && pendingChars + unit.chars > options.chunkChars) {
+        emit(section, pending);
+        // Carry trailing whole units over as overlap
+        const carried: Unit[] = [];
+        let carriedChars = 0;
+        for (let i = pending.length - 1; i >= 0; i -= 1) {
+          const next = carriedChars + pending[i].chars;
+          if (next > overlap || next + unit.chars > options.chunkChars) break;
+          carried.unshift(pending[i]);
+          carriedChars += pending[i].chars;
+        }
+        pending = carried;
+        pendingChars = carriedChars;
+        freshChars = 0;
+      }
+      pending.push(unit);
+      pendingChars += unit.chars;
+      // A heading alone never makes a chunk when its section has text
+      const isText =
+        unit.start !== section.headingLine && lines.slice(unit.start, unit.end + 1).some((line) => line.trim() !== '');
+      if (isText) freshChars += unit.chars;
+    }
+    if (freshChars > 0 || !section.hasBody) emit(section, pending);
+  });
+
+  return chunks;
+}
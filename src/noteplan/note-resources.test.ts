@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('./unified-store.js', () => ({
+  getNote: vi.fn(async () => null),
+  listNotes: vi.fn(async () => []),
+  invalidateListingCaches: vi.fn(),
+}));
+vi.mock('./file-reader.js', () => ({
+  getAllNotePlanPaths: vi.fn(() => []),
+}));
+vi.mock('./embeddings-watcher.js', () => ({
+  isWatchedNoteFile: vi.fn(() => true),
+}));
+
+import * as store from './unified-store.js';
+import { __resetFolderAccessConfigForTests } from '../utils/folder-access.js';
+import {
+  createNoteResourceSubscriptions,
+  parseNoteResourceUri,
+  readNoteResource,
+  toNoteResourceUri,
+} from './note-resources.js';
+import type { Note } from './types.js';
+
+const localNote: Note = {
+  id: 'Notes/Projects/Q1 Plan.md',
+  title: 'Q1 Plan',
+  filename: 'Notes/Projects/Q1 Plan.md',
+  content: '# Q1 Plan\n* [ ] Ship it',
+  type: 'note',
+  source: 'local',
+  folder: 'Notes/Projects',
+};
+
+const spaceNote: Note = {
+  id: 'abc-123',
+  title: 'Team sync',
+  filename: '%%NotePlanCloud%%/space-1/abc-123',
+  content: '# Team sync',
+  type: 'note',
+  source: 'space',
+  spaceId: 'space-1',
+};
+
+describe('note resource URIs', () => {
+  it('parses each template and round-trips note URIs', () => {
+    expect(parseNoteResourceUri('noteplan://note/Notes/Projects/Q1%20Plan.md')).toEqual({
+      kind: 'note',
+      filename: 'Notes/Projects/Q1 Plan.md',
+    });
+    expect(parseNoteResourceUri('noteplan://calendar/today')).toEqual({ kind: 'calendar', date: 'today' });
+    expect(parseNoteResourceUri('noteplan://space/space-1/note/abc-123')).toEqual({
+      kind: 'space',
+      spaceId: 'space-1',
+      id: 'abc-123',
+    });
+    expect(parseNoteResourceUri('noteplan://folder/Projects/')).toEqual({ kind: 'folder', path: 'Projects' });
+    expect(parseNoteResourceUri('noteplan://docs/Templates.md')).toBeNull();
+    expect(parseNoteResourceUri('noteplan://note/%E0%A4%A')).toBeNull();
+
+    expect(toNoteResourceUri(localNote)).toBe('noteplan://note/Notes/Projects/Q1%20Plan.md');
+    expect(toNoteResourceUri(spaceNote)).toBe('noteplan://space/space-1/note/abc-123');
+    expect(toNoteResourceUri({ ...localNote, type: 'calendar', date: '20260317' })).toBe('noteplan://calendar/20260317');
+  });
+});
+
+describe('readNoteResource', () => {
+  afterEach(() => {
+    delete process.env.NOTEPLAN_DENIED_FOLDERS;
+    __resetFolderAccessConfigForTests();
+  });
+
+  it('reads notes and folder listings, and hides blocked folders', async () => {
+    vi.mocked(store.getNote).mockImplementation(async (options) =>
+      options.filename === localNote.filename ? localNote : options.id === spaceNote.id ? spaceNote : null
+    );
+    vi.mocked(store.listNotes).mockResolvedValue([localNote, spaceNote]);
+
+    const note = await readNoteResource('noteplan://note/Notes/Projects/Q1%20Plan.md');
+    expect(note.contents[0]).toMatchObject({ mimeType: 'text/markdown', text: localNote.content });
+    // A space note is only reachable through its own space
+    await expect(readNoteResource('noteplan://space/other/note/abc-123')).rejects.toThrow(/Note not found/);
+
+    const folder = await readNoteResource('noteplan://folder/Projects');
+    expect(JSON.parse(folder.contents[0].text)).toMatchObject({
+      count: 1,
+      notes: [{ uri: 'noteplan://note/Notes/Projects/Q1%20Plan.md', title: 'Q1 Plan' }],
+    });
+    expect(store.listNotes).toHaveBeenCalledWith({ folder: 'Notes/Projects', type: 'note' });
+
+    process.env.NOTEPLAN_DENIED_FOLDERS = 'Notes/Projects';
+    __resetFolderAccessConfigForTests();
+    await expect(readNoteResource('noteplan://folder/Projects')).rejects.toThrow(/Folder not found/);
+  });
+});
+
+describe('resource subscriptions', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('polls subscribed space notes and notifies only on change', async () => {
+    let content = '# Team sync';
+    vi.mocked(store.getNote).mockImplementation(async () => ({ ...spaceNote, content }));
+    const notify = vi.fn();
+    const subscriptions = createNoteResourceSubscriptions(notify, { pollMs: 1000 });
+
+    await subscriptions.subscribe('noteplan://space/space-1/note/abc-123');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(notify).not.toHaveBeenCalled();
+
+    content = '# Team sync\n* [ ] New action item';
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(notify).toHaveBeenCalledWith('noteplan://space/space-1/note/abc-123');
+
+    subscriptions.unsubscribe('noteplan://space/space-1/note/abc-123');
+    content = '# Changed again';
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(notify).toHaveBeenCalledTimes(1);
+
+    await expect(subscriptions.subscribe('noteplan://docs/Templates.md')).rejects.toThrow(/Cannot subscribe/);
+    subscriptions.close();
+  });
+});
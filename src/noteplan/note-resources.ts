@@ -0,0 +1,311 @@
+// Notes exposed as MCP resources.
+//
+// URI templates:
+//   noteplan://note/{filename}                 local note by path (e.g. Notes/Projects/Plan.md)
+//   noteplan://calendar/{date}                 local calendar note (YYYYMMDD, YYYY-MM-DD, today, …)
+//   noteplan://space/{spaceId}/note/{id}       space note
+//   noteplan://folder/{path}                   JSON listing of the notes in a local folder
+//
+// Reads go through unified-store, so folder allow/deny rules apply: a note
+// in a blocked folder reads as not found. Subscriptions re-read their
+// resources when a note file changes on disk (fs.watch on the NotePlan
+// storage folders) and, for space notes, on a poll; a client is notified
+// only when what it would read actually changed.
+
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+import * as store from './unified-store.js';
+import { getAllNotePlanPaths } from './file-reader.js';
+import { isWatchedNoteFile } from './embeddings-watcher.js';
+import { Note } from './types.js';
+import { isFolderAllowed } from '../utils/folder-access.js';
+
+export type NoteResourceRef =
+  | { kind: 'note'; filename: string }
+  | { kind: 'calendar'; date: string }
+  | { kind: 'space'; spaceId: string; id: string }
+  | { kind: 'folder'; path: string };
+
+type ResourceContents = { contents: Array<{ uri: string; mimeType: string; text: string }> };
+
+const SCHEME = 'noteplan://';
+const RECENT_NOTES_LIMIT = 50;
+const CHANGE_DEBOUNCE_MS = 300;
+const SPACE_POLL_MS = 5000;
+
+export const NOTE_RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'noteplan://note/{filename}',
+    name: 'Note',
+    description: 'A local note by its path inside the NotePlan folder, e.g. noteplan://note/Notes/Projects/Plan.md',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'noteplan://calendar/{date}',
+    name: 'Calendar note',
+    description: 'A local calendar note by date: YYYYMMDD, YYYY-MM-DD, today, tomorrow or yesterday. Subscribe to noteplan://calendar/today to follow the current day',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'noteplan://space/{spaceId}/note/{id}',
+    name: 'Space note',
+    description: 'A teamspace note by space ID and note ID',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'noteplan://folder/{path}',
+    name: 'Folder',
+    description: 'JSON listing of the notes in a local folder (with their resource URIs), e.g. noteplan://folder/Projects',
+    mimeType: 'application/json',
+  },
+];
+
+function encodePath(value: string): string {
+  return value.split('/').map(encodeURIComponent).join('/');
+}
+
+function decodePath(value: string): string {
+  return value.split('/').map(decodeURIComponent).join('/');
+}
+
+/** Parse a note resource URI; null for other noteplan:// resources. */
+export function parseNoteResourceUri(uri: string): NoteResourceRef | null {
+  if (!uri.startsWith(SCHEME)) return null;
+  const rest = uri.slice(SCHEME.length);
+  const slash = rest.indexOf('/');
+  if (slash <= 0) return null;
+  const kind = rest.slice(0, slash);
+  const tail = rest.slice(slash + 1);
+  if (!tail) return null;
+  try {
+    switch (kind) {
+      case 'note':
+        return { kind: 'note', filename: decodePath(tail) };
+      case 'calendar':
+        return { kind: 'calendar', date: decodeURIComponent(tail) };
+      case 'folder':
+        return { kind: 'folder', path: decodePath(tail.replace(/\/+$/, '')) };
+      case 'space': {
+        const match = tail.match(/^([^/]+)\/note\/(.+)$/);
+        if (!match) return null;
+        return { kind: 'space', spaceId: decodeURIComponent(match[1]), id: decodeURIComponent(match[2]) };
+      }
+      default:
+        return null;
+    }
+  } catch {
+    // Malformed percent-encoding
+    return null;
+  }
+}
+
+/** The resource URI a note is read back through. */
+export function toNoteResourceUri(note: Note): string {
+  if (note.source === 'space' && note.spaceId) {
+    return `${SCHEME}space/${encodeURIComponent(note.spaceId)}/note/${encodeURIComponent(note.id)}`;
+  }
+  if (note.type === 'calendar' && note.date) {
+    return `${SCHEME}calendar/${encodeURIComponent(note.date)}`;
+  }
+  return `${SCHEME}note/${encodePath(note.filename)}`;
+}
+
+async function resolveNote(ref: NoteResourceRef): Promise<Note | null> {
+  switch (ref.kind) {
+    case 'note': {
+      const note = await store.getNote({ filename: ref.filename });
+      return note && note.source !== 'space' ? note : null;
+    }
+    case 'calendar': {
+      const note = await store.getNote({ date: ref.date });
+      return note && note.source !== 'space' ? note : null;
+    }
+    case 'space': {
+      const note = await store.getNote({ id: ref.id });
+      return note && note.source === 'space' && note.spaceId === ref.spaceId ? note : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/** Read a note resource; throws when the URI is unknown or the note is missing or blocked. */
+export async function readNoteResource(uri: string): Promise<ResourceContents> {
+  const ref = parseNoteResourceUri(uri);
+  if (!ref) throw new Error(`Unknown resource URI: ${uri}`);
+
+  if (ref.kind === 'folder') {
+    const folderPath = ref.path === 'Notes' || ref.path.startsWith('Notes/') ? ref.path : `Notes/${ref.path}`;
+    if (!isFolderAllowed(folderPath)) {
+      throw new Error(`Folder not found: ${ref.path}`);
+    }
+    const notes = (await store.listNotes({ folder: folderPath, type: 'note' })).filter(
+      (note) => note.source !== 'space',
+    );
+    const listing = {
+      folder: ref.path,
+      count: notes.length,
+      notes: notes.map((note) => ({
+        uri: toNoteResourceUri(note),
+        title: note.title,
+        filename: note.filename,
+        modifiedAt: note.modifiedAt?.toISOString() ?? null,
+      })),
+    };
+    return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(listing, null, 2) }] };
+  }
+
+  const note = await resolveNote(ref);
+  if (!note) throw new Error(`Note not found: ${uri}`);
+  return { contents: [{ uri, mimeType: 'text/markdown', text: note.content }] };
+}
+
+/** Today's note plus the most recently modified notes; the templates cover the rest. */
+export async function listNoteResources(): Promise<Array<{ uri: string; name: string; description: string; mimeType: string }>> {
+  const resources = [
+    {
+      uri: `${SCHEME}calendar/today`,
+      name: "Today's note",
+      description: "Today's calendar note (follows the date; subscribe for live updates)",
+      mimeType: 'text/markdown',
+    },
+  ];
+  const recent = (await store.listNotes()).filter((note) => note.type !== 'trash').slice(0, RECENT_NOTES_LIMIT);
+  for (const note of recent) {
+    const location = note.source === 'space' ? `Space note${note.spaceName ? ` in ${note.spaceName}` : ''}` : note.filename;
+    resources.push({
+      uri: toNoteResourceUri(note),
+      name: note.title || note.filename,
+      description: note.modifiedAt ? `${location}, modified ${note.modifiedAt.toISOString()}` : location,
+      mimeType: 'text/markdown',
+    });
+  }
+  return resources;
+}
+
+async function readSignature(uri: string): Promise<string | null> {
+  try {
+    const { contents } = await readNoteResource(uri);
+    return createHash('sha256').update(contents.map((entry) => entry.text).join('\n')).digest('hex');
+  } catch {
+    // Missing (e.g. deleted) — a later create shows up as a change
+    return null;
+  }
+}
+
+/**
+ * Per-session resource subscriptions. `notify` is called with the URI of a
+ * subscribed resource whose content changed. File watching and space polling
+ * only run while something is subscribed.
+ */
+export function createNoteResourceSubscriptions(
+  notify: (uri: string) => Promise<void> | void,
+  options: { debounceMs?: number; pollMs?: number } = {},
+) {
+  const debounceMs = options.debounceMs ?? CHANGE_DEBOUNCE_MS;
+  const pollMs = options.pollMs ?? SPACE_POLL_MS;
+  const signatures = new Map<string, string | null>();
+  let watchers: fs.FSWatcher[] = [];
+  let pollTimer: NodeJS.Timeout | null = null;
+  let debounceTimer: NodeJS.Timeout | null = null;
+  let checking = false;
+  let recheck = false;
+
+  async function checkForChanges(): Promise<void> {
+    if (checking) {
+      recheck = true;
+      return;
+    }
+    checking = true;
+    try {
+      // Note files changed behind the store's back
+      store.invalidateListingCaches();
+      for (const [uri, previous] of [...signatures]) {
+        const current = await readSignature(uri);
+        if (!signatures.has(uri) || current === previous) continue;
+        signatures.set(uri, current);
+        try {
+          await notify(uri);
+        } catch (error) {
+          console.error(`[noteplan-mcp] Failed to send resource update for ${uri}:`, error);
+        }
+      }
+    } finally {
+      checking = false;
+    }
+    if (recheck) {
+      recheck = false;
+      await checkForChanges();
+    }
+  }
+
+  function scheduleCheck(): void {
+    if (debounceTimer) clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(() => {
+      debounceTimer = null;
+      void checkForChanges();
+    }, debounceMs);
+    debounceTimer.unref?.();
+  }
+
+  function startWatching(): void {
+    if (watchers.length > 0) return;
+    for (const root of getAllNotePlanPaths()) {
+      try {
+        const watcher = fs.watch(root, { recursive: true, persistent: false }, (_event, filename) => {
+          if (filename && isWatchedNoteFile(filename.toString())) scheduleCheck();
+        });
+        watcher.on('error', (error) => {
+          console.error(`[noteplan-mcp] Resource watcher error for ${root}:`, error);
+        });
+        watchers.push(watcher);
+      } catch (error) {
+        console.error(`[noteplan-mcp] Cannot watch ${root} for resource updates:`, error);
+      }
+    }
+  }
+
+  /** Space notes live in NotePlan's database, not in files: poll while one is subscribed. */
+  function updatePolling(): void {
+    const needsPoll = [...signatures.keys()].some((uri) => parseNoteResourceUri(uri)?.kind === 'space');
+    if (needsPoll && !pollTimer) {
+      pollTimer = setInterval(() => void checkForChanges(), pollMs);
+      pollTimer.unref?.();
+    } else if (!needsPoll && pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+    }
+  }
+
+  function stopWatching(): void {
+    for (const watcher of watchers) watcher.close();
+    watchers = [];
+    if (pollTimer) clearInterval(pollTimer);
+    if (debounceTimer) clearTimeout(debounceTimer);
+    pollTimer = null;
+    debounceTimer = null;
+  }
+
+  return {
+    async subscribe(uri: string): Promise<void> {
+      if (!parseNoteResourceUri(uri)) {
+        throw new Error(`Cannot subscribe to ${uri}: only note resources (${NOTE_RESOURCE_TEMPLATES.map((t) => t.uriTemplate).join(', ')}) send updates`);
+      }
+      signatures.set(uri, await readSignature(uri));
+      startWatching();
+      updatePolling();
+    },
+    unsubscribe(uri: string): void {
+      signatures.delete(uri);
+      if (signatures.size === 0) stopWatching();
+      else updatePolling();
+    },
+    close(): void {
+      signatures.clear();
+      stopWatching();
+    },
+    subscribedUris(): string[] {
+      return [...signatures.keys()];
+    },
+  };
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('./preferences.js', () => ({
+  getTaskMarkerConfigCached: vi.fn(() => ({
+    isAsteriskTodo: true,
+    isDashTodo: false,
+    defaultTodoCharacter: '*',
+    todoCharacter: '*',
+    useCheckbox: true,
+  })),
+  getTaskPrefix: vi.fn(() => '* [ ] '),
+  getFirstDayOfWeekCached: vi.fn(() => 1),
+}));
+
+import { buildPeriodicReview, renderPeriodicReview, upsertReviewSection } from './periodic-review.js';
+import type { Note } from './types.js';
+
+function note(filename: string, content: string, extra: Partial<Note> = {}): Note {
+  return {
+    id: filename,
+    title: filename.split('/').pop()!.replace(/\.md$/, ''),
+    filename,
+    content,
+    type: filename.startsWith('Calendar/') ? 'calendar' : 'note',
+    source: 'local',
+    ...extra,
+  };
+}
+
+// Week 12 of 2026 with Monday weeks: 2026-03-16 .. 2026-03-22; today is Thursday
+const week = { start: '20260316', end: '20260322' };
+const options = { today: '20260319', firstDayOfWeek: 1, reviewHeading: 'Review' };
+
+const notes = [
+  note('Calendar/20260317.md', [
+    '* [x] Ship release @done(2026-03-17 10:00)',
+    '* [>] Draft newsletter >2026-03-24',
+    '* [ ] Call printer #vendor',
+  ].join('\n'), { modifiedAt: new Date(2026, 2, 17) }),
+  note('Calendar/20260309.md', '* [x] Old win\n* [ ] Old open', { modifiedAt: new Date(2026, 2, 9) }),
+  note('Notes/Plan.md', [
+    '# Plan',
+    '* [x] Book venue @done(2026-03-18)',
+    '* [x] Book flights @done(2026-03-02)',
+    '* [ ] Confirm catering >2026-03-17 #launch',
+    '* [ ] Send invites >2026-03-21',
+  ].join('\n'), { createdAt: new Date(2026, 0, 5), modifiedAt: new Date(2026, 2, 18) }),
+  note('Notes/Retro.md', '# Retro\n* [ ] Collect feedback', {
+    createdAt: new Date(2026, 2, 20),
+    modifiedAt: new Date(2026, 2, 20),
+  }),
+  note('Calendar/2026-W12.md', '## Review\n#stale-digest-tag', { date: '2026-W12' }),
+];
+
+describe('buildPeriodicReview', () => {
+  const review = buildPeriodicReview(notes, week, options);
+
+  it('buckets tasks by done date, carry-over, creation and overdue schedule', () => {
+    expect(review.completed.map((t) => [t.content.split(' @')[0], t.doneDate])).toEqual([
+      ['Ship release', '20260317'],
+      ['Book venue', '20260318'],
+    ]);
+    expect(review.carriedOver.map((t) => t.scheduledDate)).toEqual(['2026-03-24']);
+    expect(review.newOpen.map((t) => t.content)).toEqual(['Call printer #vendor', 'Collect feedback']);
+    expect(review.overdue.map((t) => t.content)).toEqual(['Confirm catering >2026-03-17 #launch']);
+  });
+
+  it('lists touched notes and counts tags once per note, ignoring an earlier digest', () => {
+    expect(review.notesCreated.map((n) => n.title)).toEqual(['Retro']);
+    expect(review.notesModified.map((n) => n.title)).toEqual(['20260317', 'Plan', 'Retro']);
+    expect(review.tags).toEqual([
+      { tag: '#launch', count: 1 },
+      { tag: '#vendor', count: 1 },
+    ]);
+  });
+});
+
+describe('upsertReviewSection', () => {
+  const review = buildPeriodicReview(notes, week, options);
+  const render = (level: number) => renderPeriodicReview(review, level, 1);
+
+  it('appends a review section without task markers', () => {
+    const result = upsertReviewSection('# Week 12\nGoals', 'Review', render);
+    expect(result.replaced).toBe(false);
+    const lines = result.content.split('\n');
+    expect(lines.slice(0, 4)).toEqual(['# Week 12', 'Goals', '', '## Review']);
+    expect(lines).toContain('### Completed (2)');
+    expect(lines).toContain('Ship release — [[20260317]]');
+    expect(lines).toContain('… and 1 more');
+    expect(lines.some((line) => /^\s*[*+-] /.test(line))).toBe(false);
+  });
+
+  it('replaces an existing section in place and keeps what follows', () => {
+    const before = '# Week 12\n### Review\nold digest\n### Next\nkeep me';
+    const result = upsertReviewSection(before, 'review', render);
+    expect(result.replaced).toBe(true);
+    expect(result.content).not.toContain('old digest');
+    expect(result.content).toContain('#### Completed (2)');
+    expect(result.content.endsWith('\n\n### Next\nkeep me')).toBe(true);
+  });
+});
@@ -0,0 +1,230 @@
+// Periodic review digest: what happened in a week / month / quarter / year.
+//
+// Buckets, for a period [start, end]:
+// - completed:   done tasks whose @done(date) falls in the period (done tasks
+//                without a @done date count when their calendar note does)
+// - carriedOver: tasks in the period's calendar notes that were moved on
+//                (`[>]`), with the date they were moved to
+// - newOpen:     open tasks written during the period — in the period's
+//                calendar notes or in project notes created during it
+// - overdue:     open tasks scheduled `>date` inside the period, before today
+// - notes created / modified in the period, and tags used by the period's
+//   calendar notes and by notes modified in it (counted once per note, and
+//   ignoring a previously written review section)
+//
+// Pure builder over Note[] — callers own the listing and the writing.
+
+import { Note, Task, TaskStatus } from './types.js';
+import { extractHeadings, extractTagsFromContent, parseTasks } from './markdown-parser.js';
+import { calendarNoteRange } from './filter-engine.js';
+import { formatDateString } from '../utils/date-utils.js';
+
+export interface ReviewRange {
+  start: string; // YYYYMMDD
+  end: string;   // YYYYMMDD
+}
+
+export interface ReviewTask {
+  filename: string;
+  title: string;
+  spaceId?: string;
+  lineIndex: number;
+  content: string;
+  status: TaskStatus;
+  scheduledDate?: string;
+  doneDate?: string;
+}
+
+export interface ReviewNote {
+  filename: string;
+  title: string;
+  type: Note['type'];
+  spaceId?: string;
+}
+
+export interface PeriodicReview {
+  completed: ReviewTask[];
+  carriedOver: ReviewTask[];
+  newOpen: ReviewTask[];
+  overdue: ReviewTask[];
+  notesCreated: ReviewNote[];
+  notesModified: ReviewNote[];
+  tags: Array<{ tag: string; count: number }>;
+  scannedNoteCount: number;
+}
+
+const DONE_DATE_PATTERN = /@done\((\d{4})-(\d{2})-(\d{2})/;
+
+function isReviewable(note: Note): boolean {
+  return note.type !== 'trash' && !/(^|\/)@Templates(\/|$)/.test(note.filename);
+}
+
+function compactDate(isoDate: string): string {
+  return isoDate.replace(/-/g, '');
+}
+
+function toReviewTask(note: Note, task: Task, doneDate?: string): ReviewTask {
+  return {
+    filename: note.filename,
+    title: note.title,
+    spaceId: note.spaceId,
+    lineIndex: task.lineIndex,
+    content: task.content,
+    status: task.status,
+    scheduledDate: task.scheduledDate,
+    doneDate,
+  };
+}
+
+/** Line span [start, end) of the section under `heading`, heading line included. */
+function findSection(content: string, heading: string): { start: number; end: number; level: number } | null {
+  const target = heading.trim().toLowerCase();
+  const headings = extractHeadings(content);
+  const section = headings.find((h) => h.text.trim().toLowerCase() === target);
+  if (!section) return null;
+  const next = headings.find((h) => h.lineIndex > section.lineIndex && h.level <= section.level);
+  return {
+    start: section.lineIndex,
+    end: next ? next.lineIndex : content.split('\n').length,
+    level: section.level,
+  };
+}
+
+/** Content without the section under `heading`, so a written digest is not counted again. */
+function withoutSection(content: string, heading: string | undefined): string {
+  const section = heading ? findSection(content, heading) : null;
+  if (!section) return content;
+  const lines = content.split('\n');
+  lines.splice(section.start, section.end - section.start);
+  return lines.join('\n');
+}
+
+function toReviewNote(note: Note): ReviewNote {
+  return { filename: note.filename, title: note.title, type: note.type, spaceId: note.spaceId };
+}
+
+export function buildPeriodicReview(
+  notes: Note[],
+  range: ReviewRange,
+  options: { today: string; firstDayOfWeek: number; reviewHeading?: string }
+): PeriodicReview {
+  const inPeriod = (date: string | undefined) => date !== undefined && date >= range.start && date <= range.end;
+  const review: PeriodicReview = {
+    completed: [],
+    carriedOver: [],
+    newOpen: [],
+    overdue: [],
+    notesCreated: [],
+    notesModified: [],
+    tags: [],
+    scannedNoteCount: 0,
+  };
+  const tagCounts = new Map<string, number>();
+
+  for (const note of notes) {
+    if (!isReviewable(note)) continue;
+    review.scannedNoteCount += 1;
+
+    const noteRange = calendarNoteRange(note, options.firstDayOfWeek);
+    const datedInPeriod = noteRange !== null && noteRange.start! >= range.start && noteRange.end! <= range.end;
+    const created = inPeriod(note.createdAt ? formatDateString(note.createdAt) : undefined);
+    const modified = inPeriod(note.modifiedAt ? formatDateString(note.modifiedAt) : undefined);
+    if (created && note.type === 'note') review.notesCreated.push(toReviewNote(note));
+    if (modified) review.notesModified.push(toReviewNote(note));
+
+    if (datedInPeriod || modified) {
+      const tagged = datedInPeriod ? withoutSection(note.content, options.reviewHeading) : note.content;
+      for (const tag of new Set(extractTagsFromContent(tagged))) {
+        tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+      }
+    }
+
+    for (const task of parseTasks(note.content)) {
+      switch (task.status) {
+        case 'done': {
+          const match = task.content.match(DONE_DATE_PATTERN);
+          const doneDate = match ? `${match[1]}${match[2]}${match[3]}` : undefined;
+          if (doneDate ? inPeriod(doneDate) : datedInPeriod) {
+            review.completed.push(toReviewTask(note, task, doneDate));
+          }
+          break;
+        }
+        case 'scheduled':
+          if (datedInPeriod) review.carriedOver.push(toReviewTask(note, task));
+          break;
+        case 'open': {
+          if (datedInPeriod || (created && note.type === 'note')) {
+            review.newOpen.push(toReviewTask(note, task));
+          }
+          const scheduled = task.scheduledDate ? compactDate(task.scheduledDate) : undefined;
+          if (scheduled && inPeriod(scheduled) && scheduled < options.today) {
+            review.overdue.push(toReviewTask(note, task));
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  review.tags = [...tagCounts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  return review;
+}
+
+/** Task text for the digest: block IDs would duplicate the original's anchor. */
+function digestTaskLine(task: ReviewTask): string {
+  const text = task.content
+    .replace(/\s*@done\([^)]*\)/g, '')
+    .replace(/\s*\^[A-Za-z0-9-]+\s*$/, '')
+    .trim();
+  return `${text} — [[${task.title}]]`;
+}
+
+/**
+ * Render the digest body. Items are plain text lines rather than tasks so
+ * writing the review never creates new open tasks.
+ */
+export function renderPeriodicReview(review: PeriodicReview, headingLevel: number, itemLimit: number): string[] {
+  const sub = '#'.repeat(Math.min(6, headingLevel + 1));
+  const lines: string[] = [];
+  const section = (title: string, items: string[]) => {
+    lines.push(`${sub} ${title} (${items.length})`);
+    lines.push(...items.slice(0, itemLimit));
+    if (items.length > itemLimit) lines.push(`… and ${items.length - itemLimit} more`);
+    lines.push('');
+  };
+
+  section('Completed', review.completed.map(digestTaskLine));
+  section('Carried over', review.carriedOver.map(digestTaskLine));
+  section('New open tasks', review.newOpen.map(digestTaskLine));
+  section('Overdue', review.overdue.map(digestTaskLine));
+  section('Notes created', review.notesCreated.map((note) => `[[${note.title}]]`));
+  section('Notes modified', review.notesModified.map((note) => `[[${note.title}]]`));
+  lines.push(`${sub} Tags`);
+  lines.push(review.tags.length > 0 ? review.tags.slice(0, itemLimit).map(({ tag, count }) => `\`${tag}\` (${count})`).join(', ') : 'None');
+  return lines;
+}
+
+/**
+ * Put the rendered digest under `heading`, replacing that section when the
+ * note already has it (so re-running a review updates it in place) or
+ * appending a new level-2 section otherwise.
+ */
+export function upsertReviewSection(
+  content: string,
+  heading: string,
+  render: (headingLevel: number) => string[]
+): { content: string; replaced: boolean } {
+  const section = findSection(content, heading);
+  if (section) {
+    const lines = content.split('\n');
+    const trailing = section.end < lines.length ? [''] : [];
+    lines.splice(section.start + 1, section.end - section.start - 1, ...render(section.level), ...trailing);
+    return { content: lines.join('\n'), replaced: true };
+  }
+
+  const trimmed = content.replace(/\s+$/, '');
+  const appended = [`## ${heading.trim()}`, ...render(2)].join('\n');
+  return { content: trimmed ? `${trimmed}\n\n${appended}` : appended, replaced: false };
+}
@@ -0,0 +1,40 @@
+// Recently seen note contents, keyed by content hash.
+//
+// Reads hand out `contentHash` as a revision token. When a write later
+// arrives with a stale `expectedHash`, the content that hash stood for is
+// looked up here so the conflict error can show what changed since. The
+// cache is in-memory and bounded: after a restart (or eviction) the conflict
+// is still detected, just without the diff.
+
+import { hashContent } from './history.js';
+
+const MAX_REVISIONS = 200;
+const MAX_TOTAL_CHARS = 8 * 1024 * 1024;
+
+const revisions = new Map<string, string>();
+let totalChars = 0;
+
+/** Remember `content` as a revision and return its hash. */
+export function rememberRevision(content: string): string {
+  const hash = hashContent(content);
+  if (revisions.has(hash)) {
+    // Refresh recency
+    revisions.delete(hash);
+    revisions.set(hash, content);
+    return hash;
+  }
+  if (content.length > MAX_TOTAL_CHARS / 4) return hash;
+
+  revisions.set(hash, content);
+  totalChars += content.length;
+  for (const [oldHash, oldContent] of revisions) {
+    if (revisions.size <= MAX_REVISIONS && totalChars <= MAX_TOTAL_CHARS) break;
+    revisions.delete(oldHash);
+    totalChars -= oldContent.length;
+  }
+  return hash;
+}
+
+export function getRevision(hash: string): string | undefined {
+  return revisions.get(hash);
+}
@@ -46,6 +46,8 @@ function escapeSqlValue(value: unknown): string {
   if (value === null || value === undefined) return 'NULL';
   if (typeof value === 'number') return String(value);
   if (typeof value === 'bigint') return String(value);
+  // Blob: hex literal
+  if (value instanceof Uint8Array) return "X'" + Buffer.from(value).toString('hex') + "'";
   // String: escape single quotes by doubling them
   const str = String(value);
   return "'" + str.replace(/'/g, "''") + "'";
@@ -248,6 +250,28 @@ export class SqliteDatabase {
     }
   }
 
+  /**
+   * Run several write statements, persisting them with a single sqlite3 CLI
+   * call (one BEGIN/COMMIT) instead of one process per statement. Unlike
+   * transaction(), this never rewrites the whole file. Returns the total
+   * number of changed rows.
+   */
+  runBatch(statements: Array<{ sql: string; params: unknown[] }>): number {
+    if (statements.length === 0) return 0;
+    let changes = 0;
+    for (const { sql, params } of statements) {
+      this.db.run(sql, toBindParams(params) as unknown[]);
+      const changesResult = this.db.exec('SELECT changes()');
+      changes += changesResult.length > 0 ? Number(changesResult[0].values[0][0]) : 0;
+    }
+
+    if (this.filePath && !this.isReadOnly) {
+      const body = statements.map(({ sql, params }) => buildSqlWithValues(sql, toBindParams(params))).join(';\n');
+      execSqliteWrite(this.filePath, `BEGIN;\n${body};\nCOMMIT`);
+    }
+    return changes;
+  }
+
   pragma(pragma: string): unknown {
     try {
       const results = this.db.exec(`PRAGMA ${pragma}`);
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('./preferences.js', () => ({
+  getTaskMarkerConfigCached: vi.fn(() => ({
+    isAsteriskTodo: true,
+    isDashTodo: false,
+    defaultTodoCharacter: '*',
+    todoCharacter: '*',
+    useCheckbox: true,
+  })),
+  getTaskPrefix: vi.fn(() => '* [ ] '),
+}));
+
+import { buildDependencyIndex, findTasksUnblockedBy, resolveBlockers } from './task-dependencies.js';
+import type { Note } from './types.js';
+
+function note(id: string, content: string): Note {
+  return { id, title: id, filename: id, content, type: 'note', source: 'local' };
+}
+
+describe('task dependencies', () => {
+  const plan = note('Notes/Plan.md', [
+    '# Plan',
+    '* [x] Draft spec ^spec',
+    '* [ ] Review spec ^review',
+    '* [ ] Build @blocked-by(^spec, ^review) ^build',
+    '* [ ] Docs @blocked-by(^spec)',
+  ].join('\n'));
+  const release = note('Notes/Release.md', '# Release\n* [ ] Ship @blocked-by(^build, ^ghost)');
+  const index = buildDependencyIndex([plan, release]);
+
+  it('indexes block IDs and dependent tasks across notes', () => {
+    expect([...index.byBlockId.keys()]).toEqual(['spec', 'review', 'build']);
+    expect(index.dependents.map(({ task }) => task.content.split(' ')[0])).toEqual(['Build', 'Docs', 'Ship']);
+  });
+
+  it('splits blockers into open, cleared and missing', () => {
+    const build = index.dependents[0].task;
+    const blockers = resolveBlockers(build, index);
+    expect(blockers.open.map(({ task }) => task.blockId)).toEqual(['review']);
+    expect(blockers.cleared.map(({ task }) => task.blockId)).toEqual(['spec']);
+    expect(resolveBlockers(index.dependents[2].task, index).missing).toEqual(['ghost']);
+  });
+
+  it('reports tasks a completion would unblock', () => {
+    expect(findTasksUnblockedBy('review', index).map(({ task }) => task.blockId)).toEqual(['build']);
+    expect(findTasksUnblockedBy('build', index).map(({ note }) => note.id)).toEqual(['Notes/Release.md']);
+  });
+});
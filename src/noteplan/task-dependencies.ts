@@ -0,0 +1,87 @@
+// Task dependencies: `@blocked-by(^id)` references between tasks.
+//
+// A task gets an ID the same way NotePlan's synced lines do — a `^abc123`
+// block ID at the end of the line. Another task waits on it with
+// `@blocked-by(^abc123)` (several IDs may be listed). A task is blocked
+// while any of its blockers is still open or scheduled; done and cancelled
+// blockers count as cleared. References to IDs that no task carries are
+// reported as missing rather than blocking, so a typo never locks a task.
+//
+// Pure builder over Note[] — callers own the listing.
+
+import { Note, Task } from './types.js';
+import { parseTasks } from './markdown-parser.js';
+
+export interface TaskRef {
+  note: Note;
+  task: Task;
+}
+
+export interface DependencyIndex {
+  /** First task carrying each block ID (synced copies share the ID and state) */
+  byBlockId: Map<string, TaskRef>;
+  /** Tasks with at least one `@blocked-by` reference */
+  dependents: TaskRef[];
+}
+
+export interface BlockerResolution {
+  open: TaskRef[];
+  cleared: TaskRef[];
+  missing: string[];
+}
+
+export function isTaskCleared(task: Task): boolean {
+  return task.status === 'done' || task.status === 'cancelled';
+}
+
+export function buildDependencyIndex(notes: Note[]): DependencyIndex {
+  const byBlockId = new Map<string, TaskRef>();
+  const dependents: TaskRef[] = [];
+  for (const note of notes) {
+    // Cheap pre-check: most notes use neither convention
+    if (!note.content.includes('^') && !note.content.toLowerCase().includes('@blocked-by(')) continue;
+    for (const task of parseTasks(note.content)) {
+      if (task.blockId && !byBlockId.has(task.blockId)) {
+        byBlockId.set(task.blockId, { note, task });
+      }
+      if (task.blockedBy && task.blockedBy.length > 0) {
+        dependents.push({ note, task });
+      }
+    }
+  }
+  return { byBlockId, dependents };
+}
+
+/**
+ * Look up each of a task's blockers. `assumeCleared` treats the given block
+ * IDs as done, for reporting what a pending completion would unblock.
+ */
+export function resolveBlockers(
+  task: Task,
+  index: DependencyIndex,
+  assumeCleared: ReadonlySet<string> = new Set()
+): BlockerResolution {
+  const resolution: BlockerResolution = { open: [], cleared: [], missing: [] };
+  for (const blockId of task.blockedBy ?? []) {
+    const blocker = index.byBlockId.get(blockId);
+    if (!blocker) {
+      resolution.missing.push(blockId);
+    } else if (assumeCleared.has(blockId) || isTaskCleared(blocker.task)) {
+      resolution.cleared.push(blocker);
+    } else {
+      resolution.open.push(blocker);
+    }
+  }
+  return resolution;
+}
+
+/** Open tasks waiting on `blockId` that have no other open blocker left. */
+export function findTasksUnblockedBy(blockId: string, index: DependencyIndex): TaskRef[] {
+  const cleared = new Set([blockId]);
+  return index.dependents.filter(
+    ({ task }) =>
+      !isTaskCleared(task) &&
+      task.blockedBy!.includes(blockId) &&
+      resolveBlockers(task, index, cleared).open.length === 0
+  );
+}
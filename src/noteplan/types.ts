@@ -32,6 +32,24 @@ export interface Task {
   mentions: string[];
   scheduledDate?: string;
   priority?: number;
+  blockId?: string;       // ^abc123 at the end of the line (without the caret)
+  blockedBy?: string[];   // block IDs from @blocked-by(^abc123, ^def456)
+}
+
+/**
+ * A `[[wiki-link]]` reference inside note content.
+ * Covers `[[Title]]`, `[[Title#Heading]]`, `[[Title^blockid]]`,
+ * `[[Title|alias]]` and embeds (`![[Title]]`).
+ */
+export interface WikiLink {
+  raw: string;            // full match including brackets (and leading ! for embeds)
+  target: string;         // note title / date token the link points to
+  heading?: string;       // text after #
+  blockId?: string;       // text after ^ (without the caret)
+  alias?: string;         // text after |
+  embed: boolean;
+  lineIndex: number;      // 0-based line of the link
+  column: number;         // 0-based offset of `raw` within the line
 }
 
 export interface Space {
@@ -8,6 +8,7 @@ import * as sqliteReader from './sqlite-reader.js';
 import * as sqliteWriter from './sqlite-writer.js';
 import * as frontmatter from './frontmatter-parser.js';
 import { extractTagsFromContent } from './markdown-parser.js';
+import { buildLinkGraph, LinkGraph, normalizeLinkTarget, rewriteWikiLinkTargets, WikiLinkLineChange } from './link-graph.js';
 import { getTodayDateString, parseFlexibleDate } from '../utils/date-utils.js';
 import { matchFolder, FolderMatchResult } from '../utils/folder-matcher.js';
 import { searchWithRipgrep, isRipgrepAvailable, RipgrepMatch } from './ripgrep-search.js';
@@ -15,7 +16,9 @@ import { fuzzySearch } from './fuzzy-search.js';
 import { parseFlexibleDateFilter, isDateInRange } from '../utils/date-filters.js';
 import { normalizeFilename } from '../utils/filename-normalize.js';
 import { isFolderAllowed, hasFolderAccessRules } from '../utils/folder-access.js';
+import { hashContent, HistoryEntry, HistoryState, markHistoryEntryUndone, recordHistory } from './history.js';
 import { getBridgeClient } from '../transport/bridge-availability.js';
+import { buildDiffPreview, DiffPreview } from '../utils/text-diff.js';
 
 // Cache ripgrep availability check
 let ripgrepAvailable: boolean | null = null;
@@ -25,6 +28,9 @@ const LIST_FOLDERS_CACHE_TTL_MS = 15000;
 // then iterates every TeamSpace note's content via regex (slow). Cache
 // the merged result per scope so repeat calls within the TTL are instant.
 const LIST_TAGS_CACHE_TTL_MS = 60_000;
+// The link graph parses every note's content, so it gets the same long TTL
+// as tags. Writes through this module drop it via invalidateListingCaches.
+const LINK_GRAPH_CACHE_TTL_MS = 60_000;
 
 type CacheEntry<T> = {
   value: T;
@@ -34,6 +40,7 @@ type CacheEntry<T> = {
 const listNotesCache = new Map<string, CacheEntry<Note[]>>();
 const listFoldersCache = new Map<string, CacheEntry<Folder[]>>();
 const listTagsCache = new Map<string, CacheEntry<string[]>>();
+const linkGraphCache = new Map<string, CacheEntry<LinkGraph>>();
 
 function getCachedValue<T>(cache: Map<string, CacheEntry<T>>, key: string): T | undefined {
   const entry = cache.get(key);
@@ -57,6 +64,22 @@ export function invalidateListingCaches(): void {
   listNotesCache.clear();
   listFoldersCache.clear();
   listTagsCache.clear();
+  linkGraphCache.clear();
+}
+
+function noteHistoryState(note: Note, options: { withContent?: boolean } = {}): HistoryState {
+  return {
+    kind: 'note',
+    source: note.source,
+    path: note.filename,
+    ...(note.source === 'space' && { id: note.id, spaceId: note.spaceId, parentId: note.folder ?? null }),
+    title: note.title,
+    ...(options.withContent && { content: note.content }),
+  };
+}
+
+function localFolderHistoryState(folderPath: string): HistoryState {
+  return { kind: 'folder', source: 'local', path: folderPath.replace(/^Notes\//, '') };
 }
 
 function normalizeLocalFolderFilter(folder?: string): string | undefined {
@@ -98,12 +121,16 @@ export interface MoveNoteResult {
   toFilename: string;
   destinationFolder: string;
   destinationParentId?: string;
+  /** Set by previews only */
+  diffPreview?: DiffPreview;
 }
 
 export interface RenameNoteFileResult {
   note: Note;
   fromFilename: string;
   toFilename: string;
+  /** Set by previews only */
+  diffPreview?: DiffPreview;
 }
 
 export interface RenameSpaceNoteResult {
@@ -112,6 +139,24 @@ export interface RenameSpaceNoteResult {
   toTitle: string;
 }
 
+export interface WikiLinkRewriteNote {
+  id: string;
+  title: string;
+  filename: string;
+  source: Note['source'];
+  spaceId?: string;
+  changes: WikiLinkLineChange[];
+  diffPreview: DiffPreview;
+}
+
+export interface WikiLinkRewriteResult {
+  fromTitle: string;
+  toTitle: string;
+  notes: WikiLinkRewriteNote[];
+  lineCount: number;
+  linkCount: number;
+}
+
 export interface DeleteNoteResult {
   source: 'local' | 'space';
   fromIdentifier: string;
@@ -124,6 +169,8 @@ export interface RestoreNoteResult {
   note: Note;
   fromIdentifier: string;
   toIdentifier: string;
+  /** Set by previews only */
+  diffPreview?: DiffPreview;
 }
 
 /**
@@ -310,6 +357,22 @@ export async function listNotes(options: {
   return setCachedValue(listNotesCache, cacheKey, accessFiltered, LIST_NOTES_CACHE_TTL_MS);
 }
 
+/**
+ * Wiki-link graph over all notes in scope (local + spaces, or one space).
+ * Folder access rules apply through listNotes, so hidden notes neither
+ * appear as nodes nor count as link targets.
+ */
+export async function getLinkGraph(options: { space?: string } = {}): Promise<LinkGraph> {
+  const space = await resolveSpaceId(options.space);
+  const cacheKey = space || '';
+  const cached = getCachedValue(linkGraphCache, cacheKey);
+  if (cached) {
+    return cached;
+  }
+  const notes = await listNotes({ space });
+  return setCachedValue(linkGraphCache, cacheKey, buildLinkGraph(notes), LINK_GRAPH_CACHE_TTL_MS);
+}
+
 /**
  * Enhanced search options
  */
@@ -863,6 +926,12 @@ export async function createNote(
     const note = await fileReader.readNoteFile(writtenFilename);
     if (!note) throw new Error('Failed to create calendar note');
     invalidateListingCaches();
+    recordHistory({
+      operation: 'create_note',
+      summary: `Created calendar note ${note.filename}`,
+      before: null,
+      after: { ...noteHistoryState(note), contentHash: hashContent(note.content) },
+    });
     const calendarFolderResolution: FolderResolution = {
       requested: 'Calendar',
       resolved: 'Calendar',
@@ -924,6 +993,12 @@ export async function createNote(
     const note = await sqliteReader.getSpaceNote(writtenFilename);
     if (!note) throw new Error('Failed to create space note');
     invalidateListingCaches();
+    recordHistory({
+      operation: 'create_note',
+      summary: `Created TeamSpace note "${note.title}"`,
+      before: null,
+      after: { ...noteHistoryState(note), contentHash: hashContent(note.content) },
+    });
     return { note, folderResolution };
   }
 
@@ -948,9 +1023,44 @@ export async function createNote(
   const note = await fileReader.readNoteFile(writtenFilename);
   if (!note) throw new Error('Failed to create note');
   invalidateListingCaches();
+  recordHistory({
+    operation: 'create_note',
+    summary: `Created ${note.filename}`,
+    before: null,
+    after: { ...noteHistoryState(note), contentHash: hashContent(note.content) },
+  });
   return { note, folderResolution };
 }
 
+/**
+ * Where createNote would put a local project note (`title` + `folder`) or
+ * calendar note (`calendarDate`, YYYYMMDD), and the note already occupying
+ * that slot if any. Lets bulk writers report collisions before writing.
+ */
+export async function previewLocalNotePath(
+  target: { title: string; folder?: string } | { calendarDate: string }
+): Promise<{ filename: string; existingFilename: string | null }> {
+  if ('calendarDate' in target) {
+    const existing = await fileReader.getCalendarNote(target.calendarDate);
+    return {
+      filename: fileReader.buildCalendarNotePath(target.calendarDate),
+      existingFilename: existing?.filename ?? null,
+    };
+  }
+  const filename = fileWriter.buildProjectNotePath(target.title, target.folder);
+  return { filename, existingFilename: await fileWriter.findExistingNotePath(filename) };
+}
+
+function recordNoteUpdate(before: Note, after: Note, summary: string): void {
+  if (before.content === after.content) return;
+  recordHistory({
+    operation: 'update_note',
+    summary,
+    before: noteHistoryState(before, { withContent: true }),
+    after: { ...noteHistoryState(after), contentHash: hashContent(after.content) },
+  });
+}
+
 /**
  * Update a note's content
  */
@@ -969,14 +1079,19 @@ export async function updateNote(
     const note = await sqliteReader.getSpaceNote(writeIdentifier);
     if (!note) throw new Error('Note not found after update');
     invalidateListingCaches();
+    recordNoteUpdate(existing, note, `Updated TeamSpace note "${note.title}"`);
     return note;
   };
 
   const updateLocal = async (localIdentifier: string): Promise<Note> => {
+    const existing = await fileReader.readNoteFile(localIdentifier);
     await fileWriter.updateNote(localIdentifier, content);
     const note = await fileReader.readNoteFile(localIdentifier);
     if (!note) throw new Error('Note not found after update');
     invalidateListingCaches();
+    if (existing) {
+      recordNoteUpdate(existing, note, `Updated ${note.filename}`);
+    }
     return note;
   };
 
@@ -1012,6 +1127,12 @@ export async function deleteNote(identifier: string): Promise<DeleteNoteResult>
   if (note.source === 'space') {
     const moved = sqliteWriter.deleteSpaceNote(note.id || note.filename);
     invalidateListingCaches();
+    recordHistory({
+      operation: 'delete_note',
+      summary: `Moved TeamSpace note "${note.title}" to @Trash`,
+      before: { ...noteHistoryState(note), parentId: moved.previousParent },
+      after: { ...noteHistoryState(note), parentId: moved.trashFolderId },
+    });
     return {
       source: 'space',
       fromIdentifier: moved.noteId,
@@ -1022,6 +1143,12 @@ export async function deleteNote(identifier: string): Promise<DeleteNoteResult>
 
   const trashedPath = await fileWriter.deleteNote(note.filename);
   invalidateListingCaches();
+  recordHistory({
+    operation: 'delete_note',
+    summary: `Moved ${note.filename} to @Trash`,
+    before: noteHistoryState(note),
+    after: { ...noteHistoryState(note), path: trashedPath },
+  });
   return {
     source: 'local',
     fromIdentifier: note.filename,
@@ -1103,6 +1230,10 @@ export async function previewMoveNote(identifier: string, destinationFolder: str
       toFilename: note.filename,
       destinationFolder: destination.label,
       destinationParentId: destination.id,
+      diffPreview: buildDiffPreview(note.content, note.content, {
+        fromLabel: note.title,
+        toLabel: `${destination.label}/${note.title}`,
+      }),
     };
   }
 
@@ -1110,6 +1241,10 @@ export async function previewMoveNote(identifier: string, destinationFolder: str
   return {
     note,
     ...preview,
+    diffPreview: buildDiffPreview(note.content, note.content, {
+      fromLabel: preview.fromFilename,
+      toLabel: preview.toFilename,
+    }),
   };
 }
 
@@ -1120,12 +1255,18 @@ export async function moveNote(identifier: string, destinationFolder: string): P
     if (!preview.note.id || !preview.destinationParentId) {
       throw new Error('Could not resolve TeamSpace move target');
     }
-    sqliteWriter.moveSpaceNote(preview.note.id, preview.destinationParentId);
+    const moved = sqliteWriter.moveSpaceNote(preview.note.id, preview.destinationParentId);
     const movedNote = await sqliteReader.getSpaceNote(preview.note.id);
     if (!movedNote) {
       throw new Error('Failed to read note after move');
     }
     invalidateListingCaches();
+    recordHistory({
+      operation: 'move_note',
+      summary: `Moved TeamSpace note "${movedNote.title}" to ${preview.destinationFolder}`,
+      before: { ...noteHistoryState(preview.note), parentId: moved.previousParent },
+      after: noteHistoryState(movedNote),
+    });
     return {
       note: movedNote,
       fromFilename: preview.fromFilename,
@@ -1141,6 +1282,12 @@ export async function moveNote(identifier: string, destinationFolder: string): P
     throw new Error('Failed to read note after move');
   }
   invalidateListingCaches();
+  recordHistory({
+    operation: 'move_note',
+    summary: `Moved ${preview.fromFilename} to ${preview.toFilename}`,
+    before: noteHistoryState(preview.note),
+    after: noteHistoryState(movedNote),
+  });
   return {
     note: movedNote,
     fromFilename: preview.fromFilename,
@@ -1173,6 +1320,10 @@ export async function previewRestoreNote(
       note,
       fromIdentifier: note.id,
       toIdentifier: destination.id,
+      diffPreview: buildDiffPreview(note.content, note.content, {
+        fromLabel: `@Trash/${note.title}`,
+        toLabel: `${destination.label}/${note.title}`,
+      }),
     };
   }
 
@@ -1192,6 +1343,10 @@ export async function previewRestoreNote(
     note: restoredNote,
     fromIdentifier: preview.fromFilename,
     toIdentifier: preview.toFilename,
+    diffPreview: buildDiffPreview(restoredNote.content, restoredNote.content, {
+      fromLabel: preview.fromFilename,
+      toLabel: preview.toFilename,
+    }),
   };
 }
 
@@ -1199,12 +1354,18 @@ export async function restoreNote(identifier: string, destinationFolder?: string
   const preview = await previewRestoreNote(identifier, destinationFolder);
 
   if (preview.source === 'space') {
-    sqliteWriter.restoreSpaceNote(preview.fromIdentifier, preview.toIdentifier);
+    const moved = sqliteWriter.restoreSpaceNote(preview.fromIdentifier, preview.toIdentifier);
     const restoredNote = await sqliteReader.getSpaceNote(preview.fromIdentifier);
     if (!restoredNote) {
       throw new Error('Failed to read TeamSpace note after restore');
     }
     invalidateListingCaches();
+    recordHistory({
+      operation: 'restore_note',
+      summary: `Restored TeamSpace note "${restoredNote.title}" from @Trash`,
+      before: { ...noteHistoryState(preview.note), parentId: moved.previousParent },
+      after: noteHistoryState(restoredNote),
+    });
     return {
       source: 'space',
       note: restoredNote,
@@ -1222,6 +1383,12 @@ export async function restoreNote(identifier: string, destinationFolder?: string
     throw new Error('Failed to read local note after restore');
   }
   invalidateListingCaches();
+  recordHistory({
+    operation: 'restore_note',
+    summary: `Restored ${preview.fromIdentifier} to ${restoredFilename}`,
+    before: noteHistoryState(preview.note),
+    after: noteHistoryState(restoredNote),
+  });
   return {
     source: 'local',
     note: restoredNote,
@@ -1240,6 +1407,10 @@ export async function previewRenameNoteFile(
   return {
     note,
     ...preview,
+    diffPreview: buildDiffPreview(note.content, note.content, {
+      fromLabel: preview.fromFilename,
+      toLabel: preview.toFilename,
+    }),
   };
 }
 
@@ -1255,6 +1426,12 @@ export async function renameNoteFile(
     throw new Error('Failed to read note after rename');
   }
   invalidateListingCaches();
+  recordHistory({
+    operation: 'rename_note',
+    summary: `Renamed ${preview.fromFilename} to ${preview.toFilename}`,
+    before: noteHistoryState(preview.note),
+    after: noteHistoryState(renamedNote),
+  });
   return {
     note: renamedNote,
     fromFilename: preview.fromFilename,
@@ -1281,6 +1458,12 @@ export async function renameSpaceNote(
     throw new Error('Failed to read note after rename');
   }
   invalidateListingCaches();
+  recordHistory({
+    operation: 'rename_note',
+    summary: `Renamed TeamSpace note "${fromTitle}" to "${newTitle}"`,
+    before: noteHistoryState(note),
+    after: noteHistoryState(renamedNote),
+  });
   return {
     note: renamedNote,
     fromTitle,
@@ -1288,6 +1471,131 @@ export async function renameSpaceNote(
   };
 }
 
+function readNoteUncached(note: Pick<Note, 'id' | 'filename' | 'source'>): Promise<Note | null> {
+  return note.source === 'space'
+    ? sqliteReader.getSpaceNote(note.id || note.filename)
+    : fileReader.readNoteFile(note.filename);
+}
+
+function summarizeWikiLinkRewrite(
+  fromTitle: string,
+  toTitle: string,
+  notes: WikiLinkRewriteNote[]
+): WikiLinkRewriteResult {
+  return {
+    fromTitle,
+    toTitle,
+    notes,
+    lineCount: notes.reduce((sum, n) => sum + n.changes.length, 0),
+    linkCount: notes.reduce((sum, n) => sum + n.changes.reduce((lineSum, c) => lineSum + c.linkCount, 0), 0),
+  };
+}
+
+function linkPosition(lineIndex: number, column: number): string {
+  return `${lineIndex}:${column}`;
+}
+
+/**
+ * Which notes (and lines) link to `target` as `[[fromTitle…]]` and would be
+ * rewritten to `toTitle`. Sources come from the link graph, so only links
+ * that actually resolve to `target` are counted; line content is re-read
+ * from disk/SQLite so the preview matches what applyWikiLinkRewrite writes.
+ */
+export async function previewWikiLinkRewrite(
+  target: Note,
+  fromTitle: string,
+  toTitle: string
+): Promise<WikiLinkRewriteResult> {
+  if (fromTitle.trim() === toTitle.trim()) {
+    return summarizeWikiLinkRewrite(fromTitle, toTitle, []);
+  }
+  const graph = await getLinkGraph();
+  const fromKey = normalizeLinkTarget(fromTitle);
+  // Positions of the links that resolved to `target`, per source note
+  const resolvedPositions = new Map<string, Set<string>>();
+  for (const resolved of graph.incoming.get(target.id) ?? []) {
+    if (normalizeLinkTarget(resolved.link.target) !== fromKey) continue;
+    const positions = resolvedPositions.get(resolved.sourceId) ?? new Set<string>();
+    positions.add(linkPosition(resolved.link.lineIndex, resolved.link.column));
+    resolvedPositions.set(resolved.sourceId, positions);
+  }
+
+  const notes: WikiLinkRewriteNote[] = [];
+  for (const [sourceId, positions] of resolvedPositions) {
+    const node = graph.nodes.get(sourceId);
+    if (!node) continue;
+    const source = await readNoteUncached(node);
+    if (!source) continue;
+    const rewritten = rewriteWikiLinkTargets(source.content, fromTitle, toTitle, (link) =>
+      positions.has(linkPosition(link.lineIndex, link.column))
+    );
+    if (rewritten.changes.length === 0) continue;
+    notes.push({
+      id: source.id,
+      title: source.title,
+      filename: source.filename,
+      source: source.source,
+      spaceId: source.spaceId,
+      changes: rewritten.changes,
+      // Per-note diffs stay small: a rename can touch many notes
+      diffPreview: buildDiffPreview(source.content, rewritten.content, {
+        label: source.filename,
+        context: 1,
+        maxLines: 40,
+      }),
+    });
+  }
+  notes.sort((a, b) => a.title.localeCompare(b.title));
+  return summarizeWikiLinkRewrite(fromTitle, toTitle, notes);
+}
+
+/**
+ * Apply a plan from previewWikiLinkRewrite without the NotePlan bridge:
+ * local notes through file-writer, space notes through sqlite-writer. The
+ * plan must be taken before the rename (afterwards nothing resolves the old
+ * title); pass `renamedNote` so the target's own self-links follow it.
+ * Each note is re-read first, so edits made since the preview are kept; only
+ * the links the plan found on lines still unchanged since then are rewritten.
+ */
+export async function applyWikiLinkRewrite(
+  plan: WikiLinkRewriteResult,
+  options: { targetId?: string; renamedNote?: Note } = {}
+): Promise<WikiLinkRewriteResult> {
+  const written: WikiLinkRewriteNote[] = [];
+
+  for (const planned of plan.notes) {
+    const ref = planned.id === options.targetId && options.renamedNote ? options.renamedNote : planned;
+    const current = await readNoteUncached(ref);
+    if (!current) continue;
+    const currentLines = current.content.split('\n');
+    const positions = new Set(
+      planned.changes
+        .filter((change) => currentLines[change.lineIndex] === change.before)
+        .flatMap((change) => change.columns.map((column) => linkPosition(change.lineIndex, column)))
+    );
+    const rewritten = rewriteWikiLinkTargets(current.content, plan.fromTitle, plan.toTitle, (link) =>
+      positions.has(linkPosition(link.lineIndex, link.column))
+    );
+    if (rewritten.changes.length === 0) continue;
+    if (current.source === 'space') {
+      sqliteWriter.updateSpaceNote(current.id || current.filename, rewritten.content);
+    } else {
+      await fileWriter.updateNote(current.filename, rewritten.content);
+    }
+    recordNoteUpdate(
+      current,
+      { ...current, content: rewritten.content },
+      `Rewrote [[${plan.fromTitle}]] links to [[${plan.toTitle}]] in ${current.filename}`
+    );
+    written.push({ ...planned, id: current.id, filename: current.filename, changes: rewritten.changes });
+  }
+
+  if (written.length > 0) {
+    invalidateListingCaches();
+  }
+  return summarizeWikiLinkRewrite(plan.fromTitle, plan.toTitle, written);
+}
+
 /**
  * Get today's daily note
  */
@@ -1634,6 +1942,20 @@ export async function createFolder(
       includeTrash: true,
     });
     invalidateListingCaches();
+    recordHistory({
+      operation: 'create_folder',
+      summary: `Created TeamSpace folder ${createdFolder.path}`,
+      before: null,
+      after: {
+        kind: 'folder',
+        source: 'space',
+        path: createdFolder.path,
+        id: createdFolder.id,
+        spaceId: preview.spaceId,
+        parentId: preview.parentId ?? null,
+        title: createdFolder.name,
+      },
+    });
     return {
       source: 'space',
       id: createdFolder.id,
@@ -1646,6 +1968,12 @@ export async function createFolder(
 
   const createdPath = await fileWriter.createFolder(options.path);
   invalidateListingCaches();
+  recordHistory({
+    operation: 'create_folder',
+    summary: `Created folder ${createdPath}`,
+    before: null,
+    after: localFolderHistoryState(createdPath),
+  });
   return {
     source: 'local',
     path: createdPath,
@@ -1711,12 +2039,32 @@ export async function moveFolder(
     if (preview.source !== 'space') {
       throw new Error('Invalid folder move state');
     }
-    sqliteWriter.moveSpaceFolder(preview.folderId, preview.destinationParentId);
+    const moveResult = sqliteWriter.moveSpaceFolder(preview.folderId, preview.destinationParentId);
     const moved = await resolveSpaceFolderReference(preview.spaceId, preview.folderId, {
       allowRoot: false,
       includeTrash: true,
     });
     invalidateListingCaches();
+    recordHistory({
+      operation: 'move_folder',
+      summary: `Moved TeamSpace folder ${preview.fromPath} to ${moved.path}`,
+      before: {
+        kind: 'folder',
+        source: 'space',
+        path: preview.fromPath,
+        id: preview.folderId,
+        spaceId: preview.spaceId,
+        parentId: moveResult.previousParent,
+      },
+      after: {
+        kind: 'folder',
+        source: 'space',
+        path: moved.path,
+        id: preview.folderId,
+        spaceId: preview.spaceId,
+        parentId: preview.destinationParentId,
+      },
+    });
     return {
       ...preview,
       toPath: moved.path,
@@ -1725,6 +2073,12 @@ export async function moveFolder(
 
   const moved = await fileWriter.moveLocalFolder(options.sourcePath, options.destinationFolder);
   invalidateListingCaches();
+  recordHistory({
+    operation: 'move_folder',
+    summary: `Moved folder ${moved.fromFolder} to ${moved.toFolder}`,
+    before: localFolderHistoryState(moved.fromFolder),
+    after: localFolderHistoryState(moved.toFolder),
+  });
   return {
     source: 'local',
     fromPath: moved.fromFolder,
@@ -1779,6 +2133,26 @@ export async function deleteFolder(
     }
     const deleted = sqliteWriter.deleteSpaceFolder(preview.folderId);
     invalidateListingCaches();
+    recordHistory({
+      operation: 'delete_folder',
+      summary: `Moved TeamSpace folder ${preview.fromPath} to @Trash`,
+      before: {
+        kind: 'folder',
+        source: 'space',
+        path: preview.fromPath,
+        id: preview.folderId,
+        spaceId: preview.spaceId,
+        parentId: deleted.previousParent,
+      },
+      after: {
+        kind: 'folder',
+        source: 'space',
+        path: `@Trash/${path.posix.basename(preview.fromPath)}`,
+        id: preview.folderId,
+        spaceId: preview.spaceId,
+        parentId: deleted.trashFolderId,
+      },
+    });
     return {
       source: 'space',
       spaceId: preview.spaceId,
@@ -1790,6 +2164,12 @@ export async function deleteFolder(
 
   const trashedPath = await fileWriter.deleteLocalFolder(options.path);
   invalidateListingCaches();
+  recordHistory({
+    operation: 'delete_folder',
+    summary: `Moved folder ${preview.fromPath} to @Trash`,
+    before: localFolderHistoryState(preview.fromPath),
+    after: localFolderHistoryState(trashedPath),
+  });
   return {
     source: 'local',
     fromPath: preview.fromPath,
@@ -1852,6 +2232,26 @@ export async function renameFolder(
       includeTrash: true,
     });
     invalidateListingCaches();
+    recordHistory({
+      operation: 'rename_folder',
+      summary: `Renamed TeamSpace folder ${preview.fromPath} to ${folder.path}`,
+      before: {
+        kind: 'folder',
+        source: 'space',
+        path: preview.fromPath,
+        id: preview.folderId,
+        spaceId: preview.spaceId,
+        title: renamed.previousTitle,
+      },
+      after: {
+        kind: 'folder',
+        source: 'space',
+        path: folder.path,
+        id: preview.folderId,
+        spaceId: preview.spaceId,
+        title: renamed.title,
+      },
+    });
     return {
       ...preview,
       toPath: folder.path,
@@ -1860,6 +2260,12 @@ export async function renameFolder(
 
   const renamed = await fileWriter.renameLocalFolder(options.sourcePath, options.newName);
   invalidateListingCaches();
+  recordHistory({
+    operation: 'rename_folder',
+    summary: `Renamed folder ${renamed.fromFolder} to ${renamed.toFolder}`,
+    before: localFolderHistoryState(renamed.fromFolder),
+    after: localFolderHistoryState(renamed.toFolder),
+  });
   return {
     source: 'local',
     fromPath: renamed.fromFolder,
@@ -1867,6 +2273,166 @@ export async function renameFolder(
   };
 }
 
+function requireHistoryState(state: HistoryState | null, entry: HistoryEntry): HistoryState {
+  if (!state) {
+    throw new Error(`History entry ${entry.id} is missing its snapshot and cannot be undone`);
+  }
+  return state;
+}
+
+function requireSpaceId(state: HistoryState): string {
+  if (!state.id) throw new Error('History entry is missing the TeamSpace ID');
+  return state.id;
+}
+
+function localParentFolder(notePath: string): string {
+  const parent = path.posix.dirname(notePath.replace(/\\/g, '/'));
+  return parent === '.' || parent === '' ? 'Notes' : parent;
+}
+
+/**
+ * Check that a history entry can still be undone: not undone already, and
+ * (for note creations and content edits) the note still holds exactly what
+ * the write produced, so undo never clobbers edits made afterwards. Undo
+ * newer entries first.
+ */
+export async function previewUndoHistoryEntry(entry: HistoryEntry): Promise<void> {
+  if (entry.undoneAt) {
+    throw new Error(`History entry ${entry.id} was already undone at ${entry.undoneAt}`);
+  }
+  if (entry.operation !== 'create_note' && entry.operation !== 'update_note') return;
+
+  const after = requireHistoryState(entry.after, entry);
+  const current = after.source === 'space'
+    ? await sqliteReader.getSpaceNote(requireSpaceId(after))
+    : await fileReader.readNoteFile(after.path);
+  if (!current) {
+    throw new Error(`Note not found: ${after.path} (moved or deleted since ${entry.id}; undo the later operations first)`);
+  }
+  if (after.contentHash && hashContent(current.content) !== after.contentHash) {
+    throw new Error(
+      `Conflict: ${after.path} has changed since ${entry.id}. Undo the later operations on this note first.`
+    );
+  }
+}
+
+/**
+ * Revert one journaled write by replaying its inverse directly through the
+ * writers (so the undo itself is not journaled), then mark the entry undone.
+ */
+export async function undoHistoryEntry(entry: HistoryEntry): Promise<void> {
+  await previewUndoHistoryEntry(entry);
+  const before = entry.before;
+  const after = entry.after;
+
+  switch (entry.operation) {
+    case 'create_note': {
+      const created = requireHistoryState(after, entry);
+      if (created.source === 'space') {
+        sqliteWriter.deleteSpaceNote(requireSpaceId(created));
+      } else {
+        await fileWriter.deleteNote(created.path);
+      }
+      break;
+    }
+    case 'update_note': {
+      const prior = requireHistoryState(before, entry);
+      const current = requireHistoryState(after, entry);
+      if (prior.content === undefined) {
+        throw new Error(`History entry ${entry.id} has no content snapshot`);
+      }
+      if (current.source === 'space') {
+        sqliteWriter.updateSpaceNote(requireSpaceId(current), prior.content);
+      } else {
+        await fileWriter.updateNote(current.path, prior.content);
+      }
+      break;
+    }
+    case 'delete_note':
+    case 'move_note': {
+      const prior = requireHistoryState(before, entry);
+      const current = requireHistoryState(after, entry);
+      if (current.source === 'space') {
+        if (!prior.parentId) throw new Error('History entry is missing the original TeamSpace folder');
+        if (entry.operation === 'delete_note') {
+          sqliteWriter.restoreSpaceNote(requireSpaceId(current), prior.parentId);
+        } else {
+          sqliteWriter.moveSpaceNote(requireSpaceId(current), prior.parentId);
+        }
+        break;
+      }
+      const moved = entry.operation === 'delete_note'
+        ? await fileWriter.restoreLocalNoteFromTrash(current.path, localParentFolder(prior.path))
+        : await fileWriter.moveLocalNote(current.path, localParentFolder(prior.path));
+      // Trash collisions add a -1 suffix; put the original filename back
+      if (path.basename(moved) !== path.basename(prior.path)) {
+        await fileWriter.renameLocalNoteFile(moved, path.basename(prior.path), false);
+      }
+      break;
+    }
+    case 'restore_note': {
+      const prior = requireHistoryState(before, entry);
+      const current = requireHistoryState(after, entry);
+      if (current.source === 'space') {
+        sqliteWriter.deleteSpaceNote(requireSpaceId(current));
+      } else {
+        await fileWriter.moveLocalNote(current.path, localParentFolder(prior.path));
+      }
+      break;
+    }
+    case 'rename_note': {
+      const prior = requireHistoryState(before, entry);
+      const current = requireHistoryState(after, entry);
+      if (current.source === 'space') {
+        sqliteWriter.updateSpaceNoteTitle(requireSpaceId(current), prior.title ?? '');
+      } else {
+        await fileWriter.renameLocalNoteFile(current.path, path.basename(prior.path), false);
+      }
+      break;
+    }
+    case 'create_folder': {
+      const created = requireHistoryState(after, entry);
+      if (created.source === 'space') {
+        sqliteWriter.deleteSpaceFolder(requireSpaceId(created));
+      } else {
+        await fileWriter.deleteLocalFolder(created.path);
+      }
+      break;
+    }
+    case 'move_folder':
+    case 'delete_folder': {
+      const prior = requireHistoryState(before, entry);
+      const current = requireHistoryState(after, entry);
+      if (current.source === 'space') {
+        if (!prior.parentId) throw new Error('History entry is missing the original TeamSpace parent folder');
+        sqliteWriter.moveSpaceFolder(requireSpaceId(current), prior.parentId);
+        break;
+      }
+      const parent = path.posix.dirname(prior.path);
+      const moved = await fileWriter.moveLocalFolder(current.path, parent === '.' ? 'Notes' : parent);
+      if (path.posix.basename(moved.toFolder) !== path.posix.basename(prior.path)) {
+        await fileWriter.renameLocalFolder(moved.toFolder, path.posix.basename(prior.path));
+      }
+      break;
+    }
+    case 'rename_folder': {
+      const prior = requireHistoryState(before, entry);
+      const current = requireHistoryState(after, entry);
+      if (current.source === 'space') {
+        sqliteWriter.renameSpaceFolder(requireSpaceId(current), prior.title ?? path.posix.basename(prior.path));
+      } else {
+        await fileWriter.renameLocalFolder(current.path, path.posix.basename(prior.path));
+      }
+      break;
+    }
+    default:
+      throw new Error(`Unsupported history operation: ${(entry as HistoryEntry).operation}`);
+  }
+
+  invalidateListingCaches();
+  markHistoryEntryUndone(entry.id);
+}
+
 /**
  * List all tags
  */
@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  addToIvfIndex,
+  ivfCandidates,
+  packVector,
+  readIvfIndex,
+  removeFromIvfIndex,
+  trainIvfIndex,
+  unpackVector,
+  writeIvfIndex,
+} from './vector-index.js';
+
+// Points scattered around `clusters` well-separated directions in 8 dimensions
+function clusteredVectors(clusters: number, perCluster: number) {
+  const entries: Array<{ id: number; vector: number[] }> = [];
+  for (let c = 0; c < clusters; c += 1) {
+    for (let i = 0; i < perCluster; i += 1) {
+      const vector = Array.from({ length: 8 }, (_, d) => (d === c ? 1 : 0) + (((i * 7 + d * 3) % 11) - 5) / 100);
+      entries.push({ id: c * 1000 + i, vector });
+    }
+  }
+  return entries;
+}
+
+describe('packVector', () => {
+  it('round-trips float32 exactly and int8 within quantization error', () => {
+    const vector = [0.5, -0.25, 0.125, -1, 0];
+    expect(Array.from(unpackVector(packVector(vector, 'float32').blob, null))).toEqual(vector);
+
+    const int8 = packVector(vector, 'int8');
+    expect(int8.blob.length).toBe(vector.length);
+    const restored = unpackVector(int8.blob, int8.scale);
+    restored.forEach((value, i) => expect(value).toBeCloseTo(vector[i], 2));
+  });
+});
+
+describe('IVF index', () => {
+  const indexPath = path.join(os.tmpdir(), `noteplan-ivf-${process.pid}.json`);
+
+  afterEach(() => {
+    fs.rmSync(indexPath, { force: true });
+  });
+
+  it('probes the clusters nearest the query and tracks incremental updates', () => {
+    const index = trainIvfIndex(clusteredVectors(4, 25), 'local:test')!;
+    expect(index.centroids.length).toBe(10);
+    expect(index.assignments.size).toBe(100);
+
+    const query = [0, 0, 1, 0, 0, 0, 0, 0];
+    const candidates = new Set(ivfCandidates(index, query, 1));
+    expect(candidates.size).toBeGreaterThan(0);
+    expect([...candidates].every((id) => Math.floor(id / 1000) === 2)).toBe(true);
+
+    addToIvfIndex(index, 9999, query);
+    expect(ivfCandidates(index, query, 1)).toContain(9999);
+    removeFromIvfIndex(index, [9999, 2000]);
+    expect(index.assignments.has(9999)).toBe(false);
+    expect(index.assignments.has(2000)).toBe(false);
+    expect(ivfCandidates(index, [1, 2, 3], 1)).toEqual([]);
+  });
+
+  it('persists and reloads the index', () => {
+    const index = trainIvfIndex(clusteredVectors(3, 10), 'openai:text-embedding-3-small')!;
+    writeIvfIndex(indexPath, index);
+    const loaded = readIvfIndex(indexPath)!;
+
+    expect(loaded.modelKey).toBe('openai:text-embedding-3-small');
+    expect(loaded.assignments).toEqual(index.assignments);
+    expect(loaded.centroids.map((c) => Array.from(c))).toEqual(index.centroids.map((c) => Array.from(c)));
+
+    fs.writeFileSync(indexPath, 'not json');
+    expect(readIvfIndex(indexPath)).toBeNull();
+  });
+});
@@ -0,0 +1,256 @@
+// Packed vector storage and an IVF (inverted file) approximate-nearest-neighbour
+// index for the embeddings database.
+//
+// Vectors are stored in the chunks table as blobs: raw little-endian float32,
+// or int8 with a per-vector scale (same encoding as the template docs DB, see
+// dequantizeInt8). The IVF index clusters chunk vectors around k-means
+// centroids; a search compares the query with the centroids, then only scores
+// the chunks in the closest few clusters. The index only holds chunk IDs and
+// centroids — vectors stay in SQLite — and is persisted as JSON next to the
+// database. Chunks are added to / removed from their nearest cluster as notes
+// are re-embedded; the centroids are retrained when the index has grown well
+// past the size it was trained on.
+
+import * as fs from 'fs';
+
+export type VectorFormat = 'float32' | 'int8';
+
+export type IvfIndex = {
+  modelKey: string;
+  dim: number;
+  centroids: Float32Array[];
+  lists: Set<number>[];
+  /** chunk id -> list index */
+  assignments: Map<number, number>;
+  trainedSize: number;
+  trainedAt: string;
+};
+
+type SerializedIvfIndex = {
+  version: 1;
+  modelKey: string;
+  dim: number;
+  centroids: string[]; // base64 float32
+  lists: number[][];
+  trainedSize: number;
+  trainedAt: string;
+};
+
+/** Below this many chunks an exhaustive scan is fast enough and exact. */
+export const IVF_MIN_VECTORS = 2000;
+const KMEANS_ITERATIONS = 8;
+const TRAINING_SAMPLES_PER_LIST = 40;
+
+// ── Packing ──
+
+export function packVector(vector: ArrayLike<number>, format: VectorFormat): { blob: Uint8Array; scale: number | null } {
+  if (format === 'int8') {
+    let scale = 0;
+    for (let i = 0; i < vector.length; i += 1) scale = Math.max(scale, Math.abs(vector[i]));
+    const blob = new Uint8Array(vector.length);
+    for (let i = 0; i < vector.length; i += 1) {
+      const q = scale > 0 ? Math.round((vector[i] / scale) * 127) : 0;
+      blob[i] = Math.max(1, Math.min(255, q + 128));
+    }
+    return { blob, scale };
+  }
+  const floats = Float32Array.from(vector);
+  return { blob: new Uint8Array(floats.buffer), scale: null };
+}
+
+/** Inverse of packVector; a null scale means float32. */
+export function unpackVector(blob: Uint8Array, scale: number | null): Float32Array {
+  if (scale !== null && scale !== undefined) {
+    const result = new Float32Array(blob.length);
+    for (let i = 0; i < blob.length; i += 1) result[i] = ((blob[i] - 128) / 127) * scale;
+    return result;
+  }
+  // Copy so the view is 4-byte aligned whatever buffer SQLite handed back
+  const copy = new Uint8Array(blob.length - (blob.length % 4));
+  copy.set(blob.subarray(0, copy.length));
+  return new Float32Array(copy.buffer);
+}
+
+// ── Similarity ──
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i += 1) norm += vector[i] * vector[i];
+  const result = Float32Array.from(vector);
+  if (norm > 0) {
+    const inv = 1 / Math.sqrt(norm);
+    for (let i = 0; i < result.length; i += 1) result[i] *= inv;
+  }
+  return result;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i += 1) sum += a[i] * b[i];
+  return sum;
+}
+
+function nearestCentroid(centroids: Float32Array[], vector: Float32Array): number {
+  let best = 0;
+  let bestScore = -Infinity;
+  for (let c = 0; c < centroids.length; c += 1) {
+    const score = dot(centroids[c], vector);
+    if (score > bestScore) {
+      bestScore = score;
+      best = c;
+    }
+  }
+  return best;
+}
+
+// ── Training ──
+
+/** Deterministic sample so rebuilding the same data gives the same index. */
+function sampleEvenly<T>(items: T[], count: number): T[] {
+  if (items.length <= count) return items;
+  const step = items.length / count;
+  return Array.from({ length: count }, (_, i) => items[Math.floor(i * step)]);
+}
+
+/**
+ * Spherical k-means over (a sample of) the vectors, then assign every vector
+ * to its nearest centroid. Uses sqrt(n) lists.
+ */
+export function trainIvfIndex(
+  entries: Array<{ id: number; vector: ArrayLike<number> }>,
+  modelKey: string
+): IvfIndex | null {
+  if (entries.length === 0) return null;
+  const dim = entries[0].vector.length;
+  const usable = entries.filter((entry) => entry.vector.length === dim);
+  const normalized = usable.map((entry) => ({ id: entry.id, vector: normalize(entry.vector) }));
+  const listCount = Math.max(1, Math.round(Math.sqrt(normalized.length)));
+
+  const sample = sampleEvenly(normalized, listCount * TRAINING_SAMPLES_PER_LIST).map((entry) => entry.vector);
+  let centroids: Float32Array[] = sampleEvenly(sample, listCount).map((vector) => Float32Array.from(vector));
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration += 1) {
+    const sums = centroids.map(() => new Float32Array(dim));
+    const counts = new Array<number>(centroids.length).fill(0);
+    for (const vector of sample) {
+      const c = nearestCentroid(centroids, vector);
+      counts[c] += 1;
+      const sum = sums[c];
+      for (let i = 0; i < dim; i += 1) sum[i] += vector[i];
+    }
+    // An empty cluster keeps its previous centroid
+    centroids = sums.map((sum, c) => (counts[c] > 0 ? normalize(sum) : centroids[c]));
+  }
+
+  const index: IvfIndex = {
+    modelKey,
+    dim,
+    centroids,
+    lists: centroids.map(() => new Set<number>()),
+    assignments: new Map(),
+    trainedSize: normalized.length,
+    trainedAt: new Date().toISOString(),
+  };
+  for (const entry of normalized) addNormalized(index, entry.id, entry.vector);
+  return index;
+}
+
+// ── Incremental updates ──
+
+function addNormalized(index: IvfIndex, id: number, vector: Float32Array): void {
+  removeFromIvfIndex(index, [id]);
+  const list = nearestCentroid(index.centroids, vector);
+  index.lists[list].add(id);
+  index.assignments.set(id, list);
+}
+
+export function addToIvfIndex(index: IvfIndex, id: number, vector: ArrayLike<number>): void {
+  if (vector.length !== index.dim) return;
+  addNormalized(index, id, normalize(vector));
+}
+
+export function removeFromIvfIndex(index: IvfIndex, ids: Iterable<number>): void {
+  for (const id of ids) {
+    const list = index.assignments.get(id);
+    if (list === undefined) continue;
+    index.lists[list].delete(id);
+    index.assignments.delete(id);
+  }
+}
+
+/** The centroids no longer describe the data well once it has grown this much. */
+export function ivfNeedsRetraining(index: IvfIndex): boolean {
+  return index.assignments.size > index.trainedSize * 4;
+}
+
+// ── Search ──
+
+/**
+ * Chunk IDs in the `probes` lists whose centroids are closest to the query.
+ * Default probes cover ~10% of the lists (at least 8).
+ */
+export function ivfCandidates(index: IvfIndex, query: ArrayLike<number>, probes?: number): number[] {
+  if (query.length !== index.dim) return [];
+  const normalized = normalize(query);
+  const nprobe = Math.min(
+    index.centroids.length,
+    Math.max(1, Math.floor(probes ?? Math.max(8, Math.ceil(index.centroids.length * 0.1))))
+  );
+  const ranked = index.centroids
+    .map((centroid, list) => ({ list, score: dot(centroid, normalized) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, nprobe);
+  return ranked.flatMap(({ list }) => Array.from(index.lists[list]));
+}
+
+// ── Persistence ──
+
+function encodeFloats(vector: Float32Array): string {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64');
+}
+
+function decodeFloats(text: string): Float32Array {
+  return unpackVector(new Uint8Array(Buffer.from(text, 'base64')), null);
+}
+
+export function writeIvfIndex(filePath: string, index: IvfIndex): void {
+  const serialized: SerializedIvfIndex = {
+    version: 1,
+    modelKey: index.modelKey,
+    dim: index.dim,
+    centroids: index.centroids.map(encodeFloats),
+    lists: index.lists.map((list) => Array.from(list)),
+    trainedSize: index.trainedSize,
+    trainedAt: index.trainedAt,
+  };
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(serialized));
+  fs.renameSync(tmpPath, filePath);
+}
+
+/** Load a persisted index; null when missing or unreadable (callers rebuild). */
+export function readIvfIndex(filePath: string): IvfIndex | null {
+  try {
+    if (!fs.existsSync(filePath)) return null;
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as SerializedIvfIndex;
+    if (parsed.version !== 1 || !Array.isArray(parsed.centroids) || !Array.isArray(parsed.lists)) return null;
+    const index: IvfIndex = {
+      modelKey: parsed.modelKey,
+      dim: parsed.dim,
+      centroids: parsed.centroids.map(decodeFloats),
+      lists: parsed.lists.map((list) => new Set(list)),
+      assignments: new Map(),
+      trainedSize: parsed.trainedSize,
+      trainedAt: parsed.trainedAt,
+    };
+    index.lists.forEach((list, listIndex) => {
+      for (const id of list) index.assignments.set(id, listIndex);
+    });
+    return index;
+  } catch {
+    return null;
+  }
+}
+
+export function deleteIvfIndex(filePath: string): void {
+  fs.rmSync(filePath, { force: true });
+}
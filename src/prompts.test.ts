@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('./tools/calendar.js', () => ({
+  getToday: vi.fn(),
+  getPeriodicNote: vi.fn(),
+  getNotesInFolder: vi.fn(),
+}));
+vi.mock('./tools/events.js', () => ({
+  getEvents: vi.fn(),
+}));
+vi.mock('./tools/templates.js', () => ({
+  listTemplates: vi.fn(),
+}));
+vi.mock('./noteplan/unified-store.js', () => ({
+  getNote: vi.fn(async () => null),
+}));
+
+import * as calendarTools from './tools/calendar.js';
+import * as eventTools from './tools/events.js';
+import * as templateTools from './tools/templates.js';
+import * as store from './noteplan/unified-store.js';
+import { getPrompt, listPrompts } from './prompts.js';
+
+function promptText(result: Awaited<ReturnType<typeof getPrompt>>): string {
+  return result.messages.map((message) => message.content.text).join('\n');
+}
+
+describe('prompts', () => {
+  beforeEach(() => {
+    vi.mocked(eventTools.getEvents).mockReturnValue({
+      success: true,
+      startDate: '2026-03-17',
+      endDate: '2026-03-17',
+      events: [{ title: 'Design review', startDate: '2026-03-17 10:00', endDate: '2026-03-17 11:00', calendar: 'Work' }],
+    } as any);
+  });
+
+  it('lists every prompt with its arguments', () => {
+    expect(listPrompts().map((prompt) => prompt.name)).toEqual([
+      'plan_day',
+      'weekly_review',
+      'meeting_notes',
+      'inbox_triage',
+    ]);
+    const meeting = listPrompts().find((prompt) => prompt.name === 'meeting_notes')!;
+    expect(meeting.arguments.find((arg) => arg.name === 'meeting')?.required).toBe(true);
+  });
+
+  it("embeds today's note and events in plan_day, and reports unavailable calendars", async () => {
+    vi.mocked(calendarTools.getToday).mockResolvedValue({
+      success: true,
+      note: { title: '2026-03-17', filename: 'Calendar/20260317.md', content: '* [ ] Write report', type: 'calendar' },
+    } as any);
+
+    const text = promptText(await getPrompt('plan_day', { focus: 'deep work' }));
+    expect(text).toContain('Calendar/20260317.md');
+    expect(text).toContain('* [ ] Write report');
+    expect(text).toContain('- 2026-03-17 10:00 – 2026-03-17 11:00: Design review [Work]');
+    expect(text).toContain('My focus today: deep work');
+
+    vi.mocked(eventTools.getEvents).mockReturnValue({ success: false, error: 'Calendar access denied' } as any);
+    expect(promptText(await getPrompt('plan_day'))).toContain('Calendar events unavailable: Calendar access denied');
+  });
+
+  it('reviews the requested week without creating it', async () => {
+    vi.mocked(calendarTools.getPeriodicNote).mockResolvedValue({ success: false, displayName: 'Week 11, 2026' } as any);
+
+    const text = promptText(await getPrompt('weekly_review', { week: '11', year: '2026' }));
+    expect(calendarTools.getPeriodicNote).toHaveBeenCalledWith({ type: 'weekly', week: 11, year: 2026 }, { autoCreate: false });
+    expect(text).toContain('No week note found for Week 11, 2026');
+    await expect(getPrompt('weekly_review', { week: 'eleven' })).rejects.toThrow(/whole number/);
+  });
+
+  it('picks a meeting template and embeds its full content', async () => {
+    vi.mocked(templateTools.listTemplates).mockResolvedValue({
+      templates: [
+        { title: 'Daily', filename: '@Templates/Daily.md', type: 'empty-note', preview: '' },
+        { title: 'Team meeting', filename: '@Templates/Team meeting.md', type: 'meeting-note', preview: '## Attendees' },
+      ],
+    } as any);
+    vi.mocked(store.getNote).mockResolvedValue({ content: '## Attendees\n## Notes\n## Action items' } as any);
+
+    const text = promptText(await getPrompt('meeting_notes', { meeting: 'Roadmap sync' }));
+    expect(store.getNote).toHaveBeenCalledWith({ filename: '@Templates/Team meeting.md' });
+    expect(text).toContain('"Roadmap sync"');
+    expect(text).toContain('## Action items');
+
+    await expect(getPrompt('meeting_notes', {})).rejects.toThrow(/requires: meeting/);
+    await expect(getPrompt('nope')).rejects.toThrow(/Unknown prompt/);
+  });
+
+  it('lists the inbox folder with previews', async () => {
+    vi.mocked(calendarTools.getNotesInFolder).mockResolvedValue({
+      success: true,
+      folder: 'Inbox',
+      noteCount: 1,
+      totalInFolder: 1,
+      offset: 0,
+      limit: 50,
+      hasMore: false,
+      nextCursor: null,
+      notes: [{ title: 'Idea', filename: 'Notes/Inbox/Idea.md', modifiedAt: '2026-03-18T09:00:00.000Z', preview: 'Try a new layout' }],
+    });
+
+    const text = promptText(await getPrompt('inbox_triage'));
+    expect(calendarTools.getNotesInFolder).toHaveBeenCalledWith(
+      expect.objectContaining({ folder: 'Inbox', includeContent: false })
+    );
+    expect(text).toContain('### Idea (Notes/Inbox/Idea.md)\nTry a new layout');
+  });
+});
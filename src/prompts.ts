@@ -0,0 +1,195 @@
+// MCP prompts for common NotePlan workflows.
+//
+// Each prompt gathers live context through the same functions the tools use
+// (today's note, periodic notes, templates, calendar events, folder
+// listings) and embeds it in the prompt messages, so the client starts with
+// the data instead of spending tool calls on it. Context that can't be
+// loaded (e.g. calendar access on a machine without NotePlan) is reported in
+// the prompt rather than failing it.
+
+import * as calendarTools from './tools/calendar.js';
+import * as eventTools from './tools/events.js';
+import * as templateTools from './tools/templates.js';
+import * as store from './noteplan/unified-store.js';
+
+type PromptArgument = { name: string; description: string; required?: boolean };
+
+type PromptMessage = { role: 'user' | 'assistant'; content: { type: 'text'; text: string } };
+
+type PromptDefinition = {
+  name: string;
+  title: string;
+  description: string;
+  arguments: PromptArgument[];
+  build: (args: Record<string, string | undefined>) => Promise<PromptMessage[]>;
+};
+
+const MAX_INBOX_NOTES = 50;
+const MAX_EVENTS = 50;
+
+function userMessage(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+function section(title: string, body: string): string {
+  return `## ${title}\n\n${body.trim() || '(empty)'}`;
+}
+
+function noteBlock(label: string, filename: string, content: string): string {
+  return section(`${label} (${filename})`, `\`\`\`markdown\n${content}\n\`\`\``);
+}
+
+function parseOptionalInt(value: string | undefined, name: string): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new Error(`Prompt argument "${name}" must be a whole number, got "${value}"`);
+  }
+  return parsed;
+}
+
+async function eventsSection(date: string): Promise<string> {
+  const result = eventTools.getEvents({ date, days: 1, limit: MAX_EVENTS, offset: 0 });
+  if (!result.success) {
+    return section('Calendar events', `Calendar events unavailable: ${result.error}`);
+  }
+  const events = (result.events ?? []) as Array<Record<string, unknown>>;
+  if (events.length === 0) return section('Calendar events', 'No events.');
+  const lines = events.map((event) => {
+    const when = event.isAllDay ? 'all day' : `${event.startDate ?? '?'} – ${event.endDate ?? '?'}`;
+    const where = event.location ? ` @ ${event.location}` : '';
+    return `- ${when}: ${event.title ?? '(untitled)'}${where}${event.calendar ? ` [${event.calendar}]` : ''}`;
+  });
+  return section('Calendar events', lines.join('\n'));
+}
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'plan_day',
+    title: 'Plan my day',
+    description: "Plan the day from today's note and calendar events",
+    arguments: [
+      { name: 'space', description: 'Space name or ID for the daily note (default: local notes)' },
+      { name: 'focus', description: 'Optional focus or constraints for the day' },
+    ],
+    build: async (args) => {
+      const today = await calendarTools.getToday({ space: args.space });
+      const parts = [
+        "Help me plan today. Review today's note and calendar below, then propose a realistic schedule: fit open tasks around the events, flag anything overdue or over-committed, and suggest what to defer.",
+        args.focus ? `My focus today: ${args.focus}` : '',
+        today.success && today.note
+          ? noteBlock(`Today's note — ${today.note.displayDate ?? today.note.date ?? ''}`.trim(), today.note.filename, today.note.content)
+          : section("Today's note", `Could not load today's note: ${today.error}`),
+        await eventsSection('today'),
+        'When I agree to the plan, add it to today\'s note with noteplan_edit_content (for example as time blocks under a "Plan" heading) and use noteplan_paragraphs to reschedule deferred tasks.',
+      ];
+      return [userMessage(parts.filter(Boolean).join('\n\n'))];
+    },
+  },
+  {
+    name: 'weekly_review',
+    title: 'Weekly review',
+    description: 'Review a week note: what got done, what slipped, and priorities for next week',
+    arguments: [
+      { name: 'week', description: 'ISO week number (default: current week)' },
+      { name: 'year', description: 'Year for the week (default: current year)' },
+    ],
+    build: async (args) => {
+      const week = parseOptionalInt(args.week, 'week');
+      const year = parseOptionalInt(args.year, 'year');
+      const weekNote = await calendarTools.getPeriodicNote({ type: 'weekly', week, year }, { autoCreate: false });
+      const parts = [
+        'Run a weekly review with me. Using the week note below, summarise what got done, list open tasks that slipped, spot recurring themes, and propose the top priorities for next week.',
+        weekNote.success && weekNote.note
+          ? noteBlock(`Week note — ${weekNote.note.displayName}`, weekNote.note.filename, weekNote.note.content)
+          : section('Week note', `No week note found${weekNote.displayName ? ` for ${weekNote.displayName}` : ''}.`),
+        "For the week's daily notes use noteplan_get_notes / noteplan_search; write the review into the week note with noteplan_edit_content once I've confirmed it.",
+      ];
+      return [userMessage(parts.join('\n\n'))];
+    },
+  },
+  {
+    name: 'meeting_notes',
+    title: 'Capture meeting notes',
+    description: 'Draft meeting notes from a NotePlan template and the day\'s calendar events',
+    arguments: [
+      { name: 'meeting', description: 'Meeting name or topic', required: true },
+      { name: 'template', description: 'Template title to follow (default: first meeting-note template)' },
+      { name: 'notes', description: 'Raw notes or transcript to structure' },
+    ],
+    build: async (args) => {
+      const listed = await templateTools.listTemplates({ action: 'list', limit: 200, offset: 0 });
+      const templates = listed.templates;
+      const wanted = args.template?.trim().toLowerCase();
+      const template = wanted
+        ? templates.find((entry) => entry.title.toLowerCase() === wanted)
+        : templates.find((entry) => String(entry.type ?? '').includes('meeting-note')) ??
+          templates.find((entry) => /meeting/i.test(entry.title));
+      // The listing only carries a preview; embed the whole template
+      const templateNote = template ? await store.getNote({ filename: template.filename }) : null;
+
+      const parts = [
+        `Help me capture notes for the meeting "${args.meeting}". Structure them with the template below (fill its sections; don't leave template syntax in the result), pull attendees and time from the matching calendar event if there is one, and list action items as tasks.`,
+        template
+          ? noteBlock(`Template — ${template.title}`, template.filename, templateNote?.content ?? template.preview)
+          : section('Template', wanted
+            ? `No template titled "${args.template}". Available: ${templates.map((entry) => entry.title).join(', ') || 'none'}.`
+            : 'No meeting-note template found; use a simple Attendees / Notes / Action items layout.'),
+        await eventsSection('today'),
+        args.notes ? section('My raw notes', args.notes) : '',
+        "Create the meeting note with noteplan_manage_note (or noteplan_templates action \"render\" for templates with dynamic tags) when I'm happy with it.",
+      ];
+      return [userMessage(parts.filter(Boolean).join('\n\n'))];
+    },
+  },
+  {
+    name: 'inbox_triage',
+    title: 'Triage inbox',
+    description: 'Triage the notes in an inbox folder: file, merge, turn into tasks, or delete',
+    arguments: [
+      { name: 'folder', description: 'Folder to triage (default: Inbox)' },
+      { name: 'space', description: 'Space name or ID (default: local notes)' },
+    ],
+    build: async (args) => {
+      const folder = args.folder?.trim() || 'Inbox';
+      const listed = await calendarTools.getNotesInFolder({
+        folder,
+        space: args.space,
+        limit: MAX_INBOX_NOTES,
+        offset: 0,
+        // Previews (frontmatter stripped, 200 chars) keep 50 notes in budget
+        includeContent: false,
+      });
+      const notes = listed.success ? listed.notes ?? [] : [];
+      const listing = notes.length > 0
+        ? notes.map((note) => `### ${note.title} (${note.filename})\n${note.preview ?? ''}`).join('\n\n')
+        : listed.success
+          ? 'The folder is empty.'
+          : `Could not list the folder: ${listed.error}`;
+      const parts = [
+        `Help me triage the notes in "${folder}". For each note suggest one action — move it to a project folder, merge it into an existing note, turn it into tasks (and where), or delete it — with a one-line reason. Group the suggestions by action.`,
+        section(`Notes in ${folder}${listed.success && listed.hasMore ? ` (first ${notes.length} of ${listed.totalInFolder})` : ''}`, listing),
+        'Wait for my go-ahead, then apply it with noteplan_manage_note (move/delete) and noteplan_edit_content. Deletes and moves need a dryRun first.',
+      ];
+      return [userMessage(parts.join('\n\n'))];
+    },
+  },
+];
+
+/** Prompt metadata for prompts/list. */
+export function listPrompts() {
+  return PROMPTS.map(({ name, title, description, arguments: args }) => ({ name, title, description, arguments: args }));
+}
+
+/** Build a prompt's messages with live context; throws for unknown prompts or missing arguments. */
+export async function getPrompt(name: string, args: Record<string, string | undefined> = {}) {
+  const prompt = PROMPTS.find((entry) => entry.name === name);
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${name}. Available: ${PROMPTS.map((entry) => entry.name).join(', ')}`);
+  }
+  const missing = prompt.arguments.filter((arg) => arg.required && !args[arg.name]?.trim()).map((arg) => arg.name);
+  if (missing.length > 0) {
+    throw new Error(`Prompt "${name}" requires: ${missing.join(', ')}`);
+  }
+  return { description: prompt.description, messages: await prompt.build(args) };
+}
@@ -4,9 +4,14 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import * as fs from 'fs';
 import * as os from 'os';
@@ -24,20 +29,55 @@ import * as eventTools from './tools/events.js';
 import * as reminderTools from './tools/reminders.js';
 import * as embeddingsTools from './tools/embeddings.js';
 import * as memoryTools from './tools/memory.js';
+import * as historyTools from './tools/history.js';
+import * as auditTools from './tools/audit.js';
 import * as uiTools from './tools/ui.js';
 import * as pluginTools from './tools/plugins.js';
 import * as themeTools from './tools/themes.js';
 import * as templateTools from './tools/templates.js';
 import * as attachmentTools from './tools/attachments.js';
+import * as linkTools from './tools/links.js';
+import * as importTools from './tools/import.js';
+import * as exportTools from './tools/export.js';
+import * as rolloverTools from './tools/rollover.js';
+import { getPrompt, listPrompts } from './prompts.js';
 import { parseFlexibleDate } from './utils/date-utils.js';
+import { isAuditLogEnabled, recordToolCall } from './utils/audit-log.js';
+import {
+  describePermissionPolicy,
+  evaluatePolicy,
+  evaluatePolicyForActions,
+  getPermissionPolicyStatus,
+  hasSpacePolicyRules,
+  setCallDryRunMode,
+  withPolicyCallScope,
+} from './utils/permission-policy.js';
 import { upgradeMessage, getNotePlanVersion, getMcpServerVersion, MIN_BUILD_ADVANCED_FEATURES, MIN_BUILD_CREATE_BACKUP } from './utils/version.js';
-import { isReadOnly, isSkipDryRun, shouldAutoLaunchNotePlan } from './utils/server-config.js';
+import {
+  isReadOnly,
+  isSkipDryRun,
+  shouldAutoLaunchNotePlan,
+  getTransportMode,
+  getHttpPort,
+  getHttpSessionIdleMs,
+  getHttpToken,
+  type TransportMode,
+} from './utils/server-config.js';
 import { initSqlite } from './noteplan/sqlite-loader.js';
+import { startEmbeddingsWatcher } from './noteplan/embeddings-watcher.js';
+import {
+  NOTE_RESOURCE_TEMPLATES,
+  createNoteResourceSubscriptions,
+  listNoteResources,
+  parseNoteResourceUri,
+  readNoteResource,
+} from './noteplan/note-resources.js';
 import { getDatabase, getDatabasePath, listSpaces as listSpacesFromDb } from './noteplan/sqlite-reader.js';
 import { primeConfigFromBridge } from './noteplan/file-reader.js';
 import { primePreferencesFromBridge } from './noteplan/preferences.js';
 import { getBridgeClient } from './transport/bridge-availability.js';
 import { withBackendTracking, getCurrentBackends } from './transport/bridge-context.js';
+import { startHttpTransport } from './transport/http-server.js';
 
 type ToolDefinition = {
   name: string;
@@ -133,6 +173,7 @@ const NOTE_OUTPUT_SCHEMA = outputSchemaWithErrors({
   contentIncluded: { type: 'boolean' },
   contentLength: { type: 'number' },
   lineCount: { type: 'number' },
+  contentHash: { type: 'string' },
   preview: { type: 'string' },
   previewTruncated: { type: 'boolean' },
   rangeStartLine: { type: 'number' },
@@ -237,6 +278,8 @@ function getToolOutputSchema(toolName: string): Record<string, unknown> {
     case 'noteplan_filters':
     case 'noteplan_eventkit':
     case 'noteplan_memory':
+    case 'noteplan_history':
+    case 'noteplan_audit':
     case 'noteplan_ui':
     case 'noteplan_plugins':
     case 'noteplan_themes':
@@ -293,6 +336,25 @@ async function dispatchGetNotes(args: Record<string, unknown>): Promise<unknown>
     };
   }
 
+  // 0b. link graph actions
+  switch ((args as any).action) {
+    case 'backlinks': return linkTools.getBacklinks(args as any);
+    case 'outgoing_links': return linkTools.getOutgoingLinks(args as any);
+    case 'orphans': return linkTools.listOrphans(args as any);
+    case 'broken_links': return linkTools.listBrokenLinks(args as any);
+    case 'review': {
+      const a = args as any;
+      if (!period) {
+        return { success: false, error: 'period is required for review (week, month, quarter, year)' };
+      }
+      return calendarTools.getPeriodicReview({
+        type: PERIOD_TYPE_MAP[period] ?? period,
+        date: date ?? fromDate, week, month, quarter, year,
+        writeToNote: a.writeToNote, heading: a.heading, dryRun: a.dryRun, confirmationToken: a.confirmationToken, limit, space,
+      } as any);
+    }
+  }
+
   // 1. resolve mode
   if (resolve) {
     return noteTools.resolveNote({
@@ -380,6 +442,173 @@ function withDebugTimingsInputSchema(inputSchema: Record<string, unknown>): Reco
   return schema;
 }
 
+// Action a call runs when it omits `action`, for permission-policy matching
+const DEFAULT_POLICY_ACTIONS: Record<string, string> = {
+  noteplan_search: 'search',
+};
+
+function getPolicyAction(toolName: string, args: unknown): string | undefined {
+  const action = (args as Record<string, unknown> | undefined)?.action;
+  return typeof action === 'string' ? action : DEFAULT_POLICY_ACTIONS[toolName];
+}
+
+/**
+ * Every action a call runs, for permission-policy matching: apply_batch also
+ * runs each operation's action, so rules on those apply to the batch too.
+ */
+function getPolicyActions(toolName: string, args: unknown): Array<string | undefined> {
+  const action = getPolicyAction(toolName, args);
+  const operations = (args as Record<string, unknown> | undefined)?.operations;
+  if (toolName !== 'noteplan_edit_content' || action !== 'apply_batch' || !Array.isArray(operations)) {
+    return [action];
+  }
+  const operationActions = operations
+    .map((operation) => (operation as Record<string, unknown> | null)?.action)
+    .filter((operationAction): operationAction is string => typeof operationAction === 'string');
+  return [action, ...new Set(operationActions)];
+}
+
+/**
+ * Hide what the permission policy denies outright: denied values drop out of
+ * each tool's `action` enum, and a tool with nothing left to call is not
+ * listed. Space rules can't be known until a call names its space, so only
+ * the global rules apply here. An invalid policy lists everything (every
+ * call then fails with the load error).
+ */
+function applyPolicyToToolDefinitions(tools: ToolDefinition[]): ToolDefinition[] {
+  if (getPermissionPolicyStatus() !== 'loaded') return tools;
+  const visible: ToolDefinition[] = [];
+  for (const tool of tools) {
+    const properties = (tool.inputSchema.properties ?? {}) as Record<string, Record<string, unknown>>;
+    const actionEnum = Array.isArray(properties.action?.enum) ? (properties.action.enum as string[]) : null;
+    const callableActions = (actionEnum ?? []).filter(
+      (action) => action !== 'list_actions' && evaluatePolicy(tool.name, action).allowed
+    );
+    const actionOptional = !((tool.inputSchema.required as string[] | undefined) ?? []).includes('action');
+    const callableWithoutAction = actionOptional && evaluatePolicy(tool.name, getPolicyAction(tool.name, {})).allowed;
+    if (callableActions.length === 0 && !callableWithoutAction) continue;
+    if (!actionEnum) {
+      visible.push(tool);
+      continue;
+    }
+    const allowedEnum = actionEnum.filter((action) => action === 'list_actions' || callableActions.includes(action));
+    visible.push({
+      ...tool,
+      inputSchema: {
+        ...tool.inputSchema,
+        properties: { ...properties, action: { ...properties.action, enum: allowedEnum } },
+      },
+    });
+  }
+  return visible;
+}
+
+type PolicyNoteReferenceKey = 'id' | 'filename' | 'title' | 'date' | 'query';
+
+const ANY_NOTE_REFERENCE: PolicyNoteReferenceKey[] = ['id', 'filename', 'title', 'date', 'query'];
+// For actions where `query` is search text rather than a note reference
+const NOTE_REFERENCE_WITHOUT_QUERY: PolicyNoteReferenceKey[] = ['id', 'filename', 'title', 'date'];
+
+// Actions that act on one existing note, and the arguments naming it
+const POLICY_NOTE_REFERENCES: Record<string, Record<string, PolicyNoteReferenceKey[]>> = {
+  noteplan_get_notes: {
+    get: ANY_NOTE_REFERENCE,
+    resolve: ['query'],
+    backlinks: NOTE_REFERENCE_WITHOUT_QUERY,
+    outgoing_links: NOTE_REFERENCE_WITHOUT_QUERY,
+  },
+  noteplan_manage_note: {
+    update: ANY_NOTE_REFERENCE,
+    delete: ANY_NOTE_REFERENCE,
+    move: ANY_NOTE_REFERENCE,
+    rename: ANY_NOTE_REFERENCE,
+    set_property: ANY_NOTE_REFERENCE,
+    remove_property: ANY_NOTE_REFERENCE,
+  },
+  noteplan_edit_content: {
+    insert: ANY_NOTE_REFERENCE,
+    append: ANY_NOTE_REFERENCE,
+    delete_lines: ANY_NOTE_REFERENCE,
+    edit_line: ANY_NOTE_REFERENCE,
+    replace_lines: ANY_NOTE_REFERENCE,
+    apply_batch: ANY_NOTE_REFERENCE,
+  },
+  noteplan_paragraphs: {
+    get: ANY_NOTE_REFERENCE,
+    search: NOTE_REFERENCE_WITHOUT_QUERY,
+    complete: ANY_NOTE_REFERENCE,
+    update: ANY_NOTE_REFERENCE,
+    delete_recurring: ANY_NOTE_REFERENCE,
+  },
+  noteplan_attachments: {
+    add: ANY_NOTE_REFERENCE,
+    list: ANY_NOTE_REFERENCE,
+    get: ANY_NOTE_REFERENCE,
+    move: ANY_NOTE_REFERENCE,
+  },
+};
+
+/** The note reference a call passes, or null when it names no existing note. */
+function getPolicyNoteReference(
+  toolName: string,
+  action: string | undefined,
+  args: Record<string, unknown> | undefined
+): Partial<Record<PolicyNoteReferenceKey, string>> | null {
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value : undefined);
+  if (toolName === 'noteplan_paragraphs' && action === 'add') {
+    // `target` is a date or a project-note filename
+    const target = text(args?.target);
+    if (!target) return null;
+    return taskTools.isDateTarget(target) ? { date: target } : { filename: target };
+  }
+  const keys = action ? POLICY_NOTE_REFERENCES[toolName]?.[action] : undefined;
+  if (!keys) return null;
+  const reference: Partial<Record<PolicyNoteReferenceKey, string>> = {};
+  for (const key of keys) {
+    const value = text(args?.[key]);
+    if (value) reference[key] = value;
+  }
+  return Object.keys(reference).length > 0 ? reference : null;
+}
+
+/**
+ * Names and IDs of the space a call targets, for per-space policy rules: the
+ * `space` argument, or else the space of the note the call names, resolved
+ * the way the tool resolves it. Null when that note can't be resolved, so
+ * the policy fails closed.
+ */
+async function resolvePolicySpaceKeys(
+  toolName: string,
+  action: string | undefined,
+  args: Record<string, unknown> | undefined
+): Promise<string[] | null> {
+  if (!hasSpacePolicyRules()) return [];
+  let requested = typeof args?.space === 'string' ? args.space.trim() : '';
+  if (!requested) {
+    const reference = getPolicyNoteReference(toolName, action, args);
+    if (!reference) return [];
+    try {
+      const resolved = await noteTools.resolveReferencedNoteSpace(reference);
+      if (!resolved) return null;
+      if (!resolved.spaceId) return [];
+      requested = resolved.spaceId;
+    } catch (error) {
+      console.error('[noteplan-mcp] Failed to resolve note space for permission policy:', error);
+      return null;
+    }
+  }
+  const keys = [requested];
+  try {
+    const match = (await listSpacesFromDb()).find(
+      (candidate) => candidate.id === requested || candidate.name.toLowerCase() === requested.toLowerCase()
+    );
+    if (match) keys.push(match.id, match.name);
+  } catch (error) {
+    console.error('[noteplan-mcp] Failed to resolve space for permission policy:', error);
+  }
+  return keys;
+}
+
 function compactDescription(description: string, maxLength = 120): string {
   const firstLine = description
     .split('\n')
@@ -426,6 +655,8 @@ function getToolAnnotations(toolName: string): ToolAnnotations {
     noteplan_filters: 'Filters',
     noteplan_eventkit: 'Calendar & Reminders',
     noteplan_memory: 'Memory',
+    noteplan_history: 'History & Undo',
+    noteplan_audit: 'Audit Log',
     noteplan_ui: 'UI Control',
     noteplan_plugins: 'Plugins',
     noteplan_themes: 'Themes',
@@ -438,6 +669,7 @@ function getToolAnnotations(toolName: string): ToolAnnotations {
   const readOnlyTools = new Set([
     'noteplan_get_notes',
     'noteplan_search',
+    'noteplan_audit',
   ]);
 
   // Consolidated tools with mixed read+write actions get pessimistic annotations
@@ -449,6 +681,7 @@ function getToolAnnotations(toolName: string): ToolAnnotations {
     'noteplan_filters',
     'noteplan_eventkit',
     'noteplan_memory',
+    'noteplan_history',
     'noteplan_plugins',
     'noteplan_themes',
     'noteplan_embeddings',
@@ -463,6 +696,7 @@ function getToolAnnotations(toolName: string): ToolAnnotations {
     'noteplan_filters',
     'noteplan_eventkit',
     'noteplan_memory',
+    'noteplan_history',
     'noteplan_ui',
     'noteplan_plugins',
     'noteplan_themes',
@@ -522,13 +756,15 @@ function getToolSearchAliases(toolName: string): string[] {
         'date range', 'this week', 'last week',
         'folder notes', 'browse folder',
         'list notes',
+        'backlinks', 'wiki links', 'linked mentions', 'orphan notes', 'broken links',
+        'weekly review', 'monthly review', 'periodic review', 'retrospective',
       );
       break;
     case 'noteplan_search':
-      aliases.push('search notes', 'find notes', 'full-text search', 'tags', 'hashtags');
+      aliases.push('search notes', 'find notes', 'full-text search', 'hybrid search', 'tags', 'hashtags');
       break;
     case 'noteplan_manage_note':
-      aliases.push('create note', 'update note', 'delete note', 'move note', 'rename note', 'restore note', 'frontmatter', 'property', 'set property');
+      aliases.push('create note', 'update note', 'delete note', 'move note', 'rename note', 'restore note', 'frontmatter', 'property', 'set property', 'import', 'obsidian', 'migrate vault', 'export', 'backup');
       break;
     case 'noteplan_edit_content':
       aliases.push('insert', 'append', 'edit line', 'delete lines', 'replace lines', 'edit content', 'today', 'daily note');
@@ -537,6 +773,9 @@ function getToolSearchAliases(toolName: string): string[] {
       aliases.push(
         'paragraphs', 'lines', 'line numbers', 'search paragraph', 'find paragraph',
         'tasks', 'todos', 'checklist', 'add task', 'complete task', 'update task', 'search tasks', 'global tasks',
+        'dependencies', 'blocked tasks', 'blocked by', 'depends on',
+        'query tasks', 'task query', 'overdue', 'tasks this week',
+        'rollover', 'carry over', 'move to today', 'unfinished tasks',
       );
       break;
     case 'noteplan_folders':
@@ -551,6 +790,12 @@ function getToolSearchAliases(toolName: string): string[] {
     case 'noteplan_memory':
       aliases.push('memory', 'memories', 'preference', 'preferences', 'remember', 'correction');
       break;
+    case 'noteplan_history':
+      aliases.push('history', 'undo', 'revert', 'rollback', 'journal', 'recent changes', 'operation log');
+      break;
+    case 'noteplan_audit':
+      aliases.push('audit', 'audit log', 'who deleted', 'who changed', 'tool calls', 'activity log', 'access log');
+      break;
     case 'noteplan_ui':
       aliases.push('ui', 'open note', 'open today', 'search ui', 'run plugin', 'sidebar', 'toggle sidebar');
       break;
@@ -558,7 +803,7 @@ function getToolSearchAliases(toolName: string): string[] {
       aliases.push('plugin', 'plugins', 'extension', 'command', 'addon', 'create plugin', 'install plugin', 'plugin log', 'plugin source', 'screenshot');
       break;
     case 'noteplan_themes':
-      aliases.push('theme', 'themes', 'colors', 'dark mode', 'light mode', 'appearance');
+      aliases.push('theme', 'themes', 'colors', 'dark mode', 'light mode', 'appearance', 'contrast', 'lint theme');
       break;
     case 'noteplan_embeddings':
       aliases.push('embeddings', 'semantic search', 'vector search', 'similarity');
@@ -638,7 +883,7 @@ function inferToolErrorMeta(toolName: string, errorMessage: string, registeredTo
   const message = errorMessage.toLowerCase();
 
   if (message.includes('unknown tool')) {
-    const toolList = registeredToolNames?.join(', ') ?? 'noteplan_get_notes, noteplan_search, noteplan_manage_note, noteplan_edit_content, noteplan_paragraphs, noteplan_folders, noteplan_filters, noteplan_eventkit, noteplan_memory, noteplan_templates, noteplan_attachments';
+    const toolList = registeredToolNames?.join(', ') ?? 'noteplan_get_notes, noteplan_search, noteplan_manage_note, noteplan_edit_content, noteplan_paragraphs, noteplan_folders, noteplan_filters, noteplan_eventkit, noteplan_memory, noteplan_history, noteplan_templates, noteplan_attachments';
     return {
       code: 'ERR_UNKNOWN_TOOL',
       hint: `Check tool name spelling. Available tools: ${toolList}.`,
@@ -675,6 +920,14 @@ function inferToolErrorMeta(toolName: string, errorMessage: string, registeredTo
     };
   }
 
+  if (message.includes('local embeddings model not found') || message.includes('local embeddings provider needs')) {
+    return {
+      code: 'ERR_EMBEDDINGS_NOT_CONFIGURED',
+      hint: 'For NOTEPLAN_EMBEDDINGS_PROVIDER=local, install @huggingface/transformers and place the model under NOTEPLAN_EMBEDDINGS_MODEL_PATH, then retry sync/search.',
+      suggestedTool: 'noteplan_embeddings',
+    };
+  }
+
   if (message.includes('provide one note reference')) {
     return {
       code: 'ERR_INVALID_ARGUMENT',
@@ -695,6 +948,13 @@ function inferToolErrorMeta(toolName: string, errorMessage: string, registeredTo
       suggestedTool: 'noteplan_paragraphs',
     };
   }
+  if (message.includes('open task(s). complete them first')) {
+    return {
+      code: 'ERR_TASK_BLOCKED',
+      hint: 'Complete the tasks listed in openBlockers first, or retry with force=true.',
+      suggestedTool: 'noteplan_paragraphs',
+    };
+  }
   if (message.includes('provide at least one field to update')) {
     return {
       code: 'ERR_INVALID_ARGUMENT',
@@ -751,6 +1011,14 @@ function inferToolErrorMeta(toolName: string, errorMessage: string, registeredTo
     };
   }
 
+  if (message.includes('changed since it was read')) {
+    return {
+      code: 'ERR_CONFLICT',
+      hint: 'Re-read the note, redo the edit against the current content, and pass the new contentHash as expectedHash.',
+      suggestedTool: 'noteplan_get_notes',
+    };
+  }
+
   if (message.includes('confirmation token is required')) {
     return {
       code: 'ERR_CONFIRMATION_REQUIRED',
@@ -870,6 +1138,12 @@ function withSuggestedNextTools(result: unknown, toolName: string, availableTool
     case 'noteplan_memory':
       suggestedNextTools = ['noteplan_memory'];
       break;
+    case 'noteplan_history':
+      suggestedNextTools = ['noteplan_history', 'noteplan_get_notes'];
+      break;
+    case 'noteplan_audit':
+      suggestedNextTools = ['noteplan_audit', 'noteplan_history'];
+      break;
     case 'noteplan_embeddings':
       suggestedNextTools = ['noteplan_get_notes', 'noteplan_embeddings'];
       break;
@@ -968,7 +1242,8 @@ export function createServer(): Server {
     {
       capabilities: {
         tools: { listChanged: true },
-        resources: {},
+        resources: { subscribe: true },
+        prompts: {},
       },
       instructions: [
         `You have access to NotePlan — a markdown-based note-taking and task management app for macOS/iOS. (MCP server v${mcpServerVersion})`,
@@ -984,22 +1259,30 @@ export function createServer(): Server {
         '   - `noteplan_edit_content(action: edit_line)` — single-line change',
         '   - `noteplan_edit_content(action: insert/append)` — add content at a position or heading',
         '   - `noteplan_edit_content(action: delete_lines)` — remove lines',
+        '   - `noteplan_edit_content(action: apply_batch)` — several line edits against one read of the note, written atomically',
         '4. Only use `noteplan_manage_note(action: update)` for intentional full-note rewrites',
+        '5. Reads return `contentHash`; pass it as `expectedHash` on the write so edits made in NotePlan meanwhile are not overwritten',
         '',
         '## Tasks',
         '',
         '- Add tasks via `noteplan_paragraphs(action: add)` — the server auto-formats the task marker to match the user\'s NotePlan settings. Never write raw markers like `- [ ]` or `* [ ]`; just pass the task text.',
         '- Find tasks: `noteplan_paragraphs(action: search)` in one note, or `search_global` across all notes',
+        '- Structured task questions ("open #client-x tasks due this week, priority ≥2"): `noteplan_paragraphs(action: query_tasks, query: "status:open tag:client-x scheduled:this-week priority:>=2")` in one call',
+        '- Task order: end a task with `^blockid` and add `@blocked-by(^blockid)` to the task that waits on it. `noteplan_paragraphs(action: dependencies)` lists blocked/unblocked tasks; completing a blocked task is refused unless force=true',
         '- Complete/update: `noteplan_paragraphs(action: complete/update)`',
+        '- Carry unfinished tasks forward: `noteplan_paragraphs(action: rollover, startDate: "yesterday", target: "today", dryRun: true)`, then confirm with the token',
+        '- Weekly/monthly review: `noteplan_get_notes(action: review, period: "week")` builds the digest; add writeToNote=true to put it in the weekly note',
         '- Delete recurring: `noteplan_paragraphs(action: delete_recurring)` — deletes a task with @repeat tag and all its future occurrences in calendar notes',
         '- Use `heading` parameter to target a specific section (e.g., heading: "Tasks")',
         '',
         '## Destructive Operations',
         '',
         'Delete, move, rename, and restore use a 2-step safety flow:',
-        '1. Call with `dryRun=true` → get a preview and `confirmationToken`',
+        '1. Call with `dryRun=true` → get a preview (unified `diff` + `diffSummary`) and `confirmationToken`',
         '2. Call again with that `confirmationToken` to execute',
         '',
+        'Every note/folder write is journaled: `noteplan_history(action: list)` shows recent operations and `undo` reverts one (by id) or the last N (count).',
+        '',
         '## Key Behaviors',
         '',
         '- Calendar notes (daily/weekly/etc.) are auto-created when targeted by date — no need to create them first',
@@ -1026,6 +1309,14 @@ export function createServer(): Server {
   } catch (err) {
     console.error('[noteplan-mcp] Failed to check embeddings config:', err);
   }
+  const auditToolsEnabled = isAuditLogEnabled();
+  if (auditToolsEnabled) {
+    console.error('[noteplan-mcp] Audit log: ENABLED (every tool call is recorded)');
+  }
+  const policySummary = describePermissionPolicy();
+  if (policySummary) {
+    console.error(`[noteplan-mcp] Permission policy: ${policySummary}`);
+  }
   let versionInfo: { version: string; build: number; source: string } = { version: '0.0.0', build: 0, source: 'unknown' };
   let advancedFeaturesEnabled = false;
   try {
@@ -1097,10 +1388,20 @@ export function createServer(): Server {
         {
           name: 'noteplan_get_notes',
           description:
-            'Unified note retrieval: get a single note, list notes, resolve references, fetch today/calendar/periodic notes, date ranges, or folder contents.\n\nRouting:\n- version=true → MCP server version + NotePlan app version\n- resolve=true + resolveQuery → resolve a note reference to canonical target\n- id/title/filename → get single note (metadata + optional content)\n- period + count → recent periodic notes (e.g., last 6 weekly notes)\n- period (no count) → single periodic note (week/month/quarter/year)\n- rangePeriod or startDate+endDate → daily notes in date range\n- folder (no id/title/filename/date) → notes in folder\n- date → calendar note for that date (use "today" for today\'s note)\n- fallback (no params) → list notes with optional filters',
+            'Unified note retrieval: get a single note, list notes, resolve references, fetch today/calendar/periodic notes, date ranges, or folder contents.\n\nRouting:\n- action=backlinks/outgoing_links (+ note ref) → wiki-links pointing to / from a note\n- action=orphans → notes nothing links to; action=broken_links → [[links]] whose note/heading/block doesn\'t exist\n- action=review + period → digest of a week/month/quarter/year: tasks completed, carried over, newly opened and overdue, notes created/modified, tags used. writeToNote=true writes it into that period\'s note under heading (default "Review"); replacing an existing section needs dryRun/confirmationToken\n- version=true → MCP server version + NotePlan app version\n- resolve=true + resolveQuery → resolve a note reference to canonical target\n- id/title/filename → get single note (metadata + optional content)\n- period + count → recent periodic notes (e.g., last 6 weekly notes)\n- period (no count) → single periodic note (week/month/quarter/year)\n- rangePeriod or startDate+endDate → daily notes in date range\n- folder (no id/title/filename/date) → notes in folder\n- date → calendar note for that date (use "today" for today\'s note)\n- fallback (no params) → list notes with optional filters',
           inputSchema: {
             type: 'object',
             properties: {
+              // Link graph actions
+              action: {
+                type: 'string',
+                enum: ['backlinks', 'outgoing_links', 'orphans', 'broken_links', 'review', 'list_actions'],
+                description: 'Optional action: backlinks | outgoing_links (need a note ref) | orphans | broken_links | review (needs period) | list_actions. Omit for normal retrieval routing.',
+              },
+              includeCalendar: {
+                type: 'boolean',
+                description: 'Also report [[YYYY-MM-DD]]-style links to calendar notes that do not exist yet — used by broken_links (default: false)',
+              },
               // Single note params
               id: {
                 type: 'string',
@@ -1173,6 +1474,22 @@ export function createServer(): Server {
                 type: 'boolean',
                 description: 'Include missing period slots in response (default: false)',
               },
+              writeToNote: {
+                type: 'boolean',
+                description: 'Write the digest into the period\'s note under heading (default: false). Replacing an existing section under that heading requires dryRun/confirmationToken — used by review',
+              },
+              heading: {
+                type: 'string',
+                description: 'Heading for the written digest (default: "Review") — used by review',
+              },
+              dryRun: {
+                type: 'boolean',
+                description: 'With writeToNote: preview the change (diff) and get a confirmationToken when a section would be replaced — used by review',
+              },
+              confirmationToken: {
+                type: 'string',
+                description: 'Confirmation token from dryRun, required to replace an existing section — used by review',
+              },
               maxLookback: {
                 type: 'number',
                 description: 'Maximum period slots to inspect (default: 52, max: 260)',
@@ -1249,14 +1566,14 @@ export function createServer(): Server {
         {
           name: 'noteplan_manage_note',
           description:
-            'Manage notes: create, update, delete, move, restore, rename, or manage frontmatter properties.\n\nActions:\n- create: Create a project note (requires title). Creates immediately — NO dryRun/confirmationToken needed. Set noteType="template" to create in @Templates with proper frontmatter. After creating a template, verify it with noteplan_templates(action: "render").\n- update: Replace note content (requires note ref via id/filename/title/date/query, content, fullReplace + confirmationToken)\n- delete/move/restore: Lifecycle ops (requires id or filename + dryRun/confirmationToken)\n- rename: Rename a note (accepts id, filename, title, or query to find the note + newTitle for the new name + dryRun/confirmationToken)\n- set_property/remove_property: Frontmatter (requires note ref via id/filename/title/date/query + key)',
+            'Manage notes: create, update, delete, move, restore, rename, or manage frontmatter properties.\n\nActions:\n- create: Create a project note (requires title). Creates immediately — NO dryRun/confirmationToken needed. Set noteType="template" to create in @Templates with proper frontmatter. After creating a template, verify it with noteplan_templates(action: "render").\n- update: Replace note content (requires note ref via id/filename/title/date/query, content, fullReplace + confirmationToken)\n- delete/move/restore: Lifecycle ops (requires id or filename + dryRun/confirmationToken)\n- rename: Rename a note (accepts id, filename, title, or query to find the note + newTitle for the new name + dryRun/confirmationToken). Rewrites [[Old Title]] links (incl. #heading, ^block, |alias) in every linking note; dryRun lists each note and line that will change\n- set_property/remove_property: Frontmatter (requires note ref via id/filename/title/date/query + key)\n- import: Import a local folder of markdown / an Obsidian vault (requires sourcePath + dryRun/confirmationToken). Recreates its folders under destinationFolder, converts tasks to the user\'s task marker, ![[embeds]] and path links to [[Title]] links, YYYY-MM-DD.md files to daily notes, and copies referenced files into _attachments. dryRun reports every note, folder, attachment and conflict\n- export: Write a folder, space, date range of daily notes (startDate/endDate) search results (query) or the notes matched by a saved filter (savedFilter) to a local directory (requires outputPath). format=markdown writes one .md per note with [[links]] between exported notes turned into relative links; format=json writes a single noteplan-export.json with parsed frontmatter. Copies attachments. Respects folder access rules. dryRun lists the notes without writing; exporting into a non-empty outputPath (overwrite=true) needs dryRun/confirmationToken',
           inputSchema: {
             type: 'object',
             properties: {
               action: {
                 type: 'string',
-                enum: ['create', 'update', 'delete', 'move', 'restore', 'rename', 'set_property', 'remove_property', 'list_actions'],
-                description: 'Action: create | update | delete | move | restore | rename | set_property | remove_property | list_actions (discover all actions)',
+                enum: ['create', 'update', 'delete', 'move', 'restore', 'rename', 'set_property', 'remove_property', 'import', 'export', 'list_actions'],
+                description: 'Action: create | update | delete | move | restore | rename | set_property | remove_property | import | export | list_actions (discover all actions)',
               },
               id: {
                 type: 'string',
@@ -1276,7 +1593,7 @@ export function createServer(): Server {
               },
               query: {
                 type: 'string',
-                description: 'Fuzzy search query to find the note — used by rename, move, set_property, remove_property',
+                description: 'Fuzzy search query to find the note — used by rename, move, set_property, remove_property. For export: full-text search whose matches are exported',
               },
               content: {
                 type: 'string',
@@ -1284,7 +1601,7 @@ export function createServer(): Server {
               },
               folder: {
                 type: 'string',
-                description: 'Folder name or path without Notes/ prefix (e.g. "Projects" or "Work/Active") — used by create. Smart matching built in.',
+                description: 'Folder name or path without Notes/ prefix (e.g. "Projects" or "Work/Active") — used by create. Smart matching built in. For export: the folder to export',
               },
               create_new_folder: {
                 type: 'boolean',
@@ -1302,19 +1619,23 @@ export function createServer(): Server {
               },
               space: {
                 type: 'string',
-                description: 'Space name or ID scope',
+                description: 'Space name or ID scope. For export: exports the whole space unless folder/query/dates narrow it',
               },
               fullReplace: {
                 type: 'boolean',
                 description: 'Required safety confirmation for whole-note rewrite — used by update',
               },
+              expectedHash: {
+                type: 'string',
+                description: 'contentHash from your last read of the note. The write fails with a conflict error and a diff if the note changed since — used by every action except create',
+              },
               dryRun: {
                 type: 'boolean',
-                description: 'Preview impact and get confirmationToken — used by update, delete, move, rename, restore',
+                description: 'Preview impact (unified diff + diffSummary) and get confirmationToken — used by update, delete, move, rename, restore, import. For export: list the notes without writing',
               },
               confirmationToken: {
                 type: 'string',
-                description: 'Token from dryRun for execution — used by update, delete, move, rename, restore',
+                description: 'Token from dryRun for execution — used by update, delete, move, rename, restore, import',
               },
               allowEmptyContent: {
                 type: 'boolean',
@@ -1322,7 +1643,49 @@ export function createServer(): Server {
               },
               destinationFolder: {
                 type: 'string',
-                description: 'Target folder without Notes/ prefix (e.g. "Projects" or "Work/Active") — used by move, restore',
+                description: 'Target folder without Notes/ prefix (e.g. "Projects" or "Work/Active") — used by move, restore, import (default for import: a folder named after the vault; "Notes" for the root)',
+              },
+              sourcePath: {
+                type: 'string',
+                description: 'Absolute path of the markdown folder / Obsidian vault — used by import',
+              },
+              onConflict: {
+                type: 'string',
+                enum: ['skip', 'rename'],
+                description: 'When a note already exists at the target: skip it or import as "Title 2" (default: skip) — used by import',
+              },
+              importDailyNotes: {
+                type: 'boolean',
+                description: 'Import YYYY-MM-DD.md files as daily calendar notes (default: true) — used by import',
+              },
+              outputPath: {
+                type: 'string',
+                description: 'Absolute path of the local directory to write to (must be empty unless overwrite=true) — used by export',
+              },
+              format: {
+                type: 'string',
+                enum: ['markdown', 'json'],
+                description: 'markdown bundle with resolved links, or a single JSON archive (default: markdown) — used by export',
+              },
+              savedFilter: {
+                type: 'string',
+                description: 'Name of a saved filter (noteplan_filters); notes with at least one matching item are exported — used by export',
+              },
+              startDate: {
+                type: 'string',
+                description: 'Export daily notes from this date (YYYY-MM-DD, YYYYMMDD, today, …) — used by export',
+              },
+              endDate: {
+                type: 'string',
+                description: 'Export daily notes up to this date, inclusive — used by export',
+              },
+              includeAttachments: {
+                type: 'boolean',
+                description: 'Copy each note\'s _attachments folder (default: true) — used by export',
+              },
+              overwrite: {
+                type: 'boolean',
+                description: 'Allow writing into a non-empty outputPath (default: false; requires dryRun/confirmationToken) — used by export',
               },
               newFilename: {
                 type: 'string',
@@ -1330,7 +1693,7 @@ export function createServer(): Server {
               },
               newTitle: {
                 type: 'string',
-                description: 'New title for the note — used by rename. Works for both local and TeamSpace notes. For local notes this renames the file and updates the # heading.',
+                description: 'New title for the note — used by rename. Works for both local and TeamSpace notes. For local notes this renames the file and updates the # heading. Inbound [[wiki-links]] are rewritten to the new title.',
               },
               keepExtension: {
                 type: 'boolean',
@@ -1351,14 +1714,14 @@ export function createServer(): Server {
         {
           name: 'noteplan_edit_content',
           description:
-            'Edit note content. Actions use snake_case.\n\nActions:\n- "insert": Insert at position. Add heading="Section Name" to scope to a section. Positions: "start"+heading = after heading, "end"+heading = end of section, "after-heading" = after heading, "in-section" = end of section, "start" (no heading) = after frontmatter, "at-line" = specific line, "end" (no heading) = end of note.\n- "append": Insert at end. Supports heading param. Use date="today" for daily note.\n- "delete_lines": Delete line range (startLine + endLine, 1-indexed). Requires dryRun then confirmationToken.\n- "edit_line": Edit one line (line + content, 1-indexed). content="" clears line.\n- "replace_lines": Replace line range (startLine + endLine + content). Requires dryRun then confirmationToken.\n\nTarget note via id, filename, title, date, or query. Calendar notes auto-created. Use tabs for indentation.\n\nTasks: Set type="task", pass only text as content (e.g. "Buy groceries"). Do NOT include markers like "* [ ]" — type param handles formatting. type="checklist" for checklists. For task lifecycle use noteplan_paragraphs.\n\nSchedule: >YYYY-MM-DD or scheduleDate param. Links: [[Note Name]]. Never add ^id.\n\nFull content replace: use noteplan_manage_note(action: "update", fullReplace=true).',
+            'Edit note content. Actions use snake_case.\n\nActions:\n- "insert": Insert at position. Add heading="Section Name" to scope to a section. Positions: "start"+heading = after heading, "end"+heading = end of section, "after-heading" = after heading, "in-section" = end of section, "start" (no heading) = after frontmatter, "at-line" = specific line, "end" (no heading) = end of note.\n- "append": Insert at end. Supports heading param. Use date="today" for daily note.\n- "delete_lines": Delete line range (startLine + endLine, 1-indexed). Requires dryRun then confirmationToken.\n- "edit_line": Edit one line (line + content, 1-indexed). content="" clears line.\n- "replace_lines": Replace line range (startLine + endLine + content). Requires dryRun then confirmationToken.\n- "apply_batch": Apply several insert/append/edit_line/replace_lines/delete_lines operations in one atomic write. All line numbers refer to the note as read, so earlier operations never shift later ones. Pass expectedHash/expectedModifiedAt to reject the batch if the note changed. Batches that delete lines require dryRun then confirmationToken.\n\nTarget note via id, filename, title, date, or query. Calendar notes auto-created. Use tabs for indentation.\n\nConcurrency: every action accepts expectedHash (the contentHash returned by your last read or edit). If the note changed since, the write is refused with a conflict error and a diff.\n\nTasks: Set type="task", pass only text as content (e.g. "Buy groceries"). Do NOT include markers like "* [ ]" — type param handles formatting. type="checklist" for checklists. For task lifecycle use noteplan_paragraphs.\n\nSchedule: >YYYY-MM-DD or scheduleDate param. Links: [[Note Name]]. Never add ^id.\n\nFull content replace: use noteplan_manage_note(action: "update", fullReplace=true).',
           inputSchema: {
             type: 'object',
             properties: {
               action: {
                 type: 'string',
-                enum: ['insert', 'append', 'delete_lines', 'edit_line', 'replace_lines', 'list_actions'],
-                description: 'Action: insert | append | delete_lines | edit_line | replace_lines | list_actions (discover all actions)',
+                enum: ['insert', 'append', 'delete_lines', 'edit_line', 'replace_lines', 'apply_batch', 'list_actions'],
+                description: 'Action: insert | append | delete_lines | edit_line | replace_lines | apply_batch | list_actions (discover all actions)',
               },
               id: {
                 type: 'string',
@@ -1436,13 +1799,41 @@ export function createServer(): Server {
                 type: 'number',
                 description: 'Tab indent level — used by insert with type=task/checklist/bullet',
               },
+              operations: {
+                type: 'array',
+                description: 'Ordered operations — used by apply_batch. Each item has action (insert | append | edit_line | replace_lines | delete_lines) plus that action\'s fields (content, position, heading, line, startLine, endLine, type, taskStatus, allowEmptyContent). Line numbers refer to the original note.',
+                items: {
+                  type: 'object',
+                  properties: {
+                    action: { type: 'string', enum: ['insert', 'append', 'edit_line', 'replace_lines', 'delete_lines'] },
+                    content: { type: 'string' },
+                    position: { type: 'string', enum: ['start', 'end', 'after-heading', 'at-line', 'in-section'] },
+                    heading: { type: 'string' },
+                    line: { type: 'number' },
+                    startLine: { type: 'number' },
+                    endLine: { type: 'number' },
+                    type: { type: 'string', enum: ['title', 'heading', 'task', 'checklist', 'bullet', 'quote', 'separator', 'empty', 'text'] },
+                    taskStatus: { type: 'string', enum: ['open', 'done', 'cancelled', 'scheduled'] },
+                    allowEmptyContent: { type: 'boolean' },
+                  },
+                  required: ['action'],
+                },
+              },
+              expectedHash: {
+                type: 'string',
+                description: 'contentHash from your last read of the note (noteplan_get_notes, noteplan_paragraphs get, or a previous edit). The write fails with a conflict error and a diff if the note changed since — used by all actions',
+              },
+              expectedModifiedAt: {
+                type: 'string',
+                description: 'modifiedAt (ISO) the edit was based on; rejects the write if the note changed — used by apply_batch',
+              },
               dryRun: {
                 type: 'boolean',
-                description: 'Preview impact and get confirmationToken — used by delete_lines, replace_lines',
+                description: 'Preview impact (unified diff + diffSummary) and get confirmationToken — used by delete_lines, replace_lines, apply_batch',
               },
               confirmationToken: {
                 type: 'string',
-                description: 'Token from dryRun — used by delete_lines, replace_lines',
+                description: 'Token from dryRun — used by delete_lines, replace_lines, apply_batch',
               },
               allowEmptyContent: {
                 type: 'boolean',
@@ -1459,14 +1850,14 @@ export function createServer(): Server {
         {
           name: 'noteplan_paragraphs',
           description:
-            'Task lifecycle and paragraph inspection.\n\nParagraph actions:\n- get: Get note lines with metadata (requires note ref). Returns lineIndex, content, type. Filter with types param: base types (title, heading, bullet, text, quote, separator, empty), task/checklist by status (open-task, done-task, cancelled-task, scheduled-task, open-checklist, done-checklist, etc). types=["open-task","open-checklist"] gets all open items.\n- search: Search lines in a note (requires query + note ref)\n\nTask actions:\n- search_global: Search tasks across all notes (requires query, "*" for all)\n- add: Add task (requires target + content). target = date ("today", "YYYY-MM-DD") or filename. Pass only task text — formatting auto-matches user settings. Position+heading: "start"+heading = after heading, "end"+heading = end of section. Default "end" = bottom of note. scheduleDate for >YYYY-MM-DD, [[Note Name]] to link, #tag, @mention.\n- complete: Mark done (note ref + lineIndex/line or taskQuery)\n- update: Update content/status (note ref + lineIndex or line)',
+            'Task lifecycle and paragraph inspection.\n\nParagraph actions:\n- get: Get note lines with metadata (requires note ref). Returns lineIndex, content, type. Filter with types param: base types (title, heading, bullet, text, quote, separator, empty), task/checklist by status (open-task, done-task, cancelled-task, scheduled-task, open-checklist, done-checklist, etc). types=["open-task","open-checklist"] gets all open items.\n- search: Search lines in a note (requires query + note ref)\n\nTask actions:\n- search_global: Search tasks across all notes (requires query, "*" for all)\n- query_tasks: Structured task query across all notes (requires query), e.g. status:open tag:client-x scheduled:this-week priority:>=2 heading:Next. Fields: status:, tag:, mention:, scheduled:(today|tomorrow|overdue|this-week|next-month|YYYY-MM-DD|start..end|any|none), priority:(N|>=N|<N), folder:, heading:, note:, has:(repeat|priority|scheduled|tag|mention|blockid), plus free text; combine with AND/OR/NOT/-term and parentheses. sortBy, pagination; saveAsFilter stores a plain AND query as a NotePlan filter\n- add: Add task (requires target + content). target = date ("today", "YYYY-MM-DD") or filename. Pass only task text — formatting auto-matches user settings. Position+heading: "start"+heading = after heading, "end"+heading = end of section. Default "end" = bottom of note. scheduleDate for >YYYY-MM-DD, [[Note Name]] to link, #tag, @mention.\n- complete: Mark done (note ref + lineIndex/line or taskQuery). Refused while the task\'s @blocked-by tasks are open unless force=true; reports unblockedTasks\n- update: Update content/status (note ref + lineIndex or line)\n- dependencies: List tasks with @blocked-by(^blockid) references across the vault (dependencyState: blocked | unblocked | all). A task is referenced by the ^blockid at the end of its line\n- rollover: Roll open tasks from the calendar notes of startDate..endDate (default: yesterday) into target (default: today; a day or YYYY-Www), optionally under heading. mode=copy marks originals [>] with >date (NotePlan convention), mode=move removes them. Requires dryRun then confirmationToken',
           inputSchema: {
             type: 'object',
             properties: {
               action: {
                 type: 'string',
-                enum: ['get', 'search', 'search_global', 'add', 'complete', 'update', 'delete_recurring', 'list_actions'],
-                description: 'Action: get | search | search_global | add | complete | update | delete_recurring | list_actions (discover all actions)',
+                enum: ['get', 'search', 'search_global', 'query_tasks', 'add', 'complete', 'update', 'delete_recurring', 'dependencies', 'rollover', 'list_actions'],
+                description: 'Action: get | search | search_global | query_tasks | add | complete | update | delete_recurring | dependencies | rollover | list_actions (discover all actions)',
               },
               id: {
                 type: 'string',
@@ -1490,7 +1881,7 @@ export function createServer(): Server {
               },
               query: {
                 type: 'string',
-                description: 'Search text — required for search, search_global. Use "*" for wildcard in search_global.',
+                description: 'Search text — required for search, search_global. Use "*" for wildcard in search_global. For query_tasks: the task query (see action description)',
               },
               caseSensitive: {
                 type: 'boolean',
@@ -1528,7 +1919,7 @@ export function createServer(): Server {
               },
               target: {
                 type: 'string',
-                description: 'Target note for add: use a date string (today, tomorrow, yesterday, YYYY-MM-DD, YYYYMMDD) for daily/calendar notes, or a filename path for project notes. Calendar notes (daily, weekly, monthly, etc.) are auto-created if they don\'t exist.',
+                description: 'Target note for add: use a date string (today, tomorrow, yesterday, YYYY-MM-DD, YYYYMMDD) for daily/calendar notes, or a filename path for project notes. Calendar notes (daily, weekly, monthly, etc.) are auto-created if they don\'t exist. For rollover: a day or a week (YYYY-Www), default today',
               },
               position: {
                 type: 'string',
@@ -1537,7 +1928,7 @@ export function createServer(): Server {
               },
               heading: {
                 type: 'string',
-                description: 'Heading or section marker text to scope insertion (matches both ## headings and **bold:** section markers). Combine with position to control placement — used by add',
+                description: 'Heading or section marker text to scope insertion (matches both ## headings and **bold:** section markers). Combine with position to control placement — used by add, rollover (created when missing)',
               },
               lineIndex: {
                 type: 'number',
@@ -1608,6 +1999,58 @@ export function createServer(): Server {
                 type: 'boolean',
                 description: 'Also delete the task from the source note (default: true) — used by delete_recurring',
               },
+              sortBy: {
+                type: 'string',
+                enum: ['scheduled', 'priority', 'note', 'modified'],
+                description: 'Sort key (default: scheduled, undated last) — used by query_tasks',
+              },
+              sortOrder: {
+                type: 'string',
+                enum: ['asc', 'desc'],
+                description: 'Sort direction (default: asc; desc for priority/modified) — used by query_tasks',
+              },
+              saveAsFilter: {
+                type: 'string',
+                description: 'Also save the query as a NotePlan filter with this name. Only plain AND queries over status, one keyword/tag/mention, scheduled, note and heading can be saved — used by query_tasks',
+              },
+              overwriteFilter: {
+                type: 'boolean',
+                description: 'Replace an existing filter named saveAsFilter (default: false) — used by query_tasks',
+              },
+              dependencyState: {
+                type: 'string',
+                enum: ['blocked', 'unblocked', 'all'],
+                description: 'blocked = open tasks waiting on an open @blocked-by task, unblocked = open tasks whose blockers are all done, all = every task with @blocked-by (default: blocked) — used by dependencies',
+              },
+              force: {
+                type: 'boolean',
+                description: 'Mark done even though @blocked-by tasks are still open (default: false) — used by complete, update',
+              },
+              startDate: {
+                type: 'string',
+                description: 'First day of the source range (YYYY-MM-DD, today, yesterday; default: yesterday) — used by rollover',
+              },
+              endDate: {
+                type: 'string',
+                description: 'Last day of the source range (default: startDate) — used by rollover',
+              },
+              mode: {
+                type: 'string',
+                enum: ['copy', 'move'],
+                description: 'copy = leave each original as [>] with a >date reference to the target, move = remove the originals (default: copy) — used by rollover',
+              },
+              includeScheduled: {
+                type: 'boolean',
+                description: 'Also roll [>] tasks still sitting in the source range (default: false) — used by rollover',
+              },
+              dryRun: {
+                type: 'boolean',
+                description: 'Preview without writing and get a confirmationToken — used by rollover',
+              },
+              confirmationToken: {
+                type: 'string',
+                description: 'Token from dryRun — used by rollover',
+              },
             },
             required: ['action'],
           },
@@ -1719,7 +2162,7 @@ export function createServer(): Server {
         {
           name: 'noteplan_filters',
           description:
-            'Saved filter operations: list, get, get_tasks, list_parameters, save, rename, delete.\n\nActions:\n- list: List saved filters\n- get: Get one filter with parsed params (requires name)\n- get_tasks: Execute a filter against tasks (requires name)\n- list_parameters: List supported filter parameter keys\n- save: Create or update a filter (requires name + items)\n- rename: Rename a filter (requires oldName + newName)\n- delete: Delete a filter (requires name + dryRun/confirmationToken)',
+            'Saved filter operations: list, get, get_tasks, list_parameters, save, rename, delete.\n\nActions:\n- list: List saved filters\n- get: Get one filter with parsed params (requires name)\n- get_tasks: Execute a filter against tasks (requires name). Runs in NotePlan when it is open, otherwise evaluates the filter from disk (executionBackend: "local"; events and reminders are skipped)\n- list_parameters: List supported filter parameter keys\n- save: Create or update a filter (requires name + items)\n- rename: Rename a filter (requires oldName + newName)\n- delete: Delete a filter (requires name + dryRun/confirmationToken)',
           inputSchema: {
             type: 'object',
             properties: {
@@ -1769,17 +2212,22 @@ export function createServer(): Server {
                 },
                 description: 'Filter items — used by save',
               },
+              executionBackend: {
+                type: 'string',
+                enum: ['auto', 'bridge', 'local'],
+                description: 'auto = NotePlan when running, else local evaluation; bridge = NotePlan only; local = always evaluate from disk (default: auto) — used by get_tasks',
+              },
               maxNotes: {
                 type: 'number',
-                description: 'Max notes to scan — used by get_tasks',
+                description: 'Max notes to scan with the local backend (default: 2000) — used by get_tasks',
               },
               space: {
                 type: 'string',
-                description: 'Space ID scope — used by get_tasks',
+                description: 'Space ID scope for the local backend — used by get_tasks',
               },
               folder: {
                 type: 'string',
-                description: 'Folder scope — used by get_tasks',
+                description: 'Folder scope for the local backend — used by get_tasks',
               },
               limit: {
                 type: 'number',
@@ -1916,14 +2364,14 @@ export function createServer(): Server {
         {
           name: 'noteplan_memory',
           description:
-            'User preference memory operations.\n\nActions:\n- list: List/search stored memories\n- save: Save a new memory (requires content)\n- update: Update memory content/tags (requires id)\n- delete: Delete a memory (requires id)',
+            'User preference memory operations.\n\nActions:\n- list: List/search stored memories. With embeddings enabled, query ranks memories by relevance (score per memory)\n- save: Save a new memory (requires content)\n- update: Update memory content/tags (requires id)\n- delete: Delete a memory (requires id)\n- consolidate: Find near-duplicate or contradictory memories and propose merges that keep the newest — requires dryRun/confirmationToken',
           inputSchema: {
             type: 'object',
             properties: {
               action: {
                 type: 'string',
-                enum: ['list', 'save', 'update', 'delete', 'list_actions'],
-                description: 'Action: list | save | update | delete | list_actions (discover all actions)',
+                enum: ['list', 'save', 'update', 'delete', 'consolidate', 'list_actions'],
+                description: 'Action: list | save | update | delete | consolidate | list_actions (discover all actions)',
               },
               id: {
                 type: 'string',
@@ -1947,7 +2395,74 @@ export function createServer(): Server {
               },
               query: {
                 type: 'string',
-                description: 'Search content — used by list',
+                description: 'Search content — used by list. Ranked by relevance when embeddings are enabled, otherwise substring',
+              },
+              semantic: {
+                type: 'boolean',
+                description: 'Use embeddings (default: when enabled); false forces substring/word-overlap matching — used by list, consolidate',
+              },
+              minScore: {
+                type: 'number',
+                description: 'Minimum similarity for semantic matches (default: 0.3) — used by list',
+              },
+              threshold: {
+                type: 'number',
+                minimum: 0.5,
+                maximum: 1,
+                description: 'Similarity at which memories count as duplicates (default: 0.9 with embeddings, 0.8 word overlap) — used by consolidate',
+              },
+              dryRun: {
+                type: 'boolean',
+                description: 'Preview proposed merges and get a confirmationToken — used by consolidate',
+              },
+              confirmationToken: {
+                type: 'string',
+                description: 'Confirmation token from dryRun — used by consolidate',
+              },
+              limit: {
+                type: 'number',
+                description: 'Max results — used by list',
+              },
+              offset: {
+                type: 'number',
+                description: 'Pagination offset — used by list',
+              },
+            },
+            required: ['action'],
+          },
+        },
+        {
+          name: 'noteplan_history',
+          description:
+            'Undo journal for note and folder writes. Every create/update/delete/move/restore/rename made through this server is recorded with the prior content or location.\n\nActions:\n- list: Recent operations, newest first (filter by operation/query)\n- show: Full entry incl. the content snapshot taken before the write (requires id)\n- undo: Revert one operation (id) or the last N (count) — requires dryRun/confirmationToken. Undo newer operations on a note before older ones; an edit or note creation is refused if the note changed since.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              action: {
+                type: 'string',
+                enum: ['list', 'show', 'undo', 'list_actions'],
+                description: 'Action: list | show | undo | list_actions (discover all actions)',
+              },
+              id: {
+                type: 'string',
+                description: 'History entry ID — used by show, undo',
+              },
+              count: {
+                type: 'number',
+                description: 'Undo the last N pending operations, newest first (max 20) — used by undo instead of id',
+              },
+              operation: {
+                type: 'string',
+                enum: ['create_note', 'update_note', 'delete_note', 'move_note', 'restore_note', 'rename_note', 'create_folder', 'move_folder', 'delete_folder', 'rename_folder'],
+                description: 'Filter by operation — used by list',
+              },
+              query: {
+                type: 'string',
+                description: 'Filter by path/title/summary substring — used by list',
+              },
+              includeUndone: {
+                type: 'boolean',
+                description: 'Include already-undone entries (default: true) — used by list',
               },
               limit: {
                 type: 'number',
@@ -1957,6 +2472,14 @@ export function createServer(): Server {
                 type: 'number',
                 description: 'Pagination offset — used by list',
               },
+              dryRun: {
+                type: 'boolean',
+                description: 'Preview what would be undone and get confirmationToken — used by undo',
+              },
+              confirmationToken: {
+                type: 'string',
+                description: 'Token from dryRun — used by undo',
+              },
             },
             required: ['action'],
           },
@@ -1964,7 +2487,7 @@ export function createServer(): Server {
         {
           name: 'noteplan_search',
           description:
-            'Search across notes or list tags.\n\nActions:\n- search (default): Full-text or metadata search across notes. Use searchField, queryMode, propertyFilters, etc.\n- list_tags: List all tags/hashtags with optional filtering.\n\nSearch: discover notes by content/keywords/phrases and optional frontmatter property filters (e.g. {"category":"marketing"}). Use queryMode=smart/any/all for multi-word token matching, and query="*" for browse mode. Folder filters accept canonical paths from noteplan_folders (action: list/resolve), with or without "Notes/" prefix.',
+            'Search across notes or list tags.\n\nActions:\n- search (default): Full-text or metadata search across notes. Use searchField, queryMode, propertyFilters, etc.\n- list_tags: List all tags/hashtags with optional filtering.\n\nSearch: discover notes by content/keywords/phrases and optional frontmatter property filters (e.g. {"category":"marketing"}). Use queryMode=smart/any/all for multi-word token matching, queryMode=hybrid to also rank by meaning via the embeddings index (results carry matched lines and the best semantic chunk), and query="*" for browse mode. Folder filters accept canonical paths from noteplan_folders (action: list/resolve), with or without "Notes/" prefix.',
           inputSchema: {
             type: 'object',
             properties: {
@@ -1989,9 +2512,9 @@ export function createServer(): Server {
               },
               queryMode: {
                 type: 'string',
-                enum: ['phrase', 'smart', 'any', 'all'],
+                enum: ['phrase', 'smart', 'any', 'all', 'hybrid'],
                 description:
-                  'Multi-word behavior for content search: phrase (exact phrase), smart (token OR + relevance threshold), any (any token), all (all tokens). Default: smart',
+                  'Multi-word behavior for content search: phrase (exact phrase), smart (token OR + relevance threshold), any (any token), all (all tokens), hybrid (smart full-text + semantic embeddings, merged per note by reciprocal-rank fusion; falls back to smart when embeddings are not enabled). Default: smart',
               },
               minTokenMatches: {
                 type: 'number',
@@ -2059,7 +2582,7 @@ export function createServer(): Server {
       {
         name: 'noteplan_embeddings',
         description:
-          'Embeddings/vector search operations.\n\nActions:\n- status: Get embeddings config and index status\n- search: Semantic search over index (requires query)\n- sync: Build/refresh embeddings index\n- reset: Delete index rows (requires dryRun/confirmationToken)',
+          'Embeddings/vector search operations.\n\nActions:\n- status: Get embeddings config and index status (including background auto-sync progress)\n- search: Semantic search over index (requires query). Each match has the chunk heading path and startLine/endLine, which noteplan_edit_content accepts directly\n- sync: Build/refresh embeddings index\n- reset: Delete index rows (requires dryRun/confirmationToken)',
         inputSchema: {
           type: 'object',
           properties: {
@@ -2108,7 +2631,11 @@ export function createServer(): Server {
             },
             maxChunks: {
               type: 'number',
-              description: 'Max chunks to scan — used by search',
+              description: 'Max chunks to scan in an exhaustive search — used by search',
+            },
+            exact: {
+              type: 'boolean',
+              description: 'Skip the approximate (ANN) index and scan every chunk (default: false) — used by search',
             },
             noteQuery: {
               type: 'string',
@@ -2145,6 +2672,57 @@ export function createServer(): Server {
     );
   }
 
+  if (auditToolsEnabled) {
+    toolDefinitions.push({
+      name: 'noteplan_audit',
+      description:
+        'Audit log of tool calls made through this server (who did what, on which note or folder, when). Each entry has the tool, action, target (note filename/id, folder, destination), redacted arguments, client and session, backend, dryRun/confirmationToken use, duration and success or error.\n\nActions:\n- query: Entries newest first, filtered by time range (since/until), tool, toolAction, target substring and success\n- status: Log directory, rotation/retention settings and files',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          action: {
+            type: 'string',
+            enum: ['query', 'status', 'list_actions'],
+            description: 'Action: query | status | list_actions (discover all actions)',
+          },
+          since: {
+            type: 'string',
+            description: 'Start of range: ISO date/time, today, yesterday, or a duration ago like 24h, 7d — used by query',
+          },
+          until: {
+            type: 'string',
+            description: 'End of range, same formats (a bare date includes the whole day) — used by query',
+          },
+          tool: {
+            type: 'string',
+            description: 'Only calls to this tool, e.g. noteplan_folders — used by query',
+          },
+          toolAction: {
+            type: 'string',
+            description: 'Only calls with this action, e.g. delete — used by query',
+          },
+          target: {
+            type: 'string',
+            description: 'Note filename/id/title or folder substring — used by query',
+          },
+          success: {
+            type: 'boolean',
+            description: 'true: successful calls only; false: failed calls only — used by query',
+          },
+          limit: {
+            type: 'number',
+            description: 'Max results (default: 50) — used by query',
+          },
+          offset: {
+            type: 'number',
+            description: 'Pagination offset — used by query',
+          },
+        },
+        required: ['action'],
+      },
+    });
+  }
+
   // noteplan_ui is always available — basic AppleScript commands work on all NotePlan versions
   toolDefinitions.push({
     name: 'noteplan_ui',
@@ -2306,18 +2884,18 @@ export function createServer(): Server {
       {
         name: 'noteplan_themes',
         description:
-          'Theme management: list, get, save, set active.\n\nActions:\n- list: List all themes and active theme names\n- get: Read a custom theme JSON (requires filename)\n- save: Create/update a custom theme (requires filename + theme)\n- set_active: Activate a theme (requires name)',
+          'Theme management: list, get, lint, save, set active.\n\nActions:\n- list: List all themes and active theme names\n- get: Read a custom theme JSON (requires filename)\n- lint: Check a theme\'s readability (theme object or filename): WCAG contrast for body, titles, code, checked tasks and links against their backgrounds, invalid colours, keys inherited from the base system theme, and Light/Dark style vs background. Failing pairs come with suggestedFixes\n- save: Create/update a custom theme (requires filename + theme). Runs lint first and refuses themes with readability errors unless ignoreLint=true\n- set_active: Activate a theme (requires name)',
         inputSchema: {
           type: 'object',
           properties: {
             action: {
               type: 'string',
-              enum: ['list', 'get', 'save', 'set_active', 'list_actions'],
-              description: 'Action: list | get | save | set_active | list_actions (discover all actions)',
+              enum: ['list', 'get', 'lint', 'save', 'set_active', 'list_actions'],
+              description: 'Action: list | get | lint | save | set_active | list_actions (discover all actions)',
             },
             filename: {
               type: 'string',
-              description: 'Theme filename — used by get, save',
+              description: 'Theme filename — used by get, lint, save',
             },
             name: {
               type: 'string',
@@ -2325,7 +2903,7 @@ export function createServer(): Server {
             },
             theme: {
               type: 'object',
-              description: 'Theme object — used by save',
+              description: 'Theme object — used by lint, save',
               properties: {
                 name: { type: 'string' },
                 style: { type: 'string', enum: ['Light', 'Dark'] },
@@ -2338,6 +2916,10 @@ export function createServer(): Server {
               type: 'boolean',
               description: 'Apply theme immediately — used by save (default: true)',
             },
+            ignoreLint: {
+              type: 'boolean',
+              description: 'Save despite readability errors from lint — used by save (default: false)',
+            },
             mode: {
               type: 'string',
               enum: ['light', 'dark', 'auto'],
@@ -2438,7 +3020,7 @@ export function createServer(): Server {
   );
 
 
-  const annotatedToolDefinitions: ToolDefinition[] = toolDefinitions.map((tool): ToolDefinition => ({
+  const annotatedToolDefinitions: ToolDefinition[] = applyPolicyToToolDefinitions(toolDefinitions).map((tool): ToolDefinition => ({
     ...tool,
     inputSchema: withDebugTimingsInputSchema(tool.inputSchema),
     annotations: getToolAnnotations(tool.name),
@@ -2451,12 +3033,13 @@ export function createServer(): Server {
 
   // ── Write actions map for read-only mode guard and description hints ──
   const WRITE_ACTIONS_MAP: Record<string, Set<string>> = {
-    noteplan_manage_note: new Set(['create', 'update', 'delete', 'move', 'restore', 'rename', 'set_property', 'remove_property']),
-    noteplan_edit_content: new Set(['insert', 'append', 'delete_lines', 'edit_line', 'replace_lines']),
-    noteplan_paragraphs: new Set(['add', 'complete', 'update', 'delete_recurring']),
+    noteplan_manage_note: new Set(['create', 'update', 'delete', 'move', 'restore', 'rename', 'set_property', 'remove_property', 'import', 'export']),
+    noteplan_edit_content: new Set(['insert', 'append', 'delete_lines', 'edit_line', 'replace_lines', 'apply_batch']),
+    noteplan_paragraphs: new Set(['add', 'complete', 'update', 'delete_recurring', 'rollover']),
     noteplan_folders: new Set(['create', 'move', 'rename', 'delete']),
     noteplan_eventkit: new Set(['create_event', 'update_event', 'delete_event', 'create', 'complete', 'update', 'delete']),
-    noteplan_memory: new Set(['save', 'update', 'delete']),
+    noteplan_memory: new Set(['save', 'update', 'delete', 'consolidate']),
+    noteplan_history: new Set(['undo']),
     noteplan_filters: new Set(['save', 'rename']),
     noteplan_ui: new Set(['run_plugin', 'backup']),
     noteplan_plugins: new Set(['create', 'delete', 'install', 'update_html', 'update_json', 'screenshot']),
@@ -2503,7 +3086,39 @@ export function createServer(): Server {
       description: r.desc,
       mimeType: 'text/markdown' as const,
     }));
-    return { resources: [...pluginResources, ...generalResources] };
+    let noteResources: Awaited<ReturnType<typeof listNoteResources>> = [];
+    try {
+      noteResources = await listNoteResources();
+    } catch (err) {
+      console.error('[noteplan-mcp] Failed to list note resources:', err);
+    }
+    return { resources: [...pluginResources, ...generalResources, ...noteResources] };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: NOTE_RESOURCE_TEMPLATES };
+  });
+
+  // Subscriptions are per session; watchers stop when the session closes
+  const resourceSubscriptions = createNoteResourceSubscriptions((uri) => server.sendResourceUpdated({ uri }));
+  server.onclose = () => resourceSubscriptions.close();
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    await resourceSubscriptions.subscribe(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    resourceSubscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: listPrompts() };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return getPrompt(request.params.name, request.params.arguments ?? {});
   });
 
   // Register resource read handler
@@ -2527,6 +3142,8 @@ export function createServer(): Server {
         throw new Error(`Unknown resource: ${filename}. Available: ${GENERAL_DOC_RESOURCES.map((r) => r.file).join(', ')}`);
       }
       filePath = path.join(DOCS_DIR, entry.file);
+    } else if (parseNoteResourceUri(uri)) {
+      return readNoteResource(uri);
     } else {
       throw new Error(`Unknown resource URI: ${uri}`);
     }
@@ -2551,6 +3168,11 @@ export function createServer(): Server {
       { action: 'calendar', description: 'Get a calendar note by date' },
       { action: 'periodic', description: 'Get a periodic note (week, month, quarter, year)' },
       { action: 'range', description: 'Get calendar notes in a date range' },
+      { action: 'backlinks', description: 'List [[wiki-links]] pointing to a note (requires id, filename, title, or date)' },
+      { action: 'outgoing_links', description: 'List [[wiki-links]] in a note and whether each resolves (requires note ref)' },
+      { action: 'orphans', description: 'List notes that no other note links to (optional folder/space/types)' },
+      { action: 'broken_links', description: 'List [[wiki-links]] whose note, #heading, or ^block does not exist' },
+      { action: 'review', description: 'Digest of a week/month/quarter/year (requires period): completed, carried-over, new and overdue tasks, notes touched, tags. Optional writeToNote' },
     ],
     noteplan_search: [
       { action: 'search', description: 'Full-text or metadata search across notes' },
@@ -2565,6 +3187,8 @@ export function createServer(): Server {
       { action: 'rename', description: 'Rename a note (requires newTitle)' },
       { action: 'set_property', description: 'Set a frontmatter property (requires key + value)' },
       { action: 'remove_property', description: 'Remove a frontmatter property (requires key)' },
+      { action: 'import', description: 'Import a markdown folder / Obsidian vault (requires sourcePath + dryRun/confirmationToken)' },
+      { action: 'export', description: 'Export a folder, space, date range or search to a local markdown bundle or JSON archive (requires outputPath)' },
     ],
     noteplan_edit_content: [
       { action: 'insert', description: 'Insert content at a position. Use heading param to scope to a section' },
@@ -2572,15 +3196,19 @@ export function createServer(): Server {
       { action: 'delete_lines', description: 'Delete a line range (requires startLine + endLine, 1-indexed)' },
       { action: 'edit_line', description: 'Edit a single line (requires line + content)' },
       { action: 'replace_lines', description: 'Replace a line range (requires startLine + endLine + content)' },
+      { action: 'apply_batch', description: 'Apply several line edits atomically against one snapshot (requires operations; optional expectedHash/expectedModifiedAt)' },
       { action: '(full replace)', description: 'To replace ALL content, use noteplan_manage_note(action: "update") with fullReplace=true instead' },
     ],
     noteplan_paragraphs: [
       { action: 'get', description: 'Get note lines with metadata (requires filename). Use types param to filter by paragraph type (e.g. open-task, done-checklist, heading)' },
       { action: 'search', description: 'Search for matching lines in a note (requires query + note ref)' },
       { action: 'search_global', description: 'Search tasks across all notes (requires query, supports "*" wildcard)' },
+      { action: 'query_tasks', description: 'Query tasks across all notes with status:/tag:/mention:/scheduled:/priority:/folder:/heading:/note:/has: terms and AND/OR/NOT (requires query). Optional saveAsFilter' },
       { action: 'add', description: 'Add a task (requires target + content)' },
       { action: 'complete', description: 'Mark task done (requires filename + lineIndex or line)' },
       { action: 'update', description: 'Update task content/status (requires filename + lineIndex or line)' },
+      { action: 'dependencies', description: 'List tasks with @blocked-by(^blockid) references and whether they are blocked (dependencyState: blocked | unblocked | all). Completing a blocked task requires force=true' },
+      { action: 'rollover', description: 'Roll open tasks from calendar notes in startDate..endDate into a target day/week note (optional heading). mode=copy marks originals [>] with >date, mode=move removes them. Requires dryRun/confirmationToken' },
       { action: 'delete_recurring', description: 'Delete a recurring task and all future occurrences in calendar notes (requires note ref + lineIndex/line/taskQuery). Detects @repeat(X/Y) tag, strips it for comparison, and removes matching lines from all future daily notes' },
     ],
     noteplan_folders: [
@@ -2596,7 +3224,7 @@ export function createServer(): Server {
     noteplan_filters: [
       { action: 'list', description: 'List saved filters' },
       { action: 'get', description: 'Get one filter with parsed params (requires name)' },
-      { action: 'get_tasks', description: 'Execute a filter against tasks (requires name)' },
+      { action: 'get_tasks', description: 'Execute a filter against tasks (requires name). Falls back to local evaluation when NotePlan is not running' },
       { action: 'list_parameters', description: 'List supported filter parameter keys' },
       { action: 'save', description: 'Create or update a filter (requires name + items)' },
       { action: 'rename', description: 'Rename a filter (requires oldName + newName)' },
@@ -2616,10 +3244,20 @@ export function createServer(): Server {
       { action: 'delete', description: 'Delete reminder (source: reminders, requires reminderId + dryRun/confirmationToken)' },
     ],
     noteplan_memory: [
-      { action: 'list', description: 'List/search stored memories' },
+      { action: 'list', description: 'List/search stored memories (query is relevance-ranked when embeddings are enabled)' },
       { action: 'save', description: 'Save a new memory (requires content)' },
       { action: 'update', description: 'Update memory content/tags (requires id)' },
       { action: 'delete', description: 'Delete a memory (requires id)' },
+      { action: 'consolidate', description: 'Propose merges of near-duplicate/contradictory memories (dryRun, then confirmationToken)' },
+    ],
+    noteplan_history: [
+      { action: 'list', description: 'List journaled note/folder writes, newest first' },
+      { action: 'show', description: 'Show one entry with its pre-write snapshot (requires id)' },
+      { action: 'undo', description: 'Revert an operation by id, or the last N via count (requires dryRun/confirmationToken)' },
+    ],
+    noteplan_audit: [
+      { action: 'query', description: 'Query audit entries by time range, tool, toolAction, target or success' },
+      { action: 'status', description: 'Audit log directory, settings and files' },
     ],
     noteplan_ui: [
       { action: 'open_note', description: 'Open a note by title or filename' },
@@ -2647,6 +3285,7 @@ export function createServer(): Server {
     noteplan_themes: [
       { action: 'list', description: 'List all themes and active theme names' },
       { action: 'get', description: 'Read a custom theme JSON (requires filename)' },
+      { action: 'lint', description: 'Check contrast and inherited keys of a theme (theme or filename)' },
       { action: 'save', description: 'Create/update a custom theme (requires filename + theme)' },
       { action: 'set_active', description: 'Activate a theme (requires name)' },
     ],
@@ -2671,11 +3310,13 @@ export function createServer(): Server {
   };
 
   // Register tool call handler
-  server.setRequestHandler(CallToolRequestSchema, async (request) => withBackendTracking(async () => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => withBackendTracking(() => withPolicyCallScope(async () => {
     const { name, arguments: args } = request.params;
     const normalizedName = normalizeToolName(name);
     const includeTiming = isDebugTimingsEnabled(args);
     const startTime = Date.now();
+    // What the client was sent, for the audit log
+    let auditResult: unknown;
 
     const actionLabel = (args as any)?.action ? `${normalizedName}(${(args as any).action})` : normalizedName;
     console.error(`[noteplan-mcp] Tool call: ${actionLabel}`);
@@ -2685,12 +3326,45 @@ export function createServer(): Server {
 
       // ── Intercept list_actions for any tool with an action registry ──
       if ((args as any)?.action === 'list_actions' && TOOL_ACTIONS[normalizedName]) {
-        result = { success: true, tool: normalizedName, actions: TOOL_ACTIONS[normalizedName] };
+        const actions = TOOL_ACTIONS[normalizedName].filter(({ action }) => evaluatePolicy(normalizedName, action).allowed);
+        result = { success: true, tool: normalizedName, actions };
         const resultWithDuration = withDuration(result, Date.now() - startTime, includeTiming);
         const finalResult = withBackend(resultWithDuration);
+        auditResult = finalResult;
         return { content: [{ type: 'text', text: JSON.stringify(finalResult, null, 2) }] };
       }
 
+      // ── Permission policy: denied tool/action pairs, per-action dryRun ──
+      const policyAction = getPolicyAction(normalizedName, args);
+      const policyDecision = evaluatePolicyForActions(
+        normalizedName,
+        getPolicyActions(normalizedName, args),
+        await resolvePolicySpaceKeys(normalizedName, policyAction, args as Record<string, unknown> | undefined)
+      );
+      if (!policyDecision.allowed) {
+        const errorResult = {
+          success: false,
+          error: policyDecision.message,
+          code: 'ERR_POLICY_DENIED',
+          policy: {
+            tool: normalizedName,
+            action: policyAction,
+            reason: policyDecision.reason,
+            scope: policyDecision.scope,
+            ...(policyDecision.rule && { rule: policyDecision.rule }),
+          },
+        };
+        const hasOutputSchema = Boolean(toolDefinitionByName.get(normalizedName)?.outputSchema);
+        const finalResult = withBackend(withDuration(errorResult, Date.now() - startTime, includeTiming));
+        auditResult = finalResult;
+        return {
+          content: [{ type: 'text', text: JSON.stringify(finalResult, null, 2) }],
+          ...(hasOutputSchema ? { structuredContent: finalResult } : {}),
+          isError: true,
+        };
+      }
+      setCallDryRunMode(policyDecision.dryRun);
+
       // ── Read-only mode: reject write actions ──
       if (readOnly) {
         const action = (args as any)?.action;
@@ -2700,6 +3374,7 @@ export function createServer(): Server {
           const hasOutputSchema = !!toolDefinitions.find(t => t.name === normalizedName)?.outputSchema;
           const resultWithDuration = withDuration(errorResult, Date.now() - startTime, includeTiming);
           const finalResult = withBackend(resultWithDuration);
+          auditResult = finalResult;
           return {
             content: [{ type: 'text', text: JSON.stringify(finalResult, null, 2) }],
             ...(hasOutputSchema ? { structuredContent: finalResult } : {}),
@@ -2711,6 +3386,10 @@ export function createServer(): Server {
       switch (normalizedName) {
         // ── Primary consolidated tools ──
         case 'noteplan_get_notes':
+          if (readOnly && (args as any)?.action === 'review' && (args as any)?.writeToNote) {
+            result = { success: false, error: 'Read-only mode is enabled (NOTEPLAN_READ_ONLY=true). writeToNote is not allowed.', code: 'ERR_READ_ONLY' };
+            break;
+          }
           result = await dispatchGetNotes((args ?? {}) as Record<string, unknown>);
           break;
         case 'noteplan_search': {
@@ -2738,7 +3417,9 @@ export function createServer(): Server {
             case 'rename': result = await noteTools.renameNoteFile(args as any); break;
             case 'set_property': result = await noteTools.setProperty(args as any); break;
             case 'remove_property': result = await noteTools.removeProperty(args as any); break;
-            default: throw new Error(`Unknown action: "${action}". Valid actions: create, update, delete, move, restore, rename, set_property, remove_property`);
+            case 'import': result = await importTools.importVault(args as any); break;
+            case 'export': result = await exportTools.exportNotes(args as any); break;
+            default: throw new Error(`Unknown action: "${action}". Valid actions: create, update, delete, move, restore, rename, set_property, remove_property, import, export`);
           }
           break;
         }
@@ -2759,13 +3440,14 @@ export function createServer(): Server {
             case 'delete_lines': result = await noteTools.deleteLines(a); break;
             case 'edit_line': result = await noteTools.editLine(a); break;
             case 'replace_lines': result = await noteTools.replaceLines(a); break;
-            default: throw new Error(`Unknown action: "${action}". Valid actions: insert, append, delete_lines, edit_line, replace_lines (snake_case required)`);
+            case 'apply_batch': result = await noteTools.applyBatch(a); break;
+            default: throw new Error(`Unknown action: "${action}". Valid actions: insert, append, delete_lines, edit_line, replace_lines, apply_batch (snake_case required)`);
           }
           break;
         }
         case 'noteplan_paragraphs': {
           const a = args as any;
-          const paragraphWriteActions = new Set(['add', 'complete', 'update']);
+          const paragraphWriteActions = new Set(['add', 'complete', 'update', 'rollover']);
           if (a.space && paragraphWriteActions.has(a.action) && !advancedFeaturesEnabled) {
             result = { success: false, error: upgradeMessage(`space write (${a.action})`), code: 'ERR_VERSION_GATE' };
             break;
@@ -2782,10 +3464,19 @@ export function createServer(): Server {
             case 'get': result = await noteTools.getParagraphs(a); break;
             case 'search': result = await noteTools.searchParagraphs(a); break;
             case 'search_global': result = await noteTools.searchParagraphsGlobal(a); break;
+            case 'query_tasks':
+              if (readOnly && a.saveAsFilter) {
+                result = { success: false, error: 'Read-only mode is enabled (NOTEPLAN_READ_ONLY=true). saveAsFilter is not allowed.', code: 'ERR_READ_ONLY' };
+                break;
+              }
+              result = await taskTools.queryTasks(a);
+              break;
             case 'add': result = await taskTools.addTaskToNote(a); break;
             case 'complete': result = await taskTools.completeTask(a); break;
             case 'update': result = await taskTools.updateTask(a); break;
             case 'delete_recurring': result = await taskTools.deleteRecurringTask(a); break;
+            case 'dependencies': result = await taskTools.listTaskDependencies(a); break;
+            case 'rollover': result = await rolloverTools.rolloverTasks(a); break;
             default: throw new Error(`Unknown action: ${action}`);
           }
           break;
@@ -2853,10 +3544,30 @@ export function createServer(): Server {
         case 'noteplan_memory': {
           const action = (args as any)?.action;
           switch (action) {
-            case 'list': result = memoryTools.listMemories(args as any); break;
+            case 'list': result = await memoryTools.listMemories(args as any); break;
             case 'save': result = memoryTools.saveMemory(args as any); break;
             case 'update': result = memoryTools.updateMemory(args as any); break;
             case 'delete': result = memoryTools.deleteMemory(args as any); break;
+            case 'consolidate': result = await memoryTools.consolidateMemories(args as any); break;
+            default: throw new Error(`Unknown action: ${action}`);
+          }
+          break;
+        }
+        case 'noteplan_history': {
+          const action = (args as any)?.action;
+          switch (action) {
+            case 'list': result = historyTools.listHistory(args as any); break;
+            case 'show': result = historyTools.showHistory(args as any); break;
+            case 'undo': result = await historyTools.undoHistory(args as any); break;
+            default: throw new Error(`Unknown action: ${action}`);
+          }
+          break;
+        }
+        case 'noteplan_audit': {
+          const action = (args as any)?.action;
+          switch (action) {
+            case 'query': result = auditTools.queryAudit(args as any); break;
+            case 'status': result = auditTools.auditStatus(); break;
             default: throw new Error(`Unknown action: ${action}`);
           }
           break;
@@ -2938,6 +3649,7 @@ export function createServer(): Server {
           switch (action) {
             case 'list': result = await themeTools.listThemes(args as any); break;
             case 'get': result = await themeTools.getTheme(args as any); break;
+            case 'lint': result = await themeTools.lintTheme(args as any); break;
             case 'save': result = await themeTools.saveTheme(args as any); break;
             case 'set_active': result = await themeTools.setTheme(args as any); break;
             default: throw new Error(`Unknown action: ${action}`);
@@ -2988,6 +3700,7 @@ export function createServer(): Server {
       const resultWithMemory = withMemoryHints(resultWithSuggestions, normalizedName);
       const resultWithDuration = withDuration(resultWithMemory, Date.now() - startTime, includeTiming);
       const finalResult = withBackend(resultWithDuration);
+      auditResult = finalResult;
 
       // Log non-throwing errors (success: false returned without an exception)
       if (finalResult && typeof finalResult === 'object' && (finalResult as any).success === false) {
@@ -3049,6 +3762,7 @@ export function createServer(): Server {
       };
       const errorWithDuration = withDuration(errorResult, Date.now() - startTime, includeTiming);
       const finalErrorResult = withBackend(errorWithDuration);
+      auditResult = finalErrorResult;
       const hasOutputSchema = Boolean(toolDefinitionByName.get(normalizedName)?.outputSchema);
       return {
         content: [
@@ -3068,8 +3782,21 @@ export function createServer(): Server {
       if (backends.length > 0) {
         console.error(`[noteplan-mcp]   ↳ backend: ${backends.join('+')}`);
       }
+      if (auditToolsEnabled) {
+        const clientInfo = server.getClientVersion();
+        recordToolCall({
+          tool: normalizedName,
+          args,
+          result: auditResult ?? { success: false, error: 'No result' },
+          backends,
+          durationMs: Date.now() - startTime,
+          client: clientInfo ? { name: clientInfo.name, version: clientInfo.version } : undefined,
+          sessionId: extra.sessionId,
+          startedAt: new Date(startTime),
+        });
+      }
     }
-  }));
+  })));
 
   return server;
 }
@@ -3130,25 +3857,10 @@ async function probeAndWarmBridge(): Promise<void> {
   }
 }
 
-// Start the server with stdio transport
-export async function startServer(): Promise<void> {
-  console.error(`[noteplan-mcp] Starting v${getMcpServerVersion()} (Node ${process.version}, ${process.platform} ${process.arch}, pid ${process.pid})`);
-  await initSqlite();
-  const server = createServer();
-
-  // Bridge probe + SearchHelper / NoteCache warm-up. AWAIT this before
-  // accepting requests so the user's first search hits the warm bridge
-  // instead of racing it and falling back to ripgrep. Bounded by a
-  // short overall timeout so a wedged bridge can't block startup.
-  await probeAndWarmBridge();
-
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error('[noteplan-mcp] Server running on stdio');
-
-  // Nudge the client to re-fetch tools once after a version upgrade.
-  // We store the last-seen version in a tiny file so the notification
-  // only fires on the first connect after an update, not every time.
+// Nudge the client to re-fetch tools once after a version upgrade.
+// We store the last-seen version in a tiny file so the notification
+// only fires on the first connect after an update, not every time.
+function notifyToolListChangedAfterUpgrade(server: Server): void {
   try {
     const versionFile = path.join(os.homedir(), '.noteplan-mcp-last-version');
     const lastVersion = fs.existsSync(versionFile) ? fs.readFileSync(versionFile, 'utf-8').trim() : '';
@@ -3167,3 +3879,57 @@ export async function startServer(): Promise<void> {
     // Non-critical — don't let version tracking break the server
   }
 }
+
+// Opt-in background embeddings sync (NOTEPLAN_EMBEDDINGS_AUTO_SYNC). Started
+// after the bridge warm-up so its first sync lists notes through the bridge.
+function startBackgroundEmbeddingsSync(): void {
+  try {
+    if (embeddingsTools.areEmbeddingsToolsEnabled()) {
+      startEmbeddingsWatcher();
+    }
+  } catch (err) {
+    console.error('[noteplan-mcp] Failed to start background embeddings sync:', err);
+  }
+}
+
+// Start the server on stdio (default) or, when opted in, on localhost
+// Streamable HTTP so several clients can share one warmed process.
+export async function startServer(options: { transport?: TransportMode } = {}): Promise<void> {
+  const transportMode = options.transport ?? getTransportMode();
+  console.error(`[noteplan-mcp] Starting v${getMcpServerVersion()} (Node ${process.version}, ${process.platform} ${process.arch}, pid ${process.pid})`);
+  await initSqlite();
+
+  if (transportMode === 'http') {
+    // Fail before warming anything: an unauthenticated localhost endpoint
+    // would expose the whole vault to any local process or browser page.
+    const token = getHttpToken();
+    if (!token) {
+      throw new Error('HTTP transport requires NOTEPLAN_MCP_HTTP_TOKEN to be set (clients send it as "Authorization: Bearer <token>")');
+    }
+    await probeAndWarmBridge();
+    const running = await startHttpTransport({
+      port: getHttpPort(),
+      token,
+      createSession: createServer,
+      sessionIdleMs: getHttpSessionIdleMs(),
+    });
+    console.error(`[noteplan-mcp] Server running on Streamable HTTP at ${running.url}`);
+    startBackgroundEmbeddingsSync();
+    return;
+  }
+
+  const server = createServer();
+
+  // Bridge probe + SearchHelper / NoteCache warm-up. AWAIT this before
+  // accepting requests so the user's first search hits the warm bridge
+  // instead of racing it and falling back to ripgrep. Bounded by a
+  // short overall timeout so a wedged bridge can't block startup.
+  await probeAndWarmBridge();
+
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  console.error('[noteplan-mcp] Server running on stdio');
+  startBackgroundEmbeddingsSync();
+
+  notifyToolListChangedAfterUpgrade(server);
+}
@@ -6,9 +6,11 @@ import { z } from 'zod';
 import * as store from '../noteplan/unified-store.js';
 import { getNotePlanPath } from '../noteplan/file-reader.js';
 import {
-  ATTACHMENT_SUFFIX,
-  getNoteBaseName,
   getAttachmentsAbsolutePath,
+  cleanFilename,
+  getRelativeAttachmentPath,
+  isImageFile,
+  toMarkdownLink,
 } from '../noteplan/attachments-paths.js';
 import {
   pathExists,
@@ -25,10 +27,6 @@ import {
 } from '../transport/bridge-fs.js';
 import { getBridgeClient } from '../transport/bridge-availability.js';
 
-const IMAGE_EXTENSIONS = new Set([
-  'jpg', 'jpeg', 'png', 'gif', 'bmp', 'tiff', 'tif', 'webp', 'heic', 'heif',
-]);
-
 // ── Schema ──
 
 export const attachmentsSchema = z.object({
@@ -57,14 +55,6 @@ export const attachmentsSchema = z.object({
 
 // ── Helpers (mirrors FileAttachments.swift patterns) ──
 
-/**
- * Sanitize filename by removing markdown-conflicting characters.
- * Mirrors FileAttachments.cleanImageNameFromMarkdownConflicts()
- */
-function cleanFilename(name: string): string {
-  return name.replace(/[()[\]!]/g, '');
-}
-
 /**
  * Get the absolute path to a note's attachments folder. Resolves
  * relative paths against the NotePlan storage root, then delegates to
@@ -78,48 +68,6 @@ function getAttachmentsFolderPath(noteFilename: string): string {
   return getAttachmentsAbsolutePath(fullNotePath);
 }
 
-/**
- * Get the relative markdown link path for an attachment.
- * Mirrors: url.pathComponents.suffix(2).joined(separator: "/")
- * Returns: "noteName_attachments/filename.png"
- */
-function getRelativeAttachmentPath(noteFilename: string, attachmentFilename: string): string {
-  const noteName = getNoteBaseName(noteFilename);
-  return `${noteName}${ATTACHMENT_SUFFIX}/${attachmentFilename}`;
-}
-
-/**
- * Percent-encode special characters in paths for markdown links.
- * Mirrors: FileAttachments.encoded()
- */
-function encodePath(filePath: string): string {
-  return filePath
-    .replace(/%/g, '%25')
-    .replace(/\(/g, '%28')
-    .replace(/\)/g, '%29')
-    .replace(/ /g, '%20');
-}
-
-/**
- * Check if a file is an image based on extension.
- */
-function isImageFile(filename: string): boolean {
-  const ext = path.extname(filename).toLowerCase().replace('.', '');
-  return IMAGE_EXTENSIONS.has(ext);
-}
-
-/**
- * Generate the markdown link for an attachment.
- * Images: ![image](relativePath)
- * Files:  ![file](relativePath)
- */
-function toMarkdownLink(noteFilename: string, attachmentFilename: string): string {
-  const relativePath = getRelativeAttachmentPath(noteFilename, attachmentFilename);
-  const encoded = encodePath(relativePath);
-  const alt = isImageFile(attachmentFilename) ? 'image' : 'file';
-  return `![${alt}](${encoded})`;
-}
-
 /**
  * Ensure path is inside the NotePlan root directory.
  */
@@ -0,0 +1,82 @@
+// Audit log queries: query, status
+
+import { z } from 'zod';
+import { getAuditLogStatus, isAuditLogEnabled, queryAuditEntries } from '../utils/audit-log.js';
+
+const RELATIVE_TIME = /^(\d+)\s*(m|h|d|w)$/i;
+const RELATIVE_UNIT_MS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+const queryAuditSchema = z.object({
+  since: z.string().optional().describe('Start of the time range: ISO date/time, today, yesterday, or a duration ago (30m, 24h, 7d, 2w)'),
+  until: z.string().optional().describe('End of the time range, same formats as since (a bare date includes the whole day)'),
+  tool: z.string().optional().describe('Only calls to this tool, e.g. noteplan_folders'),
+  toolAction: z.string().optional().describe('Only calls with this action, e.g. delete'),
+  target: z.string().optional().describe('Note filename/id/title, folder or other target substring (case-insensitive)'),
+  success: z.boolean().optional().describe('true for successful calls only, false for failed calls only'),
+  limit: z.number().min(1).max(500).optional().default(50).describe('Maximum entries to return (default: 50)'),
+  offset: z.number().min(0).optional().default(0).describe('Pagination offset (default: 0)'),
+});
+
+/** Parse a time-range bound; `endOfDay` widens bare dates to the end of that day. */
+export function parseAuditTime(input: string, endOfDay = false, now = new Date()): Date | null {
+  const value = input.trim().toLowerCase();
+  const relative = value.match(RELATIVE_TIME);
+  if (relative) {
+    return new Date(now.getTime() - Number(relative[1]) * RELATIVE_UNIT_MS[relative[2].toLowerCase()]);
+  }
+
+  let day: Date | null = null;
+  if (value === 'today' || value === 'yesterday') {
+    day = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (value === 'yesterday' ? 1 : 0));
+  } else if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const [year, month, date] = value.split('-').map(Number);
+    day = new Date(year, month - 1, date);
+  }
+  if (day) {
+    if (endOfDay) day.setHours(23, 59, 59, 999);
+    return day;
+  }
+
+  const parsed = new Date(input.trim());
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+export function queryAudit(args: unknown): Record<string, unknown> {
+  const parsed = queryAuditSchema.safeParse(args ?? {});
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues.map((i) => i.message).join('; ') };
+  }
+
+  const { since, until, tool, toolAction, target, success, limit, offset } = parsed.data;
+  const sinceDate = since ? parseAuditTime(since) : undefined;
+  const untilDate = until ? parseAuditTime(until, true) : undefined;
+  if (sinceDate === null || untilDate === null) {
+    return {
+      success: false,
+      error: `Invalid ${sinceDate === null ? 'since' : 'until'} value. Use an ISO date/time, today, yesterday, or a duration like 24h or 7d`,
+    };
+  }
+
+  const entries = queryAuditEntries({ since: sinceDate, until: untilDate, tool, action: toolAction, target, success });
+  const paged = entries.slice(offset, offset + limit);
+
+  return {
+    success: true,
+    enabled: isAuditLogEnabled(),
+    count: paged.length,
+    totalCount: entries.length,
+    offset,
+    limit,
+    hasMore: offset + limit < entries.length,
+    entries: paged,
+  };
+}
+
+export function auditStatus(): Record<string, unknown> {
+  return { success: true, ...getAuditLogStatus() };
+}
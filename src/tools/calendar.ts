@@ -2,6 +2,23 @@
 
 import { z } from 'zod';
 import * as store from '../noteplan/unified-store.js';
+import { rememberRevision } from '../noteplan/revisions.js';
+import { hashContent } from '../noteplan/history.js';
+import { buildDiffPreview } from '../utils/text-diff.js';
+import { isTrueBool } from '../utils/boolean-param.js';
+import {
+  confirmationFailureMessage,
+  issueConfirmationToken,
+  validateAndConsumeConfirmationToken,
+} from '../utils/confirmation-tokens.js';
+import { getFirstDayOfWeekCached } from '../noteplan/preferences.js';
+import { periodicTokenRange } from '../noteplan/filter-engine.js';
+import {
+  buildPeriodicReview,
+  renderPeriodicReview,
+  ReviewRange,
+  upsertReviewSection,
+} from '../noteplan/periodic-review.js';
 import {
   parseFlexibleDate,
   formatDateForDisplay,
@@ -10,6 +27,8 @@ import {
   getDatesInRange,
   getISOWeek,
   getWeekRespectingPreference,
+  getTodayDateString,
+  parseDateString,
 } from '../utils/date-utils.js';
 
 function toBoundedInt(value: unknown, defaultValue: number, min: number, max: number): number {
@@ -57,6 +76,7 @@ export async function getToday(params: z.infer<typeof getTodaySchema>) {
           date: createdNote.date,
           displayDate: createdNote.date ? formatDateForDisplay(createdNote.date) : undefined,
         },
+        contentHash: rememberRevision(createdNote.content),
         created: true,
       };
     } catch (error) {
@@ -78,6 +98,7 @@ export async function getToday(params: z.infer<typeof getTodaySchema>) {
       date: note.date,
       displayDate: note.date ? formatDateForDisplay(note.date) : undefined,
     },
+    contentHash: rememberRevision(note.content),
   };
 }
 
@@ -129,6 +150,7 @@ export async function getCalendarNote(params: z.infer<typeof getCalendarNoteSche
       date: note.date,
       displayDate: note.date ? formatDateForDisplay(note.date) : undefined,
     },
+    contentHash: rememberRevision(note.content),
   };
 }
 
@@ -194,6 +216,25 @@ export const getRecentPeriodicNotesSchema = z.object({
   space: z.string().optional().describe('Space name or ID'),
 });
 
+export const getPeriodicReviewSchema = z.object({
+  type: z.enum(['weekly', 'monthly', 'quarterly', 'yearly']).describe('Period to review'),
+  date: z.string().optional().describe('Any date inside the period (YYYY-MM-DD, "today", ...). Defaults to today'),
+  week: z.number().optional().describe('For weekly reviews: specific week number (1-53). Use with year parameter.'),
+  year: z.number().optional().describe('Specific year (e.g., 2025)'),
+  month: z.number().optional().describe('For monthly reviews: specific month (1-12). Use with year parameter.'),
+  quarter: z.number().optional().describe('For quarterly reviews: specific quarter (1-4). Use with year parameter.'),
+  writeToNote: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Also write the digest into the period\'s note under heading. Replacing an existing section requires dryRun/confirmationToken'),
+  heading: z.string().optional().default('Review').describe('Heading for the written digest (default: "Review")'),
+  dryRun: z.boolean().optional().describe('With writeToNote: preview the change to the note without writing'),
+  confirmationToken: z.string().optional().describe('Confirmation token issued by dryRun, required to replace an existing section'),
+  limit: z.number().min(1).max(200).optional().default(50).describe('Maximum items returned per bucket'),
+  space: z.string().optional().describe('Space name or ID'),
+});
+
 export const getNotesInFolderSchema = z.object({
   folder: z.string().describe('Folder path (e.g., "Projects", "10 - Projects")'),
   space: z.string().optional().describe('Space name or ID to scope the folder listing'),
@@ -221,88 +262,103 @@ function shiftDateBackByPeriod(date: Date, type: 'weekly' | 'monthly' | 'quarter
   }
 }
 
+type PeriodicNoteRef = Pick<z.infer<typeof getPeriodicNoteSchema>, 'type' | 'week' | 'year' | 'month' | 'quarter'>;
+
 /**
- * Get a periodic note (weekly, monthly, quarterly, yearly)
- * Tries multiple paths with both .md and .txt extensions
+ * Resolve the calendar filename (without extension) and display name of a
+ * periodic note from explicit week/month/quarter/year or a reference date
  */
-export async function getPeriodicNote(params: z.infer<typeof getPeriodicNoteSchema>, options?: { autoCreate?: boolean }) {
-  const autoCreate = options?.autoCreate ?? true;
-  try {
-    const refDate = params.date ? new Date(params.date) : new Date();
-    const currentYear = new Date().getFullYear();
-    let baseFilename: string; // Without extension
-    let displayName: string;
-    let folderYear: number; // Year to use in folder path
-
-    switch (params.type) {
-      case 'weekly': {
-        // Allow direct week/year specification, or derive from date
-        let weekNum: number;
-        let weekYear: number;
-
-        if (params.week !== undefined) {
-          weekNum = params.week;
-          weekYear = params.year || currentYear;
-        } else {
-          // Use week calculation that respects NotePlan's firstDayOfWeek preference
-          const weekInfo = getWeekRespectingPreference(refDate);
-          weekNum = weekInfo.week;
-          weekYear = weekInfo.year;
-        }
-
-        const weekStr = String(weekNum).padStart(2, '0');
-        baseFilename = `${weekYear}-W${weekStr}`;
-        displayName = `Week ${weekNum}, ${weekYear}`;
-        folderYear = weekYear;
-        break;
+function resolvePeriodicNoteName(
+  params: PeriodicNoteRef,
+  refDate: Date
+): { baseFilename: string; displayName: string; folderYear: number } {
+  const currentYear = new Date().getFullYear();
+  let baseFilename: string; // Without extension
+  let displayName: string;
+  let folderYear: number; // Year to use in folder path
+
+  switch (params.type) {
+    case 'weekly': {
+      // Allow direct week/year specification, or derive from date
+      let weekNum: number;
+      let weekYear: number;
+
+      if (params.week !== undefined) {
+        weekNum = params.week;
+        weekYear = params.year || currentYear;
+      } else {
+        // Use week calculation that respects NotePlan's firstDayOfWeek preference
+        const weekInfo = getWeekRespectingPreference(refDate);
+        weekNum = weekInfo.week;
+        weekYear = weekInfo.year;
       }
-      case 'monthly': {
-        // Allow direct month/year specification
-        let monthNum: number;
-        let monthYear: number;
-
-        if (params.month !== undefined) {
-          monthNum = params.month;
-          monthYear = params.year || currentYear;
-        } else {
-          monthNum = refDate.getMonth() + 1;
-          monthYear = refDate.getFullYear();
-        }
 
-        const monthStr = String(monthNum).padStart(2, '0');
-        baseFilename = `${monthYear}-${monthStr}`;
-        const monthDate = new Date(monthYear, monthNum - 1, 1);
-        displayName = monthDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
-        folderYear = monthYear;
-        break;
+      const weekStr = String(weekNum).padStart(2, '0');
+      baseFilename = `${weekYear}-W${weekStr}`;
+      displayName = `Week ${weekNum}, ${weekYear}`;
+      folderYear = weekYear;
+      break;
+    }
+    case 'monthly': {
+      // Allow direct month/year specification
+      let monthNum: number;
+      let monthYear: number;
+
+      if (params.month !== undefined) {
+        monthNum = params.month;
+        monthYear = params.year || currentYear;
+      } else {
+        monthNum = refDate.getMonth() + 1;
+        monthYear = refDate.getFullYear();
       }
-      case 'quarterly': {
-        // Allow direct quarter/year specification
-        let quarterNum: number;
-        let quarterYear: number;
-
-        if (params.quarter !== undefined) {
-          quarterNum = params.quarter;
-          quarterYear = params.year || currentYear;
-        } else {
-          quarterNum = Math.floor(refDate.getMonth() / 3) + 1;
-          quarterYear = refDate.getFullYear();
-        }
 
-        baseFilename = `${quarterYear}-Q${quarterNum}`;
-        displayName = `Q${quarterNum} ${quarterYear}`;
-        folderYear = quarterYear;
-        break;
-      }
-      case 'yearly': {
-        // Allow direct year specification
-        const yearNum = params.year || refDate.getFullYear();
-        baseFilename = `${yearNum}`;
-        displayName = `${yearNum}`;
-        folderYear = yearNum;
-        break;
+      const monthStr = String(monthNum).padStart(2, '0');
+      baseFilename = `${monthYear}-${monthStr}`;
+      const monthDate = new Date(monthYear, monthNum - 1, 1);
+      displayName = monthDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+      folderYear = monthYear;
+      break;
+    }
+    case 'quarterly': {
+      // Allow direct quarter/year specification
+      let quarterNum: number;
+      let quarterYear: number;
+
+      if (params.quarter !== undefined) {
+        quarterNum = params.quarter;
+        quarterYear = params.year || currentYear;
+      } else {
+        quarterNum = Math.floor(refDate.getMonth() / 3) + 1;
+        quarterYear = refDate.getFullYear();
       }
+
+      baseFilename = `${quarterYear}-Q${quarterNum}`;
+      displayName = `Q${quarterNum} ${quarterYear}`;
+      folderYear = quarterYear;
+      break;
+    }
+    case 'yearly': {
+      // Allow direct year specification
+      const yearNum = params.year || refDate.getFullYear();
+      baseFilename = `${yearNum}`;
+      displayName = `${yearNum}`;
+      folderYear = yearNum;
+      break;
     }
+  }
+
+  return { baseFilename, displayName, folderYear };
+}
+
+/**
+ * Get a periodic note (weekly, monthly, quarterly, yearly)
+ * Tries multiple paths with both .md and .txt extensions
+ */
+export async function getPeriodicNote(params: z.infer<typeof getPeriodicNoteSchema>, options?: { autoCreate?: boolean }) {
+  const autoCreate = options?.autoCreate ?? true;
+  try {
+    const refDate = params.date ? new Date(params.date) : new Date();
+    const { baseFilename, displayName, folderYear } = resolvePeriodicNoteName(params, refDate);
 
     // Build list of paths to try - flat structure first (more common), then year subfolder
     const pathsToTry = [
@@ -325,6 +381,7 @@ export async function getPeriodicNote(params: z.infer<typeof getPeriodicNoteSche
             type: params.type,
             displayName,
           },
+          contentHash: rememberRevision(note.content),
         };
       }
     }
@@ -346,6 +403,7 @@ export async function getPeriodicNote(params: z.infer<typeof getPeriodicNoteSche
               type: params.type,
               displayName,
             },
+            contentHash: rememberRevision(created.content),
           };
         }
       } catch (err) {
@@ -462,6 +520,130 @@ export async function getRecentPeriodicNotes(params: z.infer<typeof getRecentPer
   }
 }
 
+/**
+ * Build a review digest for a week/month/quarter/year: completed, carried-over,
+ * new open and overdue tasks, notes created/modified, and tags used.
+ * Optionally writes it into the matching periodic note.
+ */
+export async function getPeriodicReview(params: z.infer<typeof getPeriodicReviewSchema>) {
+  try {
+    const itemLimit = toBoundedInt(params.limit, 50, 1, 200);
+    const heading = params.heading?.trim() || 'Review';
+    const refDate = params.date ? parseDateString(parseFlexibleDate(params.date)) : new Date();
+    if (!refDate) {
+      return {
+        success: false,
+        error: `Invalid date: ${params.date}`,
+      };
+    }
+
+    const { baseFilename, displayName } = resolvePeriodicNoteName(params, refDate);
+    const firstDayOfWeek = getFirstDayOfWeekCached();
+    const range = periodicTokenRange(baseFilename, firstDayOfWeek) as ReviewRange | null;
+    if (!range) {
+      return {
+        success: false,
+        error: `Could not resolve ${params.type} period ${baseFilename}`,
+      };
+    }
+
+    const notes = await store.listNotes({ space: params.space });
+    const review = buildPeriodicReview(notes, range, {
+      today: getTodayDateString(),
+      firstDayOfWeek,
+      reviewHeading: heading,
+    });
+
+    const buckets = {
+      completed: review.completed,
+      carriedOver: review.carriedOver,
+      newOpenTasks: review.newOpen,
+      overdue: review.overdue,
+      notesCreated: review.notesCreated,
+      notesModified: review.notesModified,
+      tags: review.tags,
+    };
+    const counts = Object.fromEntries(
+      Object.entries(buckets).map(([key, items]) => [key, items.length])
+    );
+    const response: Record<string, unknown> = {
+      success: true,
+      type: params.type,
+      period: baseFilename,
+      displayName,
+      startDate: range.start,
+      endDate: range.end,
+      scannedNoteCount: review.scannedNoteCount,
+      counts,
+      ...Object.fromEntries(
+        Object.entries(buckets).map(([key, items]) => [key, items.slice(0, itemLimit)])
+      ),
+      truncated: Object.values(buckets).some((items) => items.length > itemLimit),
+    };
+
+    if (params.writeToNote === true) {
+      const existing = await store.getCalendarNote(baseFilename, params.space);
+      const updated = upsertReviewSection(existing?.content ?? '', heading, (level) =>
+        renderPeriodicReview(review, level, itemLimit)
+      );
+      // The section under heading may hold the user's own writing, so
+      // replacing it goes through the usual dryRun/confirmationToken step.
+      // Appending a new section doesn't.
+      const confirmTarget = `${existing?.filename ?? baseFilename}#${heading}:${hashContent(existing?.content ?? '')}`;
+      if (isTrueBool(params.dryRun)) {
+        return {
+          ...response,
+          dryRun: true,
+          message: updated.replaced
+            ? `Dry run: the existing "${heading}" section in ${displayName} would be replaced`
+            : `Dry run: a "${heading}" section would be appended to ${displayName}`,
+          replacesExistingSection: updated.replaced,
+          ...buildDiffPreview(existing?.content ?? '', updated.content, { label: existing?.filename ?? baseFilename }),
+          ...(updated.replaced &&
+            issueConfirmationToken({ tool: 'noteplan_get_notes', target: confirmTarget, action: 'review' })),
+        };
+      }
+      if (updated.replaced) {
+        const confirmation = validateAndConsumeConfirmationToken(params.confirmationToken, {
+          tool: 'noteplan_get_notes',
+          target: confirmTarget,
+          action: 'review',
+        });
+        if (!confirmation.ok) {
+          return {
+            success: false,
+            error: `${displayName} already has a "${heading}" section. ${confirmationFailureMessage(
+              'noteplan_get_notes',
+              confirmation.reason,
+              'Call noteplan_get_notes with action="review", writeToNote=true and dryRun=true to preview the replacement and get a confirmationToken.'
+            )}`,
+          };
+        }
+      }
+
+      const target = existing ?? (await store.ensureCalendarNote(baseFilename, params.space));
+      const written = await store.updateNote(
+        target.source === 'space' ? target.id : target.filename,
+        updated.content,
+        { source: target.source }
+      );
+      response.written = {
+        filename: written.filename,
+        heading,
+        replacedExistingSection: updated.replaced,
+      };
+      response.contentHash = rememberRevision(written.content);
+    }
+
+    return response;
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to build periodic review',
+    };
+  }
+}
+
 /**
  * Get multiple daily notes in a date range
  */
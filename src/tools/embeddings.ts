@@ -7,6 +7,7 @@ import {
   searchEmbeddings,
   syncEmbeddings,
 } from '../noteplan/embeddings.js';
+import { getEmbeddingsWatcherStatus } from '../noteplan/embeddings-watcher.js';
 import { resolveSpaceId } from '../noteplan/unified-store.js';
 import { isSqliteAvailable } from '../noteplan/sqlite-loader.js';
 import {
@@ -123,6 +124,11 @@ export const embeddingsSearchSchema = z.object({
     .optional()
     .default(8000)
     .describe('Maximum indexed chunks to scan before ranking'),
+  exact: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Skip the approximate (ANN) index and scan every chunk. Default false.'),
 });
 
 export const embeddingsResetSchema = z.object({
@@ -150,9 +156,12 @@ export async function embeddingsStatus(params?: z.infer<typeof embeddingsStatusS
     };
   }
 
-  return getEmbeddingsStatus({
-    space: await resolveSpaceId(parsed.data.space),
-  });
+  return {
+    ...getEmbeddingsStatus({
+      space: await resolveSpaceId(parsed.data.space),
+    }),
+    autoSync: getEmbeddingsWatcherStatus(),
+  };
 }
 
 export async function embeddingsSync(params?: z.infer<typeof embeddingsSyncSchema>) {
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Note } from '../noteplan/types.js';
+
+vi.mock('../noteplan/file-reader.js', () => ({
+  getNotePlanPath: vi.fn(() => '/noteplan-root'),
+}));
+vi.mock('../noteplan/unified-store.js', () => ({
+  listNotes: vi.fn(),
+  getNote: vi.fn(),
+  searchNotes: vi.fn(),
+}));
+vi.mock('../noteplan/filter-store.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../noteplan/filter-store.js')>()),
+  getFilter: vi.fn(),
+}));
+vi.mock('../transport/bridge-fs.js', () => ({
+  readDir: vi.fn(async () => []),
+  readFileBinary: vi.fn(),
+}));
+
+import * as store from '../noteplan/unified-store.js';
+import * as filterStore from '../noteplan/filter-store.js';
+import { __resetFolderAccessConfigForTests } from '../utils/folder-access.js';
+import { exportNotes } from './export.js';
+
+function makeNote(filename: string, content: string, extra: Partial<Note> = {}): Note {
+  return {
+    id: filename,
+    title: path.basename(filename).replace(/\.(md|txt)$/, ''),
+    filename,
+    content,
+    type: filename.startsWith('Calendar/') ? 'calendar' : 'note',
+    source: 'local',
+    ...extra,
+  };
+}
+
+const alpha = makeNote('Notes/Projects/Alpha.md', '---\nstatus: active\n---\n# Alpha\nSee [[Beta#Next Steps]] and [[Missing]].');
+const beta = makeNote('Notes/Projects/Sub/Beta.txt', '# Beta\n## Next Steps\n- [[Alpha|back]]');
+const daily = makeNote('Calendar/20260301.md', '* standup', { date: '20260301' });
+const dailyLater = makeNote('Calendar/20260420.md', '* review', { date: '20260420' });
+
+describe('exportNotes', () => {
+  let outDir: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    outDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'export-')), 'bundle');
+    vi.mocked(store.listNotes).mockImplementation(async (options: any = {}) =>
+      options.type === 'calendar' ? [daily, dailyLater] : [alpha, beta]
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(outDir), { recursive: true, force: true });
+    delete process.env.NOTEPLAN_DENIED_FOLDERS;
+    __resetFolderAccessConfigForTests();
+  });
+
+  it('writes markdown files with links between exported notes made relative', async () => {
+    const result = (await exportNotes({ outputPath: outDir, folder: 'Projects' } as any)) as any;
+
+    expect(result.success).toBe(true);
+    expect(result).toMatchObject({ noteCount: 2, linksResolved: 2, linksLeftAsWikiLinks: 1 });
+    expect(fs.readFileSync(path.join(outDir, 'Notes/Projects/Alpha.md'), 'utf-8')).toContain(
+      'See [Beta > Next Steps](Sub/Beta.md#next-steps) and [[Missing]].'
+    );
+    expect(fs.readFileSync(path.join(outDir, 'Notes/Projects/Sub/Beta.md'), 'utf-8')).toContain('- [back](../Alpha.md)');
+  });
+
+  it('writes a single JSON archive with parsed frontmatter', async () => {
+    const result = (await exportNotes({ outputPath: outDir, folder: 'Projects', format: 'json' } as any)) as any;
+
+    expect(result.success).toBe(true);
+    const archive = JSON.parse(fs.readFileSync(result.archivePath, 'utf-8'));
+    expect(archive.noteCount).toBe(2);
+    const entry = archive.notes.find((note: any) => note.filename === alpha.filename);
+    expect(entry.frontmatter).toEqual({ status: 'active' });
+    expect(entry.body.startsWith('# Alpha')).toBe(true);
+    expect(fs.readdirSync(outDir)).toEqual(['noteplan-export.json']);
+  });
+
+  it('filters daily notes by date range', async () => {
+    const result = (await exportNotes({
+      outputPath: outDir,
+      startDate: '2026-03-01',
+      endDate: '2026-03-31',
+      dryRun: true,
+    } as any)) as any;
+
+    expect(result.success).toBe(true);
+    expect(result.notes.map((note: any) => note.exportPath)).toEqual(['Calendar/20260301.md']);
+    expect(fs.existsSync(outDir)).toBe(false);
+  });
+
+  it('exports the notes matched by a saved filter', async () => {
+    const todo = makeNote('Notes/Projects/Todo.md', '# Todo\n* [ ] ship the export\n* [x] ship the import');
+    vi.mocked(store.listNotes).mockResolvedValueOnce([alpha, beta, todo]);
+    vi.mocked(filterStore.getFilter).mockResolvedValue({
+      name: 'Shipping',
+      items: [{ param: 'fp_keyword', value: 'ship', display: true }],
+    } as any);
+
+    const result = (await exportNotes({ outputPath: outDir, savedFilter: 'Shipping', dryRun: true } as any)) as any;
+
+    expect(result.success).toBe(true);
+    expect(result.notes.map((note: any) => note.exportPath)).toEqual(['Notes/Projects/Todo.md']);
+    expect(filterStore.getFilter).toHaveBeenCalledWith('Shipping');
+
+    vi.mocked(filterStore.getFilter).mockResolvedValue(null);
+    expect(await exportNotes({ outputPath: outDir, savedFilter: 'Nope', dryRun: true } as any)).toMatchObject({
+      success: false,
+      error: expect.stringContaining('Filter not found'),
+    });
+  });
+
+  it('refuses denied folders and non-empty output directories', async () => {
+    process.env.NOTEPLAN_DENIED_FOLDERS = 'Projects';
+    __resetFolderAccessConfigForTests();
+    const denied = (await exportNotes({ outputPath: outDir, folder: 'Projects' } as any)) as any;
+    expect(denied.success).toBe(false);
+    expect(denied.error).toContain('NOTEPLAN_DENIED_FOLDERS');
+
+    fs.mkdirSync(outDir, { recursive: true });
+    fs.writeFileSync(path.join(outDir, 'keep.txt'), 'x');
+    const notEmpty = (await exportNotes({ outputPath: outDir, space: 'Team' } as any)) as any;
+    expect(notEmpty.success).toBe(false);
+    expect(notEmpty.error).toContain('not empty');
+  });
+
+  it('needs a dryRun confirmation token to export into a non-empty directory', async () => {
+    fs.mkdirSync(outDir, { recursive: true });
+    fs.writeFileSync(path.join(outDir, 'keep.txt'), 'x');
+
+    const unconfirmed = (await exportNotes({ outputPath: outDir, folder: 'Projects', overwrite: true } as any)) as any;
+    expect(unconfirmed.success).toBe(false);
+    expect(unconfirmed.error).toContain('Confirmation token is required');
+    expect(fs.readdirSync(outDir)).toEqual(['keep.txt']);
+
+    const preview = (await exportNotes({ outputPath: outDir, folder: 'Projects', overwrite: true, dryRun: true } as any)) as any;
+    expect(preview).toMatchObject({ success: true, dryRun: true, overwritesExisting: true });
+    expect(preview.confirmationToken).toEqual(expect.any(String));
+
+    const result = (await exportNotes({
+      outputPath: outDir,
+      folder: 'Projects',
+      overwrite: true,
+      confirmationToken: preview.confirmationToken,
+    } as any)) as any;
+    expect(result.success).toBe(true);
+    expect(fs.existsSync(path.join(outDir, 'Notes/Projects/Alpha.md'))).toBe(true);
+  });
+});
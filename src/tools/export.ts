@@ -0,0 +1,429 @@
+// Export notes to a local directory as a markdown bundle or a JSON archive
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import * as store from '../noteplan/unified-store.js';
+import * as frontmatter from '../noteplan/frontmatter-parser.js';
+import { getNotePlanPath } from '../noteplan/file-reader.js';
+import { getAttachmentsAbsolutePath, ATTACHMENT_SUFFIX, getNoteBaseName } from '../noteplan/attachments-paths.js';
+import { buildLinkGraph, LinkGraph } from '../noteplan/link-graph.js';
+import * as filterStore from '../noteplan/filter-store.js';
+import { evaluateFilter, parseFilterDefinition } from '../noteplan/filter-engine.js';
+import { getFirstDayOfWeekCached } from '../noteplan/preferences.js';
+import { Note } from '../noteplan/types.js';
+import { readDir, readFileBinary } from '../transport/bridge-fs.js';
+import { assertFolderAllowed, isFolderAllowed } from '../utils/folder-access.js';
+import { extractDateFromFilename, parseFlexibleDate } from '../utils/date-utils.js';
+import { isTrueBool } from '../utils/boolean-param.js';
+import { hashContent } from '../noteplan/history.js';
+import {
+  confirmationFailureMessage,
+  issueConfirmationToken,
+  validateAndConsumeConfirmationToken,
+} from '../utils/confirmation-tokens.js';
+
+const MAX_EXPORT_NOTES = 10000;
+const MAX_LISTED_ITEMS = 200;
+const ARCHIVE_FILENAME = 'noteplan-export.json';
+const OVERWRITE_REFRESH_HINT =
+  'Call noteplan_manage_note with action="export", overwrite=true and dryRun=true to get a new confirmationToken.';
+
+export const exportNotesSchema = z.object({
+  outputPath: z.string().describe('Absolute path of the local directory to write the export to'),
+  format: z
+    .enum(['markdown', 'json'])
+    .optional()
+    .default('markdown')
+    .describe('markdown: one .md file per note with wiki-links resolved to relative links. json: a single archive with parsed frontmatter (default: markdown)'),
+  folder: z.string().optional().describe('Export the project notes in this folder (and its subfolders)'),
+  space: z.string().optional().describe('Export a whole TeamSpace, or scope folder/query/date range to it'),
+  startDate: z.string().optional().describe('Export daily calendar notes from this date (YYYY-MM-DD, YYYYMMDD, today, …)'),
+  endDate: z.string().optional().describe('Export daily calendar notes up to this date (inclusive)'),
+  query: z.string().optional().describe('Export the notes matching this full-text search'),
+  savedFilter: z
+    .string()
+    .optional()
+    .describe('Export the notes with at least one item matching this saved filter (see noteplan_filters)'),
+  includeAttachments: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Copy each local note\'s _attachments folder (default: true)'),
+  overwrite: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Allow writing into a non-empty outputPath (default: false). Needs dryRun/confirmationToken'),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe('List what would be exported without writing files (default: false)'),
+  confirmationToken: z
+    .string()
+    .optional()
+    .describe('Confirmation token issued by dryRun for exporting into a non-empty outputPath'),
+});
+
+function sanitizePathSegment(value: string): string {
+  return value.replace(/[/\\?%*:|"<>]/g, '-').replace(/\s+/g, ' ').trim() || 'Untitled';
+}
+
+// ── Note selection ──
+
+interface ExportScope {
+  notes: Note[];
+  description: string;
+}
+
+function dailyDateKey(note: Note): string | null {
+  const key = note.date ?? extractDateFromFilename(path.basename(note.filename));
+  return key && /^\d{8}$/.test(key) ? key : null;
+}
+
+async function collectNotes(params: z.infer<typeof exportNotesSchema>): Promise<ExportScope> {
+  const folder = params.folder?.trim() || undefined;
+  const space = params.space?.trim() || undefined;
+  const hasDateRange = Boolean(params.startDate || params.endDate);
+  const start = params.startDate ? parseFlexibleDate(params.startDate) : '00000000';
+  const end = params.endDate ? parseFlexibleDate(params.endDate) : '99999999';
+  const inDateRange = (note: Note): boolean => {
+    const key = dailyDateKey(note);
+    return key !== null && key >= start && key <= end;
+  };
+
+  if (folder && !space) {
+    // Fail loudly instead of exporting an empty bundle
+    assertFolderAllowed(`Notes/${folder.replace(/^Notes\/?/, '')}`, 'export');
+  }
+
+  const savedFilter = params.savedFilter?.trim();
+  if (savedFilter && params.query?.trim()) {
+    throw new Error('Use either query or savedFilter, not both');
+  }
+
+  let notes: Note[];
+  let description: string;
+  if (savedFilter) {
+    const filter = await filterStore.getFilter(savedFilter);
+    if (!filter) {
+      throw new Error(`Filter not found: ${savedFilter}`);
+    }
+    // Same local evaluation as noteplan_filters get_tasks when NotePlan is not running
+    const candidates = await store.listNotes({ folder, space });
+    const matches = evaluateFilter(parseFilterDefinition(filter.items), candidates, {
+      now: new Date(),
+      firstDayOfWeek: getFirstDayOfWeekCached(),
+    });
+    const matchedFiles = new Set(matches.map((match) => match.file));
+    notes = candidates.filter((note) => matchedFiles.has(note.filename));
+    if (hasDateRange) notes = notes.filter(inDateRange);
+    description = `notes matching saved filter "${filter.name}"`;
+  } else if (params.query?.trim()) {
+    const search = await store.searchNotes(params.query.trim(), {
+      folder,
+      space,
+      types: hasDateRange ? ['calendar'] : undefined,
+      limit: MAX_EXPORT_NOTES,
+    });
+    // Search backends may return partial notes; export needs full content
+    const loaded = await Promise.all(
+      search.results.map(({ note }) =>
+        store.getNote(note.source === 'space' ? { id: note.id, space } : { filename: note.filename })
+      )
+    );
+    notes = loaded.filter((note): note is Note => note !== null);
+    if (hasDateRange) notes = notes.filter(inDateRange);
+    description = `notes matching "${params.query.trim()}"`;
+  } else if (hasDateRange) {
+    notes = (await store.listNotes({ type: 'calendar', space })).filter(inDateRange);
+    description = `daily notes ${params.startDate ?? '…'} – ${params.endDate ?? '…'}`;
+  } else if (folder || space) {
+    notes = await store.listNotes({ folder, space });
+    description = folder ? `folder ${folder}` : `space ${space}`;
+  } else {
+    throw new Error('Choose what to export: folder, space, startDate/endDate, query, or savedFilter');
+  }
+
+  // listNotes/getNote already apply folder access rules; keep the export
+  // honest even if a backend ever returns something outside them.
+  notes = notes.filter((note) => note.type !== 'trash' && isFolderAllowed(note.filename));
+  if (notes.length > MAX_EXPORT_NOTES) {
+    throw new Error(`Export matches ${notes.length} notes (max ${MAX_EXPORT_NOTES}); narrow the folder, date range, query or saved filter.`);
+  }
+  notes.sort((a, b) => a.filename.localeCompare(b.filename));
+  return { notes, description };
+}
+
+/** Bundle-relative path for each note; every note becomes a `.md` file. */
+function assignExportPaths(notes: Note[]): Map<string, string> {
+  const paths = new Map<string, string>();
+  const used = new Set<string>();
+  for (const note of notes) {
+    let base: string;
+    if (note.source === 'local') {
+      base = note.filename.replace(/\\/g, '/').replace(/\.(md|txt)$/i, '');
+    } else {
+      const spaceDir = `Spaces/${sanitizePathSegment(note.spaceName || note.spaceId || 'Space')}`;
+      base =
+        note.type === 'calendar'
+          ? `${spaceDir}/Calendar/${sanitizePathSegment(note.date || note.title)}`
+          : `${spaceDir}/${sanitizePathSegment(note.title)}`;
+    }
+    let candidate = `${base}.md`;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) candidate = `${base} (${n}).md`;
+    used.add(candidate.toLowerCase());
+    paths.set(note.id, candidate);
+  }
+  return paths;
+}
+
+// ── Wiki-link resolution ──
+
+/** GitHub-style heading anchor. */
+function headingSlug(heading: string): string {
+  return heading
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .replace(/\s/g, '-');
+}
+
+function toMarkdownHref(relativePath: string): string {
+  return encodeURI(relativePath).replace(/\(/g, '%28').replace(/\)/g, '%29');
+}
+
+/**
+ * Rewrite `[[Title]]` links whose target is part of the export as relative
+ * markdown links (`[Title](../Other.md#heading)`). Links to notes outside
+ * the export are left as wiki-links.
+ */
+export function resolveWikiLinksForExport(
+  note: Note,
+  graph: LinkGraph,
+  exportPaths: Map<string, string>
+): { content: string; resolved: number; unresolved: number } {
+  const links = graph.outgoing.get(note.id) ?? [];
+  if (links.length === 0) return { content: note.content, resolved: 0, unresolved: 0 };
+
+  const fromPath = exportPaths.get(note.id)!;
+  const lines = note.content.split('\n');
+  let resolved = 0;
+  let unresolved = 0;
+  // Right to left so earlier columns on the same line stay valid
+  const ordered = [...links].sort(
+    (a, b) => b.link.lineIndex - a.link.lineIndex || b.link.column - a.link.column
+  );
+  for (const { link, targetId, status } of ordered) {
+    const targetPath = targetId ? exportPaths.get(targetId) : undefined;
+    if (!targetPath) {
+      unresolved++;
+      continue;
+    }
+    const relative = path.posix.relative(path.posix.dirname(fromPath), targetPath);
+    const anchor = link.heading && status === 'ok' ? `#${headingSlug(link.heading)}` : '';
+    const label = link.alias ?? (link.heading ? `${link.target} > ${link.heading}` : link.target);
+    const line = lines[link.lineIndex];
+    lines[link.lineIndex] =
+      line.slice(0, link.column) +
+      `[${label}](${toMarkdownHref(relative)}${anchor})` +
+      line.slice(link.column + link.raw.length);
+    resolved++;
+  }
+  return { content: lines.join('\n'), resolved, unresolved };
+}
+
+// ── Attachments ──
+
+async function listNoteAttachments(note: Note): Promise<Array<{ name: string; absolutePath: string }>> {
+  if (note.source !== 'local') return [];
+  const folder = getAttachmentsAbsolutePath(path.join(getNotePlanPath(), note.filename));
+  try {
+    const entries = await readDir(folder);
+    return entries
+      .filter((entry) => !entry.isDir && !entry.name.startsWith('.'))
+      .map((entry) => ({ name: entry.name, absolutePath: path.join(folder, entry.name) }));
+  } catch {
+    return [];
+  }
+}
+
+/** `_attachments` folder next to the exported note, so relative image links keep working. */
+function exportAttachmentsDir(note: Note, exportPath: string): string {
+  return path.posix.join(path.posix.dirname(exportPath), `${getNoteBaseName(note.filename)}${ATTACHMENT_SUFFIX}`);
+}
+
+// ── Export ──
+
+/** Whether the export writes into an existing, non-empty directory. */
+async function assertWritableOutput(outputPath: string, overwrite: boolean): Promise<boolean> {
+  const notePlanRoot = path.resolve(getNotePlanPath());
+  if (outputPath === notePlanRoot || outputPath.startsWith(`${notePlanRoot}${path.sep}`) || notePlanRoot.startsWith(`${outputPath}${path.sep}`)) {
+    throw new Error('outputPath must not overlap the NotePlan storage folder');
+  }
+  const stat = await fs.promises.stat(outputPath).catch(() => null);
+  if (!stat) return false;
+  if (!stat.isDirectory()) {
+    throw new Error(`outputPath exists and is not a directory: ${outputPath}`);
+  }
+  if ((await fs.promises.readdir(outputPath)).length === 0) return false;
+  if (!overwrite) {
+    throw new Error(`outputPath is not empty: ${outputPath}. Choose an empty directory or pass overwrite=true.`);
+  }
+  return true;
+}
+
+export async function exportNotes(params: z.infer<typeof exportNotesSchema>) {
+  try {
+    if (!params.outputPath?.trim()) {
+      return { success: false, error: 'outputPath is required for export' };
+    }
+    const outputPath = path.resolve(params.outputPath.trim().replace(/^~(?=$|\/)/, os.homedir()));
+    const format = params.format === 'json' ? 'json' : 'markdown';
+    const includeAttachments = params.includeAttachments !== false;
+    const overwritesExisting = await assertWritableOutput(outputPath, params.overwrite === true);
+
+    const scope = await collectNotes(params);
+    const exportPaths = assignExportPaths(scope.notes);
+    const attachmentsByNote = new Map<string, Array<{ name: string; absolutePath: string }>>();
+    if (includeAttachments) {
+      for (const note of scope.notes) {
+        const attachments = await listNoteAttachments(note);
+        if (attachments.length > 0) attachmentsByNote.set(note.id, attachments);
+      }
+    }
+    const attachmentCount = [...attachmentsByNote.values()].reduce((sum, list) => sum + list.length, 0);
+
+    // Writing into a non-empty directory replaces files there, so it takes a
+    // token bound to the directory and the files this export would write.
+    const confirmationTarget = `export:${outputPath}:${format}:${hashContent(JSON.stringify([...exportPaths.values()].sort()))}`;
+
+    if (isTrueBool(params.dryRun)) {
+      const listed = scope.notes.slice(0, MAX_LISTED_ITEMS).map((note) => ({
+        title: note.title,
+        filename: note.filename,
+        source: note.source,
+        exportPath: exportPaths.get(note.id),
+        attachmentCount: attachmentsByNote.get(note.id)?.length ?? 0,
+      }));
+      return {
+        success: true,
+        dryRun: true,
+        message: `Dry run: ${scope.notes.length} note(s) (${scope.description}) would be exported to ${outputPath} as ${format}`,
+        outputPath,
+        format,
+        noteCount: scope.notes.length,
+        attachmentCount,
+        notes: listed,
+        notesTruncated: scope.notes.length > listed.length,
+        ...(overwritesExisting && {
+          overwritesExisting: true,
+          ...issueConfirmationToken({ tool: 'noteplan_manage_note', target: confirmationTarget, action: 'export' }),
+        }),
+      };
+    }
+
+    if (overwritesExisting) {
+      const confirmation = validateAndConsumeConfirmationToken(params.confirmationToken, {
+        tool: 'noteplan_manage_note',
+        target: confirmationTarget,
+        action: 'export',
+      });
+      if (!confirmation.ok) {
+        return {
+          success: false,
+          error: `${outputPath} is not empty. ${confirmationFailureMessage('noteplan_manage_note', confirmation.reason, OVERWRITE_REFRESH_HINT)}`,
+        };
+      }
+    }
+
+    await fs.promises.mkdir(outputPath, { recursive: true });
+    const graph = buildLinkGraph(scope.notes);
+    let linksResolved = 0;
+    let linksUnresolved = 0;
+    let attachmentsCopied = 0;
+    const warnings: string[] = [];
+    const archiveNotes: Array<Record<string, unknown>> = [];
+
+    for (const note of scope.notes) {
+      const exportPath = exportPaths.get(note.id)!;
+      const copiedAttachments: string[] = [];
+      for (const attachment of attachmentsByNote.get(note.id) ?? []) {
+        const data = await readFileBinary(attachment.absolutePath);
+        if (!data) {
+          warnings.push(`Could not read attachment ${attachment.absolutePath}`);
+          continue;
+        }
+        const relativeTarget = path.posix.join(exportAttachmentsDir(note, exportPath), attachment.name);
+        const target = path.join(outputPath, relativeTarget);
+        await fs.promises.mkdir(path.dirname(target), { recursive: true });
+        await fs.promises.writeFile(target, data);
+        copiedAttachments.push(relativeTarget);
+        attachmentsCopied++;
+      }
+
+      if (format === 'markdown') {
+        const rewritten = resolveWikiLinksForExport(note, graph, exportPaths);
+        linksResolved += rewritten.resolved;
+        linksUnresolved += rewritten.unresolved;
+        const target = path.join(outputPath, exportPath);
+        await fs.promises.mkdir(path.dirname(target), { recursive: true });
+        await fs.promises.writeFile(target, rewritten.content, 'utf-8');
+      } else {
+        const parsed = frontmatter.parseNoteContent(note.content);
+        archiveNotes.push({
+          id: note.id,
+          title: note.title,
+          filename: note.filename,
+          type: note.type,
+          source: note.source,
+          spaceId: note.spaceId,
+          spaceName: note.spaceName,
+          folder: note.folder,
+          date: note.date,
+          createdAt: note.createdAt?.toISOString(),
+          modifiedAt: note.modifiedAt?.toISOString(),
+          frontmatter: parsed.frontmatter,
+          body: parsed.body,
+          content: note.content,
+          links: (graph.outgoing.get(note.id) ?? []).map(({ link, targetId, status }) => ({
+            raw: link.raw,
+            target: link.target,
+            line: link.lineIndex + 1,
+            status,
+            targetId,
+          })),
+          attachments: copiedAttachments,
+        });
+      }
+    }
+
+    if (format === 'json') {
+      const archive = {
+        exportedAt: new Date().toISOString(),
+        scope: scope.description,
+        noteCount: archiveNotes.length,
+        notes: archiveNotes,
+      };
+      await fs.promises.writeFile(path.join(outputPath, ARCHIVE_FILENAME), JSON.stringify(archive, null, 2), 'utf-8');
+    }
+
+    return {
+      success: true,
+      message: `Exported ${scope.notes.length} note(s) (${scope.description}) to ${outputPath}`,
+      outputPath,
+      format,
+      archivePath: format === 'json' ? path.join(outputPath, ARCHIVE_FILENAME) : undefined,
+      noteCount: scope.notes.length,
+      attachmentsCopied,
+      ...(format === 'markdown' && { linksResolved, linksLeftAsWikiLinks: linksUnresolved }),
+      warnings: warnings.length > 0 ? warnings.slice(0, MAX_LISTED_ITEMS) : undefined,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to export notes',
+    };
+  }
+}
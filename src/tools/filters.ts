@@ -1,5 +1,8 @@
 import { z } from 'zod';
 import * as filterStore from '../noteplan/filter-store.js';
+import * as store from '../noteplan/unified-store.js';
+import { evaluateFilter, parseFilterDefinition } from '../noteplan/filter-engine.js';
+import { getFirstDayOfWeekCached } from '../noteplan/preferences.js';
 import { getBridgeClient } from '../transport/bridge-availability.js';
 import { BridgeHttpError } from '../transport/bridge-client.js';
 import {
@@ -17,31 +20,6 @@ function toBoundedInt(value: unknown, defaultValue: number, min: number, max: nu
   return Math.min(max, Math.max(min, Math.floor(numeric)));
 }
 
-const BOOLEAN_FILTER_PARAMS = new Set([
-  'fp_open',
-  'fp_done',
-  'fp_scheduled',
-  'fp_canceled',
-  'fp_event',
-  'fp_reminder',
-  'fp_noStatus',
-  'fp_noteItem',
-  'fp_datedNoteItem',
-  'fp_calendarItem',
-  'fp_sortPastFuture',
-  'fp_showMonthly',
-  'fp_showWeekly',
-  'fp_showTimeBlockedEvents',
-  'fp_hidePastEvents',
-  'fp_listReminders',
-  'fp_checklist',
-  'fp_checklistDone',
-  'fp_checklistScheduled',
-  'fp_checklistCancelled',
-  'fp_excludeArchive',
-  'fp_excludeTeamspaces',
-]);
-
 const FILTER_PARAMETER_DEFINITIONS = [
   { param: 'fp_open', type: 'boolean', description: 'Include open tasks' },
   { param: 'fp_done', type: 'boolean', description: 'Include completed tasks' },
@@ -84,19 +62,6 @@ const FILTER_TIMEFRAME_VALUES = [
   'fptf_custom',
 ];
 
-function parseFilterItemValue(param: string, value: string): unknown {
-  if (BOOLEAN_FILTER_PARAMS.has(param)) {
-    if (value === 'true') return true;
-    if (value === 'false') return false;
-  }
-
-  if (param === 'fp_teamspaces') {
-    return value.length > 0 ? value.split('$$::$$').filter((entry) => entry.length > 0) : [];
-  }
-
-  return value;
-}
-
 export const listFiltersSchema = z.object({
   query: z.string().optional().describe('Filter names by substring'),
   limit: z.number().min(1).max(200).optional().default(50).describe('Maximum filters to return'),
@@ -145,8 +110,17 @@ export const deleteFilterSchema = z.object({
 
 export const getFilterTasksSchema = z.object({
   name: z.string().describe('Filter name to execute against note tasks'),
+  executionBackend: z
+    .enum(['auto', 'bridge', 'local'])
+    .optional()
+    .default('auto')
+    .describe('auto: NotePlan when running, else the local evaluator. bridge: NotePlan only. local: always evaluate from disk'),
+  space: z.string().optional().describe('Local backend: only evaluate notes in this space'),
+  folder: z.string().optional().describe('Local backend: only evaluate notes in this folder'),
+  maxNotes: z.number().min(1).max(10000).optional().default(2000).describe('Local backend: maximum notes to scan (most recently modified first)'),
   limit: z.number().min(1).max(300).optional().default(30).describe('Maximum matches to return'),
   offset: z.number().min(0).optional().default(0).describe('Pagination offset'),
+  cursor: z.string().optional().describe('Cursor token from previous page (preferred over offset)'),
 });
 
 export async function listFilters(params: z.infer<typeof listFiltersSchema>) {
@@ -205,7 +179,7 @@ export async function getFilter(params: z.infer<typeof getFilterSchema>) {
         items: filter.items.map((item) => ({
           param: item.param,
           value: item.value,
-          parsedValue: parseFilterItemValue(item.param, item.value),
+          parsedValue: filterStore.parseFilterItemValue(item.param, item.value),
           display: item.display,
         })),
       },
@@ -319,18 +293,19 @@ export async function deleteFilter(params: z.infer<typeof deleteFilterSchema>) {
 
 export async function getFilterTasks(params: z.infer<typeof getFilterTasksSchema>) {
   try {
-    // Filter execution requires NotePlan to be running so SearchHelper
-    // can apply every rule (timeframe, underHeading, noStatus, events,
-    // reminders, exclude archive, ...) the way the UI does. There's no
-    // reasonable offline approximation — the previous mapping fallback
-    // silently dropped most rules.
-    const bridge = await getBridgeClient();
-    if (!bridge) {
+    const backend = params.executionBackend ?? 'auto';
+    // NotePlan's SearchHelper applies every rule the way the UI does
+    // (events, reminders, ...), so prefer it whenever it is reachable.
+    const bridge = backend === 'local' ? null : await getBridgeClient();
+    if (!bridge && backend === 'bridge') {
       return {
         success: false,
-        error: 'Filter execution requires NotePlan to be running. Open NotePlan and retry.',
+        error: 'Filter execution requires NotePlan to be running. Open NotePlan and retry, or use executionBackend="local".',
       };
     }
+    if (!bridge) {
+      return await getFilterTasksLocal(params);
+    }
 
     try {
       const matches = await bridge.filterTasks(params.name, { limit: params.limit });
@@ -362,6 +337,54 @@ export async function getFilterTasks(params: z.infer<typeof getFilterTasksSchema
   }
 }
 
+/** Evaluate a saved filter from disk with the local filter engine. */
+async function getFilterTasksLocal(params: z.infer<typeof getFilterTasksSchema>) {
+  const filter = await filterStore.getFilter(params.name);
+  if (!filter) {
+    return { success: false, error: `Filter not found: ${params.name}` };
+  }
+  const definition = parseFilterDefinition(filter.items);
+
+  const notes = await store.listNotes({ folder: params.folder, space: params.space });
+  const maxNotes = toBoundedInt(params.maxNotes, 2000, 1, 10000);
+  const scanned = notes.slice(0, maxNotes);
+  const matches = evaluateFilter(definition, scanned, {
+    now: new Date(),
+    firstDayOfWeek: getFirstDayOfWeekCached(),
+  });
+
+  const offset = toBoundedInt(params.cursor ?? params.offset, 0, 0, Number.MAX_SAFE_INTEGER);
+  const limit = toBoundedInt(params.limit, 30, 1, 300);
+  const page = matches.slice(offset, offset + limit);
+  const hasMore = offset + page.length < matches.length;
+
+  const warnings: string[] = [];
+  if (definition.defaultedStatuses) {
+    warnings.push('Filter sets no status flags; showing open tasks.');
+  }
+  if (definition.unsupportedParams.length > 0) {
+    warnings.push(`Calendar events and reminders need NotePlan running; ignored: ${definition.unsupportedParams.join(', ')}.`);
+  }
+  if (notes.length > scanned.length) {
+    warnings.push(`Scanned the ${scanned.length} most recently modified of ${notes.length} notes; increase maxNotes or narrow folder/space.`);
+  }
+
+  return {
+    success: true,
+    count: page.length,
+    totalCount: matches.length,
+    offset,
+    limit,
+    hasMore,
+    nextCursor: hasMore ? String(offset + page.length) : null,
+    matches: page,
+    filter: { name: filter.name },
+    executionBackend: 'local',
+    scannedNoteCount: scanned.length,
+    warnings: warnings.length > 0 ? warnings : undefined,
+  };
+}
+
 export function listFilterParameters() {
   return {
     success: true,
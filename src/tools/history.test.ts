@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+vi.mock('../noteplan/unified-store.js', () => ({
+  previewUndoHistoryEntry: vi.fn(async () => {}),
+  undoHistoryEntry: vi.fn(async () => {}),
+}));
+
+import * as store from '../noteplan/unified-store.js';
+import { __setHistoryDirForTests, recordHistory } from '../noteplan/history.js';
+import { listHistory, showHistory, undoHistory } from './history.js';
+
+function record(summary: string, operation: 'update_note' | 'move_note' = 'update_note') {
+  return recordHistory({
+    operation,
+    summary,
+    before: { kind: 'note', source: 'local', path: `Notes/${summary}.md`, content: 'before' },
+    after: { kind: 'note', source: 'local', path: `Notes/${summary}.md` },
+  })!;
+}
+
+describe('noteplan_history tool', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'noteplan-history-tool-'));
+    __setHistoryDirForTests(dir);
+  });
+
+  afterEach(() => {
+    __setHistoryDirForTests(null);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('lists entries with filters and pagination', () => {
+    record('Alpha');
+    record('Beta', 'move_note');
+    record('Gamma');
+
+    const all = listHistory({});
+    expect(all.totalCount).toBe(3);
+    expect((all.entries as any[]).map((e) => e.summary)).toEqual(['Gamma', 'Beta', 'Alpha']);
+
+    const moves = listHistory({ operation: 'move_note' });
+    expect((moves.entries as any[]).map((e) => e.summary)).toEqual(['Beta']);
+
+    const byQuery = listHistory({ query: 'alpha' });
+    expect(byQuery.totalCount).toBe(1);
+  });
+
+  it('shows the pre-write snapshot', () => {
+    const entry = record('Alpha');
+    const result = showHistory({ id: entry.id }) as any;
+    expect(result.success).toBe(true);
+    expect(result.entry.before.content).toBe('before');
+    expect(showHistory({ id: 'h_missing' }).success).toBe(false);
+  });
+
+  it('requires a dryRun confirmation token before undoing', async () => {
+    record('Alpha');
+    const result = await undoHistory({ count: 1 });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Confirmation token is required');
+    expect(store.undoHistoryEntry).not.toHaveBeenCalled();
+  });
+
+  it('undoes the last N entries newest first', async () => {
+    const alpha = record('Alpha');
+    const beta = record('Beta');
+    const gamma = record('Gamma');
+
+    const preview = await undoHistory({ count: 2, dryRun: true }) as any;
+    expect(preview.entries.map((e: any) => e.id)).toEqual([gamma.id, beta.id]);
+
+    const result = await undoHistory({ count: 2, confirmationToken: preview.confirmationToken }) as any;
+    expect(result.success).toBe(true);
+    expect(vi.mocked(store.undoHistoryEntry).mock.calls.map(([e]) => e.id)).toEqual([gamma.id, beta.id]);
+    expect(result.undone.map((e: any) => e.id)).not.toContain(alpha.id);
+  });
+
+  it('stops at the first failing entry and reports what was undone', async () => {
+    record('Alpha');
+    const beta = record('Beta');
+    const gamma = record('Gamma');
+    vi.mocked(store.undoHistoryEntry)
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('Conflict: Notes/Beta.md has changed'));
+
+    const preview = await undoHistory({ count: 3, dryRun: true }) as any;
+    const result = await undoHistory({ count: 3, confirmationToken: preview.confirmationToken }) as any;
+    expect(result.success).toBe(false);
+    expect(result.error).toContain(beta.id);
+    expect(result.undone.map((e: any) => e.id)).toEqual([gamma.id]);
+  });
+
+  it('rejects id and count together', async () => {
+    const entry = record('Alpha');
+    const result = await undoHistory({ id: entry.id, count: 1, dryRun: true });
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,220 @@
+// Undo journal operations: list, show, undo
+
+import { z } from 'zod';
+import * as store from '../noteplan/unified-store.js';
+import {
+  getHistoryEntry,
+  HistoryEntry,
+  HistoryOperation,
+  listHistoryEntries,
+} from '../noteplan/history.js';
+import {
+  confirmationFailureMessage,
+  issueConfirmationToken,
+  validateAndConsumeConfirmationToken,
+} from '../utils/confirmation-tokens.js';
+
+const HISTORY_OPERATIONS = [
+  'create_note',
+  'update_note',
+  'delete_note',
+  'move_note',
+  'restore_note',
+  'rename_note',
+  'create_folder',
+  'move_folder',
+  'delete_folder',
+  'rename_folder',
+] as const satisfies readonly HistoryOperation[];
+
+const MAX_UNDO_COUNT = 20;
+
+// --- Schemas ---
+
+const listHistorySchema = z.object({
+  operation: z.enum(HISTORY_OPERATIONS).optional().describe('Only entries of this operation type'),
+  query: z.string().optional().describe('Filter by note/folder path or summary substring (case-insensitive)'),
+  includeUndone: z.boolean().optional().default(true).describe('Include entries that were already undone (default: true)'),
+  limit: z.number().min(1).max(200).optional().default(20).describe('Maximum entries to return (default: 20)'),
+  offset: z.number().min(0).optional().default(0).describe('Pagination offset (default: 0)'),
+});
+
+const showHistorySchema = z.object({
+  id: z.string().describe('History entry ID'),
+});
+
+const undoHistorySchema = z.object({
+  id: z.string().optional().describe('History entry ID to undo'),
+  count: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_UNDO_COUNT)
+    .optional()
+    .describe(`Undo the last N operations that have not been undone yet, newest first (max ${MAX_UNDO_COUNT})`),
+  dryRun: z.boolean().optional().describe('Preview which operations would be undone and get a confirmationToken'),
+  confirmationToken: z.string().optional().describe('Confirmation token issued by dryRun'),
+});
+
+function summarizeEntry(entry: HistoryEntry) {
+  const target = entry.after ?? entry.before;
+  return {
+    id: entry.id,
+    timestamp: entry.timestamp,
+    operation: entry.operation,
+    summary: entry.summary,
+    kind: target?.kind,
+    source: target?.source,
+    fromPath: entry.before?.path,
+    toPath: entry.after?.path,
+    undone: Boolean(entry.undoneAt),
+    ...(entry.undoneAt && { undoneAt: entry.undoneAt }),
+  };
+}
+
+function selectEntriesToUndo(id: string | undefined, count: number | undefined): HistoryEntry[] | string {
+  if (id && count !== undefined) {
+    return 'Provide either id or count, not both';
+  }
+  if (id) {
+    const entry = getHistoryEntry(id);
+    return entry ? [entry] : `History entry not found: ${id}`;
+  }
+  const pending = listHistoryEntries().filter((entry) => !entry.undoneAt);
+  if (pending.length === 0) {
+    return 'Nothing to undo: the history journal has no pending operations';
+  }
+  return pending.slice(0, count ?? 1);
+}
+
+// --- Actions ---
+
+export function listHistory(args: unknown): Record<string, unknown> {
+  const parsed = listHistorySchema.safeParse(args ?? {});
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues.map((i) => i.message).join('; ') };
+  }
+
+  const { operation, query, includeUndone, limit, offset } = parsed.data;
+  let entries = listHistoryEntries();
+  if (operation) {
+    entries = entries.filter((entry) => entry.operation === operation);
+  }
+  if (!includeUndone) {
+    entries = entries.filter((entry) => !entry.undoneAt);
+  }
+  if (query) {
+    const lowerQuery = query.toLowerCase();
+    entries = entries.filter((entry) =>
+      [entry.summary, entry.before?.path, entry.after?.path, entry.before?.title, entry.after?.title]
+        .some((value) => value?.toLowerCase().includes(lowerQuery))
+    );
+  }
+
+  const totalCount = entries.length;
+  const paged = entries.slice(offset, offset + limit);
+
+  return {
+    success: true,
+    count: paged.length,
+    totalCount,
+    offset,
+    limit,
+    hasMore: offset + limit < totalCount,
+    entries: paged.map(summarizeEntry),
+  };
+}
+
+export function showHistory(args: unknown): Record<string, unknown> {
+  const parsed = showHistorySchema.safeParse(args);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues.map((i) => i.message).join('; ') };
+  }
+
+  const entry = getHistoryEntry(parsed.data.id);
+  if (!entry) {
+    return { success: false, error: `History entry not found: ${parsed.data.id}` };
+  }
+
+  return {
+    success: true,
+    entry: {
+      ...summarizeEntry(entry),
+      before: entry.before,
+      after: entry.after,
+    },
+  };
+}
+
+export async function undoHistory(args: unknown): Promise<Record<string, unknown>> {
+  const parsed = undoHistorySchema.safeParse(args ?? {});
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues.map((i) => i.message).join('; ') };
+  }
+
+  const { id, count, dryRun, confirmationToken } = parsed.data;
+  const selected = selectEntriesToUndo(id, count);
+  if (typeof selected === 'string') {
+    return { success: false, error: selected };
+  }
+  const confirmationTarget = selected.map((entry) => entry.id).join(',');
+
+  if (dryRun === true) {
+    // Only the newest entry can be checked up front: older ones usually
+    // depend on the newer ones being undone first.
+    try {
+      await store.previewUndoHistoryEntry(selected[0]);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'History entry cannot be undone',
+      };
+    }
+    const token = issueConfirmationToken({
+      tool: 'noteplan_history',
+      target: confirmationTarget,
+      action: 'undo',
+    });
+    return {
+      success: true,
+      dryRun: true,
+      message: `Dry run: ${selected.length} operation(s) would be undone, newest first`,
+      entries: selected.map(summarizeEntry),
+      ...token,
+    };
+  }
+
+  const confirmation = validateAndConsumeConfirmationToken(confirmationToken, {
+    tool: 'noteplan_history',
+    target: confirmationTarget,
+    action: 'undo',
+  });
+  if (!confirmation.ok) {
+    return {
+      success: false,
+      error: confirmationFailureMessage('noteplan_history', confirmation.reason),
+    };
+  }
+
+  const undone: ReturnType<typeof summarizeEntry>[] = [];
+  for (const entry of selected) {
+    try {
+      await store.undoHistoryEntry(entry);
+      undone.push(summarizeEntry({ ...entry, undoneAt: new Date().toISOString() }));
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to undo ${entry.id} (${entry.summary}): ${error instanceof Error ? error.message : 'unknown error'}`,
+        undoneCount: undone.length,
+        undone,
+      };
+    }
+  }
+
+  return {
+    success: true,
+    message: `Undid ${undone.length} operation(s)`,
+    undoneCount: undone.length,
+    undone,
+  };
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const DEFAULT_TASK_CONFIG = {
+  isAsteriskTodo: true,
+  isDashTodo: false,
+  defaultTodoCharacter: '*' as const,
+  todoCharacter: '*' as const,
+  useCheckbox: false,
+  taskPrefix: '* ',
+};
+
+vi.mock('../noteplan/preferences.js', () => ({
+  getTaskMarkerConfig: vi.fn(() => DEFAULT_TASK_CONFIG),
+}));
+vi.mock('../noteplan/file-reader.js', () => ({
+  getNotePlanPath: vi.fn(() => '/noteplan-root'),
+}));
+vi.mock('../noteplan/unified-store.js', () => ({
+  previewLocalNotePath: vi.fn(),
+  listFolders: vi.fn(),
+  createFolder: vi.fn(),
+  createNote: vi.fn(),
+}));
+
+import * as store from '../noteplan/unified-store.js';
+import { convertObsidianMarkdown, importVault } from './import.js';
+
+describe('convertObsidianMarkdown', () => {
+  it('rewrites tasks and bullets for the configured task marker', () => {
+    const result = convertObsidianMarkdown(
+      ['# Plan', '- [ ] open', '- [x] done', '- [-] dropped', '* bullet', '+ plus', '---'].join('\n'),
+      { taskConfig: DEFAULT_TASK_CONFIG }
+    );
+    expect(result.content.split('\n')).toEqual([
+      '# Plan',
+      '* open',
+      '* [x] done',
+      '* [-] dropped',
+      '- bullet',
+      '- plus',
+      '---',
+    ]);
+    expect(result.stats.tasks).toBe(3);
+    expect(result.stats.bullets).toBe(2);
+  });
+
+  it('keeps checkbox tasks when NotePlan uses checkboxes', () => {
+    const result = convertObsidianMarkdown('- [ ] open\n- bullet', {
+      taskConfig: { ...DEFAULT_TASK_CONFIG, isAsteriskTodo: false, useCheckbox: true, taskPrefix: '* [ ] ' },
+    });
+    expect(result.content).toBe('* [ ] open\n- bullet');
+  });
+
+  it('converts list indentation to tabs using the smallest step', () => {
+    const result = convertObsidianMarkdown('- a\n    - b\n        - c', { taskConfig: DEFAULT_TASK_CONFIG });
+    expect(result.content).toBe('- a\n\t- b\n\t\t- c');
+  });
+
+  it('turns embeds and path links into title links and resolves attachments', () => {
+    const result = convertObsidianMarkdown(
+      'See [[Projects/Alpha.md|alpha]], ![[Beta]], [[Gamma#^abc]] and ![[diagram.png|300]] ![[missing.pdf]]',
+      {
+        taskConfig: DEFAULT_TASK_CONFIG,
+        resolveAttachment: (ref) => (ref === 'diagram.png' ? '![image](Note_attachments/diagram.png)' : null),
+      }
+    );
+    expect(result.content).toBe(
+      'See [[Alpha|alpha]], [[Beta]], [[Gamma^abc]] and ![image](Note_attachments/diagram.png) ![[missing.pdf]]'
+    );
+    expect(result.stats).toMatchObject({ links: 2, noteEmbeds: 1, attachments: 1 });
+    expect(result.missingAttachments).toEqual(['missing.pdf']);
+  });
+
+  it('leaves frontmatter and fenced code alone', () => {
+    const content = ['---', 'tags: [a]', '---', '```', '- [ ] not a task', '```', '- [ ] task'].join('\n');
+    const result = convertObsidianMarkdown(content, { taskConfig: DEFAULT_TASK_CONFIG });
+    expect(result.content.split('\n').slice(0, 6)).toEqual(content.split('\n').slice(0, 6));
+    expect(result.content.split('\n')[6]).toBe('* task');
+  });
+});
+
+describe('importVault dryRun', () => {
+  let vault: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vault = fs.mkdtempSync(path.join(os.tmpdir(), 'vault-'));
+    fs.mkdirSync(path.join(vault, 'Projects'));
+    fs.mkdirSync(path.join(vault, '.obsidian'));
+    fs.writeFileSync(path.join(vault, '.obsidian', 'app.json'), '{}');
+    fs.writeFileSync(path.join(vault, 'Projects', 'Alpha.md'), '- [ ] ship\n![[chart.png]]');
+    fs.writeFileSync(path.join(vault, 'Projects', 'chart.png'), 'png');
+    fs.writeFileSync(path.join(vault, 'Existing.md'), 'hello');
+    fs.writeFileSync(path.join(vault, '2026-03-01.md'), '- [x] standup');
+
+    vi.mocked(store.listFolders).mockResolvedValue([]);
+    vi.mocked(store.previewLocalNotePath).mockImplementation(async (target: any) => {
+      if ('calendarDate' in target) {
+        return { filename: `Calendar/${target.calendarDate}.md`, existingFilename: null };
+      }
+      const filename = `Notes/${target.folder ? `${target.folder}/` : ''}${target.title}.md`;
+      return { filename, existingFilename: filename === 'Notes/Vault/Existing.md' ? filename : null };
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(vault, { recursive: true, force: true });
+  });
+
+  it('plans folders, notes, attachments and conflicts without writing', async () => {
+    const result = (await importVault({
+      sourcePath: vault,
+      destinationFolder: 'Vault',
+      dryRun: true,
+    } as any)) as any;
+
+    expect(result.success).toBe(true);
+    expect(result.foldersToCreate).toEqual(['Vault', 'Vault/Projects']);
+    expect(result.summary).toMatchObject({
+      markdownFiles: 3,
+      notesToCreate: 1,
+      calendarNotesToCreate: 1,
+      attachmentsToCopy: 1,
+      conflicts: 1,
+      skipped: 1,
+    });
+    const alpha = result.notes.find((note: any) => note.source === 'Projects/Alpha.md');
+    expect(alpha).toMatchObject({ target: 'Notes/Vault/Projects/Alpha.md', action: 'create', attachmentCount: 1 });
+    expect(result.notes.find((note: any) => note.source === '2026-03-01.md')).toMatchObject({
+      kind: 'calendar',
+      target: 'Calendar/20260301.md',
+    });
+    expect(result.conflicts).toEqual([
+      expect.objectContaining({ source: 'Existing.md', action: 'skip', reason: 'Note already exists: Notes/Vault/Existing.md' }),
+    ]);
+    expect(result.confirmationToken).toBeTypeOf('string');
+    expect(store.createNote).not.toHaveBeenCalled();
+    expect(store.createFolder).not.toHaveBeenCalled();
+  });
+
+  it('imports under a new title when onConflict is rename', async () => {
+    const result = (await importVault({
+      sourcePath: vault,
+      destinationFolder: 'Vault',
+      onConflict: 'rename',
+      dryRun: true,
+    } as any)) as any;
+    expect(result.notes.find((note: any) => note.source === 'Existing.md')).toMatchObject({
+      title: 'Existing 2',
+      target: 'Notes/Vault/Existing 2.md',
+      action: 'create',
+      renamedFrom: 'Existing',
+    });
+  });
+});
@@ -0,0 +1,643 @@
+// Import a folder of markdown files (e.g. an Obsidian vault) as NotePlan notes
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import * as store from '../noteplan/unified-store.js';
+import * as frontmatter from '../noteplan/frontmatter-parser.js';
+import { getNotePlanPath } from '../noteplan/file-reader.js';
+import { getTaskMarkerConfig, TaskMarkerConfig } from '../noteplan/preferences.js';
+import {
+  cleanFilename,
+  getAttachmentsAbsolutePath,
+  toMarkdownLink,
+} from '../noteplan/attachments-paths.js';
+import { pathExists, writeFileBinary } from '../transport/bridge-fs.js';
+import { hashContent } from '../noteplan/history.js';
+import { isFolderAllowed } from '../utils/folder-access.js';
+import { isTrueBool } from '../utils/boolean-param.js';
+import {
+  confirmationFailureMessage,
+  issueConfirmationToken,
+  validateAndConsumeConfirmationToken,
+} from '../utils/confirmation-tokens.js';
+
+const MAX_IMPORT_NOTES = 5000;
+const MAX_ATTACHMENT_BYTES = 100 * 1024 * 1024;
+const MAX_LISTED_ITEMS = 200;
+
+export const importVaultSchema = z.object({
+  sourcePath: z.string().describe('Absolute path of the markdown folder or Obsidian vault to import'),
+  destinationFolder: z
+    .string()
+    .optional()
+    .describe('NotePlan folder to import into, without Notes/ prefix (default: a folder named after the vault). Use "Notes" for the root.'),
+  onConflict: z
+    .enum(['skip', 'rename'])
+    .optional()
+    .default('skip')
+    .describe('What to do when a note already exists at the target: skip it, or import under "Title 2" (default: skip). Calendar notes are always skipped.'),
+  importDailyNotes: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Import YYYY-MM-DD.md files as daily calendar notes (default: true)'),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe('Preview folders, notes, attachments and conflicts without writing (default: false)'),
+  confirmationToken: z
+    .string()
+    .optional()
+    .describe('Confirmation token issued by dryRun for import execution'),
+});
+
+function capList<T>(items: T[]): { items: T[]; truncated: boolean } {
+  return { items: items.slice(0, MAX_LISTED_ITEMS), truncated: items.length > MAX_LISTED_ITEMS };
+}
+
+// ── Content conversion ──
+
+export interface ObsidianConversionStats {
+  tasks: number;
+  bullets: number;
+  noteEmbeds: number;
+  links: number;
+  attachments: number;
+  linesRetabbed: number;
+}
+
+export interface ObsidianConversionOptions {
+  taskConfig: TaskMarkerConfig;
+  /**
+   * Markdown link (`![image](Note_attachments/a.png)`) for a vault file
+   * referenced by the note, or null when it can't be found.
+   */
+  resolveAttachment?: (ref: string) => string | null;
+}
+
+export interface ObsidianConversion {
+  content: string;
+  stats: ObsidianConversionStats;
+  missingAttachments: string[];
+}
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const HORIZONTAL_RULE_PATTERN = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const TASK_PATTERN = /^(\s*)[-*+] \[(.)\](?: (.*))?$/;
+const BULLET_PATTERN = /^(\s*)([-*+]) (.*)$/;
+const LIST_INDENT_PATTERN = /^( +)(?=(?:[*+-]|\d+[.)])\s)/;
+
+/**
+ * Bullet character that NotePlan won't read as a task under `config`, or
+ * null when both `*` and `-` are task markers.
+ */
+function plainBulletChar(config: TaskMarkerConfig): '*' | '-' | null {
+  if (config.useCheckbox || !config.isDashTodo) return '-';
+  if (!config.isAsteriskTodo) return '*';
+  return null;
+}
+
+function isTaskChar(char: string, config: TaskMarkerConfig): boolean {
+  if (config.useCheckbox) return false;
+  return (char === '*' && config.isAsteriskTodo) || (char === '-' && config.isDashTodo);
+}
+
+function convertLinks(line: string, options: ObsidianConversionOptions, stats: ObsidianConversionStats, missing: string[]): string {
+  // Markdown images pointing at vault files
+  let converted = line.replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (match, _alt: string, url: string) => {
+    if (/^[a-z][a-z0-9+.-]*:/i.test(url) || !options.resolveAttachment) return match;
+    let ref = url;
+    try {
+      ref = decodeURI(url);
+    } catch {
+      // Keep the raw URL
+    }
+    const link = options.resolveAttachment(ref);
+    if (!link) {
+      missing.push(ref);
+      return match;
+    }
+    stats.attachments++;
+    return link;
+  });
+
+  converted = converted.replace(/(!?)\[\[([^\]\n]+?)\]\]/g, (match, bang: string, inner: string) => {
+    const pipeIndex = inner.indexOf('|');
+    const target = (pipeIndex === -1 ? inner : inner.slice(0, pipeIndex)).trim();
+    const alias = pipeIndex === -1 ? '' : inner.slice(pipeIndex + 1);
+    const anchorIndex = target.search(/[#^]/);
+    const notePath = anchorIndex === -1 ? target : target.slice(0, anchorIndex);
+    const anchor = anchorIndex === -1 ? '' : target.slice(anchorIndex);
+    const ext = path.posix.extname(notePath).toLowerCase();
+
+    if (bang && ext && ext !== '.md') {
+      if (!options.resolveAttachment) return match;
+      const link = options.resolveAttachment(notePath);
+      if (!link) {
+        missing.push(notePath);
+        return match;
+      }
+      stats.attachments++;
+      return link;
+    }
+
+    // NotePlan resolves links by title and has no block transclusion:
+    // [[folder/Note.md#^id]] and ![[Note]] both become plain title links.
+    const title = path.posix.basename(notePath).replace(/\.md$/i, '');
+    const noteAnchor = anchor.startsWith('#^') ? anchor.slice(1) : anchor;
+    const rewritten = `[[${title}${noteAnchor}${alias ? `|${alias}` : ''}]]`;
+    if (bang) {
+      stats.noteEmbeds++;
+    } else if (rewritten !== match) {
+      stats.links++;
+    }
+    return rewritten;
+  });
+
+  return converted;
+}
+
+/**
+ * Convert Obsidian-flavoured markdown to NotePlan markdown: task and bullet
+ * markers follow the user's task settings, list indentation becomes tabs,
+ * path-style and embed wiki-links become title links, and referenced vault
+ * files become `_attachments` links. Frontmatter and fenced code are left
+ * untouched.
+ */
+export function convertObsidianMarkdown(content: string, options: ObsidianConversionOptions): ObsidianConversion {
+  const config = options.taskConfig;
+  const bulletChar = plainBulletChar(config);
+  const stats: ObsidianConversionStats = {
+    tasks: 0,
+    bullets: 0,
+    noteEmbeds: 0,
+    links: 0,
+    attachments: 0,
+    linesRetabbed: 0,
+  };
+  const missing: string[] = [];
+  const lines = content.split('\n');
+  const frontmatterLineCount = frontmatter.getFrontmatterLineCount(content);
+
+  // Vaults indent lists with 2 or 4 spaces; use the smallest step as one tab
+  let inFence = false;
+  let indentUnit = 0;
+  for (let i = frontmatterLineCount; i < lines.length; i++) {
+    if (FENCE_PATTERN.test(lines[i])) inFence = !inFence;
+    if (inFence) continue;
+    const match = lines[i].match(LIST_INDENT_PATTERN);
+    if (match && (indentUnit === 0 || match[1].length < indentUnit)) indentUnit = match[1].length;
+  }
+
+  inFence = false;
+  for (let i = frontmatterLineCount; i < lines.length; i++) {
+    let line = lines[i];
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const indentMatch = line.match(LIST_INDENT_PATTERN);
+    if (indentMatch && indentUnit > 0) {
+      const spaceCount = indentMatch[1].length;
+      line = `${'\t'.repeat(Math.round(spaceCount / indentUnit))}${line.slice(spaceCount)}`;
+      stats.linesRetabbed++;
+    }
+
+    const task = line.match(TASK_PATTERN);
+    if (task) {
+      const [, indent, mark, text = ''] = task;
+      if (mark === ' ' || !'xX->'.includes(mark)) {
+        line = `${indent}${config.taskPrefix}${text}`;
+      } else {
+        line = `${indent}${config.todoCharacter} [${mark.toLowerCase()}] ${text}`;
+      }
+      stats.tasks++;
+    } else if (!HORIZONTAL_RULE_PATTERN.test(line)) {
+      // `+` is a checklist marker in NotePlan, and `*`/`-` may be task markers
+      const bullet = line.match(BULLET_PATTERN);
+      if (bullet && bulletChar && (bullet[2] === '+' || isTaskChar(bullet[2], config)) && bullet[2] !== bulletChar) {
+        line = `${bullet[1]}${bulletChar} ${bullet[3]}`;
+        stats.bullets++;
+      }
+    }
+
+    lines[i] = convertLinks(line, options, stats, missing);
+  }
+
+  return { content: lines.join('\n'), stats, missingAttachments: [...new Set(missing)] };
+}
+
+// ── Vault scanning and planning ──
+
+interface VaultScan {
+  markdown: string[];
+  files: string[];
+}
+
+async function scanVault(root: string): Promise<VaultScan> {
+  const markdown: string[] = [];
+  const files: string[] = [];
+  const walk = async (relativeDir: string): Promise<void> => {
+    const entries = await fs.promises.readdir(path.join(root, relativeDir), { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      // .obsidian, .trash, .git — and symlinks, which could loop
+      if (entry.name.startsWith('.') || entry.isSymbolicLink()) continue;
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        await walk(relativePath);
+      } else if (entry.isFile()) {
+        if (entry.name.toLowerCase().endsWith('.md')) {
+          markdown.push(relativePath);
+          if (markdown.length > MAX_IMPORT_NOTES) {
+            throw new Error(`Vault has more than ${MAX_IMPORT_NOTES} markdown files; import it one subfolder at a time.`);
+          }
+        } else {
+          files.push(relativePath);
+        }
+      }
+    }
+  };
+  await walk('');
+  return { markdown, files };
+}
+
+/** Obsidian resolves embeds relative to the note, then the vault root, then by file name anywhere. */
+function createVaultFileResolver(files: string[]) {
+  const byPath = new Set(files);
+  const byName = new Map<string, string>();
+  for (const file of files) {
+    const key = path.posix.basename(file).toLowerCase();
+    if (!byName.has(key)) byName.set(key, file);
+  }
+  return (ref: string, noteDir: string): string | null => {
+    const clean = ref.trim().replace(/^\.\//, '');
+    for (const candidate of [path.posix.join(noteDir, clean), path.posix.normalize(clean)]) {
+      if (!candidate.startsWith('..') && byPath.has(candidate)) return candidate;
+    }
+    return byName.get(path.posix.basename(clean).toLowerCase()) ?? null;
+  };
+}
+
+interface PlannedAttachment {
+  source: string;
+  target: string;
+}
+
+interface PlannedNote {
+  source: string;
+  kind: 'note' | 'calendar';
+  title: string;
+  folder?: string;
+  calendarDate?: string;
+  target: string;
+  action: 'create' | 'skip';
+  conflict?: string;
+  renamedFrom?: string;
+  content: string;
+  attachments: PlannedAttachment[];
+  missingAttachments: string[];
+  stats: ObsidianConversionStats;
+}
+
+function normalizeDestinationFolder(value: string | undefined, vaultName: string): string {
+  const raw = value === undefined ? vaultName : value;
+  const trimmed = raw.trim().replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+  if (trimmed === 'Notes') return '';
+  const folder = trimmed.startsWith('Notes/') ? trimmed.slice('Notes/'.length) : trimmed;
+  if (folder.split('/').some((segment) => segment === '..')) {
+    throw new Error('destinationFolder is invalid');
+  }
+  return folder;
+}
+
+function dailyNoteDate(basename: string): string | null {
+  const match = basename.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return match ? `${match[1]}${match[2]}${match[3]}` : null;
+}
+
+async function planNote(
+  source: string,
+  destination: string,
+  params: { onConflict: 'skip' | 'rename'; importDailyNotes: boolean },
+  claimed: Set<string>
+): Promise<Omit<PlannedNote, 'content' | 'attachments' | 'missingAttachments' | 'stats'>> {
+  const baseName = path.posix.basename(source).replace(/\.md$/i, '');
+  const calendarDate = params.importDailyNotes ? dailyNoteDate(baseName) : null;
+
+  if (calendarDate) {
+    const preview = await store.previewLocalNotePath({ calendarDate });
+    const key = preview.filename.toLowerCase().replace(/\.(md|txt)$/, '');
+    const conflict = preview.existingFilename
+      ? `Calendar note already exists: ${preview.existingFilename}`
+      : claimed.has(key)
+        ? 'Another daily note in the vault has the same date'
+        : !isFolderAllowed(preview.filename)
+          ? 'Calendar folder is blocked by folder access rules'
+          : undefined;
+    if (!conflict) claimed.add(key);
+    return {
+      source,
+      kind: 'calendar',
+      title: baseName,
+      calendarDate,
+      target: preview.existingFilename ?? preview.filename,
+      action: conflict ? 'skip' : 'create',
+      conflict,
+    };
+  }
+
+  const relativeDir = path.posix.dirname(source) === '.' ? '' : path.posix.dirname(source);
+  const folder = [destination, relativeDir].filter(Boolean).join('/');
+  let title = baseName;
+  let conflict: string | undefined;
+  for (let attempt = 1; ; attempt++) {
+    const preview = await store.previewLocalNotePath({ title, folder: folder || undefined });
+    const key = preview.filename.toLowerCase().replace(/\.(md|txt)$/, '');
+    if (!isFolderAllowed(preview.filename)) {
+      conflict = 'Folder is blocked by folder access rules';
+    } else if (preview.existingFilename || claimed.has(key)) {
+      conflict = preview.existingFilename
+        ? `Note already exists: ${preview.existingFilename}`
+        : 'Another file in the vault maps to the same note';
+      if (params.onConflict === 'rename' && attempt < 100) {
+        title = `${baseName} ${attempt + 1}`;
+        continue;
+      }
+    } else {
+      claimed.add(key);
+      return {
+        source,
+        kind: 'note',
+        title,
+        folder,
+        target: preview.filename,
+        action: 'create',
+        ...(title !== baseName && { conflict, renamedFrom: baseName }),
+      };
+    }
+    return { source, kind: 'note', title, folder, target: preview.existingFilename ?? preview.filename, action: 'skip', conflict };
+  }
+}
+
+async function buildImportPlan(
+  root: string,
+  destination: string,
+  params: { onConflict: 'skip' | 'rename'; importDailyNotes: boolean }
+) {
+  const scan = await scanVault(root);
+  const resolveVaultFile = createVaultFileResolver(scan.files);
+  const taskConfig = getTaskMarkerConfig();
+  const claimed = new Set<string>();
+  const referencedFiles = new Set<string>();
+  const notes: PlannedNote[] = [];
+
+  for (const source of scan.markdown) {
+    const placement = await planNote(source, destination, params, claimed);
+    const rawContent = await fs.promises.readFile(path.join(root, source), 'utf-8');
+    const noteDir = path.posix.dirname(source) === '.' ? '' : path.posix.dirname(source);
+    const attachments: PlannedAttachment[] = [];
+    const targetNames = new Map<string, string>();
+
+    const conversion = convertObsidianMarkdown(rawContent, {
+      taskConfig,
+      resolveAttachment: (ref) => {
+        const file = resolveVaultFile(ref, noteDir);
+        if (!file) return null;
+        referencedFiles.add(file);
+        let name = targetNames.get(file);
+        if (!name) {
+          // Two vault files with the same name can land in one _attachments folder
+          const cleanName = cleanFilename(path.posix.basename(file)) || 'attachment';
+          const ext = path.posix.extname(cleanName);
+          const stem = cleanName.slice(0, cleanName.length - ext.length);
+          const taken = new Set(targetNames.values());
+          name = cleanName;
+          for (let n = 2; taken.has(name); n++) name = `${stem}-${n}${ext}`;
+          targetNames.set(file, name);
+          attachments.push({
+            source: file,
+            target: path.relative(getNotePlanPath(), path.join(getAttachmentsAbsolutePath(path.join(getNotePlanPath(), placement.target)), name)),
+          });
+        }
+        return toMarkdownLink(placement.target, name);
+      },
+    });
+
+    notes.push({
+      ...placement,
+      content: conversion.content,
+      attachments,
+      missingAttachments: conversion.missingAttachments,
+      stats: conversion.stats,
+    });
+  }
+
+  const existingFolders = new Set(
+    (await store.listFolders({ includeLocal: true, includeSpaces: false }))
+      .filter((folder) => folder.source === 'local')
+      .map((folder) => folder.path.toLowerCase())
+  );
+  const folders = new Set<string>();
+  for (const note of notes) {
+    if (note.kind !== 'note' || note.action !== 'create' || !note.folder) continue;
+    const segments = note.folder.split('/');
+    for (let depth = 1; depth <= segments.length; depth++) {
+      const folder = segments.slice(0, depth).join('/');
+      if (!existingFolders.has(folder.toLowerCase())) folders.add(folder);
+    }
+  }
+
+  return {
+    notes,
+    foldersToCreate: [...folders].sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b)),
+    unreferencedFileCount: scan.files.filter((file) => !referencedFiles.has(file)).length,
+  };
+}
+
+function describeNote(note: PlannedNote) {
+  return {
+    source: note.source,
+    kind: note.kind,
+    title: note.title,
+    target: note.target,
+    action: note.action,
+    conflict: note.conflict,
+    renamedFrom: note.renamedFrom,
+    attachmentCount: note.attachments.length,
+    conversions: note.stats,
+  };
+}
+
+// ── Import ──
+
+export async function importVault(params: z.infer<typeof importVaultSchema>) {
+  try {
+    if (!params.sourcePath?.trim()) {
+      return { success: false, error: 'sourcePath is required for import' };
+    }
+    const root = path.resolve(params.sourcePath.trim().replace(/^~(?=$|\/)/, os.homedir()));
+    const rootStat = await fs.promises.stat(root).catch(() => null);
+    if (!rootStat?.isDirectory()) {
+      return { success: false, error: `sourcePath is not a directory: ${root}` };
+    }
+    const notePlanRoot = path.resolve(getNotePlanPath());
+    if (root === notePlanRoot || root.startsWith(`${notePlanRoot}${path.sep}`) || notePlanRoot.startsWith(`${root}${path.sep}`)) {
+      return { success: false, error: 'sourcePath must not overlap the NotePlan storage folder' };
+    }
+
+    const destination = normalizeDestinationFolder(params.destinationFolder, path.basename(root));
+    const onConflict = params.onConflict === 'rename' ? 'rename' : 'skip';
+    const importDailyNotes = params.importDailyNotes !== false;
+    const plan = await buildImportPlan(root, destination, { onConflict, importDailyNotes });
+
+    const toCreate = plan.notes.filter((note) => note.action === 'create');
+    const skipped = plan.notes.filter((note) => note.action === 'skip');
+    const conflicts = plan.notes.filter((note) => note.conflict);
+    const missingAttachments = plan.notes.flatMap((note) =>
+      note.missingAttachments.map((ref) => ({ source: note.source, ref }))
+    );
+    const attachmentCount = toCreate.reduce((sum, note) => sum + note.attachments.length, 0);
+    const summary = {
+      markdownFiles: plan.notes.length,
+      notesToCreate: toCreate.filter((note) => note.kind === 'note').length,
+      calendarNotesToCreate: toCreate.filter((note) => note.kind === 'calendar').length,
+      foldersToCreate: plan.foldersToCreate.length,
+      attachmentsToCopy: attachmentCount,
+      conflicts: conflicts.length,
+      skipped: skipped.length,
+      missingAttachments: missingAttachments.length,
+      unreferencedFiles: plan.unreferencedFileCount,
+    };
+
+    // Bound to the exact plan: edits to the vault or NotePlan after the
+    // preview invalidate the token.
+    const planHash = hashContent(
+      JSON.stringify(plan.notes.map((note) => [note.source, note.target, note.action, hashContent(note.content)]))
+    );
+    const confirmationTarget = `import:${root}=>${destination}:${planHash}`;
+
+    if (isTrueBool(params.dryRun)) {
+      const token = issueConfirmationToken({
+        tool: 'noteplan_manage_note',
+        target: confirmationTarget,
+        action: 'import',
+      });
+      const listedNotes = capList(plan.notes.map(describeNote));
+      const listedConflicts = capList(
+        conflicts.map((note) => ({ source: note.source, target: note.target, action: note.action, reason: note.conflict }))
+      );
+      const listedMissing = capList(missingAttachments);
+      return {
+        success: true,
+        dryRun: true,
+        message: `Dry run: ${toCreate.length} note(s) would be imported from ${root} into ${destination || 'Notes'}; ${skipped.length} skipped`,
+        sourcePath: root,
+        destinationFolder: destination || 'Notes',
+        summary,
+        foldersToCreate: plan.foldersToCreate,
+        notes: listedNotes.items,
+        notesTruncated: listedNotes.truncated,
+        conflicts: listedConflicts.items,
+        conflictsTruncated: listedConflicts.truncated,
+        missingAttachments: listedMissing.items,
+        missingAttachmentsTruncated: listedMissing.truncated,
+        ...token,
+      };
+    }
+
+    const confirmation = validateAndConsumeConfirmationToken(params.confirmationToken, {
+      tool: 'noteplan_manage_note',
+      target: confirmationTarget,
+      action: 'import',
+    });
+    if (!confirmation.ok) {
+      return {
+        success: false,
+        error: confirmationFailureMessage('noteplan_manage_note', confirmation.reason),
+      };
+    }
+
+    const failures: Array<{ source: string; error: string }> = [];
+    const warnings: string[] = [];
+    let foldersCreated = 0;
+    for (const folder of plan.foldersToCreate) {
+      try {
+        await store.createFolder({ path: folder });
+        foldersCreated++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (!message.startsWith('Folder already exists')) {
+          failures.push({ source: folder, error: message });
+        }
+      }
+    }
+
+    const imported: Array<{ source: string; filename: string; title: string }> = [];
+    let attachmentsCopied = 0;
+    for (const note of toCreate) {
+      let filename: string;
+      try {
+        const created =
+          note.kind === 'calendar'
+            ? await store.createNote(note.title, note.content, { calendarDate: note.calendarDate })
+            : await store.createNote(note.title, note.content, { folder: note.folder || undefined, createNewFolder: true });
+        filename = created.note.filename;
+        imported.push({ source: note.source, filename, title: created.note.title });
+      } catch (error) {
+        failures.push({ source: note.source, error: error instanceof Error ? error.message : String(error) });
+        continue;
+      }
+
+      for (const attachment of note.attachments) {
+        try {
+          const sourcePath = path.join(root, attachment.source);
+          const stat = await fs.promises.stat(sourcePath);
+          if (stat.size > MAX_ATTACHMENT_BYTES) {
+            warnings.push(`${attachment.source} is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)}MB and was not copied`);
+            continue;
+          }
+          const targetPath = path.join(getNotePlanPath(), attachment.target);
+          if (await pathExists(targetPath)) {
+            warnings.push(`${attachment.target} already exists and was left unchanged`);
+            continue;
+          }
+          await writeFileBinary(targetPath, await fs.promises.readFile(sourcePath));
+          attachmentsCopied++;
+        } catch (error) {
+          failures.push({ source: attachment.source, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+
+    const listedImported = capList(imported);
+    const listedFailures = capList(failures);
+    return {
+      success: failures.length === 0 || imported.length > 0,
+      message: `Imported ${imported.length} note(s) from ${root} into ${destination || 'Notes'}${failures.length > 0 ? `; ${failures.length} failure(s)` : ''}`,
+      sourcePath: root,
+      destinationFolder: destination || 'Notes',
+      summary: {
+        ...summary,
+        notesImported: imported.length,
+        foldersCreated,
+        attachmentsCopied,
+        failed: failures.length,
+      },
+      imported: listedImported.items,
+      importedTruncated: listedImported.truncated,
+      failures: listedFailures.items,
+      failuresTruncated: listedFailures.truncated,
+      warnings: warnings.length > 0 ? warnings.slice(0, MAX_LISTED_ITEMS) : undefined,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to import vault',
+    };
+  }
+}
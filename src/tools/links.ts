@@ -0,0 +1,247 @@
+// Wiki-link graph queries: backlinks, outgoing links, orphans, broken links
+
+import { z } from 'zod';
+import * as store from '../noteplan/unified-store.js';
+import { LinkGraph, LinkGraphNode, ResolvedLink } from '../noteplan/link-graph.js';
+
+function toBoundedInt(value: unknown, defaultValue: number, min: number, max: number): number {
+  const numeric = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(numeric)) return defaultValue;
+  return Math.min(max, Math.max(min, Math.floor(numeric)));
+}
+
+function paginate<T>(items: T[], params: { limit?: unknown; offset?: unknown; cursor?: unknown }) {
+  const offset = toBoundedInt(params.cursor ?? params.offset, 0, 0, Number.MAX_SAFE_INTEGER);
+  const limit = toBoundedInt(params.limit, 50, 1, 500);
+  const page = items.slice(offset, offset + limit);
+  const hasMore = offset + page.length < items.length;
+  return {
+    page,
+    offset,
+    limit,
+    hasMore,
+    nextCursor: hasMore ? String(offset + page.length) : null,
+  };
+}
+
+type FolderScope = { raw: string; localPrefix: string };
+
+function toFolderScope(folder?: string): FolderScope | undefined {
+  if (!folder) return undefined;
+  const trimmed = folder.trim().replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+  if (!trimmed) return undefined;
+  const localPrefix = trimmed.startsWith('Notes/') || trimmed.startsWith('Calendar') ? trimmed : `Notes/${trimmed}`;
+  return { raw: trimmed, localPrefix };
+}
+
+/** Local notes match by path prefix; space notes by parent folder ID. */
+function isInFolder(node: LinkGraphNode, scope?: FolderScope): boolean {
+  if (!scope) return true;
+  if (node.source !== 'local') return node.folder === scope.raw;
+  return node.filename.startsWith(`${scope.localPrefix}/`);
+}
+
+function nodeSummary(node: LinkGraphNode | undefined) {
+  if (!node) return null;
+  return {
+    id: node.id,
+    title: node.title,
+    filename: node.filename,
+    type: node.type,
+    source: node.source,
+    spaceId: node.spaceId,
+  };
+}
+
+function linkFields(resolved: ResolvedLink) {
+  const { link } = resolved;
+  return {
+    line: link.lineIndex + 1,
+    lineContent: resolved.lineContent,
+    raw: link.raw,
+    target: link.target,
+    heading: link.heading,
+    blockId: link.blockId,
+    alias: link.alias,
+    embed: link.embed,
+    status: resolved.status,
+  };
+}
+
+async function resolveGraphNote(
+  graph: LinkGraph,
+  params: { id?: string; title?: string; filename?: string; date?: string; space?: string }
+): Promise<LinkGraphNode | null> {
+  const note = await store.getNote(params);
+  if (!note) return null;
+  return graph.nodes.get(note.id) ?? null;
+}
+
+const noteReferenceShape = {
+  id: z.string().optional().describe('Note ID'),
+  title: z.string().optional().describe('Note title'),
+  filename: z.string().optional().describe('Note filename/path'),
+  date: z.string().optional().describe('Calendar note date'),
+  space: z.string().optional().describe('Space name or ID scope for the note lookup and the link graph'),
+};
+
+const paginationShape = {
+  limit: z.number().min(1).max(500).optional().default(50).describe('Maximum results to return'),
+  offset: z.number().min(0).optional().default(0).describe('Pagination offset'),
+  cursor: z.string().optional().describe('Cursor token from previous page (preferred over offset)'),
+};
+
+export const getBacklinksSchema = z.object({
+  ...noteReferenceShape,
+  ...paginationShape,
+});
+
+export const getOutgoingLinksSchema = z.object({
+  ...noteReferenceShape,
+  ...paginationShape,
+});
+
+export const listOrphansSchema = z.object({
+  space: z.string().optional().describe('Space name or ID scope'),
+  folder: z.string().optional().describe('Only report notes inside this folder (local path, or space folder ID)'),
+  types: z
+    .array(z.enum(['calendar', 'note']))
+    .optional()
+    .describe('Note types to consider (default: ["note"] — calendar notes are rarely linked)'),
+  ...paginationShape,
+});
+
+export const listBrokenLinksSchema = z.object({
+  space: z.string().optional().describe('Space name or ID scope'),
+  folder: z.string().optional().describe('Only report links from notes inside this folder (local path, or space folder ID)'),
+  includeCalendar: z
+    .boolean()
+    .optional()
+    .describe('Also report links to calendar dates with no note yet (NotePlan creates these on click; default: false)'),
+  ...paginationShape,
+});
+
+function missingReferenceError() {
+  return { success: false, error: 'Provide one note reference: id, filename, title, or date' };
+}
+
+export async function getBacklinks(params: z.infer<typeof getBacklinksSchema>) {
+  if (!params.id && !params.title && !params.filename && !params.date) return missingReferenceError();
+  const graph = await store.getLinkGraph({ space: params.space });
+  const node = await resolveGraphNote(graph, params);
+  if (!node) return { success: false, error: 'Note not found' };
+
+  const backlinks = (graph.incoming.get(node.id) ?? [])
+    .filter((resolved) => resolved.sourceId !== node.id)
+    .sort((a, b) => {
+      const aTime = graph.nodes.get(a.sourceId)?.modifiedAt?.getTime() ?? 0;
+      const bTime = graph.nodes.get(b.sourceId)?.modifiedAt?.getTime() ?? 0;
+      return bTime - aTime || a.link.lineIndex - b.link.lineIndex;
+    });
+  const linkingNotes = new Set(backlinks.map((b) => b.sourceId));
+  const { page, ...pageInfo } = paginate(backlinks, params);
+
+  return {
+    success: true,
+    note: nodeSummary(node),
+    linkingNoteCount: linkingNotes.size,
+    count: page.length,
+    totalCount: backlinks.length,
+    ...pageInfo,
+    backlinks: page.map((resolved) => ({
+      source: nodeSummary(graph.nodes.get(resolved.sourceId)),
+      ...linkFields(resolved),
+    })),
+  };
+}
+
+export async function getOutgoingLinks(params: z.infer<typeof getOutgoingLinksSchema>) {
+  if (!params.id && !params.title && !params.filename && !params.date) return missingReferenceError();
+  const graph = await store.getLinkGraph({ space: params.space });
+  const node = await resolveGraphNote(graph, params);
+  if (!node) return { success: false, error: 'Note not found' };
+
+  const links = graph.outgoing.get(node.id) ?? [];
+  const brokenCount = links.filter((l) => l.status !== 'ok').length;
+  const { page, ...pageInfo } = paginate(links, params);
+
+  return {
+    success: true,
+    note: nodeSummary(node),
+    brokenCount,
+    count: page.length,
+    totalCount: links.length,
+    ...pageInfo,
+    links: page.map((resolved) => ({
+      ...linkFields(resolved),
+      targetNote: nodeSummary(resolved.targetId ? graph.nodes.get(resolved.targetId) : undefined),
+    })),
+  };
+}
+
+export async function listOrphans(params: z.infer<typeof listOrphansSchema>) {
+  const input = params ?? ({} as z.infer<typeof listOrphansSchema>);
+  const graph = await store.getLinkGraph({ space: input.space });
+  const types = new Set(input.types && input.types.length > 0 ? input.types : ['note']);
+  const folderScope = toFolderScope(input.folder);
+
+  const orphans = [...graph.nodes.values()]
+    .filter((node) => types.has(node.type as 'note' | 'calendar') && isInFolder(node, folderScope))
+    .filter((node) => !(graph.incoming.get(node.id) ?? []).some((l) => l.sourceId !== node.id))
+    .sort((a, b) => (b.modifiedAt?.getTime() ?? 0) - (a.modifiedAt?.getTime() ?? 0));
+  const { page, ...pageInfo } = paginate(orphans, input);
+
+  return {
+    success: true,
+    count: page.length,
+    totalCount: orphans.length,
+    ...pageInfo,
+    orphans: page.map((node) => ({
+      ...nodeSummary(node),
+      folder: node.folder,
+      outgoingLinkCount: (graph.outgoing.get(node.id) ?? []).length,
+      modifiedAt: node.modifiedAt?.toISOString(),
+    })),
+  };
+}
+
+export async function listBrokenLinks(params: z.infer<typeof listBrokenLinksSchema>) {
+  const input = params ?? ({} as z.infer<typeof listBrokenLinksSchema>);
+  const graph = await store.getLinkGraph({ space: input.space });
+  const folderScope = toFolderScope(input.folder);
+  const includeCalendar = input.includeCalendar === true;
+
+  const broken: ResolvedLink[] = [];
+  for (const [sourceId, links] of graph.outgoing) {
+    const source = graph.nodes.get(sourceId);
+    if (!source || !isInFolder(source, folderScope)) continue;
+    for (const resolved of links) {
+      if (resolved.status === 'ok') continue;
+      if (resolved.status === 'missing_calendar_note' && !includeCalendar) continue;
+      broken.push(resolved);
+    }
+  }
+  broken.sort((a, b) => {
+    const aTitle = graph.nodes.get(a.sourceId)?.title ?? '';
+    const bTitle = graph.nodes.get(b.sourceId)?.title ?? '';
+    return aTitle.localeCompare(bTitle) || a.link.lineIndex - b.link.lineIndex;
+  });
+
+  const byStatus: Record<string, number> = {};
+  for (const resolved of broken) {
+    byStatus[resolved.status] = (byStatus[resolved.status] ?? 0) + 1;
+  }
+  const { page, ...pageInfo } = paginate(broken, input);
+
+  return {
+    success: true,
+    byStatus,
+    count: page.length,
+    totalCount: broken.length,
+    ...pageInfo,
+    brokenLinks: page.map((resolved) => ({
+      source: nodeSummary(graph.nodes.get(resolved.sourceId)),
+      ...linkFields(resolved),
+    })),
+  };
+}
@@ -0,0 +1,133 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFileSync } from 'child_process';
+import { initSqlite } from '../noteplan/sqlite-loader.js';
+import { __resetMemoryStoreForTests } from '../noteplan/memory-store.js';
+import { consolidateMemories, deleteMemory, listMemories, saveMemory, updateMemory } from './memory.js';
+
+const DIM = 64;
+
+// Bag-of-words vectors: texts sharing words point the same way
+function fakeEmbedding(text: string): number[] {
+  const vector = new Array(DIM).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+    let hash = 0;
+    for (const ch of word) hash = (hash * 31 + ch.charCodeAt(0)) % DIM;
+    vector[hash] += 1;
+  }
+  return vector;
+}
+
+describe('memory tools', () => {
+  let dir: string;
+  let embeddedTexts: string[];
+
+  beforeAll(async () => {
+    await initSqlite();
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'noteplan-memory-'));
+    embeddedTexts = [];
+    // The legacy memories.json is read from ~/.noteplan-mcp
+    vi.stubEnv('HOME', dir);
+    vi.stubEnv('NOTEPLAN_MEMORY_DB_PATH', path.join(dir, 'db', 'memories.db'));
+    vi.stubEnv('NOTEPLAN_EMBEDDINGS_ENABLED', 'true');
+    vi.stubEnv('NOTEPLAN_EMBEDDINGS_PROVIDER', 'custom');
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: { body: string }) => {
+      const { input } = JSON.parse(init.body) as { input: string[] };
+      embeddedTexts.push(...input);
+      return {
+        ok: true,
+        json: async () => ({ data: input.map((text, index) => ({ index, embedding: fakeEmbedding(text) })) }),
+      };
+    }));
+    __resetMemoryStoreForTests();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    __resetMemoryStoreForTests();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const save = (content: string, tags: string[] = []) =>
+    (saveMemory({ content, tags }).memory as { id: string }).id;
+
+  it('imports memories.json once and sees rows written by other instances', async () => {
+    fs.mkdirSync(path.join(dir, '.noteplan-mcp'));
+    fs.writeFileSync(
+      path.join(dir, '.noteplan-mcp', 'memories.json'),
+      JSON.stringify({
+        version: 1,
+        memories: [
+          { id: 'm_1_aaaa', content: 'Use ISO dates', tags: ['formatting'], createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z' },
+        ],
+      })
+    );
+
+    const listed = await listMemories({ tag: 'formatting' });
+    expect(listed).toMatchObject({ success: true, totalCount: 1, memories: [{ id: 'm_1_aaaa', tags: ['formatting'] }] });
+    expect(fs.existsSync(path.join(dir, '.noteplan-mcp', 'memories.json.migrated'))).toBe(true);
+
+    expect(saveMemory({ content: 'Keep headings short' })).toMatchObject({ success: true, totalMemories: 2 });
+    // Another server instance writing to the same database
+    execFileSync('sqlite3', [
+      path.join(dir, 'db', 'memories.db'),
+      "INSERT INTO memories (id, content, tags, created_at, updated_at) VALUES ('m_2_bbbb', 'Prefer tables for comparisons', '[]', '2026-02-01T00:00:00.000Z', '2026-02-01T00:00:00.000Z')",
+    ]);
+    expect(updateMemory({ id: 'm_2_bbbb', tags: ['Structure'] })).toMatchObject({ success: true, memory: { tags: ['structure'] } });
+    expect(deleteMemory({ id: 'm_1_aaaa' })).toMatchObject({ success: true, remainingCount: 2 });
+    expect(deleteMemory({ id: 'm_1_aaaa' })).toMatchObject({ success: false });
+  });
+
+  it('ranks query matches by embedding similarity and reuses stored vectors', async () => {
+    save('Always write task due dates as ISO dates like 2026-03-01');
+    save('Meeting notes go in the Meetings folder');
+    save('Use checklists instead of bullet lists for packing notes');
+
+    const ranked = await listMemories({ query: 'what format for due dates' });
+    expect(ranked).toMatchObject({ success: true, retrieval: 'semantic' });
+    const memories = ranked.memories as Array<{ content: string; score: number }>;
+    expect(memories[0].content).toContain('ISO dates');
+    expect(memories.every((m) => m.score >= 0.3)).toBe(true);
+    expect(embeddedTexts).toHaveLength(4);
+
+    await listMemories({ query: 'meetings folder' });
+    expect(embeddedTexts).toHaveLength(5);
+
+    const substring = await listMemories({ query: 'meetings', semantic: false });
+    expect(substring).toMatchObject({ retrieval: 'substring', totalCount: 1 });
+  });
+
+  it('proposes merges for duplicates and conflicts behind a confirmation token', async () => {
+    // The newer memory of each pair is kept, so keep updatedAt apart
+    const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+    const older = save('Use bullet lists for meeting action items', ['formatting']);
+    const stale = save('Write dates as DD.MM.YYYY in daily notes');
+    await tick();
+    const newer = save('Use bullet lists for meeting action items please', ['meetings']);
+    const current = save('Never write dates as DD.MM.YYYY in daily notes');
+    save('Meeting notes go in the Meetings folder');
+
+    const preview = await consolidateMemories({ dryRun: true });
+    expect(preview).toMatchObject({ success: true, dryRun: true, method: 'semantic' });
+    expect(preview.proposals).toEqual([
+      expect.objectContaining({ type: 'duplicate', keep: expect.objectContaining({ id: newer }), remove: [expect.objectContaining({ id: older })], mergedTags: ['meetings', 'formatting'] }),
+      expect.objectContaining({ type: 'conflict', keep: expect.objectContaining({ id: current }), remove: [expect.objectContaining({ id: stale })] }),
+    ]);
+
+    expect(await consolidateMemories({})).toMatchObject({ success: false, error: expect.stringContaining('Confirmation token is required') });
+    const applied = await consolidateMemories({ confirmationToken: preview.confirmationToken });
+    expect(applied).toMatchObject({ success: true, removedIds: [older, stale], remainingCount: 3 });
+    expect((await listMemories({ tag: 'formatting' })).memories).toEqual([expect.objectContaining({ id: newer })]);
+
+    // Word overlap works without embeddings
+    save('Use bullet lists for meeting action items');
+    const lexical = await consolidateMemories({ dryRun: true, semantic: false });
+    expect(lexical).toMatchObject({ method: 'word-overlap', proposals: [expect.objectContaining({ type: 'duplicate' })] });
+  });
+});
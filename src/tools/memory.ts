@@ -1,54 +1,50 @@
-import fs from 'fs';
-import path from 'path';
-import os from 'os';
 import crypto from 'crypto';
 import { z } from 'zod';
-
-interface Memory {
-  id: string;
-  content: string;
-  tags: string[];
-  createdAt: string;
-  updatedAt: string;
-}
-
-interface MemoryStore {
-  version: number;
-  memories: Memory[];
-}
-
-const MEMORY_DIR = path.join(os.homedir(), '.noteplan-mcp');
-const MEMORY_FILE_PATH = path.join(MEMORY_DIR, 'memories.json');
+import {
+  areEmbeddingsEnabled,
+  cosineSimilarity,
+  ensureEmbeddingsApiConfigured,
+  fetchEmbeddings,
+  getEmbeddingsConfig,
+  getEmbeddingsModelKey,
+} from '../noteplan/embeddings.js';
+import {
+  countMemories,
+  deleteMemoryRow,
+  getMemory,
+  insertMemory,
+  listAllMemories,
+  listMemoriesWithVectors,
+  Memory,
+  memoryContentHash,
+  setMemoryEmbeddings,
+  updateMemoryRow,
+} from '../noteplan/memory-store.js';
+import {
+  confirmationFailureMessage,
+  issueConfirmationToken,
+  validateAndConsumeConfirmationToken,
+} from '../utils/confirmation-tokens.js';
+
+// Similarity cut-offs per method: at or above DUPLICATE the pair is merged,
+// between CONFLICT and DUPLICATE it is only flagged when one side negates the other
+const SEMANTIC_THRESHOLDS = { duplicate: 0.9, conflict: 0.8 };
+const LEXICAL_THRESHOLDS = { duplicate: 0.8, conflict: 0.5 };
+const DEFAULT_MIN_SCORE = 0.3;
+
+const NEGATION = /\b(?:not|never|no|avoid|stop|without|instead|dont)\b|n['’]t\b/i;
+// Left out of word overlap so "use X" and "don't use X" still compare as close
+const NEGATION_WORDS = new Set(['not', 'never', 'no', 'avoid', 'stop', 'without', 'instead', 'dont', 'doesnt', 'shouldnt', 'wont', 'cant']);
+
+const CONSOLIDATE_REFRESH_HINT =
+  'Call noteplan_memory with action="consolidate" and dryRun=true to get a new confirmationToken.';
 
 function generateId(): string {
   return `m_${Date.now()}_${crypto.randomBytes(2).toString('hex')}`;
 }
 
-function readStore(): MemoryStore {
-  try {
-    const data = fs.readFileSync(MEMORY_FILE_PATH, 'utf-8');
-    const parsed = JSON.parse(data);
-    if (parsed && typeof parsed === 'object' && Array.isArray(parsed.memories)) {
-      return parsed as MemoryStore;
-    }
-    return { version: 1, memories: [] };
-  } catch {
-    return { version: 1, memories: [] };
-  }
-}
-
-let cachedCount: number | null = null;
-
-function writeStore(store: MemoryStore): void {
-  fs.mkdirSync(MEMORY_DIR, { recursive: true });
-  fs.writeFileSync(MEMORY_FILE_PATH, JSON.stringify(store, null, 2), 'utf-8');
-  cachedCount = store.memories.length;
-}
-
 export function getMemoryCount(): number {
-  if (cachedCount !== null) return cachedCount;
-  cachedCount = readStore().memories.length;
-  return cachedCount;
+  return countMemories();
 }
 
 // --- Schemas ---
@@ -64,7 +60,12 @@ const saveMemorySchema = z.object({
 
 const listMemoriesSchema = z.object({
   tag: z.string().optional().describe('Filter by exact tag (case-insensitive)'),
-  query: z.string().optional().describe('Search content by substring (case-insensitive)'),
+  query: z.string().optional().describe('Search content — ranked by relevance when embeddings are enabled, otherwise substring (case-insensitive)'),
+  semantic: z
+    .boolean()
+    .optional()
+    .describe('Rank query matches with embeddings (default: when embeddings are enabled); false forces substring matching'),
+  minScore: z.number().min(0).max(1).optional().default(DEFAULT_MIN_SCORE).describe('Minimum similarity for semantic matches (default: 0.3)'),
   limit: z.number().min(1).max(200).optional().default(50).describe('Maximum memories to return (default: 50)'),
   offset: z.number().min(0).optional().default(0).describe('Pagination offset (default: 0)'),
 });
@@ -79,6 +80,169 @@ const deleteMemorySchema = z.object({
   id: z.string().describe('The memory ID to delete'),
 });
 
+const consolidateMemoriesSchema = z.object({
+  threshold: z
+    .number()
+    .min(0.5)
+    .max(1)
+    .optional()
+    .describe('Similarity at which memories count as duplicates (default: 0.9 with embeddings, 0.8 word overlap without)'),
+  semantic: z.boolean().optional().describe('Compare with embeddings (default: when embeddings are enabled); false uses word overlap'),
+  dryRun: z.boolean().optional().describe('Preview the proposed merges and get a confirmationToken'),
+  confirmationToken: z.string().optional().describe('Confirmation token issued by dryRun'),
+});
+
+// --- Similarity ---
+
+/**
+ * Vectors for `memories`, embedding any that are new or changed since they
+ * were last embedded. Stored vectors are reused across calls.
+ */
+async function getMemoryVectors(memories: Memory[]): Promise<Map<string, Float32Array | ArrayLike<number>>> {
+  const config = getEmbeddingsConfig();
+  const modelKey = getEmbeddingsModelKey();
+  const wanted = new Set(memories.map((m) => m.id));
+  const vectors = new Map<string, Float32Array | ArrayLike<number>>();
+  const missing: Memory[] = [];
+
+  for (const { memory, vector } of listMemoriesWithVectors(modelKey)) {
+    if (!wanted.has(memory.id)) continue;
+    if (vector) vectors.set(memory.id, vector);
+    else missing.push(memory);
+  }
+
+  for (let i = 0; i < missing.length; i += config.defaultBatchSize) {
+    const batch = missing.slice(i, i + config.defaultBatchSize);
+    const embedded = await fetchEmbeddings(batch.map((m) => m.content));
+    batch.forEach((memory, index) => vectors.set(memory.id, embedded[index]));
+    setMemoryEmbeddings(
+      batch.map((memory, index) => ({ id: memory.id, content: memory.content, vector: embedded[index] })),
+      modelKey,
+      config.vectorFormat
+    );
+  }
+
+  return vectors;
+}
+
+/** Decide whether to use embeddings; an explicit semantic=true surfaces config errors. */
+function resolveSemantic(semantic: boolean | undefined): { use: boolean; error?: string } {
+  if (semantic === false) return { use: false };
+  if (semantic === undefined && !areEmbeddingsEnabled()) return { use: false };
+  const check = ensureEmbeddingsApiConfigured();
+  if (check.ok) return { use: true };
+  return semantic === true ? { use: false, error: check.error } : { use: false };
+}
+
+function wordSet(text: string): Set<string> {
+  const words = text
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((w) => w.length > 1 && !NEGATION_WORDS.has(w));
+  return new Set(words);
+}
+
+function wordOverlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared += 1;
+  return shared / (a.size + b.size - shared);
+}
+
+function isNewer(a: Memory, b: Memory): boolean {
+  return a.updatedAt === b.updatedAt ? a.id > b.id : a.updatedAt > b.updatedAt;
+}
+
+interface ConsolidationProposal {
+  type: 'duplicate' | 'conflict';
+  similarity: number;
+  reason: string;
+  keep: Memory;
+  remove: Memory[];
+  /** Tags the kept memory ends up with */
+  tags: string[];
+}
+
+/**
+ * Pairs similar enough to matter are merged when they say the same thing, or
+ * flagged as conflicting when one negates the other ("use X" / "never use X").
+ * Either way the most recently updated memory is kept.
+ */
+function proposeConsolidation(
+  memories: Memory[],
+  similarity: (a: Memory, b: Memory) => number,
+  thresholds: { duplicate: number; conflict: number }
+): ConsolidationProposal[] {
+  const parent = new Map(memories.map((m) => [m.id, m.id]));
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+
+  const clusterScore = new Map<string, number>();
+  const conflicts: Array<{ a: Memory; b: Memory; score: number }> = [];
+  for (let i = 0; i < memories.length; i += 1) {
+    for (let j = i + 1; j < memories.length; j += 1) {
+      const a = memories[i];
+      const b = memories[j];
+      const score = similarity(a, b);
+      if (!Number.isFinite(score) || score < thresholds.conflict) continue;
+      if (NEGATION.test(a.content) !== NEGATION.test(b.content)) {
+        conflicts.push({ a, b, score });
+      } else if (score >= thresholds.duplicate) {
+        const rootA = find(a.id);
+        const rootB = find(b.id);
+        const best = Math.max(score, clusterScore.get(rootA) ?? 0, clusterScore.get(rootB) ?? 0);
+        parent.set(rootB, rootA);
+        clusterScore.set(rootA, best);
+      }
+    }
+  }
+
+  const clusters = new Map<string, Memory[]>();
+  for (const memory of memories) {
+    const root = find(memory.id);
+    clusters.set(root, [...(clusters.get(root) ?? []), memory]);
+  }
+
+  const proposals: ConsolidationProposal[] = [];
+  const removed = new Set<string>();
+  for (const [root, members] of clusters) {
+    if (members.length < 2) continue;
+    const keep = members.reduce((best, m) => (isNewer(m, best) ? m : best));
+    const remove = members.filter((m) => m !== keep);
+    remove.forEach((m) => removed.add(m.id));
+    proposals.push({
+      type: 'duplicate',
+      similarity: clusterScore.get(root) ?? thresholds.duplicate,
+      reason: `${members.length} memories say the same thing; keeping the most recently updated one`,
+      keep,
+      remove,
+      tags: [...new Set([keep, ...remove].flatMap((m) => m.tags))],
+    });
+  }
+
+  conflicts.sort((x, y) => y.score - x.score);
+  for (const { a, b, score } of conflicts) {
+    if (removed.has(a.id) || removed.has(b.id)) continue;
+    const [keep, drop] = isNewer(a, b) ? [a, b] : [b, a];
+    removed.add(drop.id);
+    proposals.push({
+      type: 'conflict',
+      similarity: score,
+      reason: 'One memory contradicts the other; keeping the more recently updated one',
+      keep,
+      remove: [drop],
+      tags: keep.tags,
+    });
+  }
+
+  return proposals;
+}
+
 // --- CRUD functions ---
 
 export function saveMemory(args: unknown): Record<string, unknown> {
@@ -98,43 +262,69 @@ export function saveMemory(args: unknown): Record<string, unknown> {
     updatedAt: now,
   };
 
-  const store = readStore();
-  store.memories.push(memory);
-  writeStore(store);
+  insertMemory(memory);
 
   return {
     success: true,
     message: `Memory saved with ID ${memory.id}`,
     memory,
-    totalMemories: store.memories.length,
+    totalMemories: countMemories(),
   };
 }
 
-export function listMemories(args: unknown): Record<string, unknown> {
+export async function listMemories(args: unknown): Promise<Record<string, unknown>> {
   const parsed = listMemoriesSchema.safeParse(args ?? {});
   if (!parsed.success) {
     return { success: false, error: parsed.error.issues.map((i) => i.message).join('; ') };
   }
 
-  const { tag, query, limit, offset } = parsed.data;
-  const store = readStore();
-  let filtered = store.memories;
+  const { tag, query, semantic, minScore, limit, offset } = parsed.data;
+  let filtered = listAllMemories();
 
   if (tag) {
     const lowerTag = tag.toLowerCase();
     filtered = filtered.filter((m) => m.tags.some((t) => t.toLowerCase() === lowerTag));
   }
 
+  let retrieval: 'semantic' | 'substring' | undefined;
+  let warning: string | undefined;
+  let results: Array<Memory & { score?: number }> = filtered;
+
   if (query) {
-    const lowerQuery = query.toLowerCase();
-    filtered = filtered.filter((m) => m.content.toLowerCase().includes(lowerQuery));
+    const mode = resolveSemantic(semantic);
+    if (mode.error) {
+      return { success: false, error: mode.error };
+    }
+    if (mode.use) {
+      try {
+        const [queryVector] = await fetchEmbeddings([query]);
+        const vectors = await getMemoryVectors(filtered);
+        results = filtered
+          .map((m) => ({ ...m, score: Number(cosineSimilarity(queryVector, vectors.get(m.id) ?? []).toFixed(4)) }))
+          .filter((m) => m.score >= minScore)
+          .sort((a, b) => b.score - a.score);
+        retrieval = 'semantic';
+      } catch (error) {
+        if (semantic === true) {
+          return { success: false, error: error instanceof Error ? error.message : 'Embeddings request failed' };
+        }
+        warning = `Semantic search unavailable, used substring matching: ${error instanceof Error ? error.message : 'unknown error'}`;
+      }
+    }
+    if (!retrieval) {
+      const lowerQuery = query.toLowerCase();
+      results = filtered.filter((m) => m.content.toLowerCase().includes(lowerQuery));
+      retrieval = 'substring';
+    }
   }
 
-  const totalCount = filtered.length;
-  const paged = filtered.slice(offset, offset + limit);
+  const totalCount = results.length;
+  const paged = results.slice(offset, offset + limit);
 
   return {
     success: true,
+    ...(retrieval && { retrieval }),
+    ...(warning && { warning }),
     count: paged.length,
     totalCount,
     offset,
@@ -155,8 +345,7 @@ export function updateMemory(args: unknown): Record<string, unknown> {
     return { success: false, error: 'At least one of content or tags must be provided' };
   }
 
-  const store = readStore();
-  const memory = store.memories.find((m) => m.id === id);
+  const memory = getMemory(id);
   if (!memory) {
     return { success: false, error: `Memory not found: ${id}` };
   }
@@ -168,7 +357,9 @@ export function updateMemory(args: unknown): Record<string, unknown> {
     memory.tags = rawTags.map((t) => t.trim().toLowerCase()).filter(Boolean);
   }
   memory.updatedAt = new Date().toISOString();
-  writeStore(store);
+  if (!updateMemoryRow(memory)) {
+    return { success: false, error: `Memory not found: ${id}` };
+  }
 
   return {
     success: true,
@@ -184,19 +375,126 @@ export function deleteMemory(args: unknown): Record<string, unknown> {
   }
 
   const { id } = parsed.data;
-  const store = readStore();
-  const index = store.memories.findIndex((m) => m.id === id);
-  if (index === -1) {
+  if (!deleteMemoryRow(id)) {
     return { success: false, error: `Memory not found: ${id}` };
   }
 
-  store.memories.splice(index, 1);
-  writeStore(store);
-
   return {
     success: true,
     message: `Memory ${id} deleted`,
     deletedId: id,
-    remainingCount: store.memories.length,
+    remainingCount: countMemories(),
+  };
+}
+
+function summarizeProposal(proposal: ConsolidationProposal) {
+  const brief = (m: Memory) => ({ id: m.id, content: m.content, tags: m.tags, updatedAt: m.updatedAt });
+  return {
+    type: proposal.type,
+    similarity: Number(proposal.similarity.toFixed(4)),
+    reason: proposal.reason,
+    keep: brief(proposal.keep),
+    remove: proposal.remove.map(brief),
+    ...(proposal.type === 'duplicate' && { mergedTags: proposal.tags }),
+  };
+}
+
+export async function consolidateMemories(args: unknown): Promise<Record<string, unknown>> {
+  const parsed = consolidateMemoriesSchema.safeParse(args ?? {});
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues.map((i) => i.message).join('; ') };
+  }
+
+  const { threshold, semantic, dryRun, confirmationToken } = parsed.data;
+  const mode = resolveSemantic(semantic);
+  if (mode.error) {
+    return { success: false, error: mode.error };
+  }
+
+  const memories = listAllMemories();
+  const defaults = mode.use ? SEMANTIC_THRESHOLDS : LEXICAL_THRESHOLDS;
+  const thresholds = {
+    duplicate: threshold ?? defaults.duplicate,
+    conflict: Math.min(defaults.conflict, threshold ?? 1),
+  };
+
+  let similarity: (a: Memory, b: Memory) => number;
+  if (mode.use) {
+    let vectors: Map<string, Float32Array | ArrayLike<number>>;
+    try {
+      vectors = await getMemoryVectors(memories);
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Embeddings request failed' };
+    }
+    similarity = (a, b) => cosineSimilarity(vectors.get(a.id) ?? [], vectors.get(b.id) ?? []);
+  } else {
+    const words = new Map(memories.map((m) => [m.id, wordSet(m.content)]));
+    similarity = (a, b) => wordOverlap(words.get(a.id)!, words.get(b.id)!);
+  }
+
+  const proposals = proposeConsolidation(memories, similarity, thresholds);
+  const method = mode.use ? 'semantic' : 'word-overlap';
+  if (proposals.length === 0) {
+    return {
+      success: true,
+      method,
+      thresholds,
+      message: `No near-duplicate or conflicting memories among ${memories.length}`,
+      proposals: [],
+    };
+  }
+
+  // Bound to the exact proposal set, so a token goes stale if memories change in between
+  const confirmationTarget = memoryContentHash(
+    JSON.stringify(proposals.map((p) => [p.type, p.keep.id, p.keep.updatedAt, p.tags, p.remove.map((m) => [m.id, m.updatedAt])]))
+  );
+
+  if (dryRun === true) {
+    const token = issueConfirmationToken({
+      tool: 'noteplan_memory',
+      target: confirmationTarget,
+      action: 'consolidate',
+    });
+    return {
+      success: true,
+      dryRun: true,
+      method,
+      thresholds,
+      message: `Dry run: ${proposals.length} merge(s) would remove ${proposals.reduce((n, p) => n + p.remove.length, 0)} memories`,
+      proposals: proposals.map(summarizeProposal),
+      ...token,
+    };
+  }
+
+  const confirmation = validateAndConsumeConfirmationToken(confirmationToken, {
+    tool: 'noteplan_memory',
+    target: confirmationTarget,
+    action: 'consolidate',
+  });
+  if (!confirmation.ok) {
+    return {
+      success: false,
+      error: confirmationFailureMessage('noteplan_memory', confirmation.reason, CONSOLIDATE_REFRESH_HINT),
+    };
+  }
+
+  const removedIds: string[] = [];
+  for (const proposal of proposals) {
+    const { keep } = proposal;
+    if (proposal.tags.length !== keep.tags.length) {
+      updateMemoryRow({ ...keep, tags: proposal.tags, updatedAt: new Date().toISOString() });
+    }
+    for (const memory of proposal.remove) {
+      if (deleteMemoryRow(memory.id)) removedIds.push(memory.id);
+    }
+  }
+
+  return {
+    success: true,
+    method,
+    message: `Applied ${proposals.length} merge(s), removed ${removedIds.length} memories`,
+    proposals: proposals.map(summarizeProposal),
+    removedIds,
+    remainingCount: countMemories(),
   };
 }
@@ -3239,3 +3239,359 @@ describe('folder-access read-side filtering', () => {
     expect(fileReader.extractAllTags).toHaveBeenCalled();
   });
 });
+
+// ── previewWikiLinkRewrite — offline rename link rewriting ──
+
+import { previewWikiLinkRewrite } from '../noteplan/unified-store.js';
+
+describe('previewWikiLinkRewrite', () => {
+  const base = {
+    type: 'note' as const,
+    source: 'local' as const,
+    modifiedAt: new Date(),
+    createdAt: new Date(),
+    spaceId: undefined,
+  };
+  const target = { ...base, id: 'Notes/Alpha.md', filename: 'Notes/Alpha.md', title: 'Alpha', content: '# Alpha\n## Plan' };
+  const linker = {
+    ...base,
+    id: 'Notes/Linker.md',
+    filename: 'Notes/Linker.md',
+    title: 'Linker',
+    content: '# Linker\nSee [[Alpha#Plan|the plan]]\n`[[Alpha]]` in code',
+  };
+  const spaceLinker = {
+    ...base,
+    id: 'space-note-1',
+    filename: '%%NotePlanCloud%%/space-001/space-note-1',
+    title: 'Space Linker',
+    source: 'space' as const,
+    spaceId: 'space-001',
+    content: '# Space Linker\n![[alpha]]',
+  };
+  const bystander = { ...base, id: 'Notes/Other.md', filename: 'Notes/Other.md', title: 'Other', content: '# Other\n[[Beta]]' };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    invalidateListingCaches();
+    vi.mocked(fileReader.listProjectNotes).mockResolvedValue([target, linker, bystander]);
+    vi.mocked(fileReader.listCalendarNotes).mockResolvedValue([]);
+    vi.mocked(sqliteReader.listSpaceNotes).mockResolvedValue([spaceLinker]);
+    vi.mocked(fileReader.readNoteFile).mockImplementation(async (filename: string) =>
+      [target, linker, bystander].find((n) => n.filename === filename) ?? null
+    );
+    vi.mocked(sqliteReader.getSpaceNote).mockImplementation(async (id: string) =>
+      id === spaceLinker.id ? spaceLinker : null
+    );
+  });
+
+  it('lists every linking note and line across local files and spaces', async () => {
+    const plan = await previewWikiLinkRewrite(target, 'Alpha', 'Alpha Prime');
+    expect(plan.linkCount).toBe(2);
+    expect(plan.notes.map((n) => [n.id, n.changes.map((c) => [c.lineIndex, c.after])])).toEqual([
+      ['Notes/Linker.md', [[1, 'See [[Alpha Prime#Plan|the plan]]']]],
+      ['space-note-1', [[1, '![[Alpha Prime]]']]],
+    ]);
+  });
+
+  it('skips links that resolve to another note with the same title', async () => {
+    const spaceAlpha = {
+      ...spaceLinker,
+      id: 'space-note-2',
+      filename: '%%NotePlanCloud%%/space-001/space-note-2',
+      title: 'Alpha',
+      content: '# Alpha',
+    };
+    vi.mocked(sqliteReader.listSpaceNotes).mockResolvedValue([spaceLinker, spaceAlpha]);
+    const plan = await previewWikiLinkRewrite(target, 'Alpha', 'Alpha Prime');
+    expect(plan.notes.map((n) => n.id)).toEqual(['Notes/Linker.md']);
+    expect(plan.linkCount).toBe(1);
+  });
+
+  it('returns an empty plan when the title is unchanged', async () => {
+    const plan = await previewWikiLinkRewrite(target, 'Alpha', 'Alpha');
+    expect(plan.notes).toEqual([]);
+    expect(fileReader.listProjectNotes).not.toHaveBeenCalled();
+  });
+});
+
+// ── applyBatch — atomic multi-edit against one snapshot ──
+
+import { applyBatch, editLine, getParagraphs, replaceLines } from './notes.js';
+import { hashContent } from '../noteplan/history.js';
+
+describe('applyBatch', () => {
+  const note = {
+    id: 'Notes/Plan.md',
+    filename: 'Notes/Plan.md',
+    title: 'Plan',
+    type: 'note' as const,
+    source: 'local' as const,
+    modifiedAt: new Date('2026-01-01T00:00:00.000Z'),
+    createdAt: new Date(),
+    spaceId: undefined,
+    content: '# Plan\n## Tasks\n* one\n* two\n* three',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(sqliteReader.getSpaceNote).mockResolvedValue(null);
+    vi.mocked(fileReader.readNoteFile).mockResolvedValue(note);
+  });
+
+  it('previews edits resolved against the original line numbers', async () => {
+    const result = (await applyBatch({
+      filename: 'Notes/Plan.md',
+      operations: [
+        { action: 'delete_lines', startLine: 3, endLine: 3 },
+        { action: 'edit_line', line: 4, content: '* TWO' },
+        { action: 'insert', position: 'at-line', line: 5, content: 'zero', type: 'task' },
+      ],
+      dryRun: true,
+    } as any)) as any;
+    expect(result.success).toBe(true);
+    expect(result.contentHash).toBe(hashContent(note.content));
+    expect(result.newLineCount).toBe(5);
+    expect(result.operations.map((op: any) => [op.action, op.startLine])).toEqual([
+      ['delete_lines', 3],
+      ['edit_line', 4],
+      ['insert', 5],
+    ]);
+    expect(result.confirmationToken).toBeTypeOf('string');
+    expect(result.diff).toContain('-* one');
+    expect(result.diffSummary).toMatchObject({ addedLines: 2, removedLines: 2, truncated: false });
+  });
+
+  it('rejects the whole batch when expectedHash is stale', async () => {
+    const result = (await applyBatch({
+      filename: 'Notes/Plan.md',
+      operations: [{ action: 'edit_line', line: 3, content: '* ONE' }],
+      expectedHash: hashContent('older content'),
+    } as any)) as any;
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/^Conflict: .* changed since it was read/);
+  });
+
+  it('rejects the whole batch when expectedModifiedAt is stale', async () => {
+    const result = (await applyBatch({
+      filename: 'Notes/Plan.md',
+      operations: [{ action: 'edit_line', line: 3, content: '* ONE' }],
+      expectedModifiedAt: '2025-12-31T00:00:00.000Z',
+    } as any)) as any;
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/expected modifiedAt/);
+  });
+
+  it('names the operation whose range does not fit the note', async () => {
+    const result = (await applyBatch({
+      filename: 'Notes/Plan.md',
+      operations: [
+        { action: 'edit_line', line: 3, content: '* ONE' },
+        { action: 'delete_lines', startLine: 5, endLine: 9 },
+      ],
+      dryRun: true,
+    } as any)) as any;
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Operation 2 (delete_lines): line 9 does not exist (note has 5 lines)');
+  });
+});
+
+// ── expectedHash — optimistic concurrency on writes ──
+
+describe('expectedHash conflicts', () => {
+  const original = {
+    id: 'Notes/Shared.md',
+    filename: 'Notes/Shared.md',
+    title: 'Shared',
+    type: 'note' as const,
+    source: 'local' as const,
+    modifiedAt: new Date(),
+    createdAt: new Date(),
+    spaceId: undefined,
+    content: '# Shared\n* milk\n* eggs',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(sqliteReader.getSpaceNote).mockResolvedValue(null);
+  });
+
+  it('returns the hash on reads and a diff when the note changed before the write', async () => {
+    vi.mocked(fileReader.readNoteFile).mockResolvedValue(original);
+    const read = (await getParagraphs({ filename: 'Notes/Shared.md' } as any)) as any;
+    expect(read.contentHash).toBe(hashContent(original.content));
+
+    vi.mocked(fileReader.readNoteFile).mockResolvedValue({ ...original, content: '# Shared\n* milk\n* bread\n* eggs' });
+    const result = (await editLine({
+      filename: 'Notes/Shared.md',
+      line: 2,
+      content: '* oat milk',
+      expectedHash: read.contentHash,
+    } as any)) as any;
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/^Conflict: note "Shared" changed since it was read/);
+    expect(result.currentHash).toBe(hashContent('# Shared\n* milk\n* bread\n* eggs'));
+    expect(result.diff).toContain('+* bread');
+  });
+
+  it('still reports the conflict when the original content is no longer cached', async () => {
+    vi.mocked(fileReader.readNoteFile).mockResolvedValue(original);
+    const result = (await editLine({
+      filename: 'Notes/Shared.md',
+      line: 2,
+      content: '* oat milk',
+      expectedHash: hashContent('never read by this server'),
+    } as any)) as any;
+    expect(result.success).toBe(false);
+    expect(result.diff).toBeUndefined();
+    expect(result.diffUnavailableReason).toMatch(/no longer cached/);
+  });
+});
+
+describe('dryRun diff previews', () => {
+  const note = {
+    id: 'Notes/Draft.md',
+    filename: 'Notes/Draft.md',
+    title: 'Draft',
+    type: 'note' as const,
+    source: 'local' as const,
+    modifiedAt: new Date(),
+    createdAt: new Date(),
+    spaceId: undefined,
+    content: '# Draft\nintro\nbody\noutro',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(sqliteReader.getSpaceNote).mockResolvedValue(null);
+    vi.mocked(fileReader.readNoteFile).mockResolvedValue(note);
+  });
+
+  it('previews replace_lines as a unified diff without writing', async () => {
+    const result = (await replaceLines({
+      filename: 'Notes/Draft.md',
+      startLine: 3,
+      endLine: 3,
+      content: 'new body\nmore body',
+      dryRun: true,
+    } as any)) as any;
+    expect(result.success).toBe(true);
+    expect(result.dryRun).toBe(true);
+    expect(result.diff).toBe(
+      [
+        '--- a/Notes/Draft.md',
+        '+++ b/Notes/Draft.md',
+        '@@ -1,4 +1,5 @@',
+        ' # Draft',
+        ' intro',
+        '-body',
+        '+new body',
+        '+more body',
+        ' outro',
+      ].join('\n')
+    );
+    expect(result.diffSummary.summary).toBe('2 line(s) added, 1 removed');
+    expect(result.confirmationToken).toBeTypeOf('string');
+  });
+
+  it('rejects a confirmation token issued for different replacement content', async () => {
+    const preview = (await replaceLines({
+      filename: 'Notes/Draft.md',
+      startLine: 3,
+      endLine: 3,
+      content: 'new body',
+      dryRun: true,
+    } as any)) as any;
+    const result = (await replaceLines({
+      filename: 'Notes/Draft.md',
+      startLine: 3,
+      endLine: 3,
+      content: 'something else',
+      confirmationToken: preview.confirmationToken,
+    } as any)) as any;
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/token/i);
+  });
+});
+
+// ── resolveReferencedNoteSpace — space of a note named without `space` ──
+
+import { resolveReferencedNoteSpace } from './notes.js';
+
+describe('resolveReferencedNoteSpace', () => {
+  const base = { type: 'note' as const, modifiedAt: new Date(), createdAt: new Date() };
+  const localPlan = { ...base, id: 'Notes/Plan.md', filename: 'Notes/Plan.md', title: 'Quarterly Plan', source: 'local' as const, content: '# Quarterly Plan' };
+  const wikiPage = {
+    ...base,
+    id: 'wiki-page-1',
+    filename: '%%NotePlanCloud%%/space-001/wiki-page-1',
+    title: 'Onboarding Guide',
+    source: 'space' as const,
+    spaceId: 'space-001',
+    content: '# Onboarding Guide',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    invalidateListingCaches();
+    vi.mocked(fileReader.listProjectNotes).mockResolvedValue([localPlan]);
+    vi.mocked(fileReader.listCalendarNotes).mockResolvedValue([]);
+    vi.mocked(sqliteReader.listSpaceNotes).mockResolvedValue([wikiPage]);
+    vi.mocked(fileReader.readNoteFile).mockImplementation(async (filename: string) =>
+      filename === localPlan.filename ? localPlan : null
+    );
+    vi.mocked(sqliteReader.getSpaceNote).mockImplementation(async (id: string) =>
+      id === wikiPage.id || id === wikiPage.filename ? wikiPage : null
+    );
+  });
+
+  it('finds the space of a note named by title, like the write tools do', async () => {
+    expect(await resolveReferencedNoteSpace({ title: 'Onboarding Guide' })).toEqual({ spaceId: 'space-001' });
+    expect(await resolveReferencedNoteSpace({ title: 'Quarterly Plan' })).toEqual({ spaceId: undefined });
+  });
+
+  it('treats dates as local calendar notes and unknown notes as unresolved', async () => {
+    expect(await resolveReferencedNoteSpace({ date: 'today' })).toEqual({});
+    expect(await resolveReferencedNoteSpace({ query: 'Nothing like this' })).toBeNull();
+  });
+});
+
+// ── previewUndoHistoryEntry — undoing a note creation ──
+
+import { previewUndoHistoryEntry } from '../noteplan/unified-store.js';
+import type { HistoryEntry } from '../noteplan/history.js';
+
+describe('previewUndoHistoryEntry for create_note', () => {
+  const created = {
+    id: 'Notes/Draft.md',
+    filename: 'Notes/Draft.md',
+    title: 'Draft',
+    type: 'note' as const,
+    source: 'local' as const,
+    modifiedAt: new Date(),
+    createdAt: new Date(),
+    content: '# Draft\n',
+  };
+  const entry: HistoryEntry = {
+    id: 'h_create',
+    timestamp: new Date().toISOString(),
+    operation: 'create_note',
+    summary: 'Created Notes/Draft.md',
+    before: null,
+    after: { kind: 'note', source: 'local', path: 'Notes/Draft.md', contentHash: hashContent(created.content) },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('allows undo while the note still holds what was created', async () => {
+    vi.mocked(fileReader.readNoteFile).mockResolvedValue(created);
+    await expect(previewUndoHistoryEntry(entry)).resolves.toBeUndefined();
+  });
+
+  it('refuses undo once the note was edited after creation', async () => {
+    vi.mocked(fileReader.readNoteFile).mockResolvedValue({ ...created, content: '# Draft\nLater edit\n' });
+    await expect(previewUndoHistoryEntry(entry)).rejects.toThrow(/^Conflict: Notes\/Draft\.md has changed since h_create/);
+  });
+});
@@ -13,7 +13,10 @@ import { parseParagraphLine, parseAllParagraphLines, buildParagraphLine, stripRa
 import { NoteType, ParagraphType, ParagraphMetadata, TaskStatus as ParagraphTaskStatus } from '../noteplan/types.js';
 import { normalizeFilename } from '../utils/filename-normalize.js';
 import { normalizePeriodicTitle, isCanonicalPeriodicTitle, parseFlexibleDate } from '../utils/date-utils.js';
-import { getBridgeClient } from '../transport/bridge-availability.js';
+import { getRevision, rememberRevision } from '../noteplan/revisions.js';
+import { hashContent } from '../noteplan/history.js';
+import { buildDiffPreview } from '../utils/text-diff.js';
+import { isTrueBool } from '../utils/boolean-param.js';
 
 function toBoundedInt(value: unknown, defaultValue: number, min: number, max: number): number {
   const numeric = typeof value === 'number' ? value : Number(value);
@@ -41,16 +44,6 @@ function toOptionalBoolean(value: unknown): boolean | undefined {
   return undefined;
 }
 
-/**
- * Coerce a value to boolean — handles MCP delivering boolean params as strings.
- * Returns true for boolean true or string "true".
- */
-function isTrueBool(value: unknown): boolean {
-  if (typeof value === 'boolean') return value;
-  if (typeof value === 'string') return value.trim().toLowerCase() === 'true';
-  return false;
-}
-
 function confirmationFailureMessage(toolName: string, reason: string): string {
   const refreshHint = `Call ${toolName} with dryRun=true to get a new confirmationToken.`;
   if (reason === 'missing') {
@@ -165,6 +158,22 @@ export async function resolveWritableNoteReference(input: WritableNoteReferenceI
   };
 }
 
+/**
+ * Space of the existing note a reference without `space` points at, found
+ * the way resolveWritableNoteReference finds it (minus calendar-note
+ * creation). `{}` for local notes; null when the reference doesn't resolve
+ * to a note, so callers can't tell which space it is in.
+ */
+export async function resolveReferencedNoteSpace(
+  input: Omit<WritableNoteReferenceInput, 'space'>
+): Promise<{ spaceId?: string } | null> {
+  const hasDirectReference = Boolean(input.id?.trim() || input.filename?.trim());
+  // Without `space`, a date names (or creates) a local calendar note
+  if (!hasDirectReference && input.date?.trim()) return {};
+  const { note } = await resolveWritableNoteReference({ ...input, date: undefined });
+  return note ? { spaceId: note.spaceId } : null;
+}
+
 export function getWritableIdentifier(
   note: NonNullable<Awaited<ReturnType<typeof store.getNote>>>
 ): { identifier: string; source: 'local' | 'space' } {
@@ -180,6 +189,36 @@ export function getWritableIdentifier(
   };
 }
 
+/**
+ * Optimistic-concurrency check for writes. Returns the error result to send
+ * back when `expectedHash` no longer matches the note, or null to proceed.
+ * The diff is included when the content behind `expectedHash` is still in
+ * the revision cache.
+ */
+function expectedHashConflict(
+  note: NonNullable<Awaited<ReturnType<typeof store.getNote>>>,
+  expectedHash: unknown
+): Record<string, unknown> | null {
+  if (typeof expectedHash !== 'string' || expectedHash.trim().length === 0) return null;
+  const expected = expectedHash.trim();
+  const currentHash = rememberRevision(note.content);
+  if (expected === currentHash) return null;
+
+  const previous = getRevision(expected);
+  return {
+    success: false,
+    error: `Conflict: note "${note.title}" changed since it was read (expectedHash does not match). Re-read the note and apply the edit to the current content.`,
+    expectedHash: expected,
+    currentHash,
+    ...(previous !== undefined
+      ? buildDiffPreview(previous, note.content, { label: note.filename })
+      : {
+          diffUnavailableReason:
+            'The content for expectedHash is no longer cached; re-read the note to see its current state.',
+        }),
+  };
+}
+
 const PROGRESSIVE_READ_HINT =
   'Use startLine/endLine and cursor pagination for progressive note reads.';
 const NEXT_CURSOR_HINT = 'Continue with nextCursor to fetch the next content page.';
@@ -423,6 +462,11 @@ export const createNoteSchema = z.object({
   templateTypes: z.array(z.enum(['empty-note', 'meeting-note', 'project-note', 'calendar-note'])).optional().describe('Template type tags — used when noteType="template"'),
 });
 
+const expectedHashField = z
+  .string()
+  .optional()
+  .describe('contentHash from the read this write is based on — the write fails with a conflict and a diff if the note changed since');
+
 export const updateNoteSchema = z.object({
   id: z.string().optional().describe('Note ID (preferred for space notes)'),
   filename: z.string().optional().describe('Filename/path of the note to update'),
@@ -441,6 +485,15 @@ export const updateNoteSchema = z.object({
     .boolean()
     .optional()
     .describe('Allow replacing note content with empty/blank text (default: false)'),
+  expectedHash: expectedHashField,
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe('Preview the rewrite as a unified diff without modifying the note (default: false)'),
+  confirmationToken: z
+    .string()
+    .optional()
+    .describe('Confirmation token issued by dryRun; when given, the content must match the preview'),
 }).superRefine((input, ctx) => {
   if (!input.id && !input.filename && !input.title && !input.date && !input.query) {
     ctx.addIssue({
@@ -463,6 +516,7 @@ export const deleteNoteSchema = z.object({
     .string()
     .optional()
     .describe('Confirmation token issued by dryRun for delete execution'),
+  expectedHash: expectedHashField,
 }).superRefine((input, ctx) => {
   if (!input.id && !input.filename) {
     ctx.addIssue({
@@ -491,6 +545,7 @@ export const moveNoteSchema = z.object({
     .string()
     .optional()
     .describe('Confirmation token issued by dryRun for move execution'),
+  expectedHash: expectedHashField,
 }).superRefine((input, ctx) => {
   if (!input.id && !input.filename) {
     ctx.addIssue({
@@ -528,6 +583,7 @@ export const renameNoteFileSchema = z.object({
     .string()
     .optional()
     .describe('Confirmation token issued by dryRun for rename execution'),
+  expectedHash: expectedHashField,
 }).superRefine((input, ctx) => {
   if (!input.id && !input.filename && !input.title && !input.query) {
     ctx.addIssue({
@@ -554,6 +610,7 @@ export const restoreNoteSchema = z.object({
     .string()
     .optional()
     .describe('Confirmation token issued by dryRun for restore execution'),
+  expectedHash: expectedHashField,
 }).superRefine((input, ctx) => {
   if (!input.id && !input.filename) {
     ctx.addIssue({
@@ -600,6 +657,7 @@ export async function getNote(params: z.infer<typeof getNoteSchema>) {
       modifiedAt: note.modifiedAt?.toISOString(),
       createdAt: note.createdAt?.toISOString(),
     },
+    contentHash: rememberRevision(note.content),
     contentIncluded: includeContent,
     lineCount,
     contentLength,
@@ -966,6 +1024,8 @@ export async function updateNote(params: z.infer<typeof updateNoteSchema>) {
       };
     }
     const existingNote = noteRef.note;
+    const conflict = expectedHashConflict(existingNote, params.expectedHash);
+    if (conflict) return conflict;
 
     if (params.allowEmptyContent !== true && params.content.trim().length === 0) {
       return {
@@ -976,6 +1036,42 @@ export async function updateNote(params: z.infer<typeof updateNoteSchema>) {
     }
 
     const writeTarget = getWritableIdentifier(existingNote);
+    const confirmTarget = `${existingNote.filename}:${hashContent(params.content)}`;
+    if (isTrueBool(params.dryRun)) {
+      const token = issueConfirmationToken({
+        tool: 'noteplan_update_note',
+        target: confirmTarget,
+        action: 'update_note',
+      });
+      return {
+        success: true,
+        dryRun: true,
+        message: `Dry run: note ${existingNote.filename} would be replaced`,
+        note: {
+          title: existingNote.title,
+          filename: existingNote.filename,
+          type: existingNote.type,
+          source: existingNote.source,
+        },
+        ...buildDiffPreview(existingNote.content, params.content, { label: existingNote.filename }),
+        ...token,
+      };
+    }
+
+    if (params.confirmationToken) {
+      const confirmation = validateAndConsumeConfirmationToken(params.confirmationToken, {
+        tool: 'noteplan_update_note',
+        target: confirmTarget,
+        action: 'update_note',
+      });
+      if (!confirmation.ok) {
+        return {
+          success: false,
+          error: confirmationFailureMessage('noteplan_update_note', confirmation.reason),
+        };
+      }
+    }
+
     const note = await store.updateNote(writeTarget.identifier, params.content, {
       source: writeTarget.source,
     });
@@ -988,6 +1084,7 @@ export async function updateNote(params: z.infer<typeof updateNoteSchema>) {
         type: note.type,
         source: note.source,
       },
+      contentHash: rememberRevision(note.content),
     };
   } catch (error) {
     return {
@@ -1007,6 +1104,8 @@ export async function deleteNote(params: z.infer<typeof deleteNoteSchema>) {
         error: 'Note not found',
       };
     }
+    const conflict = expectedHashConflict(note, params.expectedHash);
+    if (conflict) return conflict;
 
     if (isTrueBool(params.dryRun)) {
       const token = issueConfirmationToken({
@@ -1027,6 +1126,7 @@ export async function deleteNote(params: z.infer<typeof deleteNoteSchema>) {
           folder: note.folder,
           spaceId: note.spaceId,
         },
+        ...buildDiffPreview(note.content, '', { fromLabel: note.filename, toLabel: null }),
         ...token,
       };
     }
@@ -1076,6 +1176,8 @@ export async function moveNote(params: z.infer<typeof moveNoteSchema>) {
         candidates: noteRef.candidates,
       };
     }
+    const conflict = expectedHashConflict(noteRef.note, params.expectedHash);
+    if (conflict) return conflict;
     const writable = getWritableIdentifier(noteRef.note);
     const preview = await store.previewMoveNote(writable.identifier, params.destinationFolder);
     const confirmationTarget =
@@ -1103,6 +1205,7 @@ export async function moveNote(params: z.infer<typeof moveNoteSchema>) {
           folder: preview.note.folder,
           spaceId: preview.note.spaceId,
         },
+        ...preview.diffPreview,
         ...token,
       };
     }
@@ -1157,6 +1260,8 @@ export async function restoreNote(params: z.infer<typeof restoreNoteSchema>) {
       };
     }
 
+    const conflict = expectedHashConflict(target.note, params.expectedHash);
+    if (conflict) return conflict;
     const preview = await store.previewRestoreNote(target.identifier, params.destinationFolder);
     const confirmationTarget = `${preview.fromIdentifier}=>${preview.toIdentifier}`;
 
@@ -1182,6 +1287,7 @@ export async function restoreNote(params: z.infer<typeof restoreNoteSchema>) {
           folder: preview.note.folder,
           spaceId: preview.note.spaceId,
         },
+        ...preview.diffPreview,
         ...token,
       };
     }
@@ -1225,6 +1331,48 @@ export async function restoreNote(params: z.infer<typeof restoreNoteSchema>) {
   }
 }
 
+/** The `# Title` line a rename rewrites: only when it still shows the old title or filename. */
+function findRenamableTitleHeading(note: { title: string; filename: string; content: string }): {
+  lineIndex: number;
+  heading: string;
+} | null {
+  const lines = note.content.split('\n');
+  const lineIndex = lines.findIndex((l) => /^#\s+/.test(l));
+  if (lineIndex === -1) return null;
+  const heading = lines[lineIndex].replace(/^#\s+/, '');
+  const oldFilenameBase = note.filename.replace(/^.*\//, '').replace(/\.\w+$/, '');
+  if (heading !== (note.title || '') && heading !== oldFilenameBase) return null;
+  return { lineIndex, heading };
+}
+
+/** Content with the first `# heading` line swapped, when it reads `# fromHeading`. */
+function replaceTitleHeading(content: string, fromHeading: string, toHeading: string): string {
+  const lines = content.split('\n');
+  const lineIndex = lines.findIndex((l) => /^#\s+/.test(l));
+  if (lineIndex === -1 || lines[lineIndex].replace(/^#\s+/, '') !== fromHeading) return content;
+  lines[lineIndex] = `# ${toHeading}`;
+  return lines.join('\n');
+}
+
+function formatWikiLinkRewrite(rewrite: store.WikiLinkRewriteResult, options: { includeDiffs?: boolean } = {}) {
+  return {
+    fromTitle: rewrite.fromTitle,
+    toTitle: rewrite.toTitle,
+    noteCount: rewrite.notes.length,
+    lineCount: rewrite.lineCount,
+    linkCount: rewrite.linkCount,
+    notes: rewrite.notes.map((n) => ({
+      id: n.id,
+      title: n.title,
+      filename: n.filename,
+      source: n.source,
+      spaceId: n.spaceId,
+      lines: n.changes.map((c) => ({ line: c.lineIndex + 1, before: c.before, after: c.after })),
+      ...(options.includeDiffs && n.diffPreview),
+    })),
+  };
+}
+
 export async function renameNoteFile(params: z.infer<typeof renameNoteFileSchema>) {
   try {
     // Resolve the note — supports id, filename, title, or query
@@ -1238,6 +1386,8 @@ export async function renameNoteFile(params: z.infer<typeof renameNoteFileSchema
     }
 
     const note = resolved.note;
+    const conflict = expectedHashConflict(note, params.expectedHash);
+    if (conflict) return conflict;
 
     // Space note: rename title
     if (note.source === 'space') {
@@ -1250,6 +1400,10 @@ export async function renameNoteFile(params: z.infer<typeof renameNoteFileSchema
       const writeId = note.id || note.filename;
       const confirmationTarget = `${note.title}=>${params.newTitle}`;
 
+      // Inbound links are found while the old title still resolves, both for
+      // the preview and for the real run.
+      const linkPlan = await store.previewWikiLinkRewrite(note, note.title, params.newTitle);
+
       if (isTrueBool(params.dryRun)) {
         const token = issueConfirmationToken({
           tool: 'noteplan_rename_note_file',
@@ -1259,9 +1413,10 @@ export async function renameNoteFile(params: z.infer<typeof renameNoteFileSchema
         return {
           success: true,
           dryRun: true,
-          message: `Dry run: TeamSpace note would be renamed from "${note.title}" to "${params.newTitle}"`,
+          message: `Dry run: TeamSpace note would be renamed from "${note.title}" to "${params.newTitle}"; ${linkPlan.linkCount} wikilink(s) in ${linkPlan.notes.length} note(s) would be updated`,
           fromTitle: note.title,
           toTitle: params.newTitle,
+          wikilinkRewrite: formatWikiLinkRewrite(linkPlan, { includeDiffs: true }),
           note: {
             id: note.id,
             title: note.title,
@@ -1271,6 +1426,10 @@ export async function renameNoteFile(params: z.infer<typeof renameNoteFileSchema
             folder: note.folder,
             spaceId: note.spaceId,
           },
+          ...buildDiffPreview(note.content, replaceTitleHeading(note.content, note.title, params.newTitle), {
+            fromLabel: note.title,
+            toLabel: params.newTitle,
+          }),
           ...token,
         };
       }
@@ -1305,11 +1464,18 @@ export async function renameNoteFile(params: z.infer<typeof renameNoteFileSchema
         }
       }
 
+      const linkRewrite = await store.applyWikiLinkRewrite(linkPlan, {
+        targetId: note.id,
+        renamedNote: renamed.note,
+      });
+
       return {
         success: true,
         message: `TeamSpace note renamed from "${renamed.fromTitle}" to "${renamed.toTitle}"`,
         fromTitle: renamed.fromTitle,
         toTitle: renamed.toTitle,
+        wikilinksUpdatedCount: linkRewrite.notes.length,
+        wikilinkRewrite: formatWikiLinkRewrite(linkRewrite),
         note: {
           id: renamed.note.id,
           title: renamed.note.title,
@@ -1336,6 +1502,16 @@ export async function renameNoteFile(params: z.infer<typeof renameNoteFileSchema
     const preview = await store.previewRenameNoteFile(note.filename, effectiveNewFilename, keepExtension);
     const confirmationTarget = `${preview.fromFilename}=>${preview.toFilename}`;
 
+    // The title (and so every [[Title]] link) only changes when the `# Title`
+    // heading is rewritten below. Inbound links are found now, while the old
+    // title still resolves.
+    const newTitle = params.newTitle || params.newFilename;
+    const titleHeading = newTitle ? findRenamableTitleHeading(note) : null;
+    const linkPlan =
+      newTitle && titleHeading && titleHeading.heading === note.title && note.title !== newTitle
+        ? await store.previewWikiLinkRewrite(note, note.title, newTitle)
+        : null;
+
     if (isTrueBool(params.dryRun)) {
       const token = issueConfirmationToken({
         tool: 'noteplan_rename_note_file',
@@ -1345,9 +1521,12 @@ export async function renameNoteFile(params: z.infer<typeof renameNoteFileSchema
       return {
         success: true,
         dryRun: true,
-        message: `Dry run: note ${preview.fromFilename} would rename to ${preview.toFilename}`,
+        message: linkPlan
+          ? `Dry run: note ${preview.fromFilename} would rename to ${preview.toFilename}; ${linkPlan.linkCount} wikilink(s) in ${linkPlan.notes.length} note(s) would be updated`
+          : `Dry run: note ${preview.fromFilename} would rename to ${preview.toFilename}`,
         fromFilename: preview.fromFilename,
         toFilename: preview.toFilename,
+        ...(linkPlan && { wikilinkRewrite: formatWikiLinkRewrite(linkPlan, { includeDiffs: true }) }),
         note: {
           id: preview.note.id,
           title: preview.note.title,
@@ -1357,6 +1536,12 @@ export async function renameNoteFile(params: z.infer<typeof renameNoteFileSchema
           folder: preview.note.folder,
           spaceId: preview.note.spaceId,
         },
+        ...(newTitle && titleHeading
+          ? buildDiffPreview(note.content, replaceTitleHeading(note.content, titleHeading.heading, newTitle), {
+              fromLabel: preview.fromFilename,
+              toLabel: preview.toFilename,
+            })
+          : preview.diffPreview),
         ...token,
       };
     }
@@ -1375,48 +1560,23 @@ export async function renameNoteFile(params: z.infer<typeof renameNoteFileSchema
 
     const renamed = await store.renameNoteFile(note.filename, effectiveNewFilename, keepExtension);
 
-    // Also update the # Title heading in the note content if it matches the old title.
-    // When the heading actually changes, propagate the rename to wikilinks across the
-    // vault via the bridge — matches what the NotePlan UI rename does.
-    const newTitle = params.newTitle || params.newFilename;
-    let headingRewritten = false;
-    let oldHeadingTitle: string | null = null;
-    if (newTitle && renamed.note.content) {
+    // Also update the # Title heading in the note content if it matches the old title,
+    // then point inbound wikilinks at the new title — matches what the NotePlan UI
+    // rename does, without needing NotePlan to be running.
+    if (newTitle && titleHeading && renamed.note.content) {
       const lines = renamed.note.content.split('\n');
-      const titleLineIndex = lines.findIndex((l) => /^#\s+/.test(l));
-      if (titleLineIndex !== -1) {
-        const currentHeading = lines[titleLineIndex].replace(/^#\s+/, '');
-        const oldTitle = note.title || '';
-        const oldFilenameBase = note.filename.replace(/^.*\//, '').replace(/\.\w+$/, '');
-        if (currentHeading === oldTitle || currentHeading === oldFilenameBase) {
-          lines[titleLineIndex] = `# ${newTitle}`;
-          const writeTarget = getWritableIdentifier(renamed.note);
-          await store.updateNote(writeTarget.identifier, lines.join('\n'), {
-            source: writeTarget.source,
-          });
-          headingRewritten = true;
-          oldHeadingTitle = currentHeading;
-        }
+      if (lines[titleHeading.lineIndex] === `# ${titleHeading.heading}`) {
+        lines[titleHeading.lineIndex] = `# ${newTitle}`;
+        const writeTarget = getWritableIdentifier(renamed.note);
+        renamed.note = await store.updateNote(writeTarget.identifier, lines.join('\n'), {
+          source: writeTarget.source,
+        });
       }
     }
 
-    let wikilinksUpdatedCount: number | undefined;
-    let wikilinkPropagationWarning: string | undefined;
-    if (headingRewritten && oldHeadingTitle && newTitle && oldHeadingTitle !== newTitle) {
-      const bridge = await getBridgeClient();
-      if (bridge) {
-        try {
-          const res = await bridge.rewriteWikilinks(oldHeadingTitle, newTitle);
-          wikilinksUpdatedCount = res.updatedCount;
-        } catch (err) {
-          wikilinkPropagationWarning =
-            err instanceof Error ? err.message : 'Failed to update wikilinks';
-        }
-      } else {
-        wikilinkPropagationWarning =
-          'Wikilinks pointing to the old title were NOT updated because NotePlan is not running. Open NotePlan and re-run rename, or fix references manually.';
-      }
-    }
+    const linkRewrite = linkPlan
+      ? await store.applyWikiLinkRewrite(linkPlan, { targetId: note.id, renamedNote: renamed.note })
+      : null;
 
     const result: Record<string, unknown> = {
       success: true,
@@ -1432,11 +1592,9 @@ export async function renameNoteFile(params: z.infer<typeof renameNoteFileSchema
         folder: renamed.note.folder,
       },
     };
-    if (wikilinksUpdatedCount !== undefined) {
-      result.wikilinksUpdatedCount = wikilinksUpdatedCount;
-    }
-    if (wikilinkPropagationWarning) {
-      result.warnings = [wikilinkPropagationWarning];
+    if (linkRewrite) {
+      result.wikilinksUpdatedCount = linkRewrite.notes.length;
+      result.wikilinkRewrite = formatWikiLinkRewrite(linkRewrite);
     }
     return result;
   } catch (error) {
@@ -1586,6 +1744,7 @@ export async function getParagraphs(params: z.infer<typeof getParagraphsSchema>)
     const result: Record<string, unknown> = {
       success: true,
       note: { title: note.title, filename: note.filename },
+      contentHash: rememberRevision(note.content),
       lineCount: totalLineCount,
       filteredCount: filtered.length,
       returnedLineCount: page.length,
@@ -1626,6 +1785,7 @@ export async function getParagraphs(params: z.infer<typeof getParagraphsSchema>)
       title: note.title,
       filename: note.filename,
     },
+    contentHash: rememberRevision(note.content),
     lineCount: lineWindow.lineCount,
     rangeStartLine: lineWindow.rangeStartLine,
     rangeEndLine: lineWindow.rangeEndLine,
@@ -1798,6 +1958,7 @@ export const setPropertySchema = z.object({
   space: z.string().optional().describe('Space name or ID to search in'),
   key: z.string().describe('Property key (e.g., "icon", "bg-color", "status")'),
   value: z.string().describe('Property value'),
+  expectedHash: expectedHashField,
 }).superRefine((input, ctx) => {
   if (!input.id && !input.filename && !input.title && !input.date && !input.query) {
     ctx.addIssue({
@@ -1816,6 +1977,7 @@ export const removePropertySchema = z.object({
   query: z.string().optional().describe('Fuzzy note query'),
   space: z.string().optional().describe('Space name or ID to search in'),
   key: z.string().describe('Property key to remove'),
+  expectedHash: expectedHashField,
 }).superRefine((input, ctx) => {
   if (!input.id && !input.filename && !input.title && !input.date && !input.query) {
     ctx.addIssue({
@@ -1873,6 +2035,7 @@ export const insertContentSchema = z.object({
     .max(10)
     .optional()
     .describe('Tab indentation level for task/checklist/bullet lines'),
+  expectedHash: expectedHashField,
 }).superRefine((input, ctx) => {
   if (!input.id && !input.filename && !input.title && !input.date && !input.query) {
     ctx.addIssue({
@@ -1897,6 +2060,7 @@ export const appendContentSchema = z.object({
     .optional()
     .default('tabs')
     .describe('Indentation normalization for appended list/task lines. Default: tabs'),
+  expectedHash: expectedHashField,
 }).superRefine((input, ctx) => {
   if (!input.id && !input.filename && !input.title && !input.date && !input.query) {
     ctx.addIssue({
@@ -1914,6 +2078,7 @@ const noteReferenceSchema = {
   date: z.string().optional().describe('Calendar note date (auto-creates if missing)'),
   query: z.string().optional().describe('Fuzzy note query'),
   space: z.string().optional().describe('Space name or ID scope'),
+  expectedHash: expectedHashField,
 };
 
 export const deleteLinesSchema = z.object({
@@ -1959,6 +2124,82 @@ export const replaceLinesSchema = z.object({
     .boolean()
     .optional()
     .describe('Allow replacing selected lines with empty content (default: false). Prefer delete_lines for pure deletion.'),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe('Preview the replacement as a unified diff without modifying the note (default: false)'),
+  confirmationToken: z
+    .string()
+    .optional()
+    .describe('Confirmation token issued by dryRun; when given, the replacement must match the preview'),
+});
+
+const batchOperationSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('insert'),
+    content: z.string().describe('Content to insert'),
+    position: z
+      .enum(['start', 'end', 'after-heading', 'at-line', 'in-section'])
+      .describe('Where to insert, resolved against the original note'),
+    heading: z.string().optional().describe('Heading or section marker text (after-heading, in-section)'),
+    line: z.number().optional().describe('Line number in the original note (1-indexed, at-line)'),
+    type: z
+      .enum(['title', 'heading', 'task', 'checklist', 'bullet', 'quote', 'separator', 'empty', 'text'])
+      .optional()
+      .describe('Paragraph type — when set, content is auto-formatted with correct markdown markers'),
+    taskStatus: z.enum(['open', 'done', 'cancelled', 'scheduled']).optional(),
+  }),
+  z.object({
+    action: z.literal('append'),
+    content: z.string().describe('Content to append'),
+    heading: z.string().optional().describe('Append at end of this section instead of end of note'),
+  }),
+  z.object({
+    action: z.literal('edit_line'),
+    line: z.number().describe('Line to edit in the original note (1-indexed)'),
+    content: z.string().describe('New content for the line'),
+    allowEmptyContent: z.boolean().optional(),
+  }),
+  z.object({
+    action: z.literal('replace_lines'),
+    startLine: z.number().describe('First line to replace in the original note (1-indexed, inclusive)'),
+    endLine: z.number().describe('Last line to replace in the original note (1-indexed, inclusive)'),
+    content: z.string().describe('Replacement content'),
+    allowEmptyContent: z.boolean().optional(),
+  }),
+  z.object({
+    action: z.literal('delete_lines'),
+    startLine: z.number().describe('First line to delete in the original note (1-indexed, inclusive)'),
+    endLine: z.number().describe('Last line to delete in the original note (1-indexed, inclusive)'),
+  }),
+]);
+
+type BatchOperation = z.infer<typeof batchOperationSchema>;
+
+export const applyBatchSchema = z.object({
+  ...noteReferenceSchema,
+  operations: z
+    .array(batchOperationSchema)
+    .min(1)
+    .max(100)
+    .describe('Ordered edits. All line numbers refer to the note as it was read, not as earlier operations leave it'),
+  indentationStyle: z
+    .enum(['tabs', 'preserve'])
+    .optional()
+    .default('tabs')
+    .describe('Indentation normalization for inserted/edited list/task lines. Default: tabs'),
+  expectedModifiedAt: z
+    .string()
+    .optional()
+    .describe('modifiedAt (ISO) the operations were written against — the batch is rejected if the note changed since'),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe('Preview the result without modifying the note (default: false)'),
+  confirmationToken: z
+    .string()
+    .optional()
+    .describe('Confirmation token issued by dryRun — required when the batch deletes lines'),
 });
 
 // Granular note operation implementations
@@ -1969,6 +2210,8 @@ export async function setProperty(params: z.infer<typeof setPropertySchema>) {
       return { success: false, error: noteRef.error || 'Note not found', candidates: noteRef.candidates };
     }
     const note = noteRef.note;
+    const conflict = expectedHashConflict(note, params.expectedHash);
+    if (conflict) return conflict;
 
     const newContent = frontmatter.setFrontmatterProperty(note.content, params.key, params.value);
     const writable = getWritableIdentifier(note);
@@ -1977,6 +2220,7 @@ export async function setProperty(params: z.infer<typeof setPropertySchema>) {
     return {
       success: true,
       message: `Property "${params.key}" set to "${params.value}"`,
+      contentHash: rememberRevision(newContent),
     };
   } catch (error) {
     return {
@@ -1993,6 +2237,8 @@ export async function removeProperty(params: z.infer<typeof removePropertySchema
       return { success: false, error: noteRef.error || 'Note not found', candidates: noteRef.candidates };
     }
     const note = noteRef.note;
+    const conflict = expectedHashConflict(note, params.expectedHash);
+    if (conflict) return conflict;
 
     const newContent = frontmatter.removeFrontmatterProperty(note.content, params.key);
     const writable = getWritableIdentifier(note);
@@ -2001,6 +2247,7 @@ export async function removeProperty(params: z.infer<typeof removePropertySchema
     return {
       success: true,
       message: `Property "${params.key}" removed`,
+      contentHash: rememberRevision(newContent),
     };
   } catch (error) {
     return {
@@ -2021,6 +2268,8 @@ export async function insertContent(params: z.infer<typeof insertContentSchema>)
       };
     }
     const note = resolved.note;
+    const conflict = expectedHashConflict(note, params.expectedHash);
+    if (conflict) return conflict;
 
     const indentationStyle = normalizeIndentationStyle(
       (params as { indentationStyle?: unknown }).indentationStyle
@@ -2086,6 +2335,7 @@ export async function insertContent(params: z.infer<typeof insertContentSchema>)
       success: true,
       tip: 'Use noteplan_paragraphs(action: "get") to inspect line numbers and content before making further edits.',
       message: `Content inserted at ${params.position}`,
+      contentHash: rememberRevision(newContent),
       note: {
         id: note.id,
         title: note.title,
@@ -2113,6 +2363,8 @@ export async function appendContent(params: z.infer<typeof appendContentSchema>)
       };
     }
     const note = resolved.note;
+    const conflict = expectedHashConflict(note, params.expectedHash);
+    if (conflict) return conflict;
 
     const indentationStyle = normalizeIndentationStyle(
       (params as { indentationStyle?: unknown }).indentationStyle
@@ -2130,6 +2382,7 @@ export async function appendContent(params: z.infer<typeof appendContentSchema>)
     return {
       success: true,
       message: 'Content appended',
+      contentHash: rememberRevision(newContent),
       note: {
         id: note.id,
         title: note.title,
@@ -2163,6 +2416,8 @@ export async function deleteLines(params: z.infer<typeof deleteLinesSchema>) {
       return { success: false, error: resolved.error || 'Note not found', candidates: resolved.candidates };
     }
     const note = resolved.note;
+    const conflict = expectedHashConflict(note, params.expectedHash);
+    if (conflict) return conflict;
 
     const allLines = note.content.split('\n');
     const totalLineCount = allLines.length;
@@ -2207,6 +2462,11 @@ export async function deleteLines(params: z.infer<typeof deleteLinesSchema>) {
     }
     const hasRecurringTasks = repeatLineNumbers.length > 0;
 
+    // Splice out lines using absolute indices (no frontmatter offset needed)
+    const splicedLines = [...allLines];
+    splicedLines.splice(boundedStartLine - 1, lineCountToDelete);
+    const newContent = splicedLines.join('\n');
+
     const confirmTarget = `${note.filename}:${boundedStartLine}-${boundedEndLine}`;
     if (isTrueBool(params.dryRun)) {
       const token = issueConfirmationToken({
@@ -2236,6 +2496,7 @@ export async function deleteLines(params: z.infer<typeof deleteLinesSchema>) {
         hasRecurringTasks,
         recurringTaskLines: hasRecurringTasks ? repeatLineNumbers : undefined,
         warnings: warnings.length > 0 ? warnings : undefined,
+        ...buildDiffPreview(note.content, newContent, { label: note.filename }),
         ...token,
       };
     }
@@ -2252,16 +2513,13 @@ export async function deleteLines(params: z.infer<typeof deleteLinesSchema>) {
       };
     }
 
-    // Splice out lines using absolute indices (no frontmatter offset needed)
-    const splicedLines = [...allLines];
-    splicedLines.splice(boundedStartLine - 1, lineCountToDelete);
-    const newContent = splicedLines.join('\n');
     const writeIdentifier = note.source === 'space' ? (note.id || note.filename) : note.filename;
     await store.updateNote(writeIdentifier, newContent, { source: note.source });
 
     return {
       success: true,
       message: `Lines ${boundedStartLine}-${boundedEndLine} deleted`,
+      contentHash: rememberRevision(newContent),
       lineCountToDelete,
       removedAttachmentReferences: removedAttachmentReferences.slice(0, 20),
       removedAttachmentReferencesTruncated: removedAttachmentReferences.length > 20,
@@ -2290,6 +2548,8 @@ export async function editLine(params: z.infer<typeof editLineSchema>) {
       return { success: false, error: resolved.error || 'Note not found', candidates: resolved.candidates };
     }
     const note = resolved.note;
+    const conflict = expectedHashConflict(note, params.expectedHash);
+    if (conflict) return conflict;
 
     const lines = note.content.split('\n');
     const originalLineCount = lines.length;
@@ -2340,6 +2600,7 @@ export async function editLine(params: z.infer<typeof editLineSchema>) {
     return {
       success: true,
       message: `Line ${params.line} updated`,
+      contentHash: rememberRevision(newContent),
       originalLine,
       newLine: normalized.content,
       indentationStyle,
@@ -2377,6 +2638,8 @@ export async function replaceLines(params: z.infer<typeof replaceLinesSchema>) {
       return { success: false, error: resolved.error || 'Note not found', candidates: resolved.candidates };
     }
     const note = resolved.note;
+    const conflict = expectedHashConflict(note, params.expectedHash);
+    if (conflict) return conflict;
 
     const allLines = note.content.split('\n');
     const originalLineCount = allLines.length;
@@ -2437,12 +2700,54 @@ export async function replaceLines(params: z.infer<typeof replaceLinesSchema>) {
     }
 
     allLines.splice(startIndex, lineCountToReplace, ...replacementLines);
+    const newContent = allLines.join('\n');
+
+    const confirmTarget = `${note.filename}:${boundedStartLine}-${boundedEndLine}:${hashContent(newContent)}`;
+    if (isTrueBool(params.dryRun)) {
+      const token = issueConfirmationToken({
+        tool: 'noteplan_replace_lines',
+        target: confirmTarget,
+        action: 'replace_lines',
+      });
+      return {
+        success: true,
+        dryRun: true,
+        message: `Dry run: lines ${boundedStartLine}-${boundedEndLine} would be replaced`,
+        lineCountToReplace,
+        insertedLineCount: replacementLines.length,
+        lineDelta,
+        originalLineCount,
+        newLineCount,
+        removedAttachmentReferences: removedAttachmentReferences.slice(0, 20),
+        removedAttachmentReferencesTruncated: removedAttachmentReferences.length > 20,
+        warnings: warnings.length > 0 ? warnings : undefined,
+        ...buildDiffPreview(note.content, newContent, { label: note.filename }),
+        ...token,
+      };
+    }
+
+    // Tokens are optional here; one from a dryRun must still match this exact replacement
+    if (params.confirmationToken) {
+      const confirmation = validateAndConsumeConfirmationToken(params.confirmationToken, {
+        tool: 'noteplan_replace_lines',
+        target: confirmTarget,
+        action: 'replace_lines',
+      });
+      if (!confirmation.ok) {
+        return {
+          success: false,
+          error: confirmationFailureMessage('noteplan_replace_lines', confirmation.reason),
+        };
+      }
+    }
+
     const writeIdentifier = note.source === 'space' ? (note.id || note.filename) : note.filename;
-    await store.updateNote(writeIdentifier, allLines.join('\n'), { source: note.source });
+    await store.updateNote(writeIdentifier, newContent, { source: note.source });
 
     return {
       success: true,
       message: `Lines ${boundedStartLine}-${boundedEndLine} replaced`,
+      contentHash: rememberRevision(newContent),
       lineCountToReplace,
       insertedLineCount: replacementLines.length,
       lineDelta,
@@ -2462,6 +2767,264 @@ export async function replaceLines(params: z.infer<typeof replaceLinesSchema>) {
   }
 }
 
+function describeBatchOperation(operation: BatchOperation, index: number): string {
+  return `Operation ${index + 1} (${operation.action})`;
+}
+
+/**
+ * Check that an original-note line range is editable: inside the note and
+ * past the frontmatter. Batch line numbers are never clamped — a range that
+ * doesn't fit means the caller's view of the note is stale.
+ */
+function assertBatchLineRange(
+  label: string,
+  startLine: number,
+  endLine: number,
+  lineCount: number,
+  fmLineCount: number
+): void {
+  if (!Number.isInteger(startLine) || !Number.isInteger(endLine) || startLine < 1 || endLine < startLine) {
+    throw new Error(`${label}: invalid line range ${startLine}-${endLine}`);
+  }
+  if (endLine > lineCount) {
+    throw new Error(`${label}: line ${endLine} does not exist (note has ${lineCount} lines)`);
+  }
+  if (fmLineCount > 0 && startLine <= fmLineCount) {
+    throw new Error(
+      `${label}: line ${startLine} is inside frontmatter (lines 1-${fmLineCount}). Content starts at line ${fmLineCount + 1}.`
+    );
+  }
+}
+
+/** Turn one batch operation into a LineEdit against the original content. */
+function toBatchLineEdit(
+  operation: BatchOperation,
+  index: number,
+  original: string,
+  indentationStyle: IndentationStyle
+): { edit: frontmatter.LineEdit; linesRetabbed: number } {
+  const label = describeBatchOperation(operation, index);
+  const lines = original.split('\n');
+  const lineCount = lines.length;
+  const fmLineCount = frontmatter.getFrontmatterLineCount(original);
+
+  switch (operation.action) {
+    case 'insert':
+    case 'append': {
+      let content = operation.content;
+      if (operation.action === 'insert' && operation.type) {
+        const type = operation.type as ParagraphType;
+        const taskStatus = operation.taskStatus as ParagraphTaskStatus | undefined;
+        content = content
+          .split('\n')
+          .map((line) => buildParagraphLine(line, type, { taskStatus }))
+          .join('\n');
+      }
+      const normalized = normalizeContentIndentation(content, indentationStyle);
+      const options: frontmatter.InsertOptions =
+        operation.action === 'append'
+          ? { position: 'end', heading: operation.heading }
+          : { position: operation.position, heading: operation.heading, line: operation.line };
+      let start: number;
+      try {
+        start = frontmatter.findInsertionLineIndex(original, options);
+      } catch (error) {
+        throw new Error(`${label}: ${error instanceof Error ? error.message : 'invalid position'}`);
+      }
+      // Keep a trailing newline at the end of the note rather than appending after it
+      if (options.position === 'end' && !options.heading && original.endsWith('\n')) {
+        start = lineCount - 1;
+      }
+      if (start > lineCount) {
+        throw new Error(`${label}: line ${operation.action === 'insert' ? operation.line : start + 1} does not exist (note has ${lineCount} lines)`);
+      }
+      return {
+        edit: { start, deleteCount: 0, lines: normalized.content.replace(/\n$/, '').split('\n') },
+        linesRetabbed: normalized.linesRetabbed,
+      };
+    }
+
+    case 'edit_line':
+    case 'replace_lines': {
+      const startLine = operation.action === 'edit_line' ? Number(operation.line) : Number(operation.startLine);
+      const endLine = operation.action === 'edit_line' ? startLine : Number(operation.endLine);
+      assertBatchLineRange(label, startLine, endLine, lineCount, fmLineCount);
+      const normalized = normalizeContentIndentation(operation.content, indentationStyle);
+      if (operation.allowEmptyContent !== true && normalized.content.trim().length === 0) {
+        throw new Error(
+          `${label}: empty content is blocked. Use a delete_lines operation or set allowEmptyContent=true.`
+        );
+      }
+      const replacement =
+        operation.action === 'replace_lines' && normalized.content.length === 0
+          ? []
+          : normalized.content.split('\n');
+      return {
+        edit: { start: startLine - 1, deleteCount: endLine - startLine + 1, lines: replacement },
+        linesRetabbed: normalized.linesRetabbed,
+      };
+    }
+
+    case 'delete_lines': {
+      const startLine = Number(operation.startLine);
+      const endLine = Number(operation.endLine);
+      assertBatchLineRange(label, startLine, endLine, lineCount, fmLineCount);
+      return {
+        edit: { start: startLine - 1, deleteCount: endLine - startLine + 1, lines: [] },
+        linesRetabbed: 0,
+      };
+    }
+  }
+}
+
+function staleModifiedAtError(
+  note: NonNullable<Awaited<ReturnType<typeof store.getNote>>>,
+  expectedModifiedAt: string | undefined
+): string | null {
+  if (!expectedModifiedAt) return null;
+  const expected = Date.parse(expectedModifiedAt);
+  if (!Number.isFinite(expected)) {
+    return `expectedModifiedAt is not a valid ISO date: ${expectedModifiedAt}`;
+  }
+  const current = note.modifiedAt?.getTime();
+  if (current !== undefined && current !== expected) {
+    return `Conflict: note "${note.title}" changed since it was read (expected modifiedAt ${expectedModifiedAt}, current ${note.modifiedAt!.toISOString()}). Re-read the note and rebuild the batch.`;
+  }
+  return null;
+}
+
+export async function applyBatch(params: z.infer<typeof applyBatchSchema>) {
+  try {
+    const parsed = applyBatchSchema.safeParse(params);
+    if (!parsed.success) {
+      return { success: false, error: parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ') };
+    }
+    const input = parsed.data;
+
+    const resolved = await resolveWritableNoteReference(input);
+    if (!resolved.note) {
+      return { success: false, error: resolved.error || 'Note not found', candidates: resolved.candidates };
+    }
+    const note = resolved.note;
+    const conflict = expectedHashConflict(note, input.expectedHash);
+    if (conflict) return conflict;
+    const staleError = staleModifiedAtError(note, input.expectedModifiedAt);
+    if (staleError) return { success: false, error: staleError };
+    const original = note.content;
+    const originalHash = rememberRevision(original);
+
+    const indentationStyle = normalizeIndentationStyle(input.indentationStyle);
+    const edits: frontmatter.LineEdit[] = [];
+    let linesRetabbed = 0;
+    for (const [index, operation] of input.operations.entries()) {
+      const converted = toBatchLineEdit(operation, index, original, indentationStyle);
+      edits.push(converted.edit);
+      linesRetabbed += converted.linesRetabbed;
+    }
+    const newContent = frontmatter.applyLineEdits(original, edits);
+
+    const originalLineCount = original.split('\n').length;
+    const newLineCount = newContent.split('\n').length;
+    const lineDelta = newLineCount - originalLineCount;
+    const removedText = edits
+      .filter((edit) => edit.deleteCount > 0)
+      .map((edit) => original.split('\n').slice(edit.start, edit.start + edit.deleteCount).join('\n'))
+      .join('\n');
+    const removedAttachmentReferences = getRemovedAttachmentReferences(removedText, newContent);
+    const warnings: string[] = [];
+    if (removedAttachmentReferences.length > 0) {
+      warnings.push(buildAttachmentWarningMessage(removedAttachmentReferences.length));
+    }
+    const operations = input.operations.map((operation, index) => ({
+      operation: index + 1,
+      action: operation.action,
+      startLine: edits[index].start + 1,
+      removedLineCount: edits[index].deleteCount,
+      insertedLineCount: edits[index].lines.length,
+    }));
+    const deletesLines = input.operations.some((operation) => operation.action === 'delete_lines');
+
+    // The token is bound to the content hash, so confirming a dry run also
+    // proves the note hasn't changed in between.
+    const confirmTarget = `${note.filename}:batch:${originalHash}`;
+    if (isTrueBool(input.dryRun)) {
+      const token = issueConfirmationToken({
+        tool: 'noteplan_edit_content',
+        target: confirmTarget,
+        action: 'apply_batch',
+      });
+      return {
+        success: true,
+        dryRun: true,
+        message: `Dry run: ${operations.length} operation(s) would be applied`,
+        contentHash: originalHash,
+        originalLineCount,
+        newLineCount,
+        lineDelta,
+        operations,
+        removedAttachmentReferences: removedAttachmentReferences.slice(0, 20),
+        removedAttachmentReferencesTruncated: removedAttachmentReferences.length > 20,
+        warnings: warnings.length > 0 ? warnings : undefined,
+        ...buildDiffPreview(original, newContent, { label: note.filename }),
+        ...token,
+      };
+    }
+
+    if (deletesLines || input.confirmationToken) {
+      const confirmation = validateAndConsumeConfirmationToken(input.confirmationToken, {
+        tool: 'noteplan_edit_content',
+        target: confirmTarget,
+        action: 'apply_batch',
+      });
+      if (!confirmation.ok) {
+        return {
+          success: false,
+          error: confirmationFailureMessage('noteplan_edit_content', confirmation.reason),
+        };
+      }
+    }
+
+    // Re-read right before writing: anything that touched the note while the
+    // batch was being built rejects the whole batch.
+    const writeTarget = getWritableIdentifier(note);
+    const current = await store.getNote(
+      writeTarget.source === 'space' ? { id: writeTarget.identifier } : { filename: writeTarget.identifier }
+    );
+    if (!current) {
+      return { success: false, error: 'Note not found' };
+    }
+    const lateConflict = expectedHashConflict(current, originalHash);
+    if (lateConflict) return lateConflict;
+    await store.updateNote(writeTarget.identifier, newContent, { source: writeTarget.source });
+
+    return {
+      success: true,
+      message: `Applied ${operations.length} operation(s) in one write`,
+      note: {
+        id: note.id,
+        title: note.title,
+        filename: note.filename,
+      },
+      previousContentHash: originalHash,
+      contentHash: rememberRevision(newContent),
+      originalLineCount,
+      newLineCount,
+      lineDelta,
+      operations,
+      indentationStyle,
+      linesRetabbed,
+      removedAttachmentReferences: removedAttachmentReferences.slice(0, 20),
+      removedAttachmentReferencesTruncated: removedAttachmentReferences.length > 20,
+      warnings: warnings.length > 0 ? warnings : undefined,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to apply batch',
+    };
+  }
+}
+
 // ---------------------------------------------------------------------------
 // searchParagraphsGlobal — search ALL lines (including frontmatter) across notes
 // ---------------------------------------------------------------------------
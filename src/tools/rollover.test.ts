@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Note } from '../noteplan/types.js';
+
+vi.mock('../noteplan/preferences.js', () => ({
+  getTaskMarkerConfigCached: vi.fn(() => ({
+    isAsteriskTodo: true,
+    isDashTodo: false,
+    defaultTodoCharacter: '*',
+    todoCharacter: '*',
+    useCheckbox: true,
+  })),
+  getTaskPrefix: vi.fn(() => '* [ ] '),
+  getFirstDayOfWeekCached: vi.fn(() => 1),
+}));
+vi.mock('../noteplan/unified-store.js', () => ({
+  listNotes: vi.fn(),
+  getCalendarNote: vi.fn(),
+  ensureCalendarNote: vi.fn(),
+  updateNote: vi.fn(),
+}));
+
+import * as store from '../noteplan/unified-store.js';
+import { rolloverTasks } from './rollover.js';
+
+function calendarNote(date: string, content: string): Note {
+  return {
+    id: date,
+    title: date,
+    filename: `Calendar/${date}.md`,
+    content,
+    type: 'calendar',
+    source: 'local',
+    date,
+  };
+}
+
+describe('rolloverTasks', () => {
+  let notes: Record<string, Note>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    notes = {
+      '20260316': calendarNote('20260316', '* [ ] Call printer >2026-03-16\n* [x] Ship release\n+ [ ] Pack banner'),
+      '20260317': calendarNote('20260317', '* [ ] Draft spec ^spec1\n* [>] Old move >2026-03-10\n* [ ] Water plants'),
+      '20260318': calendarNote('20260318', '## Carried\n* [ ] Water plants\n\n## Notes\nhi'),
+    };
+    vi.mocked(store.listNotes).mockImplementation(async () => Object.values(notes));
+    vi.mocked(store.getCalendarNote).mockImplementation(async (date: string) => notes[date] ?? null);
+    vi.mocked(store.ensureCalendarNote).mockImplementation(async (date: string) => notes[date]);
+    vi.mocked(store.updateNote).mockImplementation(async (filename: string, content: string) => {
+      const date = filename.replace(/^Calendar\/|\.md$/g, '');
+      notes[date] = { ...notes[date], content };
+      return notes[date];
+    });
+  });
+
+  it('previews the rollover and writes only with the confirmation token', async () => {
+    const params = { startDate: '2026-03-16', endDate: '2026-03-17', target: '2026-03-18', heading: 'Carried' };
+    const preview = (await rolloverTasks({ ...params, dryRun: true } as any)) as any;
+
+    expect(preview).toMatchObject({ success: true, dryRun: true, taskCount: 3, sourceNoteCount: 2 });
+    expect(preview.tasks.map((t: any) => t.newContent)).toEqual(['Call printer', 'Pack banner', 'Draft spec ^spec1']);
+    expect(preview.skippedExisting.map((t: any) => t.content)).toEqual(['Water plants']);
+    expect(store.updateNote).not.toHaveBeenCalled();
+
+    const refused = (await rolloverTasks(params as any)) as any;
+    expect(refused.success).toBe(false);
+    expect(refused.error).toContain('Confirmation token is required');
+
+    const result = (await rolloverTasks({ ...params, confirmationToken: preview.confirmationToken } as any)) as any;
+    expect(result.success).toBe(true);
+    expect(notes['20260318'].content).toBe(
+      '## Carried\n* [ ] Water plants\n* [ ] Call printer\n+ [ ] Pack banner\n* [ ] Draft spec ^spec1\n\n## Notes\nhi'
+    );
+    expect(notes['20260316'].content).toBe('* [>] Call printer >2026-03-18\n* [x] Ship release\n+ [>] Pack banner >2026-03-18');
+    expect(notes['20260317'].content).toBe('* [>] Draft spec >2026-03-18\n* [>] Old move >2026-03-10\n* [ ] Water plants');
+  });
+
+  it('moves tasks into a weekly note and removes the originals', async () => {
+    notes['2026-W12'] = { ...calendarNote('2026-W12', ''), filename: 'Calendar/2026-W12.md' };
+    const params = { startDate: '2026-03-17', target: '2026-W12', mode: 'move', includeScheduled: true };
+    const preview = (await rolloverTasks({ ...params, dryRun: true } as any)) as any;
+    const result = (await rolloverTasks({ ...params, confirmationToken: preview.confirmationToken } as any)) as any;
+
+    expect(result.success).toBe(true);
+    expect(notes['2026-W12'].content).toBe('* [ ] Draft spec ^spec1\n* [ ] Old move\n* [ ] Water plants');
+    expect(notes['20260317'].content).toBe('');
+  });
+
+  it('rejects bad ranges and targets', async () => {
+    const reversed = (await rolloverTasks({ startDate: '2026-03-18', endDate: '2026-03-16' } as any)) as any;
+    expect(reversed.error).toContain('is after endDate');
+    const badTarget = (await rolloverTasks({ startDate: '2026-03-16', target: 'Projects/Plan.md' } as any)) as any;
+    expect(badTarget.error).toContain('Invalid target');
+  });
+});
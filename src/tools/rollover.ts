@@ -0,0 +1,298 @@
+// Roll unfinished tasks from a range of calendar notes into a daily or weekly note
+
+import { z } from 'zod';
+import * as store from '../noteplan/unified-store.js';
+import {
+  parseTasks,
+  updateTaskStatus,
+  updateTaskContent,
+  addTask,
+  buildParagraphLine,
+  extractHeadings,
+} from '../noteplan/markdown-parser.js';
+import { insertContentAtPosition } from '../noteplan/frontmatter-parser.js';
+import { calendarNoteRange } from '../noteplan/filter-engine.js';
+import { getFirstDayOfWeekCached } from '../noteplan/preferences.js';
+import { hashContent } from '../noteplan/history.js';
+import { rememberRevision } from '../noteplan/revisions.js';
+import { Note, Task } from '../noteplan/types.js';
+import { formatDateString, parseFlexibleDate } from '../utils/date-utils.js';
+import { buildDiffPreview } from '../utils/text-diff.js';
+import { isTrueBool } from '../utils/boolean-param.js';
+import {
+  issueConfirmationToken,
+  validateAndConsumeConfirmationToken,
+  confirmationFailureMessage,
+} from '../utils/confirmation-tokens.js';
+
+const MAX_ROLLOVER_DAYS = 366;
+const MAX_LISTED_TASKS = 100;
+
+export const rolloverTasksSchema = z.object({
+  startDate: z
+    .string()
+    .optional()
+    .default('yesterday')
+    .describe('First day of the source range (YYYY-MM-DD, YYYYMMDD, today, yesterday). Default: yesterday'),
+  endDate: z
+    .string()
+    .optional()
+    .describe('Last day of the source range (default: startDate)'),
+  target: z
+    .string()
+    .optional()
+    .default('today')
+    .describe('Note to roll into: a day (today, tomorrow, YYYY-MM-DD) or a week (YYYY-Www). Default: today'),
+  heading: z.string().optional().describe('Add the tasks under this heading in the target note (created when missing)'),
+  mode: z
+    .enum(['copy', 'move'])
+    .optional()
+    .default('copy')
+    .describe('copy: mark each original [>] with a >date reference to the target (NotePlan convention). move: remove the originals. Default: copy'),
+  includeScheduled: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Also roll [>] tasks that were scheduled before and are still in the range (default: false)'),
+  space: z.string().optional().describe('Space name or ID'),
+  dryRun: z.boolean().optional().describe('Preview the tasks and target changes without writing'),
+  confirmationToken: z.string().optional().describe('Confirmation token issued by dryRun'),
+});
+
+interface RolloverItem {
+  note: Note;
+  task: Task;
+  /** Text for the new task in the target note */
+  text: string;
+}
+
+/** YYYYMMDD for a day, YYYY-Www for a week, or null. */
+function resolveRolloverTarget(input: string): string | null {
+  const token = parseFlexibleDate(input);
+  if (/^\d{8}$/.test(token) || /^\d{4}-W\d{2}$/.test(token)) return token;
+  return null;
+}
+
+/** `>date` reference NotePlan writes for a day or week. */
+function scheduleReference(target: string): string {
+  if (/^\d{8}$/.test(target)) {
+    return `>${target.slice(0, 4)}-${target.slice(4, 6)}-${target.slice(6, 8)}`;
+  }
+  return `>${target}`;
+}
+
+function stripScheduleDates(content: string): string {
+  return content
+    .replace(/\s*>(?:\d{4}-\d{2}-\d{2}|\d{4}-W\d{2}|today)\b/g, '')
+    .trim();
+}
+
+function stripBlockId(content: string): string {
+  return content.replace(/\s*\^[A-Za-z0-9-]+\s*$/, '');
+}
+
+function comparableTaskText(content: string): string {
+  return stripBlockId(stripScheduleDates(content)).replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function summarizeItem(item: RolloverItem) {
+  return {
+    filename: item.note.filename,
+    lineIndex: item.task.lineIndex,
+    status: item.task.status,
+    content: item.task.content,
+    newContent: item.text,
+  };
+}
+
+/**
+ * Lines of a source note after rolling its items: originals become `[>]`
+ * with the target reference and lose their block ID (it moves with the new
+ * copy, so `@blocked-by` references follow the live task), or are removed.
+ */
+function applyToSource(content: string, items: RolloverItem[], mode: 'copy' | 'move', reference: string): string {
+  if (mode === 'move') {
+    const lines = content.split('\n');
+    const removed = new Set(items.map((item) => item.task.lineIndex));
+    return lines.filter((_, index) => !removed.has(index)).join('\n');
+  }
+  let updated = content;
+  for (const { task } of items) {
+    updated = updateTaskStatus(updated, task.lineIndex, 'scheduled');
+    const text = stripBlockId(stripScheduleDates(task.content));
+    updated = updateTaskContent(updated, task.lineIndex, `${text} ${reference}`);
+  }
+  return updated;
+}
+
+function applyToTarget(content: string, items: RolloverItem[], heading: string | undefined): string {
+  let updated = content;
+  if (heading && !extractHeadings(updated).some((h) => h.text.trim().toLowerCase() === heading.trim().toLowerCase())) {
+    updated = insertContentAtPosition(updated, `## ${heading}`, { position: 'end' });
+  }
+  const position = heading ? 'in-section' : 'end';
+  for (const item of items) {
+    updated = item.task.marker === '+'
+      ? insertContentAtPosition(updated, buildParagraphLine(item.text, 'checklist'), { position, heading })
+      : addTask(updated, item.text, position, heading);
+  }
+  // Appending to an empty note leaves a leading blank line
+  return content === '' ? updated.replace(/^\n/, '') : updated;
+}
+
+/**
+ * Find open (and optionally `[>]`) tasks in the calendar notes of a date
+ * range and roll them into a daily or weekly note. The target is written
+ * before the sources, so an interrupted rollover leaves a duplicate rather
+ * than a lost task. Tasks already open in the target are skipped.
+ */
+export async function rolloverTasks(params: z.infer<typeof rolloverTasksSchema>) {
+  try {
+    const start = parseFlexibleDate(params.startDate ?? 'yesterday');
+    const end = params.endDate ? parseFlexibleDate(params.endDate) : start;
+    if (!/^\d{8}$/.test(start) || !/^\d{8}$/.test(end)) {
+      return {
+        success: false,
+        error: 'startDate and endDate must be days (YYYY-MM-DD, YYYYMMDD, today, yesterday)',
+      };
+    }
+    if (start > end) {
+      return { success: false, error: `startDate ${start} is after endDate ${end}` };
+    }
+    const startDay = new Date(Number(start.slice(0, 4)), Number(start.slice(4, 6)) - 1, Number(start.slice(6, 8)));
+    const limitDay = new Date(startDay);
+    limitDay.setDate(limitDay.getDate() + MAX_ROLLOVER_DAYS - 1);
+    if (end > formatDateString(limitDay)) {
+      return { success: false, error: `Source range is longer than ${MAX_ROLLOVER_DAYS} days` };
+    }
+
+    const target = resolveRolloverTarget(params.target ?? 'today');
+    if (!target) {
+      return {
+        success: false,
+        error: `Invalid target: ${params.target}. Use a day (today, YYYY-MM-DD) or a week (YYYY-Www)`,
+      };
+    }
+    const mode = params.mode ?? 'copy';
+    const reference = scheduleReference(target);
+    const firstDayOfWeek = getFirstDayOfWeekCached();
+
+    const existingTarget = await store.getCalendarNote(target, params.space);
+    const targetTexts = new Set(
+      parseTasks(existingTarget?.content ?? '')
+        .filter((task) => task.status === 'open')
+        .map((task) => comparableTaskText(task.content))
+    );
+
+    const calendarNotes = await store.listNotes({ space: params.space, type: 'calendar' });
+    const sources: Array<{ note: Note; items: RolloverItem[] }> = [];
+    const skippedExisting: RolloverItem[] = [];
+    for (const note of calendarNotes) {
+      if (existingTarget && note.filename === existingTarget.filename) continue;
+      const range = calendarNoteRange(note, firstDayOfWeek);
+      if (!range || range.start! < start || range.end! > end) continue;
+
+      const items: RolloverItem[] = [];
+      for (const task of parseTasks(note.content)) {
+        const rollable = task.status === 'open' || (params.includeScheduled === true && task.status === 'scheduled');
+        if (!rollable) continue;
+        const item = { note, task, text: stripScheduleDates(task.content) };
+        const key = comparableTaskText(task.content);
+        if (targetTexts.has(key)) {
+          skippedExisting.push(item);
+          continue;
+        }
+        targetTexts.add(key);
+        items.push(item);
+      }
+      if (items.length > 0) sources.push({ note, items });
+    }
+    sources.sort((a, b) => a.note.filename.localeCompare(b.note.filename));
+
+    const allItems = sources.flatMap((source) => source.items);
+    const targetBefore = existingTarget?.content ?? '';
+    const targetAfter = applyToTarget(targetBefore, allItems, params.heading);
+    const summary = {
+      sourceRange: { startDate: start, endDate: end },
+      target,
+      targetFilename: existingTarget?.filename,
+      mode,
+      taskCount: allItems.length,
+      sourceNoteCount: sources.length,
+      tasks: allItems.slice(0, MAX_LISTED_TASKS).map(summarizeItem),
+      tasksTruncated: allItems.length > MAX_LISTED_TASKS,
+      skippedExisting: skippedExisting.slice(0, MAX_LISTED_TASKS).map(summarizeItem),
+    };
+
+    if (allItems.length === 0) {
+      return {
+        success: true,
+        message: `No unfinished tasks to roll over from ${start}-${end}`,
+        ...summary,
+      };
+    }
+
+    const confirmTarget = `${target}:${start}-${end}:${mode}:${hashContent(
+      allItems.map((item) => `${item.note.filename}#${item.task.lineIndex}:${item.task.rawLine}`).join('\n')
+    )}`;
+    if (isTrueBool(params.dryRun)) {
+      const token = issueConfirmationToken({
+        tool: 'noteplan_paragraphs',
+        target: confirmTarget,
+        action: 'rollover',
+      });
+      return {
+        success: true,
+        dryRun: true,
+        message: `Dry run: ${allItems.length} task(s) from ${sources.length} note(s) would be rolled into ${target}`,
+        targetExists: Boolean(existingTarget),
+        ...summary,
+        ...buildDiffPreview(targetBefore, targetAfter, { label: existingTarget?.filename ?? target }),
+        ...token,
+      };
+    }
+
+    const confirmation = validateAndConsumeConfirmationToken(params.confirmationToken, {
+      tool: 'noteplan_paragraphs',
+      target: confirmTarget,
+      action: 'rollover',
+    });
+    if (!confirmation.ok) {
+      return {
+        success: false,
+        error: confirmationFailureMessage('noteplan_paragraphs', confirmation.reason, 'Call noteplan_paragraphs with action="rollover" and dryRun=true to get a new confirmationToken.'),
+      };
+    }
+
+    const targetNote = existingTarget ?? (await store.ensureCalendarNote(target, params.space));
+    const writtenTarget = await store.updateNote(
+      targetNote.source === 'space' ? (targetNote.id || targetNote.filename) : targetNote.filename,
+      applyToTarget(targetNote.content, allItems, params.heading),
+      { source: targetNote.source }
+    );
+
+    const updatedSources: string[] = [];
+    for (const { note, items } of sources) {
+      await store.updateNote(
+        note.source === 'space' ? (note.id || note.filename) : note.filename,
+        applyToSource(note.content, items, mode, reference),
+        { source: note.source }
+      );
+      updatedSources.push(note.filename);
+    }
+
+    return {
+      success: true,
+      message: `Rolled ${allItems.length} task(s) from ${sources.length} note(s) into ${writtenTarget.filename}`,
+      ...summary,
+      targetFilename: writtenTarget.filename,
+      updatedSources,
+      contentHash: rememberRevision(writtenTarget.content),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to roll over tasks',
+    };
+  }
+}
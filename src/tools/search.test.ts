@@ -1,5 +1,22 @@
-import { describe, it, expect } from 'vitest';
-import { tokenizeSearchTerms } from './search.js';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../noteplan/unified-store.js', () => ({
+  searchNotes: vi.fn(),
+  listNotes: vi.fn(),
+  resolveSpaceId: vi.fn(async (space?: string) => space),
+  matchesFrontmatterProperties: vi.fn(() => true),
+}));
+vi.mock('../noteplan/embeddings.js', () => ({
+  ensureEmbeddingsApiConfigured: vi.fn(),
+  searchEmbeddings: vi.fn(),
+}));
+vi.mock('../noteplan/sqlite-loader.js', () => ({
+  isSqliteAvailable: vi.fn(() => true),
+}));
+
+import * as store from '../noteplan/unified-store.js';
+import { ensureEmbeddingsApiConfigured, searchEmbeddings } from '../noteplan/embeddings.js';
+import { reciprocalRankFusion, searchNotes, tokenizeSearchTerms } from './search.js';
 
 describe('tokenizeSearchTerms', () => {
   it('splits on whitespace', () => {
@@ -40,3 +57,78 @@ describe('tokenizeSearchTerms', () => {
     expect(tokenizeSearchTerms('|')).toEqual([]);
   });
 });
+
+describe('reciprocalRankFusion', () => {
+  it('favours keys ranked by both lists and keeps each list rank', () => {
+    const fused = reciprocalRankFusion([['a', 'b', 'c'], ['c', 'd', 'a']]);
+    expect(fused.map((entry) => entry.key)).toEqual(['a', 'c', 'b', 'd']);
+    expect(fused[0].ranks).toEqual([1, 3]);
+    expect(fused[2].ranks).toEqual([2, null]);
+    expect(fused[0].score).toBeCloseTo(1 / 61 + 1 / 63);
+  });
+});
+
+describe('searchNotes hybrid mode', () => {
+  const note = (filename: string, content: string) => ({
+    id: filename,
+    title: filename.replace(/^Notes\/|\.md$/g, ''),
+    filename,
+    content,
+    type: 'note' as const,
+    source: 'local' as const,
+    folder: 'Notes',
+  });
+  const semanticMatch = (filename: string, score: number, chunkIndex: number) => ({
+    score,
+    note: { id: filename, filename, title: filename, source: 'local', spaceId: null, folder: null, type: 'note', modifiedAt: null },
+    chunk: { index: chunkIndex, preview: `chunk ${chunkIndex} of ${filename}` },
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(store.searchNotes).mockResolvedValue({
+      results: [
+        { note: note('Notes/Budget.md', 'budget review'), score: 50, matches: [{ lineNumber: 1, lineContent: 'budget review' }] },
+        { note: note('Notes/Offsite.md', 'offsite budget'), score: 40, matches: [{ lineNumber: 3, lineContent: 'offsite budget' }] },
+      ],
+      partialResults: false,
+      backend: 'ripgrep',
+      warnings: [],
+    } as any);
+  });
+
+  it('fuses full-text and semantic ranks per note', async () => {
+    vi.mocked(ensureEmbeddingsApiConfigured).mockReturnValue({ ok: true });
+    vi.mocked(searchEmbeddings).mockResolvedValue({
+      success: true,
+      matches: [
+        semanticMatch('Notes/Offsite.md', 0.82, 2),
+        semanticMatch('Notes/Spending.md', 0.75, 0),
+        semanticMatch('Notes/Offsite.md', 0.6, 0),
+      ],
+    } as any);
+
+    const result = (await searchNotes({ query: 'budget', queryMode: 'hybrid' } as any)) as any;
+
+    expect(result.semantic).toEqual({ used: true, matchedNotes: 2 });
+    expect(result.results.map((r: any) => [r.note.filename, r.textRank, r.semanticRank])).toEqual([
+      ['Notes/Offsite.md', 2, 1],
+      ['Notes/Budget.md', 1, null],
+      ['Notes/Spending.md', null, 2],
+    ]);
+    expect(result.results[0].preview).toEqual([{ line: 3, content: 'offsite budget' }]);
+    expect(result.results[0].semanticMatch).toEqual({ score: 0.82, chunkIndex: 2, preview: 'chunk 2 of Notes/Offsite.md' });
+  });
+
+  it('falls back to full-text search when embeddings are not configured', async () => {
+    vi.mocked(ensureEmbeddingsApiConfigured).mockReturnValue({ ok: false, error: 'Embeddings are disabled.' });
+
+    const result = (await searchNotes({ query: 'budget', queryMode: 'hybrid', limit: 1 } as any)) as any;
+
+    expect(searchEmbeddings).not.toHaveBeenCalled();
+    expect(result.success).toBe(true);
+    expect(result.semantic).toEqual({ used: false, reason: 'Embeddings are disabled.' });
+    expect(result.results.map((r: any) => r.note.filename)).toEqual(['Notes/Budget.md']);
+    expect(result.warnings).toContain('Hybrid search fell back to full-text only: Embeddings are disabled.');
+  });
+});
@@ -5,6 +5,12 @@ import * as store from '../noteplan/unified-store.js';
 import { matchesFrontmatterProperties } from '../noteplan/unified-store.js';
 import { NoteType } from '../noteplan/types.js';
 import { parseFlexibleDateFilter, isDateInRange } from '../utils/date-filters.js';
+import { ensureEmbeddingsApiConfigured, searchEmbeddings } from '../noteplan/embeddings.js';
+import { isSqliteAvailable } from '../noteplan/sqlite-loader.js';
+
+// Reciprocal-rank fusion constant: dampens the weight of top ranks so one
+// list's #1 cannot dominate a note ranked well by both lists
+const RRF_K = 60;
 
 function toBoundedInt(value: unknown, defaultValue: number, min: number, max: number): number {
   const numeric = typeof value === 'number' ? value : Number(value);
@@ -82,7 +88,7 @@ function countTokenHitsInText(text: string, tokens: string[]): number {
 function buildTokenAwareQueryMode(
   query: string,
   searchField: 'content' | 'title' | 'filename' | 'title_or_filename',
-  queryMode: 'phrase' | 'smart' | 'any' | 'all',
+  queryMode: 'phrase' | 'smart' | 'any' | 'all' | 'hybrid',
   requestedMinTokenMatches?: number
 ): {
   effectiveQuery: string;
@@ -139,11 +145,11 @@ export const searchSchema = z.object({
       'Search scope: content (full-text), title, filename, or title_or_filename. Use title/title_or_filename for faster note discovery by version/name.'
     ),
   queryMode: z
-    .enum(['phrase', 'smart', 'any', 'all'])
+    .enum(['phrase', 'smart', 'any', 'all', 'hybrid'])
     .optional()
     .default('smart')
     .describe(
-      'How multi-word content queries are interpreted: phrase (exact phrase), smart (token OR with relevance threshold), any (any token), all (all tokens)'
+      'How multi-word content queries are interpreted: phrase (exact phrase), smart (token OR with relevance threshold), any (any token), all (all tokens), hybrid (smart full-text + semantic embeddings search fused by rank; falls back to smart when embeddings are unavailable)'
     ),
   minTokenMatches: z
     .number()
@@ -230,7 +236,10 @@ export async function searchNotes(params: z.infer<typeof searchSchema>) {
     | 'title'
     | 'filename'
     | 'title_or_filename';
-  const queryMode = (params.queryMode ?? 'smart') as 'phrase' | 'smart' | 'any' | 'all';
+  const queryMode = (params.queryMode ?? 'smart') as 'phrase' | 'smart' | 'any' | 'all' | 'hybrid';
+  if (queryMode === 'hybrid' && query !== '*') {
+    return hybridSearch(params, query);
+  }
   const tokenPlan = buildTokenAwareQueryMode(
     query,
     searchField,
@@ -482,3 +491,197 @@ export async function searchNotes(params: z.infer<typeof searchSchema>) {
 
   return response;
 }
+
+type MappedSearchResult = {
+  note: {
+    id: string;
+    title: string;
+    filename: string;
+    type: string;
+    source: string;
+    folder?: string;
+    spaceId?: string;
+    modifiedAt?: string;
+    createdAt?: string;
+  };
+  score: number;
+  matchCount: number;
+  preview: Array<{ line: number; content: string }>;
+};
+
+type SemanticMatch = Extract<Awaited<ReturnType<typeof searchEmbeddings>>, { matches: unknown }>['matches'][number];
+
+/**
+ * Reciprocal-rank fusion: each list contributes 1 / (k + rank) for every key
+ * it ranks (rank starting at 1). Keys are returned best first.
+ */
+export function reciprocalRankFusion(
+  rankings: string[][],
+  k: number = RRF_K
+): Array<{ key: string; score: number; ranks: Array<number | null> }> {
+  const fused = new Map<string, { score: number; ranks: Array<number | null> }>();
+  rankings.forEach((ranking, listIndex) => {
+    ranking.forEach((key, index) => {
+      let entry = fused.get(key);
+      if (!entry) {
+        entry = { score: 0, ranks: rankings.map(() => null) };
+        fused.set(key, entry);
+      }
+      if (entry.ranks[listIndex] !== null) return; // only a key's best rank per list counts
+      entry.ranks[listIndex] = index + 1;
+      entry.score += 1 / (k + index + 1);
+    });
+  });
+  return Array.from(fused.entries())
+    .map(([key, entry]) => ({ key, ...entry }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/** Same identity the embeddings index uses for a note. */
+function hybridNoteKey(note: { id?: string | null; filename: string; source: string }): string {
+  if (note.source === 'space') {
+    return `space:${note.id?.trim() ? note.id.trim() : note.filename}`;
+  }
+  return `local:${note.filename}`;
+}
+
+function semanticUnavailableReason(searchField: string): string | null {
+  if (searchField !== 'content') return 'hybrid search only adds semantic matches for searchField=content';
+  if (!isSqliteAvailable()) return 'the embeddings index is unavailable (sql.js is not initialized)';
+  const apiCheck = ensureEmbeddingsApiConfigured();
+  return apiCheck.ok ? null : apiCheck.error;
+}
+
+/**
+ * Run smart full-text search and semantic embeddings search together and
+ * merge them per note with reciprocal-rank fusion. Each result keeps its
+ * matched lines and its best semantic chunk. Without a usable embeddings
+ * setup this is plain smart search, with a warning saying why.
+ */
+async function hybridSearch(params: z.infer<typeof searchSchema>, query: string) {
+  const limit = toBoundedInt(params.limit, 20, 1, 200);
+  // Fuse over deeper candidate lists than requested so notes ranked
+  // moderately by both searches can surface
+  const candidateLimit = Math.min(200, limit * 3);
+  const searchField = params.searchField ?? 'content';
+
+  const lexical = (await searchNotes({ ...params, queryMode: 'smart', limit: candidateLimit })) as Record<string, unknown>;
+  if (lexical.success !== true) return lexical;
+  const lexicalResults = (lexical.results as MappedSearchResult[]) ?? [];
+  const warnings = Array.isArray(lexical.warnings) ? [...(lexical.warnings as string[])] : [];
+
+  const unavailable = semanticUnavailableReason(searchField);
+  let semanticMatches: SemanticMatch[] = [];
+  let semanticError: string | null = unavailable;
+  if (!unavailable) {
+    try {
+      const semantic = await searchEmbeddings({
+        query,
+        space: await store.resolveSpaceId(params.space),
+        types: params.types as NoteType[] | undefined,
+        limit: candidateLimit,
+      });
+      if (semantic.success && 'matches' in semantic) {
+        semanticMatches = semantic.matches;
+        if ('warning' in semantic && typeof semantic.warning === 'string') warnings.push(semantic.warning);
+      } else {
+        semanticError = 'error' in semantic && semantic.error ? semantic.error : 'Semantic search failed';
+      }
+    } catch (error) {
+      semanticError = error instanceof Error ? error.message : 'Semantic search failed';
+    }
+  }
+
+  if (semanticError) {
+    return {
+      ...lexical,
+      queryMode: 'hybrid',
+      count: Math.min(limit, lexicalResults.length),
+      results: lexicalResults.slice(0, limit),
+      semantic: { used: false, reason: semanticError },
+      warnings: [...warnings, `Hybrid search fell back to full-text only: ${semanticError}`],
+    };
+  }
+
+  // Semantic hits are not scoped by the full-text filters the index can't
+  // evaluate; apply what note metadata allows and require a full-text hit
+  // for the rest
+  const lexicalByKey = new Map(lexicalResults.map((result) => [hybridNoteKey(result.note), result]));
+  const folders = ((params.folders ?? []) as string[])
+    .map((folder) => normalizeFolderFilterInput(folder))
+    .filter((folder) => folder.length > 0);
+  const modifiedAfter = params.modifiedAfter ? parseFlexibleDateFilter(params.modifiedAfter) : null;
+  const modifiedBefore = params.modifiedBefore ? parseFlexibleDateFilter(params.modifiedBefore) : null;
+  const requireLexical =
+    Boolean(params.propertyFilters && Object.keys(params.propertyFilters).length > 0) ||
+    Boolean(params.createdAfter || params.createdBefore);
+  if (requireLexical) {
+    warnings.push('propertyFilters and created date filters limit semantic matches to notes also found by full-text search.');
+  }
+
+  const bestChunkByKey = new Map<string, SemanticMatch>();
+  for (const match of semanticMatches) {
+    const key = hybridNoteKey({ id: match.note.id, filename: match.note.filename, source: match.note.source });
+    if (bestChunkByKey.has(key)) continue; // matches are sorted by score, first is best
+    if (requireLexical && !lexicalByKey.has(key)) continue;
+    if (folders.length > 0 && !folders.some((folder) => {
+      const noteFolder = normalizeFolderFilterInput(match.note.folder ?? '');
+      return noteFolder === folder || noteFolder.startsWith(`${folder}/`);
+    })) continue;
+    if (modifiedAfter || modifiedBefore) {
+      const modifiedAt = match.note.modifiedAt ? new Date(match.note.modifiedAt) : undefined;
+      if (!isDateInRange(modifiedAt, modifiedAfter, modifiedBefore)) continue;
+    }
+    bestChunkByKey.set(key, match);
+  }
+
+  const fused = reciprocalRankFusion([
+    lexicalResults.map((result) => hybridNoteKey(result.note)),
+    Array.from(bestChunkByKey.keys()),
+  ]).slice(0, limit);
+
+  const results = fused.map(({ key, score, ranks }) => {
+    const lexicalHit = lexicalByKey.get(key);
+    const semanticHit = bestChunkByKey.get(key);
+    const note = lexicalHit?.note ?? {
+      id: semanticHit!.note.id,
+      title: semanticHit!.note.title,
+      filename: semanticHit!.note.filename,
+      type: semanticHit!.note.type,
+      source: semanticHit!.note.source,
+      folder: semanticHit!.note.folder ?? undefined,
+      spaceId: semanticHit!.note.spaceId ?? undefined,
+      modifiedAt: semanticHit!.note.modifiedAt ?? undefined,
+    };
+    return {
+      note,
+      score: Number(score.toFixed(6)),
+      textRank: ranks[0],
+      semanticRank: ranks[1],
+      matchCount: lexicalHit?.matchCount ?? 0,
+      preview: lexicalHit?.preview ?? [],
+      ...(semanticHit
+        ? {
+            semanticMatch: {
+              score: semanticHit.score,
+              chunkIndex: semanticHit.chunk.index,
+              startLine: semanticHit.chunk.startLine,
+              endLine: semanticHit.chunk.endLine,
+              headingPath: semanticHit.chunk.headingPath,
+              preview: semanticHit.chunk.preview,
+            },
+          }
+        : {}),
+    };
+  });
+
+  return {
+    ...lexical,
+    queryMode: 'hybrid',
+    count: results.length,
+    semantic: { used: true, matchedNotes: bestChunkByKey.size },
+    fusion: { method: 'reciprocal-rank', k: RRF_K, textCandidates: lexicalResults.length },
+    warnings,
+    results,
+  };
+}
@@ -1,5 +1,17 @@
-import { describe, it, expect } from 'vitest';
-import { stripRepeatTags, hasRepeatTag } from './tasks.js';
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../noteplan/unified-store.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../noteplan/unified-store.js')>()),
+  getNote: vi.fn(),
+  listNotes: vi.fn(),
+  searchNotes: vi.fn(),
+  updateNote: vi.fn(),
+}));
+
+import * as store from '../noteplan/unified-store.js';
+import type { Note } from '../noteplan/types.js';
+import { stripRepeatTags, hasRepeatTag, parseTaskQuery, evaluateTaskQuery, taskQueryToFilterItems, completeTask } from './tasks.js';
+import { parseTaskLine } from '../noteplan/markdown-parser.js';
 
 describe('stripRepeatTags', () => {
   it('strips @repeat(X/Y) from a task line', () => {
@@ -62,3 +74,110 @@ describe('hasRepeatTag', () => {
     expect(hasRepeatTag('* [ ] Task @repeat(weekly)')).toBe(true);
   });
 });
+
+describe('parseTaskQuery / evaluateTaskQuery', () => {
+  const options = { now: new Date(2026, 2, 18), firstDayOfWeek: 1 };
+  const note = { id: 'Notes/Work/Client.md', title: 'Client X', filename: 'Notes/Work/Client.md', folder: 'Notes/Work', content: '', type: 'note' as const, source: 'local' as const };
+  const context = (line: string, extra: { heading?: string; date?: string } = {}) => ({
+    note,
+    task: parseTaskLine(line, 3)!,
+    ...extra,
+  });
+  const matches = (query: string, line: string, extra: { heading?: string; date?: string } = {}) =>
+    evaluateTaskQuery(parseTaskQuery(query, options), context(line, extra));
+
+  it('ANDs field terms and free text', () => {
+    const line = '* [ ] Send invoice #client-x/billing @anna !! >2026-03-19';
+    const extra = { heading: 'Next', date: '20260319' };
+    expect(matches('status:open tag:client-x scheduled:this-week priority:>=2 heading:next invoice', line, extra)).toBe(true);
+    expect(matches('status:done tag:client-x', line, extra)).toBe(false);
+    expect(matches('mention:anna folder:work note:"client x"', line, extra)).toBe(true);
+    expect(matches('scheduled:next-week', line, extra)).toBe(false);
+  });
+
+  it('supports OR, NOT, -term and parentheses', () => {
+    const line = '* [x] Weekly sync @repeat(1w)';
+    expect(matches('(status:open OR status:done) has:repeat', line)).toBe(true);
+    expect(matches('NOT has:repeat', line)).toBe(false);
+    expect(matches('-status:open scheduled:none', line)).toBe(true);
+    expect(matches('status:open,cancelled', line)).toBe(false);
+  });
+
+  it('negates a group with a leading -', () => {
+    const line = '* [ ] Draft post #blog';
+    expect(parseTaskQuery('-(tag:a OR tag:b)', options)).toMatchObject({ kind: 'not', child: { kind: 'or' } });
+    expect(matches('-(tag:blog OR tag:news)', line)).toBe(false);
+    expect(matches('-(tag:work OR tag:news)', line)).toBe(true);
+    // Spaced out, the - stays a plain word
+    expect(parseTaskQuery('- (tag:a)', options)).toMatchObject({ kind: 'and' });
+  });
+
+  it('reports malformed queries', () => {
+    expect(() => parseTaskQuery('status:later', options)).toThrow('Unknown status');
+    expect(() => parseTaskQuery('(tag:a OR tag:b', options)).toThrow('Missing )');
+    expect(() => parseTaskQuery('priority:high', options)).toThrow('Invalid priority');
+    expect(() => parseTaskQuery('scheduled:"next tuesday"', options)).toThrow('Invalid date');
+    expect(() => parseTaskQuery('foo NOT', options)).toThrow('Missing operand after NOT');
+    expect(() => parseTaskQuery('(NOT) foo', options)).toThrow('Missing operand after NOT');
+  });
+});
+
+describe('taskQueryToFilterItems', () => {
+  const options = { now: new Date(2026, 2, 18), firstDayOfWeek: 1 };
+
+  it('maps plain AND queries to filter params', () => {
+    const mapped = taskQueryToFilterItems(parseTaskQuery('status:open tag:client-x scheduled:2026-03-01..2026-03-31 heading:Next', options));
+    expect(mapped).toEqual({
+      items: [
+        { param: 'fp_open', value: true },
+        { param: 'fp_done', value: false },
+        { param: 'fp_scheduled', value: false },
+        { param: 'fp_canceled', value: false },
+        { param: 'fp_noteItem', value: true },
+        { param: 'fp_datedNoteItem', value: true },
+        { param: 'fp_keyword', value: '#client-x' },
+        { param: 'fp_timeframe', value: 'fptf_custom' },
+        { param: 'fp_startDate', value: '2026-03-01 00:00:00' },
+        { param: 'fp_endDate', value: '2026-03-31 23:59:59' },
+        { param: 'fp_underHeading', value: 'next' },
+      ],
+    });
+  });
+
+  it('explains why a query has no filter equivalent', () => {
+    expect(taskQueryToFilterItems(parseTaskQuery('status:open priority:>=2', options))).toEqual({
+      reason: 'priority: has no NotePlan filter equivalent',
+    });
+    expect(taskQueryToFilterItems(parseTaskQuery('tag:a OR tag:b', options))).toEqual({
+      reason: 'OR has no NotePlan filter equivalent',
+    });
+    expect(taskQueryToFilterItems(parseTaskQuery('tag:a mention:bob', options))).toEqual({
+      reason: 'A filter holds only one keyword (text, tag: or mention:) term',
+    });
+  });
+});
+
+describe('completeTask dependencies', () => {
+  it('finds blockers by searching their block IDs instead of listing every note', async () => {
+    const makeNote = (filename: string, content: string): Note => ({
+      id: filename, filename, title: filename, content, type: 'note', source: 'local',
+    });
+    const waiting = makeNote('Notes/Launch.md', '# Launch\n* [ ] Announce @blocked-by(^ship1)');
+    const blocker = makeNote('Notes/Build.md', '# Build\n* [ ] Ship the build ^ship1');
+    const notes = new Map([waiting, blocker].map((note) => [note.filename, note]));
+    vi.mocked(store.getNote).mockImplementation(async (ref: any) => notes.get(ref.filename) ?? null);
+    vi.mocked(store.searchNotes).mockImplementation(async (query: string) => ({
+      results: [...notes.values()].filter((note) => note.content.includes(query)).map((note) => ({ note, matches: [], score: 1 })),
+      partialResults: false,
+      backend: 'simple',
+      warnings: [],
+    }));
+
+    const result = (await completeTask({ filename: 'Notes/Launch.md', lineIndex: 1 } as any)) as any;
+
+    expect(result).toMatchObject({ success: false, openBlockers: [expect.objectContaining({ filename: 'Notes/Build.md' })] });
+    expect(store.searchNotes).toHaveBeenCalledWith('ship1', expect.anything());
+    expect(store.listNotes).not.toHaveBeenCalled();
+    expect(store.updateNote).not.toHaveBeenCalled();
+  });
+});
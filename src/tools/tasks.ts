@@ -9,11 +9,23 @@ import {
   updateTaskContent,
   addTask,
   buildParagraphLine,
+  extractHeadings,
 } from '../noteplan/markdown-parser.js';
 
-import { TaskStatus, NoteType } from '../noteplan/types.js';
+import { TaskStatus, NoteType, Note, Task } from '../noteplan/types.js';
+import * as filterStore from '../noteplan/filter-store.js';
+import { DateRange, resolveTimeframeRange } from '../noteplan/filter-engine.js';
+import { getFirstDayOfWeekCached } from '../noteplan/preferences.js';
+import {
+  buildDependencyIndex,
+  resolveBlockers,
+  findTasksUnblockedBy,
+  isTaskCleared,
+  DependencyIndex,
+  TaskRef,
+} from '../noteplan/task-dependencies.js';
 import { resolveWritableNoteReference, getWritableIdentifier } from './notes.js';
-import { parseFlexibleDate } from '../utils/date-utils.js';
+import { formatDateString, parseFlexibleDate } from '../utils/date-utils.js';
 
 function toBoundedInt(value: unknown, defaultValue: number, min: number, max: number): number {
   const numeric = typeof value === 'number' ? value : Number(value);
@@ -103,7 +115,7 @@ function resolveTaskLineIndex(input: {
  * Check if a string looks like a date target (not a filename)
  * Matches: today, tomorrow, yesterday, YYYYMMDD, YYYY-MM-DD
  */
-function isDateTarget(target: string): boolean {
+export function isDateTarget(target: string): boolean {
   const lower = target.toLowerCase().trim();
 
   // Special keywords
@@ -251,6 +263,7 @@ export const completeTaskSchema = z.object({
   line: z.number().optional().describe('Line number of the task (1-based)'),
   taskQuery: z.string().optional().describe('Find task by content text instead of line number (completes first matching open task)'),
   space: z.string().optional().describe('Space name or ID to search in'),
+  force: z.boolean().optional().describe('Complete even if @blocked-by tasks are still open (default: false)'),
 }).superRefine((input, ctx) => {
   if (!input.id && !input.filename && !input.title && !input.date && !input.query) {
     ctx.addIssue({
@@ -286,6 +299,7 @@ export const updateTaskSchema = z.object({
     .enum(['open', 'done', 'cancelled', 'scheduled'])
     .optional()
     .describe('New task status'),
+  force: z.boolean().optional().describe('Set status done even if @blocked-by tasks are still open (default: false)'),
 }).superRefine((input, ctx) => {
   if (!input.id && !input.filename && !input.title && !input.date && !input.query) {
     ctx.addIssue({
@@ -310,6 +324,40 @@ export const updateTaskSchema = z.object({
   }
 });
 
+export const queryTasksSchema = z.object({
+  query: z.string().describe('Task query, e.g. status:open tag:client-x scheduled:this-week priority:>=2 heading:Next'),
+  space: z.string().optional().describe('Restrict to a specific space name or ID'),
+  sortBy: z
+    .enum(['scheduled', 'priority', 'note', 'modified'])
+    .optional()
+    .default('scheduled')
+    .describe('Sort key (default: scheduled; undated tasks last)'),
+  sortOrder: z
+    .enum(['asc', 'desc'])
+    .optional()
+    .describe('Sort direction (default: asc, desc for priority and modified)'),
+  maxNotes: z.number().min(1).max(2000).optional().default(500).describe('Maximum notes to scan'),
+  limit: z.number().min(1).max(300).optional().default(30).describe('Maximum tasks to return'),
+  offset: z.number().min(0).optional().default(0).describe('Pagination offset'),
+  cursor: z.string().optional().describe('Cursor token from previous page (preferred over offset)'),
+  saveAsFilter: z.string().optional().describe('Also save the query as a NotePlan filter with this name (plain AND queries only)'),
+  overwriteFilter: z.boolean().optional().default(false).describe('Replace an existing filter named saveAsFilter'),
+});
+
+export const listTaskDependenciesSchema = z.object({
+  dependencyState: z
+    .enum(['blocked', 'unblocked', 'all'])
+    .optional()
+    .default('blocked')
+    .describe('blocked: open tasks waiting on an open @blocked-by task. unblocked: open tasks whose blockers are all done. all: every task with @blocked-by'),
+  folder: z.string().optional().describe('Only report tasks in this folder (blockers are still resolved vault-wide)'),
+  space: z.string().optional().describe('Restrict to a specific space name or ID'),
+  noteQuery: z.string().optional().describe('Only report tasks in notes whose title/filename/folder contains this text'),
+  limit: z.number().min(1).max(300).optional().default(50).describe('Maximum tasks to return'),
+  offset: z.number().min(0).optional().default(0).describe('Pagination offset'),
+  cursor: z.string().optional().describe('Cursor token from previous page (preferred over offset)'),
+});
+
 export async function getTasks(params: z.infer<typeof getTasksSchema>) {
   if (!params.id && !params.title && !params.filename && !params.date) {
     return {
@@ -608,6 +656,655 @@ export async function searchTasksGlobal(params: z.infer<typeof searchTasksGlobal
   return result;
 }
 
+// ---------------------------------------------------------------------------
+// Task query language
+// ---------------------------------------------------------------------------
+//
+//   status:open            status:open,done (any of)
+//   tag:client-x           #client-x also matches #client-x/sub
+//   mention:@bob
+//   scheduled:today | tomorrow | yesterday | overdue | past | future |
+//             this-week | next-week | last-week | this-month | next-month |
+//             last-month | this-year | 2026-03-01 | 2026-03-01..2026-03-31 |
+//             ..2026-03-31 | any | none
+//   priority:2             priority:>=2, priority:<3 (no priority = 0)
+//   folder:Work            heading:"Next Steps"   note:Roadmap
+//   has:repeat | priority | scheduled | tag | mention | blockid
+//   bare words / "quoted phrases" match the task text
+//
+// Terms are ANDed; combine with OR, NOT (or a leading -) and parentheses.
+// Operators are uppercase so lowercase "or"/"not" stay searchable text.
+// A task's date is its >YYYY-MM-DD, else the day of the daily note it is in.
+
+const TASK_QUERY_FIELDS = ['status', 'tag', 'mention', 'scheduled', 'priority', 'folder', 'heading', 'note', 'has'] as const;
+type TaskQueryField = (typeof TASK_QUERY_FIELDS)[number] | 'text';
+
+const TASK_QUERY_STATUSES: Record<string, TaskStatus> = {
+  open: 'open',
+  done: 'done',
+  completed: 'done',
+  cancelled: 'cancelled',
+  canceled: 'cancelled',
+  scheduled: 'scheduled',
+};
+
+const TASK_QUERY_HAS = ['repeat', 'priority', 'scheduled', 'tag', 'mention', 'blockid'];
+
+/** `scheduled:` keywords that are also NotePlan filter timeframes */
+const SCHEDULED_TIMEFRAMES: Record<string, string> = {
+  today: 'fptf_today',
+  overdue: 'fptf_past',
+  past: 'fptf_past',
+  future: 'fptf_future',
+  'last-week': 'fptf_lastWeek',
+  'this-week': 'fptf_thisWeek',
+  'next-week': 'fptf_nextWeek',
+  'last-month': 'fptf_lastMonth',
+  'this-month': 'fptf_thisMonth',
+  'next-month': 'fptf_nextMonth',
+  'last-year': 'fptf_lastYear',
+  'this-year': 'fptf_thisYear',
+  'next-year': 'fptf_nextYear',
+};
+
+interface TaskQueryTerm {
+  kind: 'term';
+  field: TaskQueryField;
+  value: string;
+  statuses?: TaskStatus[];
+  range?: DateRange | 'any' | 'none';
+  timeframe?: string;
+  comparison?: { op: '=' | '>' | '>=' | '<' | '<='; value: number };
+}
+
+export type TaskQueryNode =
+  | TaskQueryTerm
+  | { kind: 'and' | 'or'; children: TaskQueryNode[] }
+  | { kind: 'not'; child: TaskQueryNode };
+
+interface TaskQueryContext {
+  note: Note;
+  task: Task;
+  heading?: string;
+  date?: string; // YYYYMMDD
+}
+
+function tokenizeTaskQuery(query: string): string[] {
+  if ((query.match(/"/g) ?? []).length % 2 !== 0) {
+    throw new Error('Unbalanced quotes in task query');
+  }
+  // Parentheses, "quoted phrases", and words (field:"quoted value" stays one token).
+  // A `-` directly before `(` negates the group, like `-term` negates a term.
+  return Array.from(
+    query.matchAll(/(-(?=\())|\(|\)|"[^"]*"|[^\s()"]+(?:"[^"]*")?/g),
+    (match) => (match[1] ? 'NOT' : match[0])
+  );
+}
+
+function unquote(value: string): string {
+  return value.startsWith('"') && value.endsWith('"') && value.length >= 2 ? value.slice(1, -1) : value;
+}
+
+function parseQueryDate(value: string): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value) || /^\d{8}$/.test(value)) return value.replace(/-/g, '');
+  throw new Error(`Invalid date in scheduled: "${value}" (use YYYY-MM-DD)`);
+}
+
+function compileTerm(token: string, options: { now: Date; firstDayOfWeek: number }): TaskQueryTerm {
+  const fieldMatch = token.match(/^([a-z]+):(.*)$/i);
+  const field = fieldMatch?.[1].toLowerCase();
+  if (!fieldMatch || !(TASK_QUERY_FIELDS as readonly string[]).includes(field!)) {
+    return { kind: 'term', field: 'text', value: unquote(token).toLowerCase() };
+  }
+  const value = unquote(fieldMatch[2]).trim();
+  if (!value) throw new Error(`Missing value for ${field}:`);
+  const term: TaskQueryTerm = { kind: 'term', field: field as TaskQueryField, value: value.toLowerCase() };
+
+  switch (field) {
+    case 'status':
+      term.statuses = value.toLowerCase().split(',').map((entry) => {
+        const status = TASK_QUERY_STATUSES[entry.trim()];
+        if (!status) throw new Error(`Unknown status "${entry}" (use open, done, cancelled, scheduled)`);
+        return status;
+      });
+      break;
+    case 'tag':
+      term.value = `#${value.replace(/^#/, '')}`.toLowerCase();
+      break;
+    case 'mention':
+      term.value = `@${value.replace(/^@/, '')}`.toLowerCase();
+      break;
+    case 'priority': {
+      const match = value.match(/^(>=|<=|>|<|=)?([0-3])$/);
+      if (!match) throw new Error(`Invalid priority "${value}" (use 0-3, optionally with >, >=, <, <=)`);
+      term.comparison = { op: (match[1] as '=' | '>' | '>=' | '<' | '<=') ?? '=', value: Number(match[2]) };
+      break;
+    }
+    case 'has':
+      if (!TASK_QUERY_HAS.includes(term.value)) {
+        throw new Error(`Unknown has:${value} (use ${TASK_QUERY_HAS.join(', ')})`);
+      }
+      break;
+    case 'scheduled': {
+      const lower = value.toLowerCase();
+      const today = new Date(options.now.getFullYear(), options.now.getMonth(), options.now.getDate());
+      const dayOffset = (days: number) => {
+        const date = new Date(today);
+        date.setDate(date.getDate() + days);
+        const key = formatDateString(date);
+        return { start: key, end: key };
+      };
+      if (lower === 'any' || lower === 'none') {
+        term.range = lower;
+      } else if (lower === 'tomorrow' || lower === 'yesterday') {
+        term.range = dayOffset(lower === 'tomorrow' ? 1 : -1);
+      } else if (SCHEDULED_TIMEFRAMES[lower]) {
+        term.timeframe = SCHEDULED_TIMEFRAMES[lower];
+        term.range = resolveTimeframeRange(
+          { timeframe: term.timeframe, customStart: null, customEnd: null },
+          options.now,
+          options.firstDayOfWeek
+        )!;
+      } else if (lower.includes('..')) {
+        const [from, to] = lower.split('..');
+        term.range = { start: from ? parseQueryDate(from) : null, end: to ? parseQueryDate(to) : null };
+      } else {
+        const day = parseQueryDate(lower);
+        term.range = { start: day, end: day };
+      }
+      break;
+    }
+  }
+  return term;
+}
+
+/**
+ * Parse a task query into an expression tree. Relative `scheduled:` ranges
+ * are resolved against `now`.
+ */
+export function parseTaskQuery(
+  query: string,
+  options: { now?: Date; firstDayOfWeek?: number } = {}
+): TaskQueryNode {
+  const tokens = tokenizeTaskQuery(query);
+  const resolved = { now: options.now ?? new Date(), firstDayOfWeek: options.firstDayOfWeek ?? getFirstDayOfWeekCached() };
+  let position = 0;
+
+  const parseOr = (): TaskQueryNode => {
+    const children = [parseAnd()];
+    while (tokens[position] === 'OR') {
+      position++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', children };
+  };
+  const parseAnd = (): TaskQueryNode => {
+    const children: TaskQueryNode[] = [];
+    while (position < tokens.length && tokens[position] !== 'OR' && tokens[position] !== ')') {
+      if (tokens[position] === 'AND') {
+        position++;
+        continue;
+      }
+      children.push(parseUnary());
+    }
+    if (children.length === 0) throw new Error('Empty expression in task query');
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  };
+  const parseUnary = (): TaskQueryNode => {
+    const token = tokens[position++];
+    if (token === 'NOT') {
+      if (position >= tokens.length || tokens[position] === ')' || tokens[position] === 'OR') {
+        throw new Error('Missing operand after NOT');
+      }
+      return { kind: 'not', child: parseUnary() };
+    }
+    if (token === '(') {
+      const inner = parseOr();
+      if (tokens[position++] !== ')') throw new Error('Missing ) in task query');
+      return inner;
+    }
+    if (token.startsWith('-') && token.length > 1) {
+      return { kind: 'not', child: compileTerm(token.slice(1), resolved) };
+    }
+    return compileTerm(token, resolved);
+  };
+
+  if (tokens.length === 0) throw new Error('query is required');
+  const root = parseOr();
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position]}" in task query`);
+  return root;
+}
+
+function matchesTerm(term: TaskQueryTerm, context: TaskQueryContext): boolean {
+  const { task, note } = context;
+  switch (term.field) {
+    case 'text':
+      return task.content.toLowerCase().includes(term.value);
+    case 'status':
+      return term.statuses!.includes(task.status);
+    case 'tag':
+      return task.tags.some((tag) => tag.toLowerCase() === term.value);
+    case 'mention':
+      return task.mentions.some((mention) => mention.toLowerCase() === term.value);
+    case 'priority': {
+      const priority = task.priority ?? 0;
+      const { op, value } = term.comparison!;
+      return op === '>' ? priority > value
+        : op === '>=' ? priority >= value
+        : op === '<' ? priority < value
+        : op === '<=' ? priority <= value
+        : priority === value;
+    }
+    case 'scheduled': {
+      if (term.range === 'any') return context.date !== undefined;
+      if (term.range === 'none') return context.date === undefined;
+      const range = term.range!;
+      return context.date !== undefined &&
+        (range.start === null || context.date >= range.start) &&
+        (range.end === null || context.date <= range.end);
+    }
+    case 'folder':
+      return isInFolder(note, term.value);
+    case 'heading':
+      return (context.heading ?? '').toLowerCase().includes(term.value);
+    case 'note':
+      return `${note.title} ${note.filename}`.toLowerCase().includes(term.value);
+    case 'has':
+      switch (term.value) {
+        case 'repeat': return hasRepeatTag(task.rawLine);
+        case 'priority': return task.priority !== undefined;
+        case 'scheduled': return context.date !== undefined;
+        case 'tag': return task.tags.length > 0;
+        case 'mention': return task.mentions.length > 0;
+        default: return task.blockId !== undefined;
+      }
+  }
+}
+
+export function evaluateTaskQuery(node: TaskQueryNode, context: TaskQueryContext): boolean {
+  switch (node.kind) {
+    case 'and': return node.children.every((child) => evaluateTaskQuery(child, context));
+    case 'or': return node.children.some((child) => evaluateTaskQuery(child, context));
+    case 'not': return !evaluateTaskQuery(node.child, context);
+    default: return matchesTerm(node, context);
+  }
+}
+
+function toFilterDate(key: string, time: string): string {
+  return `${key.slice(0, 4)}-${key.slice(4, 6)}-${key.slice(6, 8)} ${time}`;
+}
+
+/**
+ * Translate a query into NotePlan filter items. Only plain AND queries over
+ * status, one text/tag/mention keyword, one scheduled range, note: and
+ * heading: have a filter equivalent; anything else returns the reason.
+ */
+export function taskQueryToFilterItems(node: TaskQueryNode): { items: Array<{ param: string; value: string | boolean }> } | { reason: string } {
+  const terms = node.kind === 'and' ? node.children : [node];
+  const items: Array<{ param: string; value: string | boolean }> = [];
+  const statuses = new Set<TaskStatus>();
+  const seen = new Set<string>();
+  for (const term of terms) {
+    if (term.kind !== 'term') {
+      return { reason: `${term.kind.toUpperCase()} has no NotePlan filter equivalent` };
+    }
+    const slot = term.field === 'tag' || term.field === 'mention' || term.field === 'text' ? 'keyword' : term.field;
+    if (slot !== 'status' && seen.has(slot)) {
+      return { reason: `A filter holds only one ${slot === 'keyword' ? 'keyword (text, tag: or mention:)' : `${slot}:`} term` };
+    }
+    seen.add(slot);
+    switch (term.field) {
+      case 'status':
+        term.statuses!.forEach((status) => statuses.add(status));
+        break;
+      case 'text':
+      case 'tag':
+      case 'mention':
+        items.push({ param: 'fp_keyword', value: term.value });
+        break;
+      case 'note':
+        items.push({ param: 'fp_filename', value: term.value });
+        break;
+      case 'heading':
+        items.push({ param: 'fp_underHeading', value: term.value });
+        break;
+      case 'scheduled': {
+        if (term.timeframe) {
+          items.push({ param: 'fp_timeframe', value: term.timeframe });
+        } else if (term.range && typeof term.range === 'object') {
+          items.push({ param: 'fp_timeframe', value: 'fptf_custom' });
+          if (term.range.start) items.push({ param: 'fp_startDate', value: toFilterDate(term.range.start, '00:00:00') });
+          if (term.range.end) items.push({ param: 'fp_endDate', value: toFilterDate(term.range.end, '23:59:59') });
+        } else {
+          return { reason: `scheduled:${term.value} has no NotePlan filter equivalent` };
+        }
+        break;
+      }
+      default:
+        return { reason: `${term.field}: has no NotePlan filter equivalent` };
+    }
+  }
+
+  const allStatuses = statuses.size === 0;
+  items.unshift(
+    { param: 'fp_open', value: allStatuses || statuses.has('open') },
+    { param: 'fp_done', value: allStatuses || statuses.has('done') },
+    { param: 'fp_scheduled', value: allStatuses || statuses.has('scheduled') },
+    { param: 'fp_canceled', value: allStatuses || statuses.has('cancelled') },
+    { param: 'fp_noteItem', value: true },
+    { param: 'fp_datedNoteItem', value: true },
+  );
+  return { items };
+}
+
+/** Nearest heading above each line (by line index). */
+function headingsByLine(content: string): (lineIndex: number) => string | undefined {
+  const headings = extractHeadings(content);
+  return (lineIndex) => {
+    let current: string | undefined;
+    for (const heading of headings) {
+      if (heading.lineIndex >= lineIndex) break;
+      current = heading.text;
+    }
+    return current;
+  };
+}
+
+export async function queryTasks(params: z.infer<typeof queryTasksSchema>) {
+  try {
+    const query = typeof params?.query === 'string' ? params.query.trim() : '';
+    if (!query) {
+      return { success: false, error: 'query is required' };
+    }
+    const root = parseTaskQuery(query);
+
+    let filterItems: Array<{ param: string; value: string | boolean }> | undefined;
+    if (params.saveAsFilter) {
+      const mapped = taskQueryToFilterItems(root);
+      if ('reason' in mapped) {
+        return {
+          success: false,
+          error: `Query can't be saved as a NotePlan filter: ${mapped.reason}. Run it without saveAsFilter instead.`,
+        };
+      }
+      filterItems = mapped.items;
+    }
+
+    const maxNotes = toBoundedInt(params.maxNotes, 500, 1, 2000);
+    const allNotes = (await store.listNotes({ space: params.space })).filter((note) => note.type !== 'trash');
+    const scannedNotes = allNotes.slice(0, maxNotes);
+
+    const found: Array<TaskQueryContext> = [];
+    for (const note of scannedNotes) {
+      const tasks = parseTasks(note.content);
+      if (tasks.length === 0) continue;
+      const headingAt = headingsByLine(note.content);
+      const noteDate = note.type === 'calendar' && /^\d{8}$/.test(note.date ?? '') ? note.date : undefined;
+      for (const task of tasks) {
+        const context: TaskQueryContext = {
+          note,
+          task,
+          heading: headingAt(task.lineIndex),
+          date: task.scheduledDate?.replace(/-/g, '') ?? noteDate,
+        };
+        if (evaluateTaskQuery(root, context)) found.push(context);
+      }
+    }
+
+    const sortBy = params.sortBy ?? 'scheduled';
+    const descending = (params.sortOrder ?? (sortBy === 'priority' || sortBy === 'modified' ? 'desc' : 'asc')) === 'desc';
+    const keyOf = (context: TaskQueryContext): string | number | undefined => {
+      switch (sortBy) {
+        case 'priority': return context.task.priority ?? 0;
+        case 'modified': return context.note.modifiedAt?.getTime() ?? 0;
+        case 'note': return context.note.title.toLowerCase();
+        default: return context.date;
+      }
+    };
+    found.sort((a, b) => {
+      const keyA = keyOf(a);
+      const keyB = keyOf(b);
+      if (keyA !== keyB) {
+        // Tasks without a date always go last
+        if (keyA === undefined) return 1;
+        if (keyB === undefined) return -1;
+        const order = keyA < keyB ? -1 : 1;
+        return descending ? -order : order;
+      }
+      return a.note.filename.localeCompare(b.note.filename) || a.task.lineIndex - b.task.lineIndex;
+    });
+
+    const offset = toBoundedInt(params.cursor ?? params.offset, 0, 0, Number.MAX_SAFE_INTEGER);
+    const limit = toBoundedInt(params.limit, 30, 1, 300);
+    const page = found.slice(offset, offset + limit);
+    const hasMore = offset + page.length < found.length;
+
+    let savedFilter: Record<string, unknown> | undefined;
+    if (params.saveAsFilter && filterItems) {
+      const stored = await filterStore.saveFilter(params.saveAsFilter, filterItems, {
+        overwrite: params.overwriteFilter === true,
+      });
+      savedFilter = { name: stored.name, itemCount: stored.items.length, items: stored.items };
+    }
+
+    const result: Record<string, unknown> = {
+      success: true,
+      query,
+      count: page.length,
+      totalCount: found.length,
+      offset,
+      limit,
+      hasMore,
+      nextCursor: hasMore ? String(offset + page.length) : null,
+      sortBy,
+      sortOrder: descending ? 'desc' : 'asc',
+      scannedNoteCount: scannedNotes.length,
+      totalNotes: allNotes.length,
+      truncatedByMaxNotes: allNotes.length > scannedNotes.length,
+      tasks: page.map(({ note, task, heading, date }) => ({
+        note: {
+          id: note.id,
+          title: note.title,
+          filename: note.filename,
+          type: note.type,
+          source: note.source,
+          folder: note.folder,
+          spaceId: note.spaceId,
+        },
+        lineIndex: task.lineIndex,
+        line: task.lineIndex + 1,
+        content: task.content,
+        status: task.status,
+        tags: task.tags,
+        mentions: task.mentions,
+        scheduledDate: task.scheduledDate,
+        date: date ? `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}` : undefined,
+        priority: task.priority,
+        heading,
+        blockId: task.blockId,
+      })),
+      ...(savedFilter && { savedFilter }),
+    };
+    if (result.truncatedByMaxNotes) {
+      result.performanceHints = ['Increase maxNotes or narrow the space to reduce truncation.'];
+    }
+    return result;
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to query tasks',
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Task dependencies (^blockid + @blocked-by(^blockid))
+// ---------------------------------------------------------------------------
+
+function summarizeTaskRef({ note, task }: TaskRef) {
+  return {
+    filename: note.filename,
+    title: note.title,
+    noteId: note.id,
+    lineIndex: task.lineIndex,
+    line: task.lineIndex + 1,
+    content: task.content,
+    status: task.status,
+    blockId: task.blockId,
+  };
+}
+
+function isInFolder(note: Note, folder: string): boolean {
+  const normalized = folder.replace(/^\/+|\/+$/g, '').replace(/^Notes\//, '').toLowerCase();
+  const noteFolder = (note.folder || '').replace(/^Notes\/?/, '').toLowerCase();
+  return noteFolder === normalized || noteFolder.startsWith(`${normalized}/`);
+}
+
+export async function listTaskDependencies(params: z.infer<typeof listTaskDependenciesSchema>) {
+  const state = params.dependencyState ?? 'blocked';
+  const noteQuery = typeof params.noteQuery === 'string' ? params.noteQuery.trim().toLowerCase() : '';
+  // Blockers can live anywhere, so index the whole vault (or space) and
+  // apply folder/noteQuery only to the reported tasks.
+  const notes = (await store.listNotes({ space: params.space })).filter((note) => note.type !== 'trash');
+  const index = buildDependencyIndex(notes);
+
+  const entries: Array<Record<string, unknown>> = [];
+  let blockedCount = 0;
+  let unblockedCount = 0;
+  for (const ref of index.dependents) {
+    const { note, task } = ref;
+    if (params.folder && !isInFolder(note, params.folder)) continue;
+    if (noteQuery && !`${note.title} ${note.filename} ${note.folder || ''}`.toLowerCase().includes(noteQuery)) continue;
+
+    const blockers = resolveBlockers(task, index);
+    const taskState = isTaskCleared(task) ? 'completed' : blockers.open.length > 0 ? 'blocked' : 'unblocked';
+    if (taskState === 'blocked') blockedCount++;
+    if (taskState === 'unblocked') unblockedCount++;
+    if (state !== 'all' && taskState !== state) continue;
+
+    entries.push({
+      ...summarizeTaskRef(ref),
+      note: {
+        id: note.id,
+        title: note.title,
+        filename: note.filename,
+        type: note.type,
+        source: note.source,
+        folder: note.folder,
+        spaceId: note.spaceId,
+      },
+      state: taskState,
+      blockedBy: task.blockedBy,
+      openBlockers: blockers.open.map(summarizeTaskRef),
+      clearedBlockers: blockers.cleared.map((blocker) => blocker.task.blockId),
+      missingBlockers: blockers.missing.length > 0 ? blockers.missing : undefined,
+    });
+  }
+
+  const offset = toBoundedInt(params.cursor ?? params.offset, 0, 0, Number.MAX_SAFE_INTEGER);
+  const limit = toBoundedInt(params.limit, 50, 1, 300);
+  const page = entries.slice(offset, offset + limit);
+  const hasMore = offset + page.length < entries.length;
+
+  return {
+    success: true,
+    dependencyState: state,
+    count: page.length,
+    totalCount: entries.length,
+    blockedCount,
+    unblockedCount,
+    offset,
+    limit,
+    hasMore,
+    nextCursor: hasMore ? String(offset + page.length) : null,
+    tasks: page,
+  };
+}
+
+/**
+ * Notes that take part in a task's dependencies, found by searching for the
+ * block IDs involved instead of reading every note: the task's blockers,
+ * the tasks waiting on it, and those dependents' other blockers (so
+ * `unblockedTasks` doesn't report a task another open blocker still holds).
+ */
+async function findDependencyNotes(note: Note, task: Task, space: string | undefined): Promise<Note[]> {
+  const found = new Map<string, Note>();
+  const searched = new Set<string>();
+  let pending = [...(task.blockId ? [task.blockId] : []), ...(task.blockedBy ?? [])];
+
+  for (let round = 0; round < 2 && pending.length > 0; round++) {
+    const hits: Note[] = [];
+    for (const blockId of pending) {
+      searched.add(blockId);
+      const search = await store.searchNotes(blockId, { space, limit: 200 });
+      for (const { note: hit } of search.results) {
+        if (hit.id === note.id || hit.type === 'trash' || found.has(hit.id)) continue;
+        // Search backends may return partial notes; dependencies need the full content
+        const full = await store.getNote(hit.source === 'space' ? { id: hit.id, space } : { filename: hit.filename });
+        if (full) {
+          found.set(full.id, full);
+          hits.push(full);
+        }
+      }
+    }
+    pending = task.blockId
+      ? [...new Set(buildDependencyIndex(hits).dependents.flatMap(({ task: dependent }) => dependent.blockedBy ?? []))]
+          .filter((blockId) => !searched.has(blockId))
+      : [];
+  }
+
+  return [...found.values()];
+}
+
+type CompletionDependencyCheck =
+  | { error: Record<string, unknown> }
+  | { fields: Record<string, unknown>; blockId?: string; index?: DependencyIndex };
+
+/**
+ * Check `@blocked-by` references before marking a task done. Returns an
+ * error result when blockers are open and `force` is not set; otherwise the
+ * fields to merge into the success result.
+ */
+async function checkCompletionDependencies(
+  note: Note,
+  lineIndex: number,
+  options: { space?: string; force?: boolean }
+): Promise<CompletionDependencyCheck> {
+  const task = parseTasks(note.content).find((candidate) => candidate.lineIndex === lineIndex);
+  if (!task || (!task.blockId && (task.blockedBy?.length ?? 0) === 0)) {
+    return { fields: {} };
+  }
+
+  const others = await findDependencyNotes(note, task, options.space ?? note.spaceId);
+  const index = buildDependencyIndex([note, ...others]);
+  const blockers = resolveBlockers(task, index);
+  const fields: Record<string, unknown> = {};
+  if (blockers.open.length > 0) {
+    if (options.force !== true) {
+      return {
+        error: {
+          success: false,
+          error: `Task is blocked by ${blockers.open.length} open task(s). Complete them first, or pass force=true to complete anyway.`,
+          openBlockers: blockers.open.map(summarizeTaskRef),
+        },
+      };
+    }
+    fields.warnings = [`Completed while ${blockers.open.length} @blocked-by task(s) are still open`];
+    fields.openBlockers = blockers.open.map(summarizeTaskRef);
+  }
+  if (blockers.missing.length > 0) {
+    fields.missingBlockers = blockers.missing;
+  }
+  return { fields, blockId: task.blockId, index };
+}
+
+/** Tasks that become workable once the completed task's block ID is done. */
+function unblockedTasksField(dependencies: { blockId?: string; index?: DependencyIndex }) {
+  if (!dependencies.blockId || !dependencies.index) return {};
+  const unblocked = findTasksUnblockedBy(dependencies.blockId, dependencies.index);
+  return unblocked.length > 0 ? { unblockedTasks: unblocked.map(summarizeTaskRef) } : {};
+}
+
 export async function addTaskToNote(params: z.infer<typeof addTaskSchema>) {
   try {
     let note;
@@ -714,6 +1411,9 @@ export async function completeTask(params: z.infer<typeof completeTaskSchema>) {
     const lines = note.content.split('\n');
     const originalLine = lines[lineIndex] || '';
 
+    const dependencies = await checkCompletionDependencies(note, lineIndex, params);
+    if ('error' in dependencies) return dependencies.error;
+
     const newContent = updateTaskStatus(note.content, lineIndex, 'done');
     const writable = getWritableIdentifier(note);
     const updatedNote = await store.updateNote(writable.identifier, newContent, {
@@ -731,6 +1431,8 @@ export async function completeTask(params: z.infer<typeof completeTaskSchema>) {
       updatedLine,
       lineIndex,
       line: lineIndex + 1,
+      ...dependencies.fields,
+      ...unblockedTasksField(dependencies),
     };
   } catch (error) {
     return {
@@ -790,6 +1492,13 @@ export async function updateTask(params: z.infer<typeof updateTaskSchema>) {
     }
     const note = noteRef.note;
 
+    let dependencyFields: Record<string, unknown> = {};
+    if (params.status === 'done') {
+      const dependencies = await checkCompletionDependencies(note, lineIndex, params);
+      if ('error' in dependencies) return dependencies.error;
+      dependencyFields = { ...dependencies.fields, ...unblockedTasksField(dependencies) };
+    }
+
     let newContent = note.content;
 
     if (params.status) {
@@ -810,6 +1519,7 @@ export async function updateTask(params: z.infer<typeof updateTaskSchema>) {
       message: `Task on lineIndex ${lineIndex} (line ${lineIndex + 1}) updated`,
       lineIndex,
       line: lineIndex + 1,
+      ...dependencyFields,
     };
   } catch (error) {
     return {
@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../noteplan/file-reader.js', () => ({
+  getNotePlanPath: vi.fn(() => '/np'),
+}));
+vi.mock('../transport/bridge-fs.js', () => ({
+  readDir: vi.fn(async () => []),
+  readFileUtf8: vi.fn(async () => null),
+  writeFileUtf8: vi.fn(async () => undefined),
+  makeDirectory: vi.fn(async () => undefined),
+  pathExists: vi.fn(async () => false),
+}));
+vi.mock('../transport/bridge-availability.js', () => ({
+  getBridgeClient: vi.fn(async () => null),
+}));
+vi.mock('../noteplan/preferences.js', () => ({
+  getBridgeThemeSnapshot: vi.fn(() => ({ light: null, dark: null })),
+}));
+vi.mock('../utils/applescript.js', () => ({
+  escapeAppleScript: vi.fn((value: string) => value),
+  runAppleScript: vi.fn(),
+  getAppName: vi.fn(() => 'NotePlan'),
+}));
+
+import { writeFileUtf8 } from '../transport/bridge-fs.js';
+import { lintThemeColors, saveTheme } from './themes.js';
+
+// A dark theme with the classic problems: dim body text, code text that
+// matches its background, and everything else left to the base theme
+const murkyDark = {
+  name: 'Murky',
+  style: 'Dark' as const,
+  editor: { backgroundColor: '#1E1E1E', textColor: '#E0E0E0' },
+  styles: {
+    body: { color: '#3A3A3A' },
+    code: { color: '#202020', backgroundColor: '#222222' },
+    link: { color: 'blue' },
+  },
+};
+
+describe('lintThemeColors', () => {
+  it('flags low contrast with suggested fixes, invalid colours and inherited keys', () => {
+    const result = lintThemeColors(murkyDark);
+
+    expect(result.passed).toBe(false);
+    expect(result.baseTheme).toBe('apple-dark');
+    const errors = result.issues.filter((issue) => issue.severity === 'error');
+    expect(errors.map((issue) => `${issue.code}:${issue.path}`).sort()).toEqual([
+      'invalid_color:styles.link.color',
+      'low_contrast:styles.body.color',
+      'low_contrast:styles.code.color',
+    ]);
+    expect(result.inheritedKeys).toContain('styles.title1.color');
+    expect(result.inheritedKeys).not.toContain('styles.body.color');
+
+    const body = result.checks.find((check) => check.label === 'body')!;
+    expect(body.ratio).toBeLessThan(2);
+    // Applying the suggestions makes the theme pass
+    const fixed = lintThemeColors({
+      ...murkyDark,
+      styles: {
+        body: { color: result.suggestedFixes!['styles.body.color'] },
+        code: { color: result.suggestedFixes!['styles.code.color'], backgroundColor: '#222222' },
+        link: { color: '#E5A05C' },
+      },
+    });
+    expect(fixed.passed).toBe(true);
+  });
+
+  it('passes a theme that leaves every colour to its base theme', () => {
+    for (const style of ['Light', 'Dark'] as const) {
+      const result = lintThemeColors({ style, editor: {}, styles: {} });
+      expect(result.passed).toBe(true);
+      expect(result.issues.every((issue) => issue.code === 'missing_key')).toBe(true);
+    }
+  });
+
+  it('warns when the style does not match the background', () => {
+    const result = lintThemeColors({ style: 'Dark', editor: { backgroundColor: '#FAFAFA' }, styles: {} });
+    expect(result.issues.some((issue) => issue.code === 'style_mismatch')).toBe(true);
+  });
+});
+
+describe('saveTheme lint gate', () => {
+  beforeEach(() => {
+    vi.mocked(writeFileUtf8).mockClear();
+  });
+
+  it('refuses unreadable themes unless ignoreLint is set', async () => {
+    const refused = await saveTheme({ filename: 'murky.json', theme: murkyDark, setActive: false } as any);
+    expect(refused.success).toBe(false);
+    expect(refused.error).toMatch(/readability error/);
+    expect(writeFileUtf8).not.toHaveBeenCalled();
+
+    const saved = await saveTheme({ filename: 'murky.json', theme: murkyDark, setActive: false, ignoreLint: true } as any);
+    expect(saved.success).toBe(true);
+    expect((saved.lint as { errorCount: number }).errorCount).toBe(3);
+    expect(writeFileUtf8).toHaveBeenCalledTimes(1);
+  });
+});
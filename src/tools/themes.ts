@@ -8,6 +8,14 @@ import { readDir, readFileUtf8, writeFileUtf8, makeDirectory, pathExists } from
 import { getBridgeClient } from '../transport/bridge-availability.js';
 import { getBridgeThemeSnapshot } from '../noteplan/preferences.js';
 import { escapeAppleScript, runAppleScript, getAppName } from '../utils/applescript.js';
+import {
+  compositeOver,
+  contrastRatio,
+  parseThemeColor,
+  suggestReadableColor,
+  toHexColor,
+  type Rgba,
+} from '../utils/color-contrast.js';
 
 function themesPath(): string {
   return path.join(getNotePlanPath(), 'Themes');
@@ -61,6 +69,65 @@ const VALID_STYLE_PROPERTIES = [
 
 const FILENAME_REGEX = /^[a-zA-Z0-9_\-. ]+\.json$/;
 
+// --- Lint constants ---
+
+/**
+ * Colours a custom theme falls back to for keys it leaves out, approximating
+ * NotePlan's `default` theme for Light themes and `apple-dark` for Dark ones.
+ * Only the keys the linter checks are listed.
+ */
+const BASE_THEME_COLORS: Record<'Light' | 'Dark', { name: string; colors: Record<string, string> }> = {
+  Light: {
+    name: 'default',
+    colors: {
+      'editor.backgroundColor': '#FFFFFF',
+      'editor.textColor': '#333333',
+      'styles.body.color': '#333333',
+      'styles.title1.color': '#333333',
+      'styles.title2.color': '#333333',
+      'styles.title3.color': '#333333',
+      'styles.title4.color': '#333333',
+      'styles.code.color': '#333333',
+      'styles.code.backgroundColor': '#0A000000',
+      'styles.checked.color': '#8A8A8A',
+      'styles.link.color': '#B35F1E',
+    },
+  },
+  Dark: {
+    name: 'apple-dark',
+    colors: {
+      'editor.backgroundColor': '#1E1E1E',
+      'editor.textColor': '#DCDCDC',
+      'styles.body.color': '#DCDCDC',
+      'styles.title1.color': '#E6E6E6',
+      'styles.title2.color': '#E6E6E6',
+      'styles.title3.color': '#E6E6E6',
+      'styles.title4.color': '#E6E6E6',
+      'styles.code.color': '#DCDCDC',
+      'styles.code.backgroundColor': '#1AFFFFFF',
+      'styles.checked.color': '#8C8C8C',
+      'styles.link.color': '#E5A05C',
+    },
+  },
+};
+
+/**
+ * Text/background pairs checked for contrast. WCAG AA: 4.5 for body-size
+ * text, 3 for large text (titles) and for completed tasks, which are muted
+ * on purpose but must stay legible.
+ */
+const CONTRAST_CHECKS: Array<{ label: string; foreground: string; background: string; minRatio: number }> = [
+  { label: 'editor text', foreground: 'editor.textColor', background: 'editor.backgroundColor', minRatio: 4.5 },
+  { label: 'body', foreground: 'styles.body.color', background: 'editor.backgroundColor', minRatio: 4.5 },
+  { label: 'title1', foreground: 'styles.title1.color', background: 'editor.backgroundColor', minRatio: 3 },
+  { label: 'title2', foreground: 'styles.title2.color', background: 'editor.backgroundColor', minRatio: 3 },
+  { label: 'title3', foreground: 'styles.title3.color', background: 'editor.backgroundColor', minRatio: 3 },
+  { label: 'title4', foreground: 'styles.title4.color', background: 'editor.backgroundColor', minRatio: 3 },
+  { label: 'code', foreground: 'styles.code.color', background: 'styles.code.backgroundColor', minRatio: 4.5 },
+  { label: 'checked', foreground: 'styles.checked.color', background: 'editor.backgroundColor', minRatio: 3 },
+  { label: 'link', foreground: 'styles.link.color', background: 'editor.backgroundColor', minRatio: 4.5 },
+];
+
 // --- Schemas ---
 
 export const listThemesSchema = z.object({});
@@ -82,9 +149,15 @@ export const saveThemeSchema = z.object({
     styles: z.record(z.unknown()).describe('Text formatting styles'),
   }).describe('The theme JSON object'),
   setActive: z.boolean().optional().default(true).describe('Immediately apply the theme (default: true)'),
+  ignoreLint: z.boolean().optional().default(false).describe('Save even when the lint finds unreadable colours (default: false)'),
   mode: z.enum(['light', 'dark', 'auto']).optional().describe('Mode to apply for: light, dark, or auto (default: based on theme style)'),
 });
 
+export const lintThemeSchema = z.object({
+  filename: z.string().optional().describe('Custom theme file to lint (alternative to theme)'),
+  theme: saveThemeSchema.shape.theme.optional().describe('Theme object to lint'),
+});
+
 export const setThemeSchema = z.object({
   name: z.string().describe('Theme filename or system theme name'),
   mode: z.enum(['light', 'dark', 'auto']).optional().default('auto').describe('Mode to set: light, dark, or auto (default: auto)'),
@@ -132,6 +205,131 @@ function findUnknownKeys(obj: Record<string, unknown>, validKeys: string[]): str
   return Object.keys(obj).filter((k) => !validKeys.includes(k));
 }
 
+type ThemeLintIssue = {
+  severity: 'error' | 'warning';
+  code: 'invalid_color' | 'low_contrast' | 'missing_key' | 'style_mismatch';
+  path: string;
+  message: string;
+  suggestion?: string;
+};
+
+type ThemeInput = { style?: unknown; editor?: unknown; styles?: unknown };
+
+/** Read `editor.key` / `styles.name.property` from a theme; style colours also accept foregroundColor. */
+function readThemeValue(theme: ThemeInput, keyPath: string): unknown {
+  const [section, key, property] = keyPath.split('.');
+  const container = (section === 'editor' ? theme.editor : theme.styles) as Record<string, unknown> | undefined;
+  if (!container || typeof container !== 'object') return undefined;
+  if (section === 'editor') return container[key];
+  const style = container[key] as Record<string, unknown> | undefined;
+  if (!style || typeof style !== 'object') return undefined;
+  return property === 'color' ? style.color ?? style.foregroundColor : style[property];
+}
+
+/**
+ * Check that a theme's text stays readable: WCAG contrast for the main
+ * text/background pairs, colours that don't parse, checked keys the theme
+ * leaves to the base system theme, and a style that doesn't match the
+ * background. Low contrast and invalid colours are errors; each low-contrast
+ * pair comes with a suggested colour of the same hue that passes.
+ */
+export function lintThemeColors(theme: ThemeInput) {
+  const style = theme.style === 'Dark' ? 'Dark' : 'Light';
+  const base = BASE_THEME_COLORS[style];
+  const issues: ThemeLintIssue[] = [];
+  const inheritedKeys: string[] = [];
+
+  const resolved = new Map<string, Rgba>();
+  const resolve = (keyPath: string): Rgba => {
+    const cached = resolved.get(keyPath);
+    if (cached) return cached;
+    const raw = readThemeValue(theme, keyPath);
+    let color = raw === undefined ? null : parseThemeColor(raw);
+    if (raw !== undefined && !color) {
+      issues.push({
+        severity: 'error',
+        code: 'invalid_color',
+        path: keyPath,
+        message: `${keyPath} is ${JSON.stringify(raw)}, which is not a hex colour (#RRGGBB, #RGB or #AARRGGBB). NotePlan will ignore it.`,
+      });
+    }
+    if (!color) {
+      color = parseThemeColor(base.colors[keyPath])!;
+      if (raw === undefined) {
+        inheritedKeys.push(keyPath);
+        issues.push({
+          severity: 'warning',
+          code: 'missing_key',
+          path: keyPath,
+          message: `${keyPath} is not set; it inherits ${base.colors[keyPath]} from the ${base.name} theme.`,
+        });
+      }
+    }
+    resolved.set(keyPath, color);
+    return color;
+  };
+
+  // Translucent editor backgrounds sit on the window, approximated by the base background
+  const background = compositeOver(
+    resolve('editor.backgroundColor'),
+    parseThemeColor(base.colors['editor.backgroundColor'])!,
+  );
+  const white: Rgba = { r: 255, g: 255, b: 255, a: 1 };
+  const black: Rgba = { r: 0, g: 0, b: 0, a: 1 };
+  const backgroundIsDark = contrastRatio(background, white) > contrastRatio(background, black);
+  if ((style === 'Dark') !== backgroundIsDark) {
+    issues.push({
+      severity: 'warning',
+      code: 'style_mismatch',
+      path: 'style',
+      message: `style is "${style}" but editor.backgroundColor ${toHexColor(background)} is ${backgroundIsDark ? 'dark' : 'light'}. NotePlan uses style to pick the mode and the colours missing keys inherit.`,
+    });
+  }
+
+  const suggestedFixes: Record<string, string> = {};
+  const checks = CONTRAST_CHECKS.map((check) => {
+    const surface = check.background === 'editor.backgroundColor'
+      ? background
+      : compositeOver(resolve(check.background), background);
+    const text = compositeOver(resolve(check.foreground), surface);
+    const ratio = contrastRatio(text, surface);
+    const passed = ratio >= check.minRatio;
+    if (!passed) {
+      const suggestion = suggestReadableColor(text, surface, check.minRatio);
+      suggestedFixes[check.foreground] = suggestion;
+      issues.push({
+        severity: 'error',
+        code: 'low_contrast',
+        path: check.foreground,
+        message: `${check.label} text ${toHexColor(text)} on ${toHexColor(surface)} has contrast ${ratio.toFixed(2)}:1; needs at least ${check.minRatio}:1.`,
+        suggestion,
+      });
+    }
+    return {
+      label: check.label,
+      foreground: check.foreground,
+      background: check.background,
+      foregroundColor: toHexColor(text),
+      backgroundColor: toHexColor(surface),
+      ratio: Number(ratio.toFixed(2)),
+      minRatio: check.minRatio,
+      passed,
+    };
+  });
+
+  const errorCount = issues.filter((issue) => issue.severity === 'error').length;
+  return {
+    passed: errorCount === 0,
+    baseTheme: base.name,
+    errorCount,
+    warningCount: issues.length - errorCount,
+    issues,
+    checks,
+    inheritedKeys,
+    ...(Object.keys(suggestedFixes).length > 0 ? { suggestedFixes } : {}),
+  };
+}
+
 // --- Implementations ---
 
 export async function listThemes(_args: z.infer<typeof listThemesSchema>): Promise<Record<string, unknown>> {
@@ -203,8 +401,23 @@ export async function getTheme(args: z.infer<typeof getThemeSchema>): Promise<Re
   }
 }
 
+export async function lintTheme(args: z.infer<typeof lintThemeSchema>): Promise<Record<string, unknown>> {
+  const { filename, theme } = lintThemeSchema.parse(args);
+
+  if (theme) {
+    return { success: true, ...lintThemeColors(theme) };
+  }
+  if (!filename) {
+    return { success: false, error: 'Provide theme (object) or filename (custom theme) to lint' };
+  }
+
+  const loaded = await getTheme({ filename });
+  if (!loaded.success) return loaded;
+  return { success: true, filename, ...lintThemeColors(loaded.theme as ThemeInput) };
+}
+
 export async function saveTheme(args: z.infer<typeof saveThemeSchema>): Promise<Record<string, unknown>> {
-  const { filename, theme, setActive, mode: parsedMode } = saveThemeSchema.parse(args);
+  const { filename, theme, setActive, ignoreLint, mode: parsedMode } = saveThemeSchema.parse(args);
 
   // Validate filename
   if (isPathTraversal(filename)) {
@@ -235,6 +448,20 @@ export async function saveTheme(args: z.infer<typeof saveThemeSchema>): Promise<
     }
   }
 
+  // Unreadable colours block the save unless the caller opts out
+  const lint = lintThemeColors(theme);
+  if (!lint.passed && !ignoreLint) {
+    return {
+      success: false,
+      error: `Theme has ${lint.errorCount} readability error(s); fix them (see lint.suggestedFixes) or pass ignoreLint=true to save anyway`,
+      lint,
+    };
+  }
+  const lintSummary =
+    lint.issues.length > 0
+      ? { passed: lint.passed, errorCount: lint.errorCount, warningCount: lint.warningCount, issues: lint.issues }
+      : undefined;
+
   // Build the final theme object — pass editor and styles through verbatim.
   const finalTheme: Record<string, unknown> = {
     name: theme.name,
@@ -265,6 +492,7 @@ export async function saveTheme(args: z.infer<typeof saveThemeSchema>): Promise<
         success: true,
         filename,
         unknownKeys: unknownKeys.length > 0 ? unknownKeys : undefined,
+        lint: lintSummary,
         message: `Theme saved to ${filename} but failed to activate: ${err.message}`,
       };
     }
@@ -287,6 +515,7 @@ export async function saveTheme(args: z.infer<typeof saveThemeSchema>): Promise<
       filename,
       activatedForMode: mode,
       unknownKeys: unknownKeys.length > 0 ? unknownKeys : undefined,
+      lint: lintSummary,
       message: `Theme saved and activated: ${filename}`,
       ...(modeHint ? { hint: modeHint } : {}),
     };
@@ -296,6 +525,7 @@ export async function saveTheme(args: z.infer<typeof saveThemeSchema>): Promise<
     success: true,
     filename,
     unknownKeys: unknownKeys.length > 0 ? unknownKeys : undefined,
+    lint: lintSummary,
     message: `Theme saved: ${filename}`,
   };
 }
@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { isAuthorized, startHttpTransport, RunningHttpTransport } from './http-server.js';
+
+const TOKEN = 'test-token';
+
+function createTestServer(): Server {
+  const server = new Server({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+  return server;
+}
+
+const INITIALIZE_BODY = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'vitest', version: '0.0.0' },
+  },
+};
+
+function post(running: RunningHttpTransport, body: unknown, headers: Record<string, string> = {}) {
+  return fetch(running.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('isAuthorized', () => {
+  it('accepts a matching bearer token', () => {
+    expect(isAuthorized(`Bearer ${TOKEN}`, TOKEN)).toBe(true);
+    expect(isAuthorized(`bearer ${TOKEN}`, TOKEN)).toBe(true);
+  });
+
+  it('rejects missing, malformed, or wrong tokens', () => {
+    expect(isAuthorized(undefined, TOKEN)).toBe(false);
+    expect(isAuthorized(TOKEN, TOKEN)).toBe(false);
+    expect(isAuthorized('Bearer wrong', TOKEN)).toBe(false);
+    expect(isAuthorized(`Basic ${TOKEN}`, TOKEN)).toBe(false);
+  });
+});
+
+describe('startHttpTransport', () => {
+  let running: RunningHttpTransport | null = null;
+
+  afterEach(async () => {
+    await running?.close();
+    running = null;
+  });
+
+  it('rejects requests without a bearer token', async () => {
+    running = await startHttpTransport({ port: 0, token: TOKEN, createSession: createTestServer });
+    const res = await post(running, INITIALIZE_BODY);
+    expect(res.status).toBe(401);
+    expect(res.headers.get('www-authenticate')).toBe('Bearer');
+  });
+
+  it('returns 404 outside the MCP endpoint', async () => {
+    running = await startHttpTransport({ port: 0, token: TOKEN, createSession: createTestServer });
+    const res = await fetch(`http://127.0.0.1:${running.port}/other`, {
+      headers: { Authorization: `Bearer ${TOKEN}` },
+    });
+    expect(res.status).toBe(404);
+  });
+
+  it('requires initialize before a session exists', async () => {
+    running = await startHttpTransport({ port: 0, token: TOKEN, createSession: createTestServer });
+    const res = await post(running, { jsonrpc: '2.0', id: 1, method: 'tools/list' }, { Authorization: `Bearer ${TOKEN}` });
+    expect(res.status).toBe(400);
+  });
+
+  it('opens independent sessions for each initializing client', async () => {
+    running = await startHttpTransport({ port: 0, token: TOKEN, createSession: createTestServer });
+    const auth = { Authorization: `Bearer ${TOKEN}` };
+
+    const first = await post(running, INITIALIZE_BODY, auth);
+    const second = await post(running, INITIALIZE_BODY, auth);
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(200);
+    const firstSession = first.headers.get('mcp-session-id');
+    const secondSession = second.headers.get('mcp-session-id');
+    await first.text();
+    await second.text();
+
+    expect(firstSession).toBeTruthy();
+    expect(secondSession).toBeTruthy();
+    expect(firstSession).not.toBe(secondSession);
+    expect(running.sessionCount()).toBe(2);
+  });
+
+  it('closes sessions that stay idle', async () => {
+    running = await startHttpTransport({ port: 0, token: TOKEN, createSession: createTestServer, sessionIdleMs: 50 });
+    const res = await post(running, INITIALIZE_BODY, { Authorization: `Bearer ${TOKEN}` });
+    const sessionId = res.headers.get('mcp-session-id')!;
+    await res.text();
+    expect(running.sessionCount()).toBe(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(running.sessionCount()).toBe(0);
+    const stale = await post(
+      running,
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      { Authorization: `Bearer ${TOKEN}`, 'mcp-session-id': sessionId }
+    );
+    expect(stale.status).toBe(404);
+  });
+
+  it('rejects unknown session IDs', async () => {
+    running = await startHttpTransport({ port: 0, token: TOKEN, createSession: createTestServer });
+    const res = await post(
+      running,
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      { Authorization: `Bearer ${TOKEN}`, 'mcp-session-id': 'nope' }
+    );
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,237 @@
+// MCP Streamable HTTP transport (SSE + JSON) bound to localhost.
+//
+// One process can serve several agent hosts at once: each MCP session gets
+// its own transport + Server pair from `createSession`, while the expensive
+// state (bridge client, NotePlan config, NoteCache warm-up, SQLite) lives in
+// module-level singletons that every session shares. The MCP SDK binds a
+// Server to exactly one transport, so per-session servers are the only way
+// to multiplex clients without re-warming anything. Sessions whose client
+// went away without a DELETE are closed after `sessionIdleMs` with no open
+// request (an open SSE stream counts as one).
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export const MCP_HTTP_PATH = '/mcp';
+const LOOPBACK_HOST = '127.0.0.1';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const SESSION_HEADER = 'mcp-session-id';
+const DEFAULT_SESSION_IDLE_MS = 30 * 60_000;
+
+export interface HttpTransportOptions {
+  port: number;
+  token: string;
+  createSession: () => Server;
+  /** Close a session after this long without an open request (default 30 min) */
+  sessionIdleMs?: number;
+}
+
+export interface RunningHttpTransport {
+  port: number;
+  url: string;
+  sessionCount: () => number;
+  close: () => Promise<void>;
+}
+
+/** Constant-time comparison of the `Authorization: Bearer …` header. */
+export function isAuthorized(header: string | undefined, token: string): boolean {
+  if (!header) return false;
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  const provided = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  if (provided.length !== expected.length) return false;
+  return crypto.timingSafeEqual(provided, expected);
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf8');
+      if (!raw.trim()) {
+        resolve(undefined);
+        return;
+      }
+      try {
+        resolve(JSON.parse(raw));
+      } catch {
+        reject(new Error('Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  /** Requests (including SSE streams) still open */
+  openRequests: number;
+  idleTimer: NodeJS.Timeout | null;
+}
+
+/** Count `res` as activity on `session` until it finishes; the idle timer runs while nothing is open. */
+function trackRequest(session: Session, res: http.ServerResponse, sessionIdleMs: number): void {
+  session.openRequests++;
+  if (session.idleTimer) {
+    clearTimeout(session.idleTimer);
+    session.idleTimer = null;
+  }
+  res.once('close', () => {
+    session.openRequests--;
+    if (session.openRequests === 0) scheduleIdleClose(session, sessionIdleMs);
+  });
+}
+
+function scheduleIdleClose(session: Session, sessionIdleMs: number): void {
+  if (session.idleTimer) clearTimeout(session.idleTimer);
+  session.idleTimer = setTimeout(() => {
+    session.idleTimer = null;
+    console.error(`[noteplan-mcp] HTTP session idle for ${Math.round(sessionIdleMs / 1000)}s, closing: ${session.transport.sessionId}`);
+    // onclose removes the session entry
+    void session.transport.close().catch(() => {});
+  }, sessionIdleMs);
+  session.idleTimer.unref();
+}
+
+export async function startHttpTransport(options: HttpTransportOptions): Promise<RunningHttpTransport> {
+  const { token, createSession } = options;
+  const sessionIdleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+  const sessions = new Map<string, Session>();
+
+  const httpServer = http.createServer((req, res) => {
+    void handle(req, res).catch((err) => {
+      console.error('[noteplan-mcp] HTTP request failed:', err);
+      sendJsonRpcError(res, 500, 'Internal server error');
+    });
+  });
+
+  // Filled in once listen() resolves so allowedHosts matches the real port
+  // (important when port 0 is requested).
+  let allowedHosts: string[] = [];
+
+  async function handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', `http://${LOOPBACK_HOST}`);
+    if (url.pathname !== MCP_HTTP_PATH) {
+      sendJsonRpcError(res, 404, `Not found. MCP endpoint is ${MCP_HTTP_PATH}`);
+      return;
+    }
+    if (!isAuthorized(headerValue(req.headers.authorization), token)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJsonRpcError(res, 401, 'Unauthorized: missing or invalid bearer token');
+      return;
+    }
+
+    const sessionId = headerValue(req.headers[SESSION_HEADER]);
+    const existing = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (req.method === 'POST') {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (err) {
+        sendJsonRpcError(res, 400, err instanceof Error ? err.message : 'Invalid request body');
+        return;
+      }
+
+      if (existing) {
+        trackRequest(existing, res, sessionIdleMs);
+        await existing.transport.handleRequest(req, res, body);
+        return;
+      }
+      if (sessionId) {
+        sendJsonRpcError(res, 404, `Unknown session: ${sessionId}`);
+        return;
+      }
+      if (!isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, 'Bad request: no session ID provided and body is not an initialize request');
+        return;
+      }
+
+      const server = createSession();
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => crypto.randomUUID(),
+        enableDnsRebindingProtection: true,
+        allowedHosts,
+        onsessioninitialized: (id) => {
+          sessions.set(id, session);
+          console.error(`[noteplan-mcp] HTTP session opened: ${id} (${sessions.size} active)`);
+        },
+      });
+      const session: Session = { transport, server, openRequests: 0, idleTimer: null };
+      transport.onclose = () => {
+        if (session.idleTimer) clearTimeout(session.idleTimer);
+        const id = transport.sessionId;
+        if (id && sessions.delete(id)) {
+          console.error(`[noteplan-mcp] HTTP session closed: ${id} (${sessions.size} active)`);
+        }
+      };
+      trackRequest(session, res, sessionIdleMs);
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!existing) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, sessionId ? `Unknown session: ${sessionId}` : 'Bad request: missing session ID');
+        return;
+      }
+      trackRequest(existing, res, sessionIdleMs);
+      await existing.transport.handleRequest(req, res);
+      return;
+    }
+
+    res.setHeader('Allow', 'GET, POST, DELETE');
+    sendJsonRpcError(res, 405, `Method not allowed: ${req.method}`);
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, LOOPBACK_HOST, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const port = (httpServer.address() as AddressInfo).port;
+  allowedHosts = [`${LOOPBACK_HOST}:${port}`, `localhost:${port}`];
+
+  return {
+    port,
+    url: `http://${LOOPBACK_HOST}:${port}${MCP_HTTP_PATH}`,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      for (const { transport } of sessions.values()) {
+        await transport.close().catch(() => {});
+      }
+      sessions.clear();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
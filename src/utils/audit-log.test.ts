@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  __resetAuditLogForTests,
+  buildAuditEntry,
+  queryAuditEntries,
+  recordToolCall,
+} from './audit-log.js';
+import { parseAuditTime, queryAudit } from '../tools/audit.js';
+
+describe('buildAuditEntry', () => {
+  afterEach(() => {
+    __resetAuditLogForTests();
+  });
+
+  it('records the resolved target and token use, and redacts content', () => {
+    const entry = buildAuditEntry({
+      tool: 'noteplan_manage_note',
+      args: {
+        action: 'update',
+        title: 'Plan',
+        content: '# Plan\nsecret roadmap',
+        fullReplace: true,
+        confirmationToken: 'tok_123',
+      },
+      result: { success: true, note: { filename: 'Notes/Projects/Plan.md', title: 'Plan' } },
+      backends: ['bridge'],
+      durationMs: 12,
+      client: { name: 'claude-desktop', version: '1.0' },
+      sessionId: 'session-1',
+    });
+
+    expect(entry).toMatchObject({
+      tool: 'noteplan_manage_note',
+      action: 'update',
+      target: { filename: 'Notes/Projects/Plan.md', title: 'Plan' },
+      args: { content: '[redacted 21 chars]', confirmationToken: '[token]', fullReplace: true },
+      backends: ['bridge'],
+      client: { name: 'claude-desktop' },
+      sessionId: 'session-1',
+      confirmationToken: 'used',
+      success: true,
+    });
+    expect(JSON.stringify(entry)).not.toContain('secret');
+    expect(JSON.stringify(entry)).not.toContain('tok_123');
+
+    const reminder = buildAuditEntry({
+      tool: 'noteplan_reminders',
+      args: { action: 'create', title: 'Call bank', notes: 'account 1234' },
+      result: { success: true },
+      backends: ['bridge'],
+      durationMs: 5,
+    });
+    expect(reminder.args).toMatchObject({ notes: '[redacted 12 chars]' });
+
+    const property = buildAuditEntry({
+      tool: 'noteplan_manage_note',
+      args: { action: 'set_property', filename: 'Notes/Client.md', key: 'salary', value: '95000', properties: { salary: '95000' } },
+      result: { success: true },
+      backends: ['file'],
+      durationMs: 4,
+    });
+    expect(property.args).toMatchObject({ key: 'salary', value: '[redacted 5 chars]', properties: '[redacted]' });
+    expect(JSON.stringify(property)).not.toContain('95000');
+
+    const preview = buildAuditEntry({
+      tool: 'noteplan_folders',
+      args: { action: 'delete', path: '/Projects/', dryRun: true },
+      result: { success: false, error: 'Folder not found', code: 'ERR_NOT_FOUND' },
+      backends: [],
+      durationMs: 3,
+    });
+    expect(preview).toMatchObject({
+      target: { folder: 'Projects' },
+      dryRun: true,
+      success: false,
+      error: 'Folder not found',
+      errorCode: 'ERR_NOT_FOUND',
+    });
+  });
+});
+
+describe('audit log files', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'noteplan-audit-'));
+    vi.stubEnv('NOTEPLAN_AUDIT_LOG', 'true');
+    vi.stubEnv('NOTEPLAN_AUDIT_LOG_DIR', dir);
+    __resetAuditLogForTests();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+    __resetAuditLogForTests();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('rotates by size and day, prunes old days, and queries across files', () => {
+    vi.stubEnv('NOTEPLAN_AUDIT_LOG_MAX_MB', '0.001');
+    vi.stubEnv('NOTEPLAN_AUDIT_LOG_RETENTION_DAYS', '7');
+    __resetAuditLogForTests();
+    fs.writeFileSync(path.join(dir, 'audit-2026-01-01.jsonl'), '');
+    vi.useFakeTimers({ toFake: ['Date'] });
+
+    const call = (tool: string, args: Record<string, unknown>, success = true) =>
+      recordToolCall({ tool, args, result: { success }, backends: ['fallback'], durationMs: 1, startedAt: new Date() });
+
+    vi.setSystemTime(new Date('2026-03-16T10:00:00Z'));
+    for (let i = 0; i < 10; i++) call('noteplan_get_notes', { filename: `Notes/Read ${i}.md` });
+    vi.setSystemTime(new Date('2026-03-17T09:00:00Z'));
+    call('noteplan_folders', { action: 'delete', path: 'Projects', confirmationToken: 'tok' });
+    call('noteplan_manage_note', { action: 'delete', filename: 'Notes/Projects/Plan.md' }, false);
+
+    const files = fs.readdirSync(dir).sort();
+    expect(files).toContain('audit-2026-03-16.1.jsonl');
+    expect(files).toContain('audit-2026-03-17.jsonl');
+    expect(files).not.toContain('audit-2026-01-01.jsonl');
+    for (const file of files) {
+      // 0.001 MB; one entry may overshoot a fresh file
+      expect(fs.statSync(path.join(dir, file)).size).toBeLessThan(1024 + 600);
+    }
+
+    expect(queryAuditEntries().length).toBe(12);
+    const deletes = queryAudit({ since: '2026-03-17', toolAction: 'delete', target: 'projects' });
+    expect(deletes).toMatchObject({ success: true, totalCount: 2 });
+    const [latest] = (deletes.entries as Array<Record<string, unknown>>);
+    expect(latest).toMatchObject({ tool: 'noteplan_manage_note', success: false });
+
+    const folderDeletes = queryAudit({ tool: 'noteplan_folders', success: true, until: '2026-03-17' });
+    expect(folderDeletes.entries).toEqual([expect.objectContaining({ confirmationToken: 'used', target: { folder: 'Projects' } })]);
+    expect(queryAudit({ until: '2026-03-16' }).totalCount).toBe(10);
+    expect(queryAudit({ since: 'last tuesday' })).toMatchObject({ success: false });
+  });
+});
+
+describe('parseAuditTime', () => {
+  it('accepts durations, day names and ISO dates', () => {
+    const now = new Date(2026, 2, 17, 12, 0, 0);
+    expect(parseAuditTime('24h', false, now)).toEqual(new Date(2026, 2, 16, 12, 0, 0));
+    expect(parseAuditTime('yesterday', false, now)).toEqual(new Date(2026, 2, 16));
+    expect(parseAuditTime('2026-03-10', true, now)).toEqual(new Date(2026, 2, 10, 23, 59, 59, 999));
+    expect(parseAuditTime('2026-03-10T08:00:00Z', false, now)).toEqual(new Date('2026-03-10T08:00:00Z'));
+    expect(parseAuditTime('soon', false, now)).toBeNull();
+  });
+});
@@ -0,0 +1,371 @@
+// Opt-in audit log of tool calls.
+//
+// NOTEPLAN_AUDIT_LOG=true                  → append one JSON line per tool call
+// NOTEPLAN_AUDIT_LOG_DIR=…                 → log directory (default ~/.noteplan-mcp/audit)
+// NOTEPLAN_AUDIT_LOG_MAX_MB=10             → start a new file for the day past this size
+// NOTEPLAN_AUDIT_LOG_RETENTION_DAYS=30     → delete files older than this (0 keeps everything)
+// NOTEPLAN_AUDIT_LOG_CONTENT=true          → keep note content in the logged arguments
+//
+// Files are named audit-YYYY-MM-DD.jsonl (UTC day), then audit-YYYY-MM-DD.1.jsonl,
+// .2, … once a day's file reaches the size limit. Entries record who called
+// what on which note or folder, never the content written (unless
+// NOTEPLAN_AUDIT_LOG_CONTENT is set) and never confirmation tokens. Like the
+// history journal, logging is best-effort: a failed write never fails the call.
+
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import crypto from 'crypto';
+
+export interface AuditTarget {
+  filename?: string;
+  id?: string;
+  title?: string;
+  date?: string;
+  folder?: string;
+  destination?: string;
+  space?: string;
+  /** Filters, themes, events, reminders, … */
+  name?: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  tool: string;
+  action?: string;
+  target: AuditTarget;
+  /** Redacted arguments */
+  args: Record<string, unknown>;
+  backends: string[];
+  client?: { name: string; version: string };
+  sessionId?: string;
+  dryRun?: boolean;
+  /** `issued` when a dryRun returned a token, `used` when the call presented one */
+  confirmationToken?: 'issued' | 'used';
+  durationMs: number;
+  success: boolean;
+  error?: string;
+  errorCode?: string;
+}
+
+export interface AuditLogConfig {
+  enabled: boolean;
+  dir: string;
+  maxFileBytes: number;
+  retentionDays: number;
+  includeContent: boolean;
+}
+
+export interface ToolCallRecord {
+  tool: string;
+  args: unknown;
+  result: unknown;
+  backends: string[];
+  durationMs: number;
+  client?: { name: string; version: string };
+  sessionId?: string;
+  startedAt?: Date;
+}
+
+export interface AuditQuery {
+  since?: Date;
+  until?: Date;
+  tool?: string;
+  action?: string;
+  /** Case-insensitive substring of any target field */
+  target?: string;
+  success?: boolean;
+}
+
+const DEFAULT_MAX_MB = 10;
+const DEFAULT_RETENTION_DAYS = 30;
+const FILE_PATTERN = /^audit-(\d{4}-\d{2}-\d{2})(?:\.(\d+))?\.jsonl$/;
+const MAX_LOGGED_STRING = 500;
+
+// Argument keys that carry note or file content rather than a reference to it
+const CONTENT_KEYS = new Set(['content', 'notes', 'value', 'properties', 'operations', 'html', 'patches', 'theme', 'data']);
+
+const TARGET_KEYS: Array<[keyof AuditTarget, string[]]> = [
+  ['filename', ['filename']],
+  ['id', ['id', 'noteId']],
+  ['title', ['title']],
+  ['date', ['date']],
+  ['folder', ['folder', 'path', 'parentPath', 'sourcePath']],
+  ['destination', ['destinationFolder', 'destinationFilename', 'destinationId', 'destinationTitle', 'destinationDate', 'newFilename', 'newTitle', 'newName', 'outputPath']],
+  ['space', ['space']],
+  ['name', ['name', 'oldName', 'eventId', 'reminderId', 'target', 'pluginId', 'attachmentFilename']],
+];
+
+let cachedConfig: AuditLogConfig | null = null;
+let currentFile: { day: string; index: number; size: number } | null = null;
+let lastPrunedDay: string | null = null;
+
+function envBool(key: string): boolean {
+  const v = process.env[key];
+  return v?.toLowerCase() === 'true' || v === '1';
+}
+
+function envNumber(key: string, fallback: number): number {
+  const raw = process.env[key];
+  const value = Number(raw);
+  return raw && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function getAuditLogConfig(): AuditLogConfig {
+  if (cachedConfig) return cachedConfig;
+  const dir = process.env.NOTEPLAN_AUDIT_LOG_DIR?.trim();
+  cachedConfig = {
+    enabled: envBool('NOTEPLAN_AUDIT_LOG'),
+    dir: dir ? path.resolve(dir) : path.join(os.homedir(), '.noteplan-mcp', 'audit'),
+    maxFileBytes: (envNumber('NOTEPLAN_AUDIT_LOG_MAX_MB', DEFAULT_MAX_MB) || DEFAULT_MAX_MB) * 1024 * 1024,
+    retentionDays: Math.floor(envNumber('NOTEPLAN_AUDIT_LOG_RETENTION_DAYS', DEFAULT_RETENTION_DAYS)),
+    includeContent: envBool('NOTEPLAN_AUDIT_LOG_CONTENT'),
+  };
+  return cachedConfig;
+}
+
+export function isAuditLogEnabled(): boolean {
+  return getAuditLogConfig().enabled;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function normalizePath(value: string): string {
+  return value.trim().replace(/\\/g, '/').replace(/^\.?\/+/, '').replace(/\/+$/, '');
+}
+
+/** The note/folder a call acted on: the resolved note from the result when there is one, else the arguments. */
+export function extractAuditTarget(args: unknown, result?: unknown): AuditTarget {
+  const input = asRecord(args);
+  const target: AuditTarget = {};
+  for (const [field, keys] of TARGET_KEYS) {
+    const key = keys.find((candidate) => typeof input[candidate] === 'string' && (input[candidate] as string).trim());
+    if (!key) continue;
+    const value = (input[key] as string).trim();
+    target[field] = field === 'filename' || field === 'folder' || field === 'destination' ? normalizePath(value) : value;
+  }
+
+  const output = asRecord(result);
+  const note = asRecord(output.note);
+  const resolvedFilename = typeof note.filename === 'string' ? note.filename : output.filename;
+  if (typeof resolvedFilename === 'string' && resolvedFilename.trim()) {
+    target.filename = normalizePath(resolvedFilename);
+  }
+  if (!target.id && typeof note.id === 'string' && note.source === 'space') {
+    target.id = note.id;
+  }
+  return target;
+}
+
+function redactValue(key: string, value: unknown, includeContent: boolean): unknown {
+  if (key === 'confirmationToken') return '[token]';
+  if (!includeContent && CONTENT_KEYS.has(key)) {
+    if (typeof value === 'string') return `[redacted ${value.length} chars]`;
+    if (Array.isArray(value)) return `[redacted ${value.length} items]`;
+    if (value && typeof value === 'object') return '[redacted]';
+  }
+  if (typeof value === 'string' && value.length > MAX_LOGGED_STRING) {
+    return includeContent ? value : `${value.slice(0, MAX_LOGGED_STRING)}… [${value.length} chars]`;
+  }
+  if (Array.isArray(value)) return value.map((item) => redactValue('', item, includeContent));
+  if (value && typeof value === 'object') return redactArgs(value, includeContent);
+  return value;
+}
+
+/** Tool arguments safe to log: content replaced by its length, tokens dropped. */
+export function redactArgs(args: unknown, includeContent = getAuditLogConfig().includeContent): Record<string, unknown> {
+  const redacted: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(asRecord(args))) {
+    redacted[key] = redactValue(key, value, includeContent);
+  }
+  return redacted;
+}
+
+export function buildAuditEntry(call: ToolCallRecord): AuditEntry {
+  const args = asRecord(call.args);
+  const result = asRecord(call.result);
+  const success = result.success !== false;
+  const startedAt = call.startedAt ?? new Date();
+  const entry: AuditEntry = {
+    id: `a_${startedAt.getTime()}_${crypto.randomBytes(3).toString('hex')}`,
+    timestamp: startedAt.toISOString(),
+    tool: call.tool,
+    ...(typeof args.action === 'string' && { action: args.action }),
+    target: extractAuditTarget(args, result),
+    args: redactArgs(args),
+    backends: call.backends,
+    ...(call.client && { client: call.client }),
+    ...(call.sessionId && { sessionId: call.sessionId }),
+    ...(args.dryRun === true && { dryRun: true }),
+    durationMs: call.durationMs,
+    success,
+  };
+  if (typeof args.confirmationToken === 'string' && args.confirmationToken) {
+    entry.confirmationToken = 'used';
+  } else if (typeof result.confirmationToken === 'string') {
+    entry.confirmationToken = 'issued';
+  }
+  if (!success) {
+    entry.error = typeof result.error === 'string' ? result.error : 'unknown';
+    if (typeof result.code === 'string') entry.errorCode = result.code;
+  }
+  return entry;
+}
+
+function fileName(day: string, index: number): string {
+  return index === 0 ? `audit-${day}.jsonl` : `audit-${day}.${index}.jsonl`;
+}
+
+interface AuditFile {
+  name: string;
+  day: string;
+  index: number;
+}
+
+function listAuditFiles(dir: string): AuditFile[] {
+  let names: string[];
+  try {
+    names = fs.readdirSync(dir);
+  } catch {
+    return [];
+  }
+  const files: AuditFile[] = [];
+  for (const name of names) {
+    const match = name.match(FILE_PATTERN);
+    if (match) files.push({ name, day: match[1], index: match[2] ? Number(match[2]) : 0 });
+  }
+  return files.sort((a, b) => (a.day === b.day ? a.index - b.index : a.day < b.day ? -1 : 1));
+}
+
+function pruneOldFiles(config: AuditLogConfig, today: string): void {
+  if (config.retentionDays <= 0 || lastPrunedDay === today) return;
+  lastPrunedDay = today;
+  const cutoff = new Date(`${today}T00:00:00Z`);
+  cutoff.setUTCDate(cutoff.getUTCDate() - config.retentionDays);
+  const cutoffDay = cutoff.toISOString().slice(0, 10);
+  for (const file of listAuditFiles(config.dir)) {
+    if (file.day >= cutoffDay) continue;
+    try {
+      fs.unlinkSync(path.join(config.dir, file.name));
+    } catch (error) {
+      console.error(`[noteplan-mcp] Failed to prune audit log ${file.name}:`, error);
+    }
+  }
+}
+
+/** Pick the file the next line goes to, rotating by day and size. */
+function resolveTargetFile(config: AuditLogConfig, day: string, lineBytes: number): string {
+  if (!currentFile || currentFile.day !== day) {
+    const latest = listAuditFiles(config.dir).filter((file) => file.day === day).pop();
+    const index = latest?.index ?? 0;
+    let size = 0;
+    try {
+      size = fs.statSync(path.join(config.dir, fileName(day, index))).size;
+    } catch {
+      // New file
+    }
+    currentFile = { day, index, size };
+  }
+  if (currentFile.size > 0 && currentFile.size + lineBytes > config.maxFileBytes) {
+    currentFile = { day, index: currentFile.index + 1, size: 0 };
+  }
+  return path.join(config.dir, fileName(day, currentFile.index));
+}
+
+export function appendAuditEntry(entry: AuditEntry): void {
+  const config = getAuditLogConfig();
+  try {
+    const line = `${JSON.stringify(entry)}\n`;
+    const lineBytes = Buffer.byteLength(line, 'utf-8');
+    const day = new Date().toISOString().slice(0, 10);
+    fs.mkdirSync(config.dir, { recursive: true });
+    pruneOldFiles(config, day);
+    fs.appendFileSync(resolveTargetFile(config, day, lineBytes), line, 'utf-8');
+    currentFile!.size += lineBytes;
+  } catch (error) {
+    console.error('[noteplan-mcp] Failed to write audit log entry:', error);
+  }
+}
+
+/** Record one tool call when the audit log is enabled. */
+export function recordToolCall(call: ToolCallRecord): void {
+  if (!isAuditLogEnabled()) return;
+  appendAuditEntry(buildAuditEntry(call));
+}
+
+function matchesQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  const time = Date.parse(entry.timestamp);
+  if (query.since && time < query.since.getTime()) return false;
+  if (query.until && time > query.until.getTime()) return false;
+  if (query.tool && entry.tool !== query.tool) return false;
+  if (query.action && entry.action !== query.action) return false;
+  if (query.success !== undefined && entry.success !== query.success) return false;
+  if (query.target) {
+    const needle = query.target.toLowerCase();
+    const values = Object.values(entry.target ?? {});
+    if (!values.some((value) => typeof value === 'string' && value.toLowerCase().includes(needle))) return false;
+  }
+  return true;
+}
+
+/** Matching entries, newest first. Only the files whose day overlaps the time range are read. */
+export function queryAuditEntries(query: AuditQuery = {}): AuditEntry[] {
+  const { dir } = getAuditLogConfig();
+  // A file holds entries from its UTC day; timestamps are the call start, so
+  // a call straddling midnight can land in the next day's file
+  const sinceDay = query.since?.toISOString().slice(0, 10);
+  const untilDay = query.until ? new Date(query.until.getTime() + 86_400_000).toISOString().slice(0, 10) : undefined;
+  const entries: AuditEntry[] = [];
+  for (const file of listAuditFiles(dir)) {
+    if ((sinceDay && file.day < sinceDay) || (untilDay && file.day > untilDay)) continue;
+    let data: string;
+    try {
+      data = fs.readFileSync(path.join(dir, file.name), 'utf-8');
+    } catch {
+      continue;
+    }
+    for (const line of data.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as AuditEntry;
+        if (entry && typeof entry.tool === 'string' && matchesQuery(entry, query)) entries.push(entry);
+      } catch {
+        // Skip a torn line
+      }
+    }
+  }
+  // Reverse first so calls that started in the same millisecond keep write order (newest first)
+  return entries.reverse().sort((a, b) => (a.timestamp < b.timestamp ? 1 : a.timestamp > b.timestamp ? -1 : 0));
+}
+
+export function getAuditLogStatus() {
+  const config = getAuditLogConfig();
+  const files = listAuditFiles(config.dir).map((file) => {
+    let size = 0;
+    try {
+      size = fs.statSync(path.join(config.dir, file.name)).size;
+    } catch {
+      // Pruned meanwhile
+    }
+    return { name: file.name, day: file.day, sizeBytes: size };
+  });
+  return {
+    enabled: config.enabled,
+    dir: config.dir,
+    maxFileBytes: config.maxFileBytes,
+    retentionDays: config.retentionDays,
+    includeContent: config.includeContent,
+    fileCount: files.length,
+    totalBytes: files.reduce((sum, file) => sum + file.sizeBytes, 0),
+    files,
+  };
+}
+
+export function __resetAuditLogForTests(): void {
+  cachedConfig = null;
+  currentFile = null;
+  lastPrunedDay = null;
+}
@@ -0,0 +1,9 @@
+/**
+ * Coerce a value to boolean — handles MCP delivering boolean params as strings.
+ * Returns true for boolean true or string "true".
+ */
+export function isTrueBool(value: unknown): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string') return value.trim().toLowerCase() === 'true';
+  return false;
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { compositeOver, contrastRatio, parseThemeColor, suggestReadableColor, toHexColor } from './color-contrast.js';
+
+describe('parseThemeColor', () => {
+  it('reads #RGB, #RRGGBB and alpha-first #AARRGGBB', () => {
+    expect(parseThemeColor('#fff')).toEqual({ r: 255, g: 255, b: 255, a: 1 });
+    expect(parseThemeColor('#DD4C4F')).toEqual({ r: 221, g: 76, b: 79, a: 1 });
+    expect(parseThemeColor('#80000000')).toEqual({ r: 0, g: 0, b: 0, a: 128 / 255 });
+    expect(parseThemeColor('red')).toBeNull();
+    expect(parseThemeColor('#12345')).toBeNull();
+    expect(parseThemeColor(12)).toBeNull();
+  });
+});
+
+describe('contrastRatio', () => {
+  it('matches the WCAG reference values', () => {
+    const white = parseThemeColor('#FFFFFF')!;
+    expect(contrastRatio(parseThemeColor('#000000')!, white)).toBeCloseTo(21, 5);
+    expect(contrastRatio(white, white)).toBe(1);
+    expect(contrastRatio(parseThemeColor('#767676')!, white)).toBeCloseTo(4.54, 2);
+  });
+
+  it('measures translucent text after compositing', () => {
+    const black = parseThemeColor('#000000')!;
+    const halfWhite = compositeOver(parseThemeColor('#80FFFFFF')!, black);
+    expect(toHexColor(halfWhite)).toBe('#808080');
+  });
+});
+
+describe('suggestReadableColor', () => {
+  it('keeps the hue and moves lightness until the ratio passes', () => {
+    const background = parseThemeColor('#1E1E1E')!;
+    const suggestion = suggestReadableColor(parseThemeColor('#3A3A5A')!, background, 4.5);
+    const suggested = parseThemeColor(suggestion)!;
+    expect(contrastRatio(suggested, background)).toBeGreaterThanOrEqual(4.5);
+    expect(suggested.b).toBeGreaterThan(suggested.r);
+
+    const onWhite = parseThemeColor(suggestReadableColor(parseThemeColor('#CCCCCC')!, parseThemeColor('#FFFFFF')!, 4.5))!;
+    expect(contrastRatio(onWhite, parseThemeColor('#FFFFFF')!)).toBeGreaterThanOrEqual(4.5);
+    expect(onWhite.r).toBeLessThan(0xcc);
+  });
+
+  it('darkens on mid-grey backgrounds where black contrasts more than white', () => {
+    const background = parseThemeColor('#959595')!;
+    const suggested = parseThemeColor(suggestReadableColor(parseThemeColor('#777777')!, background, 4.5))!;
+    expect(contrastRatio(suggested, background)).toBeGreaterThanOrEqual(4.5);
+    expect(suggested.r).toBeLessThan(0x77);
+  });
+});
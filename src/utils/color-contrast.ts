@@ -0,0 +1,141 @@
+// Colour parsing and WCAG 2.x contrast maths for the theme linter.
+//
+// NotePlan theme colours are hex strings: #RGB, #RRGGBB, or #AARRGGBB with
+// the alpha byte first. Translucent colours are composited over what they
+// are drawn on before measuring, since that is what ends up on screen.
+
+export interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  /** 0-1 */
+  a: number;
+}
+
+/** Parse a theme colour; null when it isn't a hex colour NotePlan understands. */
+export function parseThemeColor(value: unknown): Rgba | null {
+  if (typeof value !== 'string') return null;
+  const hex = value.trim().replace(/^#/, '');
+  if (!/^[0-9a-fA-F]+$/.test(hex)) return null;
+  const byte = (offset: number) => parseInt(hex.slice(offset, offset + 2), 16);
+  switch (hex.length) {
+    case 3:
+      return {
+        r: parseInt(hex[0] + hex[0], 16),
+        g: parseInt(hex[1] + hex[1], 16),
+        b: parseInt(hex[2] + hex[2], 16),
+        a: 1,
+      };
+    case 6:
+      return { r: byte(0), g: byte(2), b: byte(4), a: 1 };
+    case 8:
+      return { r: byte(2), g: byte(4), b: byte(6), a: byte(0) / 255 };
+    default:
+      return null;
+  }
+}
+
+/** #RRGGBB (alpha dropped — callers composite first). */
+export function toHexColor(color: Rgba): string {
+  const part = (value: number) => Math.round(Math.max(0, Math.min(255, value))).toString(16).padStart(2, '0');
+  return `#${part(color.r)}${part(color.g)}${part(color.b)}`.toUpperCase();
+}
+
+/** Alpha-composite `top` over an opaque `bottom`. */
+export function compositeOver(top: Rgba, bottom: Rgba): Rgba {
+  const mix = (front: number, back: number) => front * top.a + back * (1 - top.a);
+  return { r: mix(top.r, bottom.r), g: mix(top.g, bottom.g), b: mix(top.b, bottom.b), a: 1 };
+}
+
+export function relativeLuminance(color: Rgba): number {
+  const channel = (value: number) => {
+    const s = value / 255;
+    return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * channel(color.r) + 0.7152 * channel(color.g) + 0.0722 * channel(color.b);
+}
+
+/** WCAG contrast ratio between two opaque colours, 1-21. */
+export function contrastRatio(a: Rgba, b: Rgba): number {
+  const la = relativeLuminance(a);
+  const lb = relativeLuminance(b);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+}
+
+function toHsl(color: Rgba): { h: number; s: number; l: number } {
+  const r = color.r / 255;
+  const g = color.g / 255;
+  const b = color.b / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  if (max === min) return { h: 0, s: 0, l };
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  let h: number;
+  if (max === r) h = (g - b) / d + (g < b ? 6 : 0);
+  else if (max === g) h = (b - r) / d + 2;
+  else h = (r - g) / d + 4;
+  return { h: h / 6, s, l };
+}
+
+function fromHsl(h: number, s: number, l: number): Rgba {
+  if (s === 0) return { r: l * 255, g: l * 255, b: l * 255, a: 1 };
+  const hue = (p: number, q: number, t: number) => {
+    const tt = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+    if (tt < 1 / 6) return p + (q - p) * 6 * tt;
+    if (tt < 1 / 2) return q;
+    if (tt < 2 / 3) return p + (q - p) * (2 / 3 - tt) * 6;
+    return p;
+  };
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  return { r: hue(p, q, h + 1 / 3) * 255, g: hue(p, q, h) * 255, b: hue(p, q, h - 1 / 3) * 255, a: 1 };
+}
+
+const WHITE: Rgba = { r: 255, g: 255, b: 255, a: 1 };
+const BLACK: Rgba = { r: 0, g: 0, b: 0, a: 1 };
+
+/** Lightness-only search in one direction; null when even the extreme fails. */
+function searchLightness(
+  h: number,
+  s: number,
+  l: number,
+  background: Rgba,
+  minRatio: number,
+  lighten: boolean
+): string | null {
+  const passes = (lightness: number) => contrastRatio(fromHsl(h, s, lightness), background) >= minRatio;
+  if (!passes(lighten ? 1 : 0)) return null;
+  // Binary search on lightness between the current value and the extreme
+  let low = lighten ? l : 0;
+  let high = lighten ? 1 : l;
+  for (let i = 0; i < 20; i += 1) {
+    const mid = (low + high) / 2;
+    if (passes(mid) === lighten) high = mid;
+    else low = mid;
+  }
+  const candidate = fromHsl(h, s, lighten ? high : low);
+  // Rounding to hex can land just under the threshold; nudge one more step
+  if (contrastRatio(parseThemeColor(toHexColor(candidate))!, background) < minRatio) {
+    return toHexColor(fromHsl(h, s, Math.max(0, Math.min(1, (lighten ? high : low) + (lighten ? 0.01 : -0.01)))));
+  }
+  return toHexColor(candidate);
+}
+
+/**
+ * The closest colour (same hue and saturation, lightness moved away from the
+ * background) that reaches `minRatio` against `background`. Moves toward
+ * whichever of white or black contrasts more with the background, then tries
+ * the other way. Falls back to that better of black and white when no
+ * lightness of the hue gets there.
+ */
+export function suggestReadableColor(foreground: Rgba, background: Rgba, minRatio: number): string {
+  const { h, s, l } = toHsl(foreground);
+  const lighten = contrastRatio(background, WHITE) >= contrastRatio(background, BLACK);
+  return (
+    searchLightness(h, s, l, background, minRatio, lighten) ??
+    searchLightness(h, s, l, background, minRatio, !lighten) ??
+    toHexColor(lighten ? WHITE : BLACK)
+  );
+}
@@ -1,5 +1,6 @@
 import { randomUUID } from 'crypto';
 import { isSkipDryRun } from './server-config.js';
+import { getCallDryRunMode } from './permission-policy.js';
 
 const DEFAULT_CONFIRMATION_TTL_MS = 10 * 60 * 1000;
 
@@ -64,7 +65,10 @@ export function validateAndConsumeConfirmationToken(
 ): ConfirmationValidationResult {
   // When NOTEPLAN_SKIP_DRY_RUN is enabled and no token was provided,
   // auto-approve — this eliminates the two-step dryRun → confirm flow.
-  if (isSkipDryRun() && (typeof token !== 'string' || token.trim().length === 0)) {
+  // A permission-policy dryRun entry for the current call overrides it.
+  const dryRunMode = getCallDryRunMode();
+  const skipDryRun = dryRunMode ? dryRunMode === 'skip' : isSkipDryRun();
+  if (skipDryRun && (typeof token !== 'string' || token.trim().length === 0)) {
     return { ok: true };
   }
 
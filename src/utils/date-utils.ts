@@ -7,7 +7,7 @@ import { getFirstDayOfWeekCached } from '../noteplan/preferences.js';
  * @param date The reference date
  * @param firstDayOfWeek 0 = Sunday, 1 = Monday, ..., 6 = Saturday
  */
-function getStartOfWeekDate(date: Date, firstDayOfWeek: number): Date {
+export function getStartOfWeekDate(date: Date, firstDayOfWeek: number): Date {
   const day = date.getDay();
   const daysToSubtract = (day - firstDayOfWeek + 7) % 7;
   const weekStart = new Date(date);
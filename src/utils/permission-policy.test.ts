@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  __resetPermissionPolicyForTests,
+  evaluatePolicy,
+  evaluatePolicyForActions,
+  getPermissionPolicyStatus,
+  setCallDryRunMode,
+  withPolicyCallScope,
+} from './permission-policy.js';
+import { issueConfirmationToken, validateAndConsumeConfirmationToken } from './confirmation-tokens.js';
+
+const YAML_POLICY = `# Agents may read and tick off tasks, nothing destructive
+allow:
+- noteplan_get_notes
+- noteplan_search
+- noteplan_paragraphs:*
+- "noteplan_manage_note:delete"   # listed, but the deny below wins
+deny:
+  - noteplan_manage_note:delete
+  - "*:rollover"
+dryRun:
+  noteplan_paragraphs:*: skip
+  noteplan_paragraphs:rollover: required
+spaces:
+  Team Wiki:
+    deny: [noteplan_paragraphs:complete]
+    dryRun:
+      noteplan_paragraphs:update: required
+`;
+
+describe('permission policy', () => {
+  let dir: string;
+
+  function usePolicy(fileName: string, content: string): void {
+    const filePath = path.join(dir, fileName);
+    fs.writeFileSync(filePath, content);
+    vi.stubEnv('NOTEPLAN_POLICY_FILE', filePath);
+    __resetPermissionPolicyForTests();
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'noteplan-policy-'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    __resetPermissionPolicyForTests();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('allows everything without a policy file', () => {
+    vi.stubEnv('NOTEPLAN_POLICY_FILE', '');
+    __resetPermissionPolicyForTests();
+    expect(getPermissionPolicyStatus()).toBe('none');
+    expect(evaluatePolicy('noteplan_manage_note', 'delete')).toEqual({ allowed: true });
+  });
+
+  it('applies allow/deny patterns and the most specific dryRun entry from YAML', () => {
+    usePolicy('policy.yaml', YAML_POLICY);
+
+    expect(evaluatePolicy('noteplan_paragraphs', 'complete')).toEqual({ allowed: true, dryRun: 'skip' });
+    expect(evaluatePolicy('noteplan_search', 'search')).toEqual({ allowed: true });
+    expect(evaluatePolicy('noteplan_manage_note', 'delete')).toMatchObject({
+      allowed: false,
+      reason: 'denied',
+      rule: 'noteplan_manage_note:delete',
+      scope: 'global',
+    });
+    expect(evaluatePolicy('noteplan_paragraphs', 'rollover')).toMatchObject({ allowed: false, rule: '*:rollover' });
+    expect(evaluatePolicy('noteplan_folders', 'list')).toMatchObject({ allowed: false, reason: 'not-allowed' });
+  });
+
+  it('adds space rules for calls naming the space by name or ID', () => {
+    usePolicy('policy.yaml', YAML_POLICY);
+
+    expect(evaluatePolicy('noteplan_paragraphs', 'complete', ['team wiki'])).toMatchObject({
+      allowed: false,
+      scope: 'space:Team Wiki',
+    });
+    expect(evaluatePolicy('noteplan_paragraphs', 'update', ['space-uuid', 'Team Wiki'])).toEqual({
+      allowed: true,
+      dryRun: 'required',
+    });
+    expect(evaluatePolicy('noteplan_paragraphs', 'complete', ['Personal'])).toEqual({ allowed: true, dryRun: 'skip' });
+  });
+
+  it('checks every operation of a batch and keeps the strictest dryRun', () => {
+    usePolicy('policy.json', JSON.stringify({
+      deny: ['noteplan_edit_content:delete_lines'],
+      dryRun: { 'noteplan_edit_content:*': 'skip', 'noteplan_edit_content:replace_lines': 'required' },
+    }));
+
+    expect(evaluatePolicyForActions('noteplan_edit_content', ['apply_batch', 'insert', 'delete_lines'])).toMatchObject({
+      allowed: false,
+      rule: 'noteplan_edit_content:delete_lines',
+    });
+    expect(evaluatePolicyForActions('noteplan_edit_content', ['apply_batch', 'insert'])).toEqual({ allowed: true, dryRun: 'skip' });
+    expect(evaluatePolicyForActions('noteplan_edit_content', ['apply_batch', 'replace_lines', 'insert'])).toEqual({
+      allowed: true,
+      dryRun: 'required',
+    });
+  });
+
+  it('fails closed when the space of a call is unknown and space rules exist', () => {
+    usePolicy('policy.yaml', YAML_POLICY);
+    expect(evaluatePolicy('noteplan_search', 'search', null)).toMatchObject({ allowed: false, reason: 'unknown-space' });
+
+    usePolicy('policy.json', JSON.stringify({ deny: ['noteplan_folders'] }));
+    expect(evaluatePolicy('noteplan_search', 'search', null)).toEqual({ allowed: true });
+  });
+
+  it('denies every call when the policy file is invalid', () => {
+    usePolicy('policy.json', JSON.stringify({ deny: ['noteplan_folders'], readOnly: true }));
+
+    expect(getPermissionPolicyStatus()).toBe('invalid');
+    const decision = evaluatePolicy('noteplan_get_notes', undefined);
+    expect(decision).toMatchObject({ allowed: false, reason: 'invalid-policy' });
+    expect(decision.allowed === false && decision.message).toMatch(/readOnly/);
+  });
+
+  it('overrides NOTEPLAN_SKIP_DRY_RUN for the current call only', async () => {
+    vi.stubEnv('NOTEPLAN_SKIP_DRY_RUN', 'true');
+    const context = { tool: 'noteplan_delete_note', target: 'Notes/A.md', action: 'delete' };
+
+    expect(validateAndConsumeConfirmationToken(undefined, context)).toEqual({ ok: true });
+    const required = await withPolicyCallScope(async () => {
+      setCallDryRunMode('required');
+      return validateAndConsumeConfirmationToken(undefined, context);
+    });
+    expect(required).toEqual({ ok: false, reason: 'missing' });
+
+    vi.stubEnv('NOTEPLAN_SKIP_DRY_RUN', 'false');
+    const skipped = await withPolicyCallScope(async () => {
+      setCallDryRunMode('skip');
+      return validateAndConsumeConfirmationToken(undefined, context);
+    });
+    expect(skipped).toEqual({ ok: true });
+    // Tokens still work when the policy requires them
+    const { confirmationToken } = issueConfirmationToken(context);
+    const confirmed = await withPolicyCallScope(async () => {
+      setCallDryRunMode('required');
+      return validateAndConsumeConfirmationToken(confirmationToken, context);
+    });
+    expect(confirmed).toEqual({ ok: true });
+  });
+});
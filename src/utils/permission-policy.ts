@@ -0,0 +1,357 @@
+// Per-tool / per-action permission policy for the MCP server.
+//
+// NOTEPLAN_POLICY_FILE points at a JSON or YAML file (YAML: block mappings,
+// `- item` lists, [a, b] flow lists, comments and quoted strings):
+//
+//   allow:                          # optional allowlist; when set, anything
+//     - noteplan_get_notes          #   not matched is denied
+//     - noteplan_search
+//     - noteplan_paragraphs:complete
+//   deny:                           # always wins over allow
+//     - noteplan_manage_note:delete
+//     - "*:delete"
+//   dryRun:                         # required | skip, per tool/action
+//     noteplan_edit_content:delete_lines: skip
+//     noteplan_folders:delete: required
+//   spaces:                         # extra rules for calls in a space
+//     Team Wiki:                    #   (space name or ID)
+//       deny: [noteplan_edit_content]
+//
+// Patterns are `tool` (any action), `tool:action`, `tool:*`, `*:action` or
+// `*`. Space rules apply on top of the global ones — a call must pass both —
+// and a space's dryRun entries override the global ones. `dryRun` overrides
+// NOTEPLAN_SKIP_DRY_RUN for actions that use the dryRun/confirmationToken
+// flow. A policy file that can't be read or parsed denies every call rather
+// than silently granting full access.
+
+import fs from 'fs';
+import path from 'path';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { z } from 'zod';
+
+const POLICY_ENV_KEY = 'NOTEPLAN_POLICY_FILE';
+
+export type DryRunMode = 'required' | 'skip';
+
+const ruleSetSchema = z
+  .object({
+    allow: z.array(z.string()).optional(),
+    deny: z.array(z.string()).optional(),
+    dryRun: z.record(z.enum(['required', 'skip'])).optional(),
+  })
+  .strict();
+
+const policySchema = ruleSetSchema
+  .extend({
+    spaces: z.record(ruleSetSchema).optional(),
+  })
+  .strict();
+
+type PolicyRuleSet = z.infer<typeof ruleSetSchema>;
+export type PermissionPolicy = z.infer<typeof policySchema>;
+
+type LoadedPolicy =
+  | { status: 'none' }
+  | { status: 'loaded'; path: string; policy: PermissionPolicy }
+  | { status: 'invalid'; path: string; error: string };
+
+export type PolicyDecision =
+  | { allowed: true; dryRun?: DryRunMode }
+  | {
+      allowed: false;
+      reason: 'denied' | 'not-allowed' | 'invalid-policy' | 'unknown-space';
+      /** The deny pattern that matched, for `denied` */
+      rule?: string;
+      /** `global` or `space:<key>` */
+      scope: string;
+      message: string;
+    };
+
+let cached: LoadedPolicy | null = null;
+
+// ── YAML subset ──
+
+function stripComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+function parseScalar(raw: string): unknown {
+  const value = raw.trim();
+  if (value === '' || value === '~' || value === 'null') return null;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'"))) {
+    return value.slice(1, -1);
+  }
+  if (value.startsWith('[') && value.endsWith(']')) {
+    const inner = value.slice(1, -1).trim();
+    return inner ? inner.split(',').map((item) => parseScalar(item)) : [];
+  }
+  if (value === '{}') return {};
+  return value;
+}
+
+/** Split `key: value` on the first colon followed by a space or the end of the line. */
+function splitKey(text: string, lineNumber: number): [string, string] {
+  const quoted = text.match(/^("([^"]*)"|'([^']*)')\s*:(\s|$)/);
+  if (quoted) return [quoted[2] ?? quoted[3], text.slice(quoted[0].length)];
+  const match = text.match(/^(.*?):(\s|$)/);
+  if (!match) throw new Error(`line ${lineNumber}: expected "key: value"`);
+  return [match[1].trim(), text.slice(match[0].length)];
+}
+
+function parseYamlSubset(text: string): unknown {
+  const lines = text
+    .split('\n')
+    .map((raw, index) => ({ raw: stripComment(raw).replace(/\s+$/, ''), number: index + 1 }))
+    .filter((line) => line.raw.trim() && line.raw.trim() !== '---');
+  let position = 0;
+
+  const indentOf = (line: string) => line.length - line.trimStart().length;
+
+  function parseBlock(indent: number): unknown {
+    const first = lines[position];
+    if (first.raw.trimStart().startsWith('- ') || first.raw.trim() === '-') {
+      const list: unknown[] = [];
+      while (
+        position < lines.length &&
+        indentOf(lines[position].raw) === indent &&
+        lines[position].raw.trim().startsWith('-')
+      ) {
+        list.push(parseScalar(lines[position].raw.trim().slice(1)));
+        position++;
+      }
+      return list;
+    }
+    const map: Record<string, unknown> = {};
+    while (position < lines.length && indentOf(lines[position].raw) === indent) {
+      const line = lines[position];
+      const [key, rest] = splitKey(line.raw.trim(), line.number);
+      position++;
+      if (rest.trim()) {
+        map[key] = parseScalar(rest);
+      } else if (
+        position < lines.length &&
+        (indentOf(lines[position].raw) > indent ||
+          // Lists may sit at the key's own indentation
+          (indentOf(lines[position].raw) === indent && lines[position].raw.trim().startsWith('-')))
+      ) {
+        map[key] = parseBlock(indentOf(lines[position].raw));
+      } else {
+        map[key] = null;
+      }
+    }
+    return map;
+  }
+
+  if (lines.length === 0) return {};
+  const result = parseBlock(indentOf(lines[0].raw));
+  if (position < lines.length) {
+    throw new Error(`line ${lines[position].number}: unexpected indentation`);
+  }
+  return result;
+}
+
+// ── Loading ──
+
+function parsePolicyFile(filePath: string): PermissionPolicy {
+  const text = fs.readFileSync(filePath, 'utf-8');
+  const extension = path.extname(filePath).toLowerCase();
+  let raw: unknown;
+  if (extension === '.json' || (extension !== '.yaml' && extension !== '.yml' && text.trimStart().startsWith('{'))) {
+    raw = JSON.parse(text);
+  } else {
+    raw = parseYamlSubset(text);
+  }
+  const parsed = policySchema.safeParse(raw ?? {});
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; '));
+  }
+  return parsed.data;
+}
+
+function loadPolicy(): LoadedPolicy {
+  if (cached) return cached;
+  const configured = process.env[POLICY_ENV_KEY]?.trim();
+  if (!configured) {
+    cached = { status: 'none' };
+    return cached;
+  }
+  const filePath = path.resolve(configured);
+  try {
+    cached = { status: 'loaded', path: filePath, policy: parsePolicyFile(filePath) };
+  } catch (error) {
+    cached = { status: 'invalid', path: filePath, error: error instanceof Error ? error.message : String(error) };
+  }
+  return cached;
+}
+
+/** Test-only: drop the cache so the next call re-reads the env var and file. */
+export function __resetPermissionPolicyForTests(): void {
+  cached = null;
+}
+
+/** One-line description for the startup log, or null when no policy is configured. */
+export function describePermissionPolicy(): string | null {
+  const loaded = loadPolicy();
+  if (loaded.status === 'none') return null;
+  if (loaded.status === 'invalid') {
+    return `INVALID (${loaded.path}): ${loaded.error} — all tool calls will be denied`;
+  }
+  const { allow, deny, dryRun, spaces } = loaded.policy;
+  return `${loaded.path} (${allow?.length ?? 0} allow, ${deny?.length ?? 0} deny, ${Object.keys(dryRun ?? {}).length} dryRun, ${Object.keys(spaces ?? {}).length} space rules)`;
+}
+
+// ── Evaluation ──
+
+/** Higher is more specific; -1 when the pattern doesn't match. */
+function patternSpecificity(pattern: string, tool: string, action: string | undefined): number {
+  const separator = pattern.indexOf(':');
+  const toolPart = (separator === -1 ? pattern : pattern.slice(0, separator)).trim();
+  const actionPart = separator === -1 ? null : pattern.slice(separator + 1).trim();
+  if (toolPart !== '*' && toolPart !== tool) return -1;
+  if (actionPart !== null && actionPart !== '*' && actionPart !== action) return -1;
+  const toolScore = toolPart === '*' ? 0 : 2;
+  const actionScore = actionPart === null || actionPart === '*' ? 0 : 1;
+  return toolScore + actionScore;
+}
+
+function firstMatch(patterns: string[] | undefined, tool: string, action: string | undefined): string | undefined {
+  return patterns?.find((pattern) => patternSpecificity(pattern, tool, action) >= 0);
+}
+
+function evaluateRuleSet(
+  rules: PolicyRuleSet,
+  tool: string,
+  action: string | undefined,
+  scope: string,
+): PolicyDecision {
+  const label = action ? `${tool}:${action}` : tool;
+  const where = scope === 'global' ? 'the permission policy' : `the permission policy for ${scope.replace(/^space:/, 'space ')}`;
+  const denyRule = firstMatch(rules.deny, tool, action);
+  if (denyRule) {
+    return { allowed: false, reason: 'denied', rule: denyRule, scope, message: `${label} is denied by ${where} (rule "${denyRule}")` };
+  }
+  if (rules.allow && rules.allow.length > 0 && !firstMatch(rules.allow, tool, action)) {
+    return { allowed: false, reason: 'not-allowed', scope, message: `${label} is not in the allow list of ${where}` };
+  }
+
+  let dryRun: DryRunMode | undefined;
+  let best = -1;
+  for (const [pattern, mode] of Object.entries(rules.dryRun ?? {})) {
+    const score = patternSpecificity(pattern, tool, action);
+    if (score > best) {
+      best = score;
+      dryRun = mode;
+    }
+  }
+  return { allowed: true, ...(dryRun && { dryRun }) };
+}
+
+/**
+ * Decide whether a tool call may run. `spaceKeys` are the names/IDs of the
+ * space the call targets; space rules whose key matches one of them
+ * (case-insensitive) apply on top of the global rules. `null` means the
+ * target space could not be determined, which is denied while any space
+ * rules exist.
+ */
+export function evaluatePolicy(tool: string, action: string | undefined, spaceKeys: string[] | null = []): PolicyDecision {
+  const loaded = loadPolicy();
+  if (loaded.status === 'none') return { allowed: true };
+  if (loaded.status === 'invalid') {
+    return {
+      allowed: false,
+      reason: 'invalid-policy',
+      scope: 'global',
+      message: `The permission policy ${loaded.path} could not be loaded (${loaded.error}); all tool calls are denied until it is fixed`,
+    };
+  }
+
+  const global = evaluateRuleSet(loaded.policy, tool, action, 'global');
+  if (!global.allowed) return global;
+
+  if (spaceKeys === null && Object.keys(loaded.policy.spaces ?? {}).length > 0) {
+    const label = action ? `${tool}:${action}` : tool;
+    return {
+      allowed: false,
+      reason: 'unknown-space',
+      scope: 'global',
+      message: `${label} is denied because its space could not be determined and the permission policy has space rules`,
+    };
+  }
+
+  const wanted = new Set((spaceKeys ?? []).map((key) => key.trim().toLowerCase()).filter(Boolean));
+  let dryRun = global.dryRun;
+  for (const [key, rules] of Object.entries(loaded.policy.spaces ?? {})) {
+    if (!wanted.has(key.trim().toLowerCase())) continue;
+    const spaceDecision = evaluateRuleSet(rules, tool, action, `space:${key}`);
+    if (!spaceDecision.allowed) return spaceDecision;
+    dryRun = spaceDecision.dryRun ?? dryRun;
+  }
+  return { allowed: true, ...(dryRun && { dryRun }) };
+}
+
+/**
+ * evaluatePolicy over every action one call runs, such as an apply_batch and
+ * each of its operations. Denied when any of them is; the dryRun mode is the
+ * strictest one matched (`required` beats `skip`).
+ */
+export function evaluatePolicyForActions(
+  tool: string,
+  actions: Array<string | undefined>,
+  spaceKeys: string[] | null = []
+): PolicyDecision {
+  let dryRun: DryRunMode | undefined;
+  for (const action of actions) {
+    const decision = evaluatePolicy(tool, action, spaceKeys);
+    if (!decision.allowed) return decision;
+    if (decision.dryRun === 'required' || (decision.dryRun === 'skip' && !dryRun)) dryRun = decision.dryRun;
+  }
+  return { allowed: true, ...(dryRun && { dryRun }) };
+}
+
+/** True when the policy has space rules, so callers know to resolve `space` first. */
+export function hasSpacePolicyRules(): boolean {
+  const loaded = loadPolicy();
+  return loaded.status === 'loaded' && Object.keys(loaded.policy.spaces ?? {}).length > 0;
+}
+
+/** `none` without NOTEPLAN_POLICY_FILE; `invalid` when the file can't be read or parsed. */
+export function getPermissionPolicyStatus(): LoadedPolicy['status'] {
+  return loadPolicy().status;
+}
+
+// ── Per-call dryRun override ──
+
+interface PolicyCallContext {
+  dryRun?: DryRunMode;
+}
+
+const callStorage = new AsyncLocalStorage<PolicyCallContext>();
+
+/** Run one tool call in a scope that `setCallDryRunMode` can annotate. */
+export function withPolicyCallScope<T>(fn: () => Promise<T>): Promise<T> {
+  return callStorage.run({}, fn);
+}
+
+export function setCallDryRunMode(mode: DryRunMode | undefined): void {
+  const context = callStorage.getStore();
+  if (context) context.dryRun = mode;
+}
+
+/** The policy's dryRun override for the current tool call, if any. */
+export function getCallDryRunMode(): DryRunMode | undefined {
+  return callStorage.getStore()?.dryRun;
+}
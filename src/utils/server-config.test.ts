@@ -1,10 +1,22 @@
 import { describe, it, expect, afterEach } from 'vitest';
-import { isReadOnly, isSkipDryRun } from './server-config.js';
+import {
+  isReadOnly,
+  isSkipDryRun,
+  getTransportMode,
+  getHttpPort,
+  getHttpToken,
+  getHttpSessionIdleMs,
+  DEFAULT_HTTP_PORT,
+} from './server-config.js';
 
 describe('server-config', () => {
   afterEach(() => {
     delete process.env.NOTEPLAN_READ_ONLY;
     delete process.env.NOTEPLAN_SKIP_DRY_RUN;
+    delete process.env.NOTEPLAN_MCP_TRANSPORT;
+    delete process.env.NOTEPLAN_MCP_HTTP_PORT;
+    delete process.env.NOTEPLAN_MCP_HTTP_TOKEN;
+    delete process.env.NOTEPLAN_MCP_HTTP_SESSION_IDLE_MINUTES;
   });
 
   describe('isReadOnly', () => {
@@ -59,4 +71,71 @@ describe('server-config', () => {
       expect(isSkipDryRun()).toBe(false);
     });
   });
+
+  describe('getTransportMode', () => {
+    it('defaults to stdio', () => {
+      expect(getTransportMode([])).toBe('stdio');
+    });
+
+    it('reads NOTEPLAN_MCP_TRANSPORT', () => {
+      process.env.NOTEPLAN_MCP_TRANSPORT = 'HTTP';
+      expect(getTransportMode([])).toBe('http');
+    });
+
+    it('accepts --http and --transport flags', () => {
+      expect(getTransportMode(['--http'])).toBe('http');
+      expect(getTransportMode(['--transport=http'])).toBe('http');
+      expect(getTransportMode(['--transport', 'http'])).toBe('http');
+    });
+
+    it('lets CLI flags override the env var', () => {
+      process.env.NOTEPLAN_MCP_TRANSPORT = 'http';
+      expect(getTransportMode(['--stdio'])).toBe('stdio');
+      expect(getTransportMode(['--transport=stdio'])).toBe('stdio');
+    });
+  });
+
+  describe('getHttpPort', () => {
+    it('returns the default port when unset', () => {
+      expect(getHttpPort([])).toBe(DEFAULT_HTTP_PORT);
+    });
+
+    it('reads --port before NOTEPLAN_MCP_HTTP_PORT', () => {
+      process.env.NOTEPLAN_MCP_HTTP_PORT = '4000';
+      expect(getHttpPort([])).toBe(4000);
+      expect(getHttpPort(['--port=4100'])).toBe(4100);
+    });
+
+    it('falls back to the default for invalid values', () => {
+      process.env.NOTEPLAN_MCP_HTTP_PORT = '70000';
+      expect(getHttpPort([])).toBe(DEFAULT_HTTP_PORT);
+      expect(getHttpPort(['--port=abc'])).toBe(DEFAULT_HTTP_PORT);
+    });
+  });
+
+  describe('getHttpSessionIdleMs', () => {
+    it('defaults to 30 minutes and ignores invalid values', () => {
+      expect(getHttpSessionIdleMs()).toBe(30 * 60_000);
+      process.env.NOTEPLAN_MCP_HTTP_SESSION_IDLE_MINUTES = '-5';
+      expect(getHttpSessionIdleMs()).toBe(30 * 60_000);
+    });
+
+    it('reads NOTEPLAN_MCP_HTTP_SESSION_IDLE_MINUTES', () => {
+      process.env.NOTEPLAN_MCP_HTTP_SESSION_IDLE_MINUTES = '5';
+      expect(getHttpSessionIdleMs()).toBe(5 * 60_000);
+    });
+  });
+
+  describe('getHttpToken', () => {
+    it('returns null when unset or blank', () => {
+      expect(getHttpToken()).toBeNull();
+      process.env.NOTEPLAN_MCP_HTTP_TOKEN = '   ';
+      expect(getHttpToken()).toBeNull();
+    });
+
+    it('returns the trimmed token', () => {
+      process.env.NOTEPLAN_MCP_HTTP_TOKEN = ' secret ';
+      expect(getHttpToken()).toBe('secret');
+    });
+  });
 });
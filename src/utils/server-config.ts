@@ -5,6 +5,15 @@
  * NOTEPLAN_SKIP_DRY_RUN=true    → skip the two-step dryRun/confirmationToken flow
  * NOTEPLAN_MCP_AUTOLAUNCH=false → suppress AppleScript-triggered NotePlan launches
  *                                  during bridge discovery (default: launch on probe)
+ * NOTEPLAN_MCP_TRANSPORT=http    → serve MCP Streamable HTTP on localhost instead of
+ *                                  stdio (CLI: --http or --transport=http)
+ * NOTEPLAN_MCP_HTTP_PORT=3921    → HTTP listen port (CLI: --port=<n>)
+ * NOTEPLAN_MCP_HTTP_TOKEN=…      → bearer token HTTP clients must send (required in http mode)
+ * NOTEPLAN_MCP_HTTP_SESSION_IDLE_MINUTES=30 → close HTTP sessions with no open request
+ *                                  for this long
+ *
+ * Finer-grained per-tool/per-action rules live in the NOTEPLAN_POLICY_FILE
+ * policy (see permission-policy.ts).
  */
 
 function envBool(key: string): boolean {
@@ -31,3 +40,52 @@ export function shouldAutoLaunchNotePlan(): boolean {
   const normalized = v.toLowerCase();
   return normalized !== 'false' && normalized !== '0';
 }
+
+export type TransportMode = 'stdio' | 'http';
+
+export const DEFAULT_HTTP_PORT = 3921;
+export const DEFAULT_HTTP_SESSION_IDLE_MINUTES = 30;
+
+/** Value of `--name=value` or `--name value` in argv, if present. */
+function cliOption(argv: string[], name: string): string | undefined {
+  const flag = `--${name}`;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith(`${flag}=`)) return arg.slice(flag.length + 1);
+    if (arg === flag && i + 1 < argv.length && !argv[i + 1].startsWith('--')) return argv[i + 1];
+  }
+  return undefined;
+}
+
+/** Transport picked by CLI flag (`--http`, `--stdio`, `--transport=<mode>`)
+ *  first, then `NOTEPLAN_MCP_TRANSPORT`. Defaults to stdio. */
+export function getTransportMode(argv: string[] = process.argv.slice(2)): TransportMode {
+  if (argv.includes('--http')) return 'http';
+  if (argv.includes('--stdio')) return 'stdio';
+  const raw = (cliOption(argv, 'transport') ?? process.env.NOTEPLAN_MCP_TRANSPORT ?? '').trim().toLowerCase();
+  return raw === 'http' ? 'http' : 'stdio';
+}
+
+/** HTTP listen port from `--port` or `NOTEPLAN_MCP_HTTP_PORT`. Invalid values
+ *  fall back to the default rather than failing startup. */
+export function getHttpPort(argv: string[] = process.argv.slice(2)): number {
+  const raw = cliOption(argv, 'port') ?? process.env.NOTEPLAN_MCP_HTTP_PORT;
+  const port = Number(raw);
+  if (!raw || !Number.isInteger(port) || port < 1 || port > 65535) return DEFAULT_HTTP_PORT;
+  return port;
+}
+
+/** How long an HTTP session may go without an open request before it is
+ *  closed, in ms. Invalid values fall back to the default. */
+export function getHttpSessionIdleMs(): number {
+  const raw = process.env.NOTEPLAN_MCP_HTTP_SESSION_IDLE_MINUTES;
+  const minutes = Number(raw);
+  if (!raw || !Number.isFinite(minutes) || minutes <= 0) return DEFAULT_HTTP_SESSION_IDLE_MINUTES * 60_000;
+  return minutes * 60_000;
+}
+
+/** Bearer token for the HTTP transport, or null when unset/blank. */
+export function getHttpToken(): string | null {
+  const token = process.env.NOTEPLAN_MCP_HTTP_TOKEN?.trim();
+  return token ? token : null;
+}
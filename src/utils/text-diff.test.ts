@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { buildDiffPreview, buildUnifiedDiff } from './text-diff.js';
+
+describe('buildUnifiedDiff', () => {
+  it('returns an empty diff for identical content', () => {
+    expect(buildUnifiedDiff('a\nb', 'a\nb')).toEqual({ diff: '', addedLines: 0, removedLines: 0, truncated: false });
+  });
+
+  it('renders a single changed line with context', () => {
+    const before = ['# Plan', 'one', 'two', 'three', 'four', 'five'].join('\n');
+    const after = ['# Plan', 'one', 'two', 'THREE', 'four', 'five'].join('\n');
+    const result = buildUnifiedDiff(before, after, { label: 'Notes/Plan.md', context: 1 });
+    expect(result.diff).toBe(
+      ['--- a/Notes/Plan.md', '+++ b/Notes/Plan.md', '@@ -3,3 +3,3 @@', ' two', '-three', '+THREE', ' four'].join('\n')
+    );
+    expect(result.addedLines).toBe(1);
+    expect(result.removedLines).toBe(1);
+  });
+
+  it('splits distant changes into separate hunks', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const after = [...before];
+    after[1] = 'changed 2';
+    after[17] = 'changed 18';
+    const hunks = buildUnifiedDiff(before.join('\n'), after.join('\n')).diff
+      .split('\n')
+      .filter((line) => line.startsWith('@@'));
+    expect(hunks).toEqual(['@@ -1,5 +1,5 @@', '@@ -15,6 +15,6 @@']);
+  });
+
+  it('reports pure insertions and deletions with zero-length ranges', () => {
+    const inserted = buildUnifiedDiff('a\nb', 'a\nx\nb', { context: 0 });
+    expect(inserted.diff.split('\n').slice(2)).toEqual(['@@ -1,0 +2,1 @@', '+x']);
+
+    const deleted = buildUnifiedDiff('a\nx\nb', 'a\nb', { context: 0 });
+    expect(deleted.diff.split('\n').slice(2)).toEqual(['@@ -2,1 +1,0 @@', '-x']);
+  });
+
+  it('finds the minimal edit script inside reordered lines', () => {
+    const result = buildUnifiedDiff('a\nb\nc\nd', 'b\nc\na\nd', { context: 0 });
+    expect(result.addedLines).toBe(1);
+    expect(result.removedLines).toBe(1);
+  });
+
+  it('caps the diff body and flags truncation', () => {
+    const before = Array.from({ length: 50 }, (_, i) => `old ${i}`).join('\n');
+    const after = Array.from({ length: 50 }, (_, i) => `new ${i}`).join('\n');
+    const result = buildUnifiedDiff(before, after, { maxLines: 10 });
+    expect(result.truncated).toBe(true);
+    expect(result.addedLines).toBe(50);
+    expect(result.diff.split('\n')).toHaveLength(2 + 10 + 1);
+    expect(result.diff).toMatch(/more diff line\(s\) truncated$/);
+  });
+
+  it('caps the diff body by characters as well as lines', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `${'x'.repeat(90)} ${i}`).join('\n');
+    const result = buildUnifiedDiff(before, '', { maxChars: 500 });
+    expect(result.truncated).toBe(true);
+    expect(result.diff.length).toBeLessThan(700);
+  });
+
+  it('shows path changes in the headers, even without content changes', () => {
+    expect(buildUnifiedDiff('a', 'a', { fromLabel: 'Notes/A.md', toLabel: 'Archive/A.md' }).diff).toBe(
+      ['--- a/Notes/A.md', '+++ b/Archive/A.md'].join('\n')
+    );
+  });
+
+  it('renders a deleted note against /dev/null', () => {
+    const result = buildUnifiedDiff('# Old\ntext', '', { fromLabel: 'Notes/Old.md', toLabel: null });
+    expect(result.diff).toBe(['--- a/Notes/Old.md', '+++ /dev/null', '@@ -1,2 +0,0 @@', '-# Old', '-text'].join('\n'));
+  });
+});
+
+describe('buildDiffPreview', () => {
+  it('summarizes added and removed lines', () => {
+    const preview = buildDiffPreview('a\nb', 'a\nc\nd');
+    expect(preview.diffSummary).toEqual({
+      addedLines: 2,
+      removedLines: 1,
+      truncated: false,
+      summary: '2 line(s) added, 1 removed',
+    });
+  });
+});
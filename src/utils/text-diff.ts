@@ -0,0 +1,231 @@
+// Line-based unified diffs for conflict reports and previews.
+//
+// Myers' O((N+M)D) algorithm over lines after trimming the common prefix and
+// suffix, so a small edit in a long note stays cheap. Past MAX_EDIT_DISTANCE
+// the notes are treated as rewritten (one delete block + one insert block)
+// instead of spending memory on the exact edit script.
+
+type DiffOp = { type: 'equal' | 'delete' | 'insert'; line: string };
+
+export interface UnifiedDiffOptions {
+  /** Path shown in both ---/+++ headers */
+  label?: string;
+  /** Path before/after when it changes (move, rename); null renders /dev/null */
+  fromLabel?: string | null;
+  toLabel?: string | null;
+  /** Unchanged lines around each change (default: 3) */
+  context?: number;
+  /** Cap on diff body lines; the rest is dropped and `truncated` set (default: 200) */
+  maxLines?: number;
+  /** Cap on diff body characters, applied after maxLines (default: 20000) */
+  maxChars?: number;
+}
+
+export interface UnifiedDiff {
+  diff: string;
+  addedLines: number;
+  removedLines: number;
+  truncated: boolean;
+}
+
+/** Diff fields spread into dryRun and conflict responses. */
+export interface DiffPreview {
+  diff: string;
+  diffSummary: {
+    addedLines: number;
+    removedLines: number;
+    truncated: boolean;
+    summary: string;
+  };
+}
+
+const MAX_EDIT_DISTANCE = 2000;
+
+function myersDiff(a: string[], b: string[]): DiffOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v[-d..d] as it was before step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(trace, a, b);
+      }
+    }
+  }
+  return null;
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const row = trace[d];
+    const at = (k: number) => row[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', line: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'insert', line: b[y - 1] });
+      } else {
+        ops.push({ type: 'delete', line: a[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return ops.reverse();
+}
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const aMid = a.slice(prefix, a.length - suffix);
+  const bMid = b.slice(prefix, b.length - suffix);
+  const middle = myersDiff(aMid, bMid) ?? [
+    ...aMid.map((line): DiffOp => ({ type: 'delete', line })),
+    ...bMid.map((line): DiffOp => ({ type: 'insert', line })),
+  ];
+
+  return [
+    ...a.slice(0, prefix).map((line): DiffOp => ({ type: 'equal', line })),
+    ...middle,
+    ...a.slice(a.length - suffix).map((line): DiffOp => ({ type: 'equal', line })),
+  ];
+}
+
+/** Unified diff (`diff -u` style) between two versions of a note. */
+export function buildUnifiedDiff(before: string, after: string, options: UnifiedDiffOptions = {}): UnifiedDiff {
+  const context = options.context ?? 3;
+  const maxLines = options.maxLines ?? 200;
+  const maxChars = options.maxChars ?? 20_000;
+  const label = options.label ?? 'note';
+  const fromLabel = options.fromLabel === undefined ? label : options.fromLabel;
+  const toLabel = options.toLabel === undefined ? label : options.toLabel;
+  const header = [
+    fromLabel === null ? '--- /dev/null' : `--- a/${fromLabel}`,
+    toLabel === null ? '+++ /dev/null' : `+++ b/${toLabel}`,
+  ];
+
+  // A /dev/null side has no lines at all (not one empty line)
+  const beforeLines = fromLabel === null ? [] : before.split('\n');
+  const afterLines = toLabel === null ? [] : after.split('\n');
+  const ops = before === after && fromLabel !== null && toLabel !== null ? [] : diffLines(beforeLines, afterLines);
+  let addedLines = 0;
+  let removedLines = 0;
+  for (const op of ops) {
+    if (op.type === 'insert') addedLines++;
+    if (op.type === 'delete') removedLines++;
+  }
+  if (addedLines === 0 && removedLines === 0) {
+    // A pure move/rename still shows where the note goes
+    const diff = fromLabel !== toLabel ? header.join('\n') : '';
+    return { diff, addedLines: 0, removedLines: 0, truncated: false };
+  }
+
+  // Group changes into hunks that share context
+  const changeIndexes = ops.flatMap((op, index) => (op.type === 'equal' ? [] : [index]));
+  const hunks: Array<{ start: number; end: number }> = [];
+  for (const index of changeIndexes) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(ops.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last.end) {
+      last.end = Math.max(last.end, end);
+    } else {
+      hunks.push({ start, end });
+    }
+  }
+
+  // 1-based line numbers in before/after at each op index
+  const oldLineAt: number[] = [];
+  const newLineAt: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    oldLineAt.push(oldLine);
+    newLineAt.push(newLine);
+    if (op.type !== 'insert') oldLine++;
+    if (op.type !== 'delete') newLine++;
+  }
+
+  const body: string[] = [];
+  for (const hunk of hunks) {
+    const slice = ops.slice(hunk.start, hunk.end);
+    const oldCount = slice.filter((op) => op.type !== 'insert').length;
+    const newCount = slice.filter((op) => op.type !== 'delete').length;
+    const oldStart = oldCount === 0 ? oldLineAt[hunk.start] - 1 : oldLineAt[hunk.start];
+    const newStart = newCount === 0 ? newLineAt[hunk.start] - 1 : newLineAt[hunk.start];
+    body.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const op of slice) {
+      const marker = op.type === 'insert' ? '+' : op.type === 'delete' ? '-' : ' ';
+      body.push(`${marker}${op.line}`);
+    }
+  }
+
+  const kept: string[] = [];
+  let keptChars = 0;
+  for (const line of body) {
+    if (kept.length >= maxLines || keptChars + line.length + 1 > maxChars) break;
+    kept.push(line);
+    keptChars += line.length + 1;
+  }
+  const truncated = kept.length < body.length;
+  if (truncated) {
+    kept.push(`... ${body.length - kept.length} more diff line(s) truncated`);
+  }
+
+  return {
+    diff: [...header, ...kept].join('\n'),
+    addedLines,
+    removedLines,
+    truncated,
+  };
+}
+
+export function buildDiffPreview(before: string, after: string, options: UnifiedDiffOptions = {}): DiffPreview {
+  const result = buildUnifiedDiff(before, after, options);
+  const parts = [`${result.addedLines} line(s) added`, `${result.removedLines} removed`];
+  if (result.truncated) parts.push('diff truncated');
+  return {
+    diff: result.diff,
+    diffSummary: {
+      addedLines: result.addedLines,
+      removedLines: result.removedLines,
+      truncated: result.truncated,
+      summary: parts.join(', '),
+    },
+  };
+}